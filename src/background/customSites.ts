@@ -0,0 +1,34 @@
+/**
+ * Content script registration for user-defined feed sites.
+ *
+ * The manifest injects content.ts on the built-in feed sites only. Sites
+ * added in Settings get it through a dynamic registration that is rebuilt
+ * whenever the list changes; content.ts then finds its CustomSite in settings.
+ */
+
+import feedScript from '../content/content.ts?script';
+import { customSiteMatchPatterns } from '../common/customSites';
+import type { CustomSite } from '../common/types';
+
+const SCRIPT_ID = 'scrolllearn-custom-sites';
+
+export async function syncCustomSiteScripts(sites: CustomSite[]): Promise<void> {
+  const registered = await chrome.scripting.getRegisteredContentScripts({ ids: [SCRIPT_ID] });
+  const matches = customSiteMatchPatterns(sites);
+
+  if (registered.length > 0) {
+    const current = registered[0].matches ?? [];
+    if (current.length === matches.length && current.every(pattern => matches.includes(pattern))) return;
+    await chrome.scripting.unregisterContentScripts({ ids: [SCRIPT_ID] });
+  }
+  if (matches.length === 0) return;
+
+  await chrome.scripting.registerContentScripts([{
+    id: SCRIPT_ID,
+    matches,
+    js: [feedScript],
+    css: ['content.css'],
+    runAt: 'document_idle',
+    persistAcrossSessions: true,
+  }]);
+}
@@ -0,0 +1,257 @@
+import type { Card, Grade } from '../common/types';
+
+/**
+ * FSRS (Free Spaced Repetition Scheduler) Implementation
+ *
+ * Follows the FSRS-4.5 memory model: every card carries a stability S (days
+ * until recall probability decays to 90%) and a difficulty D (1..10). The
+ * probability of recall R after t days is (1 + FACTOR * t / S) ^ DECAY, and
+ * the next interval is the t at which R drops to the deck's desired
+ * retention.
+ *
+ * Grade mapping onto FSRS ratings:
+ * - 0 = Again -> 1
+ * - 1 = Hard  -> 2
+ * - 2 = Good  -> 3
+ * - 3 = Easy  -> 4
+ */
+
+// Default FSRS-4.5 weights, trained by the FSRS authors on a large corpus of
+// Anki review logs.
+export const DEFAULT_FSRS_WEIGHTS: readonly number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+export const DEFAULT_DESIRED_RETENTION = 0.9;
+export const MIN_DESIRED_RETENTION = 0.7;
+export const MAX_DESIRED_RETENTION = 0.97;
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const MIN_STABILITY = 0.1;
+const MAX_INTERVAL_DAYS = 36500;
+const MS_PER_DAY = 86400 * 1000;
+const MS_PER_MINUTE = 60 * 1000;
+
+// Failed cards come back after the same 10-minute relearn delay SM-2 uses, so
+// switching a deck's algorithm does not change what "Again" feels like.
+const FAIL_INTERVAL_MINUTES = 10;
+
+// SM-2 ease range, used when seeding difficulty from an existing card.
+const SM2_MIN_EASE = 1.3;
+const SM2_MAX_EASE = 3.5;
+
+type Rating = 1 | 2 | 3 | 4;
+
+function toRating(grade: Grade): Rating {
+  return (grade + 1) as Rating;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * A deck's fitted weights when present and well-formed, else the defaults
+ */
+export function resolveFsrsWeights(weights: readonly number[] | undefined): readonly number[] {
+  if (!weights || weights.length !== DEFAULT_FSRS_WEIGHTS.length) return DEFAULT_FSRS_WEIGHTS;
+  return weights.every(Number.isFinite) ? weights : DEFAULT_FSRS_WEIGHTS;
+}
+
+/**
+ * Clamp a user-entered desired retention into the supported range
+ */
+export function normalizeDesiredRetention(value: number | undefined): number {
+  if (value === undefined || !Number.isFinite(value)) return DEFAULT_DESIRED_RETENTION;
+  return clamp(value, MIN_DESIRED_RETENTION, MAX_DESIRED_RETENTION);
+}
+
+/**
+ * Probability of recall after `elapsedDays` for a memory of the given stability
+ */
+export function retrievability(elapsedDays: number, stability: number): number {
+  if (stability <= 0) return 0;
+  return Math.pow(1 + FACTOR * Math.max(0, elapsedDays) / stability, DECAY);
+}
+
+/**
+ * Current probability of recall for a card, or null when it has no FSRS state
+ */
+export function fsrsRetrievability(card: Card, now: number = Date.now()): number | null {
+  if (card.stability === undefined || card.lastReviewedAt === undefined) return null;
+  return retrievability((now - card.lastReviewedAt) / MS_PER_DAY, card.stability);
+}
+
+/**
+ * Days until recall probability decays to `desiredRetention`
+ */
+export function nextIntervalDays(stability: number, desiredRetention: number): number {
+  const raw = (stability / FACTOR) * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+  return clamp(Math.round(raw), 1, MAX_INTERVAL_DAYS);
+}
+
+function initialStability(rating: Rating, w: readonly number[]): number {
+  return Math.max(MIN_STABILITY, w[rating - 1]);
+}
+
+function initialDifficulty(rating: Rating, w: readonly number[]): number {
+  return clamp(w[4] - (rating - 3) * w[5], MIN_DIFFICULTY, MAX_DIFFICULTY);
+}
+
+function nextDifficulty(difficulty: number, rating: Rating, w: readonly number[]): number {
+  const shifted = difficulty - w[6] * (rating - 3);
+  // Mean reversion towards the difficulty of a fresh "Good" card keeps
+  // difficulty from drifting to either bound after long streaks.
+  const reverted = w[7] * initialDifficulty(3, w) + (1 - w[7]) * shifted;
+  return clamp(reverted, MIN_DIFFICULTY, MAX_DIFFICULTY);
+}
+
+function nextRecallStability(
+  difficulty: number,
+  stability: number,
+  r: number,
+  rating: Rating,
+  w: readonly number[],
+): number {
+  const hardPenalty = rating === 2 ? w[15] : 1;
+  const easyBonus = rating === 4 ? w[16] : 1;
+  return stability * (
+    1 +
+    Math.exp(w[8]) *
+      (11 - difficulty) *
+      Math.pow(stability, -w[9]) *
+      (Math.exp(w[10] * (1 - r)) - 1) *
+      hardPenalty *
+      easyBonus
+  );
+}
+
+function nextForgetStability(
+  difficulty: number,
+  stability: number,
+  r: number,
+  w: readonly number[],
+): number {
+  const forgotten = w[11] *
+    Math.pow(difficulty, -w[12]) *
+    (Math.pow(stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - r));
+  // A lapse can never make the memory more stable than it was.
+  return clamp(forgotten, MIN_STABILITY, stability);
+}
+
+/**
+ * Derive FSRS state from a card's SM-2 history.
+ *
+ * Used when a deck switches from SM-2 to FSRS so existing cards keep their
+ * progress instead of restarting as new. The SM-2 interval is the best
+ * available estimate of stability (SM-2 schedules roughly at 90% recall),
+ * ease maps inversely onto difficulty, and each lapse nudges difficulty up.
+ * Cards that were never reviewed stay stateless and are treated as new.
+ */
+export function seedFsrsState(card: Card, w: readonly number[] = DEFAULT_FSRS_WEIGHTS): Card {
+  if (card.stability !== undefined && card.difficulty !== undefined) return card;
+  if (card.repetitions === 0 && card.lapses === 0) return card;
+
+  const easeRatio = (clamp(card.ease, SM2_MIN_EASE, SM2_MAX_EASE) - SM2_MIN_EASE) / (SM2_MAX_EASE - SM2_MIN_EASE);
+  const difficulty = clamp(
+    MAX_DIFFICULTY - easeRatio * (MAX_DIFFICULTY - MIN_DIFFICULTY) + Math.min(card.lapses, 5) * 0.2,
+    MIN_DIFFICULTY,
+    MAX_DIFFICULTY,
+  );
+  const stability = card.intervalDays > 0 ? card.intervalDays : initialStability(1, w);
+  const lastReviewedAt = card.lastReviewedAt ?? card.due - card.intervalDays * MS_PER_DAY;
+
+  return { ...card, stability, difficulty, lastReviewedAt };
+}
+
+/**
+ * Drop a card's FSRS state when its deck goes back to SM-2. SM-2 answers
+ * don't maintain it, so keeping it would let a later switch to FSRS resume
+ * from a stale memory state; without it, seedFsrsState starts again from
+ * the SM-2 progress made in the meantime.
+ */
+export function clearFsrsState(card: Card): Card {
+  if (card.stability === undefined && card.difficulty === undefined && card.lastReviewedAt === undefined) return card;
+  const { stability: _stability, difficulty: _difficulty, lastReviewedAt: _lastReviewedAt, ...rest } = card;
+  return rest;
+}
+
+export interface MemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+/**
+ * One FSRS memory-state transition: the state after answering with `grade`
+ * `elapsedDays` after the previous review. `state` is null on a card's first
+ * review. Shared by fsrsUpdate and the optimizer's history replay.
+ */
+export function nextMemoryState(
+  state: MemoryState | null,
+  grade: Grade,
+  elapsedDays: number,
+  w: readonly number[] = DEFAULT_FSRS_WEIGHTS,
+): MemoryState {
+  const rating = toRating(grade);
+  if (!state) {
+    return { stability: initialStability(rating, w), difficulty: initialDifficulty(rating, w) };
+  }
+  const r = retrievability(elapsedDays, state.stability);
+  return {
+    difficulty: nextDifficulty(state.difficulty, rating, w),
+    stability: rating === 1
+      ? nextForgetStability(state.difficulty, state.stability, r, w)
+      : nextRecallStability(state.difficulty, state.stability, r, rating, w),
+  };
+}
+
+/**
+ * Update a card's scheduling with FSRS based on the review grade
+ * Returns a new card object with updated scheduling fields
+ */
+export function fsrsUpdate(
+  card: Card,
+  grade: Grade,
+  desiredRetention: number = DEFAULT_DESIRED_RETENTION,
+  w: readonly number[] = DEFAULT_FSRS_WEIGHTS,
+): Card {
+  const now = Date.now();
+  const retention = normalizeDesiredRetention(desiredRetention);
+  const seeded = seedFsrsState(card, w);
+
+  let prev: MemoryState | null = null;
+  let elapsedDays = 0;
+  if (seeded.stability !== undefined && seeded.difficulty !== undefined) {
+    prev = { stability: seeded.stability, difficulty: seeded.difficulty };
+    elapsedDays = seeded.lastReviewedAt !== undefined
+      ? (now - seeded.lastReviewedAt) / MS_PER_DAY
+      : seeded.intervalDays;
+  }
+  const { stability, difficulty } = nextMemoryState(prev, grade, elapsedDays, w);
+
+  const updated: Card = {
+    ...seeded,
+    stability,
+    difficulty,
+    lastReviewedAt: now,
+    updatedAt: now,
+  };
+
+  if (grade === 0) {
+    updated.repetitions = 0;
+    updated.intervalDays = 0;
+    updated.lapses = card.lapses + 1;
+    updated.due = now + FAIL_INTERVAL_MINUTES * MS_PER_MINUTE;
+    return updated;
+  }
+
+  updated.repetitions = card.repetitions + 1;
+  updated.intervalDays = nextIntervalDays(stability, retention);
+  updated.due = now + updated.intervalDays * MS_PER_DAY;
+  return updated;
+}
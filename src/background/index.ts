@@ -2,9 +2,12 @@ import type {
   Message,
   Response,
   Card,
+  FeedQuiz,
   Deck,
+  DeckDayCounts,
   Note,
   NewNote,
+  OptimizerResult,
   Notebook,
   NewNotebook,
   Settings,
@@ -15,14 +18,44 @@ import type {
   ShadowScript,
   IpaProgress,
   IpaStudyStats,
+  LastAnswer,
+  CardFlag,
+  ImportDuplicateAction,
+  ImportSummary,
+  BatchImportMessage,
+  MarkdownCard,
+  NotebookSyncOptions,
+  NotebookSyncSummary,
+  ReviewRecord,
 } from '../common/types';
-import { createCard, createDeck, createNote, createNotebook } from '../common/types';
+import { STORAGE_KEYS, UNDO_WINDOW_MS, createCard, createDeck, createNote, createNotebook, generateId } from '../common/types';
 import * as storage from '../common/storage';
+import { getReviewsForDeck } from '../common/reviewLog';
 import { deletePronCheckHistoryFor } from '../common/shadowPronHistory';
+import { runScheduledSnapshot } from '../common/backupSnapshots';
 import { detectVietnamese, isSingleWord, translate, translateWithDictionary } from '../common/translate';
 import { wordFamilyFor } from '../common/wordFamily';
-import { sm2Update, sortCardsForReview } from './scheduler';
+import { withAcceptedAnswer } from '../common/grading';
+import { matchImportedCards, mergeImportedContent, scopeSiblingGroups, withReverseCards, type ImportMatch } from '../common/parser';
+import { planNotebookSync } from '../common/notebookCards';
+import {
+  LEARN_AHEAD_MS,
+  getCardQueue,
+  buryUntil,
+  getDeckScheduler,
+  isCardActive,
+  isLearningCard,
+  isWithinDailyLimits,
+  restoreSchedulingFields,
+  scheduleCard,
+  siblingsToBury,
+  sortCardsForReview,
+} from './scheduler';
+import { clearFsrsState, resolveFsrsWeights, seedFsrsState } from './fsrs';
+import { MIN_REVIEWS_TO_OPTIMIZE, countScorableReviews, optimizeFsrsWeights } from './optimizer';
 import { handleAiQualityReview } from './aiQualityReview';
+import { syncCustomSiteScripts } from './customSites';
+import { nextQuizGap } from './quizFrequency';
 import {
   ALARM_CHECK_UPDATE,
   checkForUpdate,
@@ -36,6 +69,10 @@ import {
 const ALARM_REFRESH_QUEUE = 'refresh_due_queue';
 const ALARM_CLEANUP = 'cleanup_expired';
 const ALARM_PRUNE_NOTES = 'prune_notes';
+const ALARM_AUTO_BACKUP = 'auto_backup';
+
+// Extra time undo_last_answer accepts beyond UNDO_WINDOW_MS
+const UNDO_GRACE_MS = 5_000;
 
 // kokoro-local offscreen document for in-browser Kokoro TTS inference.
 const KOKORO_OFFSCREEN_PATH = 'src/offscreen/kokoroOffscreen.html';
@@ -136,9 +173,25 @@ function initialize() {
   // Run a prune sweep on startup to catch missed alarm runs
   pruneNotesNow().catch(err => console.error('[ScrollLearn] Initial note prune failed:', err));
 
+  // Move any legacy capped review history into the IndexedDB review log
+  storage.migrateReviewHistory().catch(err => console.error('[ScrollLearn] Review history migration failed:', err));
+
+  // Move the legacy chrome.storage card array into the IndexedDB card store
+  storage.migrateCards().catch(err => console.error('[ScrollLearn] Card migration failed:', err));
+
+  // Catch up on a daily snapshot missed while the browser was closed
+  autoBackupNow().catch(err => console.error('[ScrollLearn] Automatic backup failed:', err));
+
   // Run an update check on startup so the badge shows up promptly
   checkForUpdate().catch(err => console.error('[ScrollLearn] Initial update check failed:', err));
 
+  // Keep content.ts registered on the user's custom feed sites
+  customSitesNow().catch(err => console.error('[ScrollLearn] Custom site registration failed:', err));
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'local' || !changes[STORAGE_KEYS.SETTINGS]) return;
+    customSitesNow().catch(err => console.error('[ScrollLearn] Custom site registration failed:', err));
+  });
+
   console.log('[ScrollLearn] Background service worker initialized');
 }
 
@@ -147,6 +200,14 @@ async function pruneNotesNow(): Promise<void> {
   await storage.pruneNotesOlderThan(settings.noteRetentionDays);
 }
 
+async function customSitesNow(): Promise<void> {
+  await syncCustomSiteScripts((await storage.getSettings()).customSites);
+}
+
+async function autoBackupNow(): Promise<void> {
+  await runScheduledSnapshot(await storage.getSettings());
+}
+
 /**
  * Set up periodic alarms
  */
@@ -166,6 +227,11 @@ function setupAlarms() {
     periodInMinutes: 60 * 12,
   });
 
+  // Look for a due backup snapshot every 6 hours; one is written per day
+  chrome.alarms.create(ALARM_AUTO_BACKUP, {
+    periodInMinutes: 60 * 6,
+  });
+
   // Check for new releases every 6 hours
   setupUpdateAlarm();
 }
@@ -193,6 +259,10 @@ async function handleAlarm(alarm: chrome.alarms.Alarm) {
     case ALARM_CHECK_UPDATE:
       await handleUpdateAlarm();
       break;
+
+    case ALARM_AUTO_BACKUP:
+      await autoBackupNow();
+      break;
   }
 }
 
@@ -296,7 +366,7 @@ async function handleMessageAsync(message: Message): Promise<Response<unknown>>
       return handleCardAnswered(message.cardId, message.grade, message.responseTimeMs);
     
     case 'batch_import':
-      return handleBatchImport(message.cards, message.deckId);
+      return handleBatchImport(message.cards, message.deckId, message.reverse, message.onDuplicate);
     
     case 'get_settings':
       return handleGetSettings();
@@ -367,6 +437,9 @@ async function handleMessageAsync(message: Message): Promise<Response<unknown>>
     case 'move_notebook_folder':
       return handleMoveNotebookFolder(message.fromPath, message.toPath);
 
+    case 'sync_notebook_cards':
+      return handleSyncNotebookCards(message.notebookId, message.cards, message);
+
     case 'check_for_update':
       return handleCheckForUpdate();
 
@@ -405,6 +478,13 @@ async function handleMessageAsync(message: Message): Promise<Response<unknown>>
         return { ok: false, error: String(error) };
       }
 
+    case 'record_scroll':
+      try {
+        return { ok: true, data: await storage.recordScrollScreens(extractDomainKey(message.domain), message.screens) };
+      } catch (error) {
+        return { ok: false, error: String(error) };
+      }
+
     case 'record_conversation':
       try {
         await storage.recordConversationTurn();
@@ -440,6 +520,24 @@ async function handleMessageAsync(message: Message): Promise<Response<unknown>>
         return { ok: false, error: String(error) };
       }
 
+    case 'optimize_deck':
+      return handleOptimizeDeck(message.deckId);
+
+    case 'undo_last_answer':
+      return handleUndoLastAnswer(message.cardId);
+
+    case 'override_grade':
+      return handleOverrideGrade(message.cardId, message.grade, message.acceptAnswer);
+
+    case 'suspend_card':
+      return handleSuspendCards(message.cardIds, message.suspended);
+
+    case 'bury_card':
+      return handleBuryCards(message.cardIds, message.buried);
+
+    case 'flag_card':
+      return handleFlagCards(message.cardIds, message.flag);
+
     default:
       return { ok: false, error: 'Unknown message type' };
   }
@@ -529,47 +627,97 @@ async function handleGetUpdateInfo(): Promise<Response<UpdateInfo | null>> {
   }
 }
 
+/**
+ * Whether a deck may be quizzed in the social feed. Decks default to yes;
+ * `showInFeed: false` keeps them to the Study tab.
+ */
+function isFeedDeck(deck: Deck | undefined): boolean {
+  return deck?.showInFeed !== false;
+}
+
+/**
+ * Build a predicate for due cards that may be served right now: not
+ * suspended or buried, within the deck's daily new/review limits and, for
+ * the social feed, not from a study-only deck. Ineligible cards are treated
+ * as not due yet.
+ */
+function makeEligibilityFilter(
+  decks: Deck[],
+  dayCounts: DeckDayCounts,
+  feedOnly: boolean,
+): (card: Card) => boolean {
+  const deckById = new Map(decks.map(d => [d.id, d]));
+  const now = Date.now();
+  return card => {
+    if (!isCardActive(card, now)) return false;
+    const deck = deckById.get(card.deckId);
+    if (feedOnly && !isFeedDeck(deck)) return false;
+    return isWithinDailyLimits(card, deck, dayCounts.decks[card.deckId]);
+  };
+}
+
 /**
  * Select the next due card, optionally filtered by deck.
  * Shared logic used by both domain-based and standalone study flows.
  *
+ * Per-deck daily limits always apply; `feedOnly` additionally skips decks
+ * that are not shown in the social feed.
+ *
+ * When nothing is due but a card is part-way through its learning steps and
+ * comes due within LEARN_AHEAD_MS, that card is served early so a session
+ * doesn't dead-end on a short intraday step.
+ *
  * When `practiceMode` is true and nothing is currently due, falls back to
  * the next-soonest card (deck-scoped or global) so the learner can keep
- * drilling after the SM-2 queue is empty.
+ * drilling after the SM-2 queue is empty. Suspended and buried cards are
+ * skipped even then.
  */
 async function selectNextDueCard(
   filterDeckId?: string,
   practiceMode: boolean = false,
+  feedOnly: boolean = false,
 ): Promise<Card | null> {
+  const [decks, dayCounts] = await Promise.all([storage.getDecks(), storage.getDeckDayCounts()]);
+  const isEligible = makeEligibilityFilter(decks, dayCounts, feedOnly);
+
   // When filtering by deck, fetch that deck's cards directly to avoid the 100-card limit
   // missing cards from the target deck.
   const now = Date.now();
+  const isLearningSoon = (c: Card) => isLearningCard(c) && c.due <= now + LEARN_AHEAD_MS;
   let candidateCards: Card[];
   if (filterDeckId) {
     const deckCards = await storage.getCards(filterDeckId);
-    const dueCards = deckCards.filter(c => c.due <= now);
+    const dueCards = deckCards.filter(c => c.due <= now && isEligible(c));
+    const learnAhead = deckCards.filter(c => isLearningSoon(c) && isEligible(c));
     if (dueCards.length > 0) {
       candidateCards = dueCards;
+    } else if (learnAhead.length > 0) {
+      candidateCards = learnAhead;
     } else if (practiceMode) {
-      candidateCards = [...deckCards].sort((a, b) => a.due - b.due);
+      candidateCards = deckCards.filter(c => isCardActive(c, now)).sort((a, b) => a.due - b.due);
     } else {
       candidateCards = [];
     }
   } else {
-    const dueCards = await storage.getDueCards(100);
+    // Filter before slicing so a deck at its limit can't crowd out the rest.
+    const dueCards = (await storage.getDueCards(Number.POSITIVE_INFINITY)).filter(isEligible).slice(0, 100);
     if (dueCards.length > 0) {
       candidateCards = dueCards;
-    } else if (practiceMode) {
-      const all = await storage.getCards();
-      candidateCards = [...all].sort((a, b) => a.due - b.due).slice(0, 100);
     } else {
-      candidateCards = [];
+      const soon = await storage.getDueCards(Number.POSITIVE_INFINITY, now + LEARN_AHEAD_MS);
+      const learnAhead = soon.filter(c => isLearningSoon(c) && isEligible(c));
+      if (learnAhead.length > 0) {
+        candidateCards = learnAhead;
+      } else if (practiceMode) {
+        candidateCards = (await storage.getCards()).filter(c => isCardActive(c, now)).sort((a, b) => a.due - b.due).slice(0, 100);
+      } else {
+        candidateCards = [];
+      }
     }
   }
   if (candidateCards.length === 0) return null;
 
-  const decks = await storage.getDecks();
-  const deckMap = new Map(decks.map(d => [d.id, d.name]));
+  const deckMap = new Map(decks.map(d => [d.id, d]));
 
   const sorted = sortCardsForReview(candidateCards);
   const snoozedFlags = await Promise.all(sorted.map(card => storage.isCardSnoozed(card.id)));
@@ -578,91 +726,104 @@ async function selectNextDueCard(
   if (availableCards.length === 0) return null;
 
   const selectedCard = availableCards[0];
-  const deckName = deckMap.get(selectedCard.deckId) || selectedCard.deckId;
-  return { ...selectedCard, deckName };
+  return forQuiz(selectedCard, deckMap.get(selectedCard.deckId));
+}
+
+// A card as the quiz surfaces see it: labelled with its deck and carrying
+// the deck's answer-matching profile, so grading needs no deck lookup.
+function forQuiz(card: Card, deck: Deck | undefined): Card {
+  return { ...card, deckName: deck?.name || card.deckId, answerMatching: deck?.answerMatching };
 }
 
 /**
- * Get next due card for a domain (content script flow)
+ * Get next due card for a domain (content script flow), with the gap to
+ * wait before the one after it
  */
-async function handleGetNextCard(domain: string): Promise<Response<Card | null>> {
+async function handleGetNextCard(domain: string): Promise<Response<FeedQuiz>> {
   try {
-    console.log('[ScrollLearn Background] Getting next card for domain:', domain);
+    const card = await selectFeedCard(domain);
+    const [decks, dayCounts] = await Promise.all([storage.getDecks(), storage.getDeckDayCounts()]);
+    const nextGap = await nextQuizGap(makeEligibilityFilter(decks, dayCounts, true));
+    return { ok: true, data: { card, nextGap } };
+  } catch (error) {
+    console.error('[ScrollLearn Background] Error getting next card:', error);
+    return { ok: false, error: String(error) };
+  }
+}
 
-    // Check if site is paused
-    if (await storage.isSitePaused(domain)) {
-      console.log('[ScrollLearn Background] Site is paused');
-      return { ok: true, data: null };
-    }
+async function selectFeedCard(domain: string): Promise<Card | null> {
+  console.log('[ScrollLearn Background] Getting next card for domain:', domain);
 
-    // Check if site is disabled in settings
-    const settings = await storage.getSettings();
-    const domainKey = extractDomainKey(domain);
-    const domainSettings = settings.domainSettings[domainKey];
+  // Check if site is paused
+  if (await storage.isSitePaused(domain)) {
+    console.log('[ScrollLearn Background] Site is paused');
+    return null;
+  }
 
-    if (domainSettings && !domainSettings.enabled) {
-      console.log('[ScrollLearn Background] Site is disabled');
-      return { ok: true, data: null };
-    }
+  // Check if site is disabled in settings
+  const settings = await storage.getSettings();
+  const domainKey = extractDomainKey(domain);
+  const domainSettings = settings.domainSettings[domainKey];
 
-    const decks = await storage.getDecks();
-    const deckMap = new Map(decks.map(d => [d.id, d.name]));
+  if (domainSettings && !domainSettings.enabled) {
+    console.log('[ScrollLearn Background] Site is disabled');
+    return null;
+  }
 
-    let activeDeckId = settings.activeDeckId;
-    if (activeDeckId && !decks.some(deck => deck.id === activeDeckId)) {
-      activeDeckId = null;
-    }
+  const decks = await storage.getDecks();
+  const deckMap = new Map(decks.map(d => [d.id, d]));
 
-    // Serve from the active deck directly so its cards aren't shadowed by the
-    // global 100-card slice when other decks have many older overdue cards.
-    if (activeDeckId) {
-      const card = await selectNextDueCard(activeDeckId);
-      if (card) {
-        console.log('[ScrollLearn Background] Returning card from active deck:', card.front.substring(0, 30));
-        return { ok: true, data: card };
-      }
-    }
+  let activeDeckId = settings.activeDeckId;
+  if (activeDeckId && !decks.some(deck => deck.id === activeDeckId)) {
+    activeDeckId = null;
+  }
 
-    // Active deck is exhausted (or none set): rotate across all due decks.
-    const dueCards = await storage.getDueCards(100);
-    if (dueCards.length === 0) {
-      console.log('[ScrollLearn Background] No due cards');
-      return { ok: true, data: null };
+  // Serve from the active deck directly so its cards aren't shadowed by the
+  // global 100-card slice when other decks have many older overdue cards.
+  if (activeDeckId) {
+    const card = await selectNextDueCard(activeDeckId, false, true);
+    if (card) {
+      console.log('[ScrollLearn Background] Returning card from active deck:', card.front.substring(0, 30));
+      return card;
     }
+  }
 
-    const sorted = sortCardsForReview(dueCards);
-    const snoozedFlags = await Promise.all(sorted.map(card => storage.isCardSnoozed(card.id)));
-    const availableCards = sorted.filter((_, index) => !snoozedFlags[index]);
+  // Active deck is exhausted (or none set): rotate across all due decks.
+  const isEligible = makeEligibilityFilter(decks, await storage.getDeckDayCounts(), true);
+  const dueCards = (await storage.getDueCards(Number.POSITIVE_INFINITY)).filter(isEligible).slice(0, 100);
+  if (dueCards.length === 0) {
+    console.log('[ScrollLearn Background] No due cards');
+    return null;
+  }
 
-    if (availableCards.length === 0) {
-      console.log('[ScrollLearn Background] All due cards are snoozed');
-      return { ok: true, data: null };
-    }
+  const sorted = sortCardsForReview(dueCards);
+  const snoozedFlags = await Promise.all(sorted.map(card => storage.isCardSnoozed(card.id)));
+  const availableCards = sorted.filter((_, index) => !snoozedFlags[index]);
 
-    const availableDeckIds = getAvailableDeckIds(availableCards, decks);
-    let selectedDeckId: string | null = null;
-    if (availableDeckIds.length > 0) {
-      selectedDeckId = activeDeckId
-        ? getNextDeckId(activeDeckId, availableDeckIds, decks)
-        : availableDeckIds[0];
-    }
+  if (availableCards.length === 0) {
+    console.log('[ScrollLearn Background] All due cards are snoozed');
+    return null;
+  }
 
-    if (!selectedDeckId) {
-      return { ok: true, data: null };
-    }
+  const availableDeckIds = getAvailableDeckIds(availableCards, decks);
+  let selectedDeckId: string | null = null;
+  if (availableDeckIds.length > 0) {
+    selectedDeckId = activeDeckId
+      ? getNextDeckId(activeDeckId, availableDeckIds, decks)
+      : availableDeckIds[0];
+  }
 
-    if (selectedDeckId !== settings.activeDeckId) {
-      await storage.saveSettings({ activeDeckId: selectedDeckId });
-    }
+  if (!selectedDeckId) {
+    return null;
+  }
 
-    const selectedCard = availableCards.find(card => card.deckId === selectedDeckId) || availableCards[0];
-    console.log('[ScrollLearn Background] Returning card:', selectedCard.front.substring(0, 30));
-    const deckName = deckMap.get(selectedCard.deckId) || selectedCard.deckId;
-    return { ok: true, data: { ...selectedCard, deckName } };
-  } catch (error) {
-    console.error('[ScrollLearn Background] Error getting next card:', error);
-    return { ok: false, error: String(error) };
+  if (selectedDeckId !== settings.activeDeckId) {
+    await storage.saveSettings({ activeDeckId: selectedDeckId });
   }
+
+  const selectedCard = availableCards.find(card => card.deckId === selectedDeckId) || availableCards[0];
+  console.log('[ScrollLearn Background] Returning card:', selectedCard.front.substring(0, 30));
+  return forQuiz(selectedCard, deckMap.get(selectedCard.deckId));
 }
 
 /**
@@ -679,10 +840,13 @@ async function handleGetNextStudyCard(deckId?: string, practiceMode?: boolean):
 
 function getAvailableDeckIds(cards: Card[], decks: Deck[]): string[] {
   const cardDeckSet = new Set(cards.map(card => card.deckId));
-  const orderedDeckIds = decks.map(deck => deck.id).filter(deckId => cardDeckSet.has(deckId));
+  const orderedDeckIds = decks
+    .filter(deck => isFeedDeck(deck) && cardDeckSet.has(deck.id))
+    .map(deck => deck.id);
 
-  // Keep unknown deck ids (if any) at the end in card-order.
-  const seen = new Set(orderedDeckIds);
+  // Keep unknown deck ids (if any) at the end in card-order. Study-only
+  // decks are known, so they are never re-added here.
+  const seen = new Set(decks.map(deck => deck.id));
   for (const card of cards) {
     if (!seen.has(card.deckId)) {
       orderedDeckIds.push(card.deckId);
@@ -734,18 +898,40 @@ async function handleCardAnswered(
       return { ok: false, error: 'Card not found' };
     }
     
-    // Update scheduling with SM-2
-    const updatedCard = sm2Update(card, grade);
+    // Update scheduling with the deck's algorithm (SM-2 unless opted into FSRS)
+    const deck = await storage.getDeck(card.deckId);
+    const queue = getCardQueue(card);
+    const updatedCard = scheduleCard(card, grade, deck);
     await storage.saveCard(updatedCard);
+
+    // Hold the card's siblings back until tomorrow so they don't follow it
+    // straight away in either the Study tab or the feed.
+    const buriedSiblings = card.siblingGroup
+      ? siblingsToBury(card, await storage.getCards(card.deckId)).map(c => c.id)
+      : [];
+    if (buriedSiblings.length > 0) {
+      const until = buryUntil();
+      await storage.updateCards(buriedSiblings, sibling => ({ ...sibling, buriedUntil: until }));
+    }
+
+    // Count against the deck's daily limits. Learning-step repeats are free.
+    const dayCount = queue === 'new' ? 'newCards' : queue === 'review' ? 'reviews' : null;
+    if (dayCount) {
+      await storage.recordDeckAnswer(card.deckId, dayCount);
+    }
     
     // Record the review
-    await storage.recordReview({
+    const record = {
       cardId,
       deckId: card.deckId,
       timestamp: Date.now(),
       grade,
       responseTimeMs,
-    });
+    };
+    const undo = await storage.recordReview(record);
+
+    // Keep what's needed to take this answer back
+    await storage.saveLastAnswer({ card, record, undo, dayCount, buriedSiblings, answeredAt: record.timestamp });
     
     return { ok: true };
   } catch (error) {
@@ -753,29 +939,166 @@ async function handleCardAnswered(
   }
 }
 
+/**
+ * Revert the most recent answer: restore the card's pre-answer scheduling
+ * and take the review back out of the log, stats and daily deck counters.
+ * Returns the restored card so the caller can show it again.
+ */
+async function handleUndoLastAnswer(cardId?: string): Promise<Response<Card>> {
+  try {
+    const last = await storage.getLastAnswer();
+    // The UI hides Undo after UNDO_WINDOW_MS; the grace covers a click that
+    // lands just before the button disappears.
+    if (!last || Date.now() - last.answeredAt > UNDO_WINDOW_MS + UNDO_GRACE_MS) {
+      return { ok: false, error: 'Nothing to undo' };
+    }
+    if (cardId && last.card.id !== cardId) {
+      return { ok: false, error: 'Nothing to undo' };
+    }
+
+    const restored = await revertLastAnswer(last);
+    if (!restored) {
+      return { ok: false, error: 'Card not found' };
+    }
+
+    const deck = await storage.getDeck(restored.deckId);
+    return { ok: true, data: forQuiz(restored, deck) };
+  } catch (error) {
+    return { ok: false, error: String(error) };
+  }
+}
+
+/**
+ * Re-grade the card's last answer: revert it and record it again with the
+ * learner's grade, so scheduling, stats and the review log all see the
+ * corrected result. Optionally accepts the typed answer for next time.
+ * Not bound to the undo window -- the feedback screen can stay open.
+ */
+async function handleOverrideGrade(
+  cardId: string,
+  grade: Grade,
+  acceptAnswer?: string
+): Promise<Response<Card>> {
+  try {
+    const last = await storage.getLastAnswer();
+    if (!last || last.card.id !== cardId) {
+      return { ok: false, error: 'No answer to re-grade' };
+    }
+
+    if (last.record.grade !== grade) {
+      const restored = await revertLastAnswer(last);
+      if (!restored) {
+        return { ok: false, error: 'Card not found' };
+      }
+      const result = await handleCardAnswered(cardId, grade, last.record.responseTimeMs);
+      if (!result.ok) return result;
+    }
+
+    let card = await storage.getCard(cardId);
+    if (!card) {
+      return { ok: false, error: 'Card not found' };
+    }
+    const canonicalAnswers = acceptAnswer ? withAcceptedAnswer(card, acceptAnswer) : null;
+    if (canonicalAnswers) {
+      card = await storage.saveCard({ ...card, canonicalAnswers });
+    }
+
+    const deck = await storage.getDeck(card.deckId);
+    return { ok: true, data: forQuiz(card, deck) };
+  } catch (error) {
+    return { ok: false, error: String(error) };
+  }
+}
+
+/**
+ * Restore the card from a LastAnswer snapshot, take its review back out of
+ * the log, stats and daily deck counters, and unbury the siblings it buried.
+ * Returns null if the card has since been deleted.
+ */
+async function revertLastAnswer(last: LastAnswer): Promise<Card | null> {
+  const current = await storage.getCard(last.card.id);
+  if (!current) {
+    await storage.clearLastAnswer();
+    return null;
+  }
+
+  const restored = await storage.saveCard(restoreSchedulingFields(current, last.card));
+  await storage.revertReview(last.record, last.undo);
+  if (last.dayCount) {
+    await storage.recordDeckAnswer(last.card.deckId, last.dayCount, -1);
+  }
+  if (last.buriedSiblings?.length) {
+    await storage.updateCards(last.buriedSiblings, sibling => {
+      const next = { ...sibling };
+      delete next.buriedUntil;
+      return next;
+    });
+  }
+  await storage.clearLastAnswer();
+  return restored;
+}
+
 /**
  * Batch import cards
  */
 async function handleBatchImport(
-  cards: Array<Omit<Card, 'id' | 'due' | 'intervalDays' | 'ease' | 'repetitions' | 'lapses' | 'createdAt' | 'updatedAt'>>,
-  deckId: string
-): Promise<Response<{ inserted: number }>> {
+  cards: BatchImportMessage['cards'],
+  deckId: string,
+  reverse?: boolean,
+  onDuplicate: ImportDuplicateAction = 'new'
+): Promise<Response<ImportSummary>> {
   try {
-    // Create full card objects
-    const fullCards = cards.map(cardData => createCard({
-      ...cardData,
-      deckId,
-    }));
+    const deck = await storage.getDeck(deckId);
+    const withReverse = (reverse ?? deck?.reverseCards) ? withReverseCards(cards) : cards;
+    const scoped = scopeSiblingGroups(withReverse, generateId);
+    const matches: ImportMatch<typeof scoped[number]>[] = onDuplicate === 'new'
+      ? scoped.map(card => ({ card, status: 'new' }))
+      : matchImportedCards(scoped, await storage.getCards(deckId));
+
+    // A new card whose sibling is already in the deck joins that card's group.
+    const groups = new Map<string, string>();
+    for (const { card, existing } of matches) {
+      if (card.siblingGroup && existing?.siblingGroup) groups.set(card.siblingGroup, existing.siblingGroup);
+    }
+
+    // Create full card objects. Cards from another app's export may bring
+    // their scheduling and review history along.
+    const fullCards: Card[] = [];
+    const history: ReviewRecord[] = [];
+    for (const { card, status } of matches) {
+      if (status !== 'new') continue;
+      const { imported, ...cardData } = card;
+      const full = createCard({
+        ...cardData,
+        deckId,
+        siblingGroup: card.siblingGroup && (groups.get(card.siblingGroup) ?? card.siblingGroup),
+      });
+      if (imported) {
+        const { reviews = [], ...schedule } = imported;
+        Object.assign(full, schedule);
+        history.push(...reviews.map(review => ({ ...review, cardId: full.id, deckId })));
+      }
+      fullCards.push(full);
+    }
+    const updates = new Map(
+      onDuplicate === 'update'
+        ? matches.filter(m => m.status === 'changed').map(m => [m.existing!.id, m.card] as const)
+        : [],
+    );
     
     // Batch import
     const inserted = await storage.batchImportCards(fullCards);
+    const updated = updates.size > 0
+      ? await storage.updateCards([...updates.keys()], card => mergeImportedContent(card, updates.get(card.id)!))
+      : 0;
+    await storage.importReviewHistory(history);
     
     // Update stats
     const stats = await storage.getStats();
     stats.totalCards = (await storage.getCards()).length;
     await storage.saveStats(stats);
     
-    return { ok: true, data: { inserted } };
+    return { ok: true, data: { inserted, updated, skipped: matches.length - inserted - updated } };
   } catch (error) {
     return { ok: false, error: String(error) };
   }
@@ -845,7 +1168,13 @@ async function handleSaveDeck(
     
     if ('id' in deckData && deckData.id) {
       // Update existing
+      const previous = await storage.getDeck(deckData.id);
       deck = await storage.saveDeck(deckData as Deck);
+      if (getDeckScheduler(deck) === 'fsrs' && getDeckScheduler(previous) !== 'fsrs') {
+        await migrateDeckToFsrs(deck);
+      } else if (getDeckScheduler(deck) !== 'fsrs' && getDeckScheduler(previous) === 'fsrs') {
+        await migrateDeckToSm2(deck);
+      }
     } else {
       // Create new
       deck = createDeck(deckData as Omit<Deck, 'id' | 'createdAt' | 'updatedAt'>);
@@ -858,6 +1187,58 @@ async function handleSaveDeck(
   }
 }
 
+/**
+ * Seed FSRS stability/difficulty for every reviewed card in a deck that just
+ * switched from SM-2, so the first FSRS answer builds on existing progress.
+ */
+async function migrateDeckToFsrs(deck: Deck): Promise<void> {
+  const weights = resolveFsrsWeights(deck.fsrsWeights);
+  await updateDeckCards(deck, card => seedFsrsState(card, weights));
+}
+
+/**
+ * A deck back on SM-2: its SM-2 fields stay current, but the FSRS state
+ * would go stale, so it is cleared and re-seeded on the next switch.
+ */
+async function migrateDeckToSm2(deck: Deck): Promise<void> {
+  await updateDeckCards(deck, clearFsrsState);
+}
+
+// Rewrite only the deck's cards that `update` changes. Each is re-read as it
+// is written, so an answer recorded meanwhile is not lost.
+async function updateDeckCards(deck: Deck, update: (card: Card) => Card): Promise<void> {
+  const ids = (await storage.getCards(deck.id)).filter(card => update(card) !== card).map(card => card.id);
+  if (ids.length > 0) {
+    await storage.updateCards(ids, update);
+  }
+}
+
+/**
+ * Fit FSRS weights to a deck's review log. Does not save anything; the
+ * dashboard shows the before/after fit and applies it via save_deck.
+ */
+async function handleOptimizeDeck(deckId: string): Promise<Response<OptimizerResult>> {
+  try {
+    const deck = await storage.getDeck(deckId);
+    if (!deck) {
+      return { ok: false, error: 'Deck not found' };
+    }
+
+    const history = await getReviewsForDeck(deckId);
+    const result = optimizeFsrsWeights(history, resolveFsrsWeights(deck.fsrsWeights));
+    if (!result) {
+      const have = countScorableReviews(history);
+      return {
+        ok: false,
+        error: `Not enough history yet: optimizing needs ${MIN_REVIEWS_TO_OPTIMIZE} repeat reviews on separate days, this deck has ${have}.`,
+      };
+    }
+    return { ok: true, data: result };
+  } catch (error) {
+    return { ok: false, error: String(error) };
+  }
+}
+
 /**
  * Delete a deck
  */
@@ -977,6 +1358,59 @@ async function handleDisableSite(domain: string): Promise<Response<void>> {
   }
 }
 
+/**
+ * Suspend or unsuspend cards. Scheduling is left as-is, so an unsuspended
+ * card picks up where it left off.
+ */
+async function handleSuspendCards(cardIds: string[], suspended: boolean): Promise<Response<number>> {
+  try {
+    const count = await storage.updateCards(cardIds, card => {
+      const next = { ...card };
+      if (suspended) next.suspended = true;
+      else delete next.suspended;
+      return next;
+    });
+    return { ok: true, data: count };
+  } catch (error) {
+    return { ok: false, error: String(error) };
+  }
+}
+
+/**
+ * Bury cards until tomorrow, or unbury them early
+ */
+async function handleBuryCards(cardIds: string[], buried: boolean): Promise<Response<number>> {
+  try {
+    const until = buryUntil();
+    const count = await storage.updateCards(cardIds, card => {
+      const next = { ...card };
+      if (buried) next.buriedUntil = until;
+      else delete next.buriedUntil;
+      return next;
+    });
+    return { ok: true, data: count };
+  } catch (error) {
+    return { ok: false, error: String(error) };
+  }
+}
+
+/**
+ * Set or clear the flag on cards
+ */
+async function handleFlagCards(cardIds: string[], flag: CardFlag | null): Promise<Response<number>> {
+  try {
+    const count = await storage.updateCards(cardIds, card => {
+      const next = { ...card };
+      if (flag) next.flag = flag;
+      else delete next.flag;
+      return next;
+    });
+    return { ok: true, data: count };
+  } catch (error) {
+    return { ok: false, error: String(error) };
+  }
+}
+
 /**
  * Skip/snooze a card
  */
@@ -1145,6 +1579,57 @@ async function handleMoveNotebookFolder(
   }
 }
 
+// Returns null when the notebook has no linked deck (or the deck is gone),
+// so autosave can call this for every notebook without checking first.
+async function handleSyncNotebookCards(
+  notebookId: string,
+  cards: MarkdownCard[],
+  options: NotebookSyncOptions = {},
+): Promise<Response<NotebookSyncSummary | null>> {
+  try {
+    const notebook = await storage.getNotebook(notebookId);
+    if (!notebook) return { ok: false, error: 'Notebook not found' };
+
+    let deckId = notebook.linkedDeckId;
+    if (!deckId && options.createDeck) {
+      const deck = await storage.saveDeck(createDeck({ name: notebook.title.trim() || 'Untitled', description: '' }));
+      await storage.saveNotebook({ ...notebook, linkedDeckId: deck.id });
+      deckId = deck.id;
+    }
+    if (!deckId || !(await storage.getDeck(deckId))) return { ok: true, data: null };
+
+    const plan = planNotebookSync(notebookId, cards, await storage.getCards(deckId), generateId);
+    const inserted = await storage.batchImportCards(plan.insert.map(card => createCard({ ...card, deckId })));
+    const updated = plan.update.size > 0
+      ? await storage.updateCards([...plan.update.keys()], card => {
+        const incoming = plan.update.get(card.id)!;
+        return { ...mergeImportedContent(card, incoming), source: incoming.source };
+      })
+      : 0;
+    // Autosave only sets unmatched cards aside; deleting them (and their
+    // scheduling) takes an explicit removeOrphans.
+    const removed = options.removeOrphans ? plan.unmatched : [];
+    if (removed.length > 0) {
+      await storage.deleteCards(removed);
+    } else if (plan.orphan.length > 0) {
+      await storage.updateCards(plan.orphan, card => ({ ...card, source: { ...card.source!, orphaned: true } }));
+    }
+
+    if (inserted > 0 || removed.length > 0) {
+      const stats = await storage.getStats();
+      stats.totalCards = (await storage.getCards()).length;
+      await storage.saveStats(stats);
+    }
+
+    return {
+      ok: true,
+      data: { deckId, inserted, updated, orphaned: plan.unmatched.length - removed.length, removed: removed.length },
+    };
+  } catch (error) {
+    return { ok: false, error: String(error) };
+  }
+}
+
 /**
  * Extract domain key from full domain
  * e.g., "www.facebook.com" -> "facebook.com"
@@ -0,0 +1,173 @@
+import type { Grade, OptimizerResult, RetentionFit, ReviewRecord } from '../common/types';
+import { DEFAULT_FSRS_WEIGHTS, nextMemoryState, retrievability, type MemoryState } from './fsrs';
+
+/**
+ * On-device FSRS Parameter Optimizer
+ *
+ * Fits the 17 FSRS-4.5 weights to one deck's review log. Each card's history
+ * is replayed through the memory model; before every review after the first
+ * the model predicts the probability of recall, and the fit minimises the
+ * log loss of those predictions against what actually happened (Again =
+ * forgotten, anything else = recalled).
+ *
+ * The search is a bounded coordinate descent with shrinking multiplicative
+ * steps. It is far simpler than the reference gradient-descent optimizer
+ * but needs no autodiff, runs in well under a second on tens of thousands
+ * of reviews, and converges to a comparable loss for a single deck.
+ */
+
+// Below this many scored reviews the fit mostly memorises noise.
+export const MIN_REVIEWS_TO_OPTIMIZE = 100;
+
+const MS_PER_DAY = 86400 * 1000;
+
+// Per-weight clamps from the FSRS-4.5 reference optimizer.
+const WEIGHT_BOUNDS: ReadonlyArray<readonly [number, number]> = [
+  [0.1, 100], [0.1, 100], [0.1, 100], [0.1, 100],
+  [1, 10], [0.1, 5], [0.1, 5], [0, 0.5],
+  [0, 3], [0.1, 0.8], [0.01, 2.5],
+  [0.5, 5], [0.01, 0.2], [0.01, 0.9], [0.01, 2],
+  [0, 1], [1, 6],
+];
+
+const STEP_SCHEDULE = [0.4, 0.2, 0.1, 0.05, 0.025];
+const MAX_MOVES_PER_STEP = 6;
+
+// Pull towards the starting weights, scaled down as evidence accumulates,
+// so a small deck stays close to the population defaults.
+const PRIOR_STRENGTH = 20;
+
+// Keeps log loss finite when a prediction saturates.
+const PROBABILITY_EPSILON = 1e-4;
+
+interface ReplayStep {
+  elapsedDays: number;
+  grade: Grade;
+}
+
+/**
+ * Group a review log into per-card replay sequences. Only the first review
+ * of each UTC day counts: FSRS-4.5 models day-scale memory, and learning-step
+ * repeats minutes apart would otherwise swamp the fit.
+ */
+function buildSequences(history: ReviewRecord[]): ReplayStep[][] {
+  const byCard = new Map<string, ReviewRecord[]>();
+  for (const r of history) {
+    const list = byCard.get(r.cardId);
+    if (list) list.push(r);
+    else byCard.set(r.cardId, [r]);
+  }
+
+  const sequences: ReplayStep[][] = [];
+  for (const records of byCard.values()) {
+    records.sort((a, b) => a.timestamp - b.timestamp);
+    const steps: ReplayStep[] = [];
+    let lastTs = -1;
+    for (const r of records) {
+      if (lastTs >= 0 && Math.floor(r.timestamp / MS_PER_DAY) === Math.floor(lastTs / MS_PER_DAY)) continue;
+      steps.push({ elapsedDays: lastTs < 0 ? 0 : (r.timestamp - lastTs) / MS_PER_DAY, grade: r.grade });
+      lastTs = r.timestamp;
+    }
+    // A single review has nothing to predict.
+    if (steps.length > 1) sequences.push(steps);
+  }
+  return sequences;
+}
+
+/**
+ * Score a set of weights against replay sequences
+ */
+function scoreWeights(sequences: ReplayStep[][], w: readonly number[]): RetentionFit & { count: number } {
+  let loss = 0;
+  let predicted = 0;
+  let actual = 0;
+  let count = 0;
+  for (const steps of sequences) {
+    let state: MemoryState = nextMemoryState(null, steps[0].grade, 0, w);
+    for (let i = 1; i < steps.length; i++) {
+      const { elapsedDays, grade } = steps[i];
+      const r = Math.min(
+        1 - PROBABILITY_EPSILON,
+        Math.max(PROBABILITY_EPSILON, retrievability(elapsedDays, state.stability)),
+      );
+      const recalled = grade > 0 ? 1 : 0;
+      loss -= recalled * Math.log(r) + (1 - recalled) * Math.log(1 - r);
+      predicted += r;
+      actual += recalled;
+      count++;
+      state = nextMemoryState(state, grade, elapsedDays, w);
+    }
+  }
+  if (count === 0) return { predicted: 0, actual: 0, logLoss: 0, count };
+  return { predicted: predicted / count, actual: actual / count, logLoss: loss / count, count };
+}
+
+/**
+ * Number of reviews in a log the optimizer can score (every same-card review
+ * on a later day than the previous one)
+ */
+export function countScorableReviews(history: ReviewRecord[]): number {
+  return buildSequences(history).reduce((sum, steps) => sum + steps.length - 1, 0);
+}
+
+/**
+ * Fit FSRS weights to a review log, starting from `initial` (the deck's
+ * current weights). Returns null when the log has fewer than
+ * MIN_REVIEWS_TO_OPTIMIZE scorable reviews.
+ */
+export function optimizeFsrsWeights(
+  history: ReviewRecord[],
+  initial: readonly number[] = DEFAULT_FSRS_WEIGHTS,
+): OptimizerResult | null {
+  const sequences = buildSequences(history);
+  const baseline = scoreWeights(sequences, initial);
+  if (baseline.count < MIN_REVIEWS_TO_OPTIMIZE) return null;
+
+  const priorScale = PRIOR_STRENGTH / baseline.count;
+  const objective = (w: readonly number[]): number => {
+    let penalty = 0;
+    for (let i = 0; i < w.length; i++) {
+      const [lo, hi] = WEIGHT_BOUNDS[i];
+      penalty += ((w[i] - initial[i]) / (hi - lo)) ** 2;
+    }
+    return scoreWeights(sequences, w).logLoss + priorScale * penalty;
+  };
+
+  const w = initial.map((value, i) => clampWeight(value, i));
+  let best = objective(w);
+  for (const step of STEP_SCHEDULE) {
+    for (let i = 0; i < w.length; i++) {
+      for (let moves = 0; moves < MAX_MOVES_PER_STEP; moves++) {
+        const current = w[i];
+        // Multiplicative steps suit weights spanning 0.01..100; the additive
+        // floor lets weights whose bound is 0 move off it.
+        const delta = Math.max(Math.abs(current) * step, (WEIGHT_BOUNDS[i][1] - WEIGHT_BOUNDS[i][0]) * step * 0.01);
+        let improved = false;
+        for (const candidate of [current + delta, current - delta]) {
+          w[i] = clampWeight(candidate, i);
+          const score = objective(w);
+          if (score < best - 1e-9) {
+            best = score;
+            improved = true;
+            break;
+          }
+          w[i] = current;
+        }
+        if (!improved) break;
+      }
+    }
+  }
+
+  const fitted = scoreWeights(sequences, w);
+  return {
+    reviewCount: baseline.count,
+    before: { predicted: baseline.predicted, actual: baseline.actual, logLoss: baseline.logLoss },
+    after: { predicted: fitted.predicted, actual: fitted.actual, logLoss: fitted.logLoss },
+    weights: w.map(v => Math.round(v * 10000) / 10000),
+  };
+}
+
+function clampWeight(value: number, index: number): number {
+  const [lo, hi] = WEIGHT_BOUNDS[index];
+  return Math.max(lo, Math.min(hi, value));
+}
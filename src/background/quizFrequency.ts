@@ -0,0 +1,73 @@
+/**
+ * Adaptive Quiz Frequency
+ *
+ * With Settings.adaptiveFrequency on, the gap before the next feed quiz is
+ * worked out here instead of being the fixed showAfterNPosts. The base gap
+ * shrinks while the due backlog is large compared to what is left of the
+ * daily quiz target, and stretches once the target is met, the queue is
+ * empty, or today's answers are nearly all right.
+ */
+
+import * as storage from '../common/storage';
+import type { Card } from '../common/types';
+
+// Never more than this many times as often, or as rarely, as the base gap
+const MAX_SPEEDUP = 3;
+const MAX_SLOWDOWN = 3;
+
+// Today's accuracy only counts once there are enough answers to judge by
+const MIN_REVIEWS_FOR_ACCURACY = 10;
+const ACING_ACCURACY = 0.9;
+
+export interface QuizGapInput {
+  baseGap: number;       // Settings.showAfterNPosts
+  dueCount: number;      // Feed-eligible cards due now
+  reviewsToday: number;
+  correctToday: number;
+  dailyTarget: number;   // Settings.dailyQuizTarget
+}
+
+/**
+ * Posts to scroll past before the next quiz
+ */
+export function adaptiveQuizGap(input: QuizGapInput): number {
+  const baseGap = Math.max(1, input.baseGap);
+  const remaining = Math.max(0, input.dailyTarget - input.reviewsToday);
+
+  let factor: number;
+  if (input.dueCount === 0 || remaining === 0) {
+    factor = MAX_SLOWDOWN;
+  } else {
+    // A backlog four times what's left of the target halves the gap
+    factor = Math.sqrt(remaining / input.dueCount);
+  }
+
+  if (input.reviewsToday >= MIN_REVIEWS_FOR_ACCURACY && input.correctToday / input.reviewsToday >= ACING_ACCURACY) {
+    factor *= 1.5;
+  }
+
+  factor = Math.min(MAX_SLOWDOWN, Math.max(1 / MAX_SPEEDUP, factor));
+  return Math.max(1, Math.round(baseGap * factor));
+}
+
+/**
+ * Posts to scroll past before the next feed quiz: fixed, or adaptive to the
+ * due backlog and today's answers. `isEligible` picks the due cards the feed
+ * could serve.
+ */
+export async function nextQuizGap(isEligible: (card: Card) => boolean): Promise<number> {
+  const settings = await storage.getSettings();
+  if (!settings.adaptiveFrequency) return settings.showAfterNPosts;
+
+  const dueCount = await storage.countDueCards(isEligible);
+  const today = new Date().toISOString().split('T')[0];
+  const todayStats = (await storage.getStats()).dailyStats.find(d => d.date === today);
+
+  return adaptiveQuizGap({
+    baseGap: settings.showAfterNPosts,
+    dueCount,
+    reviewsToday: todayStats?.reviews ?? 0,
+    correctToday: todayStats?.correct ?? 0,
+    dailyTarget: settings.dailyQuizTarget,
+  });
+}
@@ -1,4 +1,5 @@
-import type { Card, Grade } from '../common/types';
+import type { Card, CardQueue, Deck, DeckDayCount, Grade, SchedulerAlgorithm } from '../common/types';
+import { fsrsUpdate, normalizeDesiredRetention, resolveFsrsWeights } from './fsrs';
 
 /**
  * SM-2 Spaced Repetition Algorithm Implementation
@@ -22,6 +23,17 @@ const MS_PER_MINUTE = 60 * 1000;
 // Relearn intervals for failed cards (in minutes)
 const FAIL_INTERVAL_MINUTES = 10; // Show failed cards again after 10 minutes
 
+// Default intraday steps (in minutes). A new card is shown again after 1
+// minute, then 10 minutes, and only then graduates to a day-based interval.
+// A lapsed card comes back after 10 minutes before re-graduating, which
+// matches the fixed relearn delay used before steps were configurable.
+export const DEFAULT_LEARNING_STEPS: readonly number[] = [1, 10];
+export const DEFAULT_RELEARNING_STEPS: readonly number[] = [10];
+
+// How far ahead a pending (re)learning card may be pulled forward when
+// nothing else is due, so a study session doesn't stall on a 1-minute step.
+export const LEARN_AHEAD_MS = 20 * MS_PER_MINUTE;
+
 // Initial intervals for new cards
 const INITIAL_INTERVALS: Record<Grade, number> = {
   0: 1,    // 1 day (but repetitions reset)
@@ -87,6 +99,218 @@ export function sm2Update(card: Card, grade: Grade): Card {
   return updated;
 }
 
+/**
+ * Which algorithm schedules cards in the given deck
+ */
+export function getDeckScheduler(deck?: Pick<Deck, 'scheduler'> | null): SchedulerAlgorithm {
+  return deck?.scheduler === 'fsrs' ? 'fsrs' : 'sm2';
+}
+
+export type DeckSchedulingOptions = Pick<
+  Deck,
+  'scheduler' | 'desiredRetention' | 'fsrsWeights' | 'learningSteps' | 'relearningSteps'
+>;
+
+/**
+ * Which queue a card is in. Cards saved before queues existed are derived
+ * from their history: never reviewed means new, anything else is review.
+ */
+export function getCardQueue(card: Card): CardQueue {
+  if (card.queue) return card.queue;
+  return card.repetitions === 0 && card.lapses === 0 ? 'new' : 'review';
+}
+
+/**
+ * False while a card is suspended or buried; such cards are never served
+ * and don't count as due, whatever their due date says.
+ */
+export function isCardActive(card: Card, now: number = Date.now()): boolean {
+  if (card.suspended || card.source?.orphaned) return false;
+  return card.buriedUntil === undefined || card.buriedUntil <= now;
+}
+
+/**
+ * Due now and not suspended or buried
+ */
+export function isCardDue(card: Card, now: number = Date.now()): boolean {
+  return card.due <= now && isCardActive(card, now);
+}
+
+/**
+ * When a card buried at `now` comes back: the next local midnight
+ */
+export function buryUntil(now: number = Date.now()): number {
+  const next = new Date(now);
+  next.setHours(24, 0, 0, 0);
+  return next.getTime();
+}
+
+/**
+ * Siblings of a just-answered card that should be buried until tomorrow:
+ * same siblingGroup, not suspended, not mid learning steps (those are
+ * time-critical), and due before the bury would lift anyway.
+ */
+export function siblingsToBury(answered: Card, cards: Card[], now: number = Date.now()): Card[] {
+  if (!answered.siblingGroup) return [];
+  const until = buryUntil(now);
+  return cards.filter(card =>
+    card.id !== answered.id
+    && card.siblingGroup === answered.siblingGroup
+    && !card.suspended
+    && !isLearningCard(card)
+    && card.due < until
+    && (card.buriedUntil ?? 0) < until,
+  );
+}
+
+/**
+ * True for cards stepping through intraday (re)learning delays
+ */
+export function isLearningCard(card: Card): boolean {
+  const queue = getCardQueue(card);
+  return queue === 'learning' || queue === 'relearning';
+}
+
+/**
+ * Apply the deck's day-based algorithm without any step handling
+ */
+function applyAlgorithm(card: Card, grade: Grade, deck?: DeckSchedulingOptions | null): Card {
+  if (getDeckScheduler(deck) === 'fsrs') {
+    return fsrsUpdate(
+      card,
+      grade,
+      normalizeDesiredRetention(deck?.desiredRetention),
+      resolveFsrsWeights(deck?.fsrsWeights),
+    );
+  }
+  return sm2Update(card, grade);
+}
+
+function enterStep(card: Card, queue: CardQueue, step: number, steps: readonly number[], now: number): Card {
+  return {
+    ...card,
+    queue,
+    learningStep: step,
+    intervalDays: 0,
+    due: now + steps[step] * MS_PER_MINUTE,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Advance a new/learning/relearning card through its steps, graduating it to
+ * a day-based interval once the last step is cleared (or on Easy).
+ *
+ * Again restarts the steps, Hard repeats the current one, Good moves to the
+ * next. Graduation hands the card to the deck algorithm with the graduating
+ * grade, so SM-2 applies its first-review interval and FSRS its initial or
+ * post-lapse stability.
+ */
+function stepOrGraduate(
+  card: Card,
+  grade: Grade,
+  deck: DeckSchedulingOptions | null | undefined,
+  steps: readonly number[],
+  stepQueue: 'learning' | 'relearning',
+  now: number,
+): Card {
+  const current = Math.min(card.learningStep ?? 0, Math.max(0, steps.length - 1));
+  if (steps.length > 0 && grade < 3) {
+    if (grade === 0) return enterStep(card, stepQueue, 0, steps, now);
+    if (grade === 1) return enterStep(card, stepQueue, current, steps, now);
+    const next = getCardQueue(card) === 'new' ? 1 : current + 1;
+    if (next < steps.length) return enterStep(card, stepQueue, next, steps, now);
+  }
+  // With no steps configured Again goes to the algorithm as it is, so the
+  // lapse and ease drop are counted and the card comes back in minutes as a
+  // review card instead of sitting in the learning queue.
+  const graduated = applyAlgorithm(card, grade, deck);
+  return { ...graduated, queue: 'review', learningStep: undefined };
+}
+
+/**
+ * Update a card's scheduling with whichever algorithm its deck uses, routing
+ * new and lapsed cards through the deck's learning / relearning steps first
+ */
+export function scheduleCard(
+  card: Card,
+  grade: Grade,
+  deck?: DeckSchedulingOptions | null,
+): Card {
+  const now = Date.now();
+  const queue = getCardQueue(card);
+  const learningSteps = deck?.learningSteps ?? DEFAULT_LEARNING_STEPS;
+  const relearningSteps = deck?.relearningSteps ?? DEFAULT_RELEARNING_STEPS;
+
+  if (queue === 'new' || queue === 'learning') {
+    return stepOrGraduate(card, grade, deck, learningSteps, 'learning', now);
+  }
+  if (queue === 'relearning') {
+    return stepOrGraduate(card, grade, deck, relearningSteps, 'relearning', now);
+  }
+
+  const updated = applyAlgorithm(card, grade, deck);
+  if (grade === 0) {
+    if (relearningSteps.length > 0) {
+      return enterStep(updated, 'relearning', 0, relearningSteps, now);
+    }
+    // No relearning steps: the lapse re-graduates straight to a 1-day interval.
+    return { ...updated, queue: 'review', learningStep: undefined, intervalDays: 1, due: now + MS_PER_DAY };
+  }
+  return { ...updated, queue: 'review', learningStep: undefined };
+}
+
+// Every Card field an answer can change.
+const SCHEDULING_FIELDS = [
+  'due', 'intervalDays', 'ease', 'repetitions', 'lapses',
+  'stability', 'difficulty', 'lastReviewedAt', 'queue', 'learningStep',
+] as const satisfies readonly (keyof Card)[];
+
+/**
+ * Copy the scheduling state from a pre-answer snapshot onto the current card,
+ * leaving content edits made since then alone. Fields the snapshot lacks are
+ * cleared, so a new card's first FSRS state is removed again.
+ */
+export function restoreSchedulingFields(current: Card, snapshot: Card): Card {
+  const restored: Card = { ...current };
+  for (const field of SCHEDULING_FIELDS) {
+    if (snapshot[field] === undefined) {
+      delete restored[field];
+    } else {
+      (restored as unknown as Record<string, unknown>)[field] = snapshot[field];
+    }
+  }
+  return restored;
+}
+
+/**
+ * Parse a steps string like "1m 10m 1h" into minutes. Bare numbers are
+ * minutes; "h" and "d" suffixes scale. Unparseable tokens are dropped.
+ */
+export function parseSteps(input: string): number[] {
+  const out: number[] = [];
+  for (const token of input.split(/[\s,]+/)) {
+    const match = /^(\d+(?:\.\d+)?)([mhd]?)$/i.exec(token.trim());
+    if (!match) continue;
+    const value = parseFloat(match[1]);
+    const unit = match[2].toLowerCase();
+    const minutes = unit === 'd' ? value * 1440 : unit === 'h' ? value * 60 : value;
+    if (minutes > 0) out.push(minutes);
+  }
+  return out;
+}
+
+/**
+ * Inverse of parseSteps, picking the largest whole unit for each step
+ */
+export function formatSteps(steps: readonly number[]): string {
+  return steps.map(m => {
+    if (m % 1440 === 0) return `${m / 1440}d`;
+    if (m % 60 === 0) return `${m / 60}h`;
+    return `${m}m`;
+  }).join(' ');
+}
+
 /**
  * Calculate new interval using SM-2 formula
  */
@@ -208,11 +432,14 @@ function formatInterval(days: number): string {
 /**
  * Preview what the next intervals would be for each grade
  */
-export function previewNextIntervals(card: Card): Record<Grade, string> {
+export function previewNextIntervals(
+  card: Card,
+  deck?: DeckSchedulingOptions | null,
+): Record<Grade, string> {
   const previews: Record<number, string> = {};
   
   for (const grade of [0, 1, 2, 3] as Grade[]) {
-    const updated = sm2Update(card, grade);
+    const updated = scheduleCard(card, grade, deck);
     previews[grade] = formatInterval(updated.intervalDays);
   }
   
@@ -268,15 +495,23 @@ export function estimateReviewTime(
 
 /**
  * Sort cards for optimal review order
- * Priority: overdue > new > learning
+ * Priority: intraday (re)learning > new > overdue review
  */
 export function sortCardsForReview(cards: Card[]): Card[] {
   const now = Date.now();
   
   return [...cards].sort((a, b) => {
-    // New cards (never reviewed) come first
-    const aIsNew = a.repetitions === 0;
-    const bIsNew = b.repetitions === 0;
+    // Cards mid-way through learning steps are time-sensitive: a 1-minute
+    // step loses its point if ten review cards are shown first.
+    const aIsLearning = isLearningCard(a);
+    const bIsLearning = isLearningCard(b);
+    if (aIsLearning && !bIsLearning) return -1;
+    if (!aIsLearning && bIsLearning) return 1;
+    if (aIsLearning && bIsLearning) return a.due - b.due;
+
+    // New cards (never reviewed) come next
+    const aIsNew = getCardQueue(a) === 'new';
+    const bIsNew = getCardQueue(b) === 'new';
     if (aIsNew && !bIsNew) return -1;
     if (!aIsNew && bIsNew) return 1;
     
@@ -288,6 +523,28 @@ export function sortCardsForReview(cards: Card[]): Card[] {
   });
 }
 
+export type DeckLimitOptions = Pick<Deck, 'newCardsPerDay' | 'reviewsPerDay'>;
+
+/**
+ * Whether a deck's daily limits still allow this card to be served today.
+ * Cards in (re)learning always pass: holding back a card mid-steps would
+ * strand it between short intervals.
+ */
+export function isWithinDailyLimits(
+  card: Card,
+  deck: DeckLimitOptions | null | undefined,
+  count: DeckDayCount | undefined,
+): boolean {
+  const queue = getCardQueue(card);
+  if (queue === 'new' && deck?.newCardsPerDay !== undefined) {
+    return (count?.newCards ?? 0) < deck.newCardsPerDay;
+  }
+  if (queue === 'review' && deck?.reviewsPerDay !== undefined) {
+    return (count?.reviews ?? 0) < deck.reviewsPerDay;
+  }
+  return true;
+}
+
 /**
  * Get card difficulty level based on history
  */
@@ -314,6 +571,7 @@ export function initializeCard(card: Omit<Card, 'due' | 'intervalDays' | 'ease'
     ease: DEFAULT_EASE,
     repetitions: 0,
     lapses: 0,
+    queue: 'new',
   } as Card;
 }
 
@@ -0,0 +1,405 @@
+// Anki deck export, the reverse of ankiImport.ts. Two flavours:
+//
+//   buildAnkiPackage → .apkg with two note types of our own (front/back/
+//                      extra and cloze), inline audio as media files and,
+//                      optionally, scheduling plus the review log
+//   buildAnkiText    → Anki's tab-separated text import using the stock
+//                      "Basic" and "Cloze" note types; no scheduling
+//
+// Each card becomes one note. Text is HTML-escaped with line breaks kept,
+// backExtra is rendered from markdown-lite, and cloze blanks `{{answer}}`
+// become `{{c1::answer}}`: all blanks of a card are asked together, so they
+// share one cloze number.
+
+import type { Card, CardQueue, Deck, ReviewRecord } from './types';
+import { CARD_FLAGS } from './types';
+import { renderBackExtraHTML } from './markdown';
+import { FIELD_SEPARATOR, MEDIA_TYPES, ankiHtmlToText } from './ankiImport';
+import { writeSqliteDatabase, type SqliteTableData } from './sqliteWriter';
+import type { SqliteValue } from './sqliteReader';
+import { writeZipBlob } from './notebookExport';
+
+const SECONDS_PER_DAY = 86400;
+
+// Fixed ids so a second export reuses the note types created by the first.
+const BASIC_MODEL_ID = 1_718_000_000_001;
+const CLOZE_MODEL_ID = 1_718_000_000_002;
+const DEFAULT_DECK_ID = 1;
+
+const MODEL_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n'
+  + '.cloze { font-weight: bold; color: blue; }';
+
+type NoteType = 'basic' | 'cloze';
+
+interface NoteFields {
+  type: NoteType;
+  fields: string[]; // basic: Front, Back, Extra; cloze: Text, Back Extra
+}
+
+export interface AnkiExportOptions {
+  // Carry due dates, intervals, ease and suspension over. Without it every
+  // card arrives in Anki as new.
+  includeScheduling?: boolean;
+  reviews?: ReviewRecord[]; // Written to the revlog when scheduling is included
+  now?: number;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r?\n/g, '<br>');
+}
+
+function clozeHtml(front: string): string {
+  return escapeHtml(front).replace(/\{\{([^}]+)\}\}/g, (_match, answer: string) => `{{c1::${answer}}}`);
+}
+
+function questionHtml(card: Card): string {
+  const question = escapeHtml(card.front);
+  if ((card.kind === 'mcq-single' || card.kind === 'mcq-multi') && card.options?.length) {
+    const items = card.options.map(option => `<li>${escapeHtml(option)}</li>`).join('');
+    return `${question}<ol type="A">${items}</ol>`;
+  }
+  return question;
+}
+
+function answerHtml(card: Card): string {
+  if ((card.kind === 'mcq-single' || card.kind === 'mcq-multi') && card.options?.length) {
+    const correct = Array.isArray(card.correct) ? card.correct : [card.correct ?? 0];
+    return correct.map(i => escapeHtml(card.options?.[i] ?? '')).filter(Boolean).join('<br>');
+  }
+  return escapeHtml(card.back);
+}
+
+function noteFields(card: Card, soundFile?: string): NoteFields {
+  const extra = card.backExtra ? renderBackExtraHTML(card.backExtra) : '';
+  if (card.kind === 'cloze') return { type: 'cloze', fields: [clozeHtml(card.front), extra] };
+  const question = questionHtml(card);
+  const front = soundFile ? `[sound:${soundFile}]${question ? `<br>${question}` : ''}` : question;
+  return { type: 'basic', fields: [front, answerHtml(card), extra] };
+}
+
+function noteTags(card: Card): string {
+  // Anki tags are space-separated, so spaces inside a tag become underscores.
+  return (card.tags ?? []).map(tag => tag.trim().replace(/\s+/g, '_')).filter(Boolean).join(' ');
+}
+
+function noteGuid(card: Card): string {
+  return card.externalId ?? card.id;
+}
+
+// -----------------------------------------------------------------------------
+// Tab-separated text
+// -----------------------------------------------------------------------------
+
+function textColumn(value: string): string {
+  return /[\t\n\r"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Anki's text import format (File → Import in Anki 2.1.55+). Header lines
+ * name the note type, deck, guid and tag columns, so the file imports
+ * without any column mapping. The stock Basic type has no extra field, so
+ * backExtra is appended to the back there.
+ */
+export function buildAnkiText(deck: Deck, cards: Card[]): string {
+  const lines = [
+    '#separator:tab',
+    '#html:true',
+    '#notetype column:1',
+    '#deck column:2',
+    '#guid column:3',
+    '#tags column:6',
+  ];
+  for (const card of cards) {
+    const { type, fields } = noteFields(card);
+    const [first, second, extra] = fields;
+    const columns = type === 'cloze'
+      ? ['Cloze', deck.name, noteGuid(card), first, second, noteTags(card)]
+      : ['Basic', deck.name, noteGuid(card), first, extra ? `${second}<hr>${extra}` : second, noteTags(card)];
+    lines.push(columns.map(textColumn).join('\t'));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// -----------------------------------------------------------------------------
+// .apkg
+// -----------------------------------------------------------------------------
+
+const COLLECTION_TABLES = {
+  col: 'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)',
+  notes: 'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)',
+  cards: 'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)',
+  revlog: 'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)',
+  graves: 'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)',
+};
+
+function modelField(name: string, ord: number) {
+  return { name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] };
+}
+
+function modelTemplate(name: string, ord: number, qfmt: string, afmt: string) {
+  return { name, ord, qfmt, afmt, did: null, bqfmt: '', bafmt: '' };
+}
+
+function buildModels(deckId: number, modSeconds: number) {
+  const shared = {
+    mod: modSeconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    css: MODEL_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    tags: [],
+    vers: [],
+  };
+  return {
+    [BASIC_MODEL_ID]: {
+      ...shared,
+      id: BASIC_MODEL_ID,
+      name: 'ScrollLearn Basic',
+      type: 0,
+      flds: [modelField('Front', 0), modelField('Back', 1), modelField('Extra', 2)],
+      tmpls: [modelTemplate('Card 1', 0, '{{Front}}', '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}{{#Extra}}<br><br>{{Extra}}{{/Extra}}')],
+      req: [[0, 'any', [0]]],
+    },
+    [CLOZE_MODEL_ID]: {
+      ...shared,
+      id: CLOZE_MODEL_ID,
+      name: 'ScrollLearn Cloze',
+      type: 1,
+      flds: [modelField('Text', 0), modelField('Back Extra', 1)],
+      tmpls: [modelTemplate('Cloze', 0, '{{cloze:Text}}', '{{cloze:Text}}<br>\n{{Back Extra}}')],
+    },
+  };
+}
+
+function buildDeck(id: number, name: string, description: string, modSeconds: number) {
+  return {
+    id,
+    name,
+    desc: description,
+    mod: modSeconds,
+    usn: -1,
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    browserCollapsed: false,
+    extendNew: 0,
+    extendRev: 0,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+const DEFAULT_DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { bury: false, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 0], order: 1, perDay: 20 },
+    lapse: { delays: [10], leechAction: 1, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: false, ease4: 1.3, ivlFct: 1, maxIvl: 36500, perDay: 200, hardFactor: 1.2 },
+  },
+};
+
+const ANKI_CARD_TYPES: Record<CardQueue, number> = { new: 0, learning: 1, review: 2, relearning: 3 };
+
+interface AnkiSchedule {
+  type: number;
+  queue: number;
+  due: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+}
+
+function cardQueue(card: Card): CardQueue {
+  return card.queue ?? (card.repetitions === 0 && card.lapses === 0 ? 'new' : 'review');
+}
+
+// Anki due: a position for new cards, a day number counted from the
+// collection's creation for review cards, Unix seconds while learning.
+function ankiSchedule(card: Card, position: number, collectionCreated: number, reviewCount: number): AnkiSchedule {
+  const queue = cardQueue(card);
+  const type = ANKI_CARD_TYPES[queue];
+  if (queue === 'new') {
+    return { type, queue: card.suspended ? -1 : 0, due: position, ivl: 0, factor: 0, reps: reviewCount, lapses: card.lapses };
+  }
+  const due = queue === 'review'
+    ? Math.max(0, Math.floor((card.due / 1000 - collectionCreated) / SECONDS_PER_DAY))
+    : Math.round(card.due / 1000);
+  return {
+    type,
+    queue: card.suspended ? -1 : queue === 'review' ? 2 : 1,
+    due,
+    ivl: queue === 'learning' ? 0 : Math.max(1, Math.round(card.intervalDays)),
+    factor: Math.round(card.ease * 1000),
+    reps: Math.max(reviewCount, card.repetitions + card.lapses),
+    lapses: card.lapses,
+  };
+}
+
+function newSchedule(position: number): AnkiSchedule {
+  return { type: 0, queue: 0, due: position, ivl: 0, factor: 0, reps: 0, lapses: 0 };
+}
+
+// Anki flags: 1 red, 2 orange, 3 green, 4 blue, 7 purple.
+function ankiFlag(card: Card): number {
+  if (!card.flag) return 0;
+  return card.flag === 'purple' ? 7 : CARD_FLAGS.indexOf(card.flag) + 1;
+}
+
+// First 8 hex digits of the SHA-1 of the stripped sort field, which Anki
+// uses to find duplicate notes.
+async function fieldChecksum(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return new DataView(digest).getUint32(0);
+}
+
+function decodeDataUrl(url: string): { bytes: Uint8Array; extension: string } | null {
+  const match = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(url);
+  if (!match) return null;
+  const extension = Object.entries(MEDIA_TYPES).find(([, type]) => type === match[1])?.[0];
+  if (!extension) return null;
+  const raw = match[2] ? atob(match[3]) : decodeURIComponent(match[3]);
+  return { bytes: Uint8Array.from(raw, ch => ch.charCodeAt(0)), extension };
+}
+
+/**
+ * Build an .apkg for one deck. Audio cards whose media is a data: URL carry
+ * the sound along; remote URLs are left out because Anki can only play
+ * files from its own media folder.
+ */
+export async function buildAnkiPackage(deck: Deck, cards: Card[], options: AnkiExportOptions = {}): Promise<Blob> {
+  const now = options.now ?? Date.now();
+  const nowSeconds = Math.floor(now / 1000);
+  const includeScheduling = options.includeScheduling ?? false;
+
+  // Day numbers are counted from crt, so it must not be later than any
+  // review card's due date.
+  const earliest = includeScheduling ? cards.reduce((min, card) => Math.min(min, card.due), now) : now;
+  const collectionCreated = Math.floor(earliest / 1000 / SECONDS_PER_DAY) * SECONDS_PER_DAY;
+  const deckId = now;
+
+  const reviewsByCard = new Map<string, ReviewRecord[]>();
+  if (includeScheduling) {
+    for (const review of options.reviews ?? []) {
+      const list = reviewsByCard.get(review.cardId);
+      if (list) list.push(review);
+      else reviewsByCard.set(review.cardId, [review]);
+    }
+  }
+
+  const media: Record<string, string> = {};
+  const mediaEntries: { path: string; content: Uint8Array }[] = [];
+  const notes: SqliteValue[][] = [];
+  const ankiCards: SqliteValue[][] = [];
+  const revlog: SqliteValue[][] = [];
+  const revlogIds = new Set<number>();
+
+  for (const [index, card] of cards.entries()) {
+    const id = now + index;
+
+    let soundFile: string | undefined;
+    const sound = card.kind === 'audio' && card.mediaUrl ? decodeDataUrl(card.mediaUrl) : null;
+    if (sound) {
+      soundFile = `scrolllearn-${card.id}.${sound.extension}`;
+      media[String(mediaEntries.length)] = soundFile;
+      mediaEntries.push({ path: String(mediaEntries.length), content: sound.bytes });
+    }
+
+    const { type, fields } = noteFields(card, soundFile);
+    const sortField = ankiHtmlToText(fields[0]);
+    notes.push([
+      id,
+      noteGuid(card),
+      type === 'cloze' ? CLOZE_MODEL_ID : BASIC_MODEL_ID,
+      nowSeconds,
+      -1,
+      noteTags(card) ? ` ${noteTags(card)} ` : '',
+      fields.join(FIELD_SEPARATOR),
+      sortField,
+      await fieldChecksum(sortField),
+      0,
+      '',
+    ]);
+
+    const reviews = (reviewsByCard.get(card.id) ?? []).sort((a, b) => a.timestamp - b.timestamp);
+    const schedule = includeScheduling
+      ? ankiSchedule(card, index + 1, collectionCreated, reviews.length)
+      : newSchedule(index + 1);
+    ankiCards.push([
+      id, id, deckId, 0, nowSeconds, -1,
+      schedule.type, schedule.queue, schedule.due, schedule.ivl, schedule.factor,
+      schedule.reps, schedule.lapses, 0, 0, 0, ankiFlag(card), '',
+    ]);
+
+    reviews.forEach((review, i) => {
+      // revlog ids are millisecond timestamps and must be unique.
+      let reviewId = review.timestamp;
+      while (revlogIds.has(reviewId)) reviewId++;
+      revlogIds.add(reviewId);
+      // 0 = learning (the first answer), 1 = review. Per-answer intervals
+      // are not kept in our log, so they read as 0.
+      revlog.push([reviewId, id, -1, review.grade + 1, 0, 0, 0, Math.min(review.responseTimeMs, 60_000), i === 0 ? 0 : 1]);
+    });
+  }
+
+  const conf = {
+    nextPos: cards.length + 1,
+    estTimes: true,
+    activeDecks: [deckId],
+    sortType: 'noteFld',
+    timeLim: 0,
+    sortBackwards: false,
+    addToCur: true,
+    curDeck: deckId,
+    newSpread: 0,
+    dueCounts: true,
+    curModel: BASIC_MODEL_ID,
+    collapseTime: 1200,
+  };
+  const decks = {
+    [DEFAULT_DECK_ID]: buildDeck(DEFAULT_DECK_ID, 'Default', '', nowSeconds),
+    [deckId]: buildDeck(deckId, deck.name, deck.description, nowSeconds),
+  };
+
+  const tables: SqliteTableData[] = [
+    {
+      name: 'col',
+      sql: COLLECTION_TABLES.col,
+      rows: [[
+        1, collectionCreated, now, now, 11, 0, 0, 0,
+        JSON.stringify(conf),
+        JSON.stringify(buildModels(deckId, nowSeconds)),
+        JSON.stringify(decks),
+        JSON.stringify(DEFAULT_DECK_CONFIG),
+        '{}',
+      ]],
+    },
+    { name: 'notes', sql: COLLECTION_TABLES.notes, rows: notes },
+    { name: 'cards', sql: COLLECTION_TABLES.cards, rows: ankiCards },
+    { name: 'revlog', sql: COLLECTION_TABLES.revlog, rows: revlog },
+    { name: 'graves', sql: COLLECTION_TABLES.graves, rows: [] },
+  ];
+
+  return writeZipBlob([
+    { path: 'collection.anki21', content: writeSqliteDatabase(tables) },
+    { path: 'media', content: JSON.stringify(media) },
+    ...mediaEntries,
+  ]);
+}
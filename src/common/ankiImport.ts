@@ -0,0 +1,338 @@
+// Anki package import (.apkg / .colpkg).
+//
+// A package is a zip holding an SQLite collection plus numbered media files
+// and a `media` JSON index. We read the legacy collection schema that every
+// Anki version can export (collection.anki21 / collection.anki2), render
+// each card's question and answer templates down to plain text, and map:
+//
+//   Standard note types → 'text' ('audio' when the question plays a sound)
+//   Cloze note types    → 'cloze', one card per cloze number
+//
+// Cards of one note become siblings. Scheduling and the review log come
+// along as ParsedCard.imported; the import panel decides whether to keep it.
+
+import type { CardQueue, Grade, ImportedSchedule, ParsedCard, ParseError, ParseResult } from './types';
+import { normalizeText } from './parser';
+import { readSqliteTable, type SqliteRow, type SqliteValue } from './sqliteReader';
+import { readZipEntries, type ZipEntry } from './zipReader';
+
+export const FIELD_SEPARATOR = '\u001f';
+const MODEL_CLOZE = 1;
+const SECONDS_PER_DAY = 86400;
+
+// Audio is stored on the card as a data: URL; larger files are left out.
+const MAX_INLINE_MEDIA_BYTES = 2 * 1024 * 1024;
+
+const LEGACY_EXPORT_HINT = 'Re-export it from Anki with "Support older Anki versions" ticked.';
+
+interface AnkiModel {
+  name: string;
+  type: number;
+  flds: Array<{ name: string; ord: number }>;
+  tmpls: Array<{ name: string; qfmt: string; afmt: string; ord: number }>;
+}
+
+interface AnkiDeck {
+  name: string;
+}
+
+const SOUND_TAG = /\[sound:([^\]]+)\]/g;
+const CLOZE_DELETION = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export const MEDIA_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  webm: 'audio/webm',
+  flac: 'audio/flac',
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Anki field HTML to the plain text our cards hold. Block ends, lists, <hr>
+ * and <br> become line breaks; everything else is dropped.
+ */
+export function ankiHtmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<(hr|ol|ul)\b[^>]*>/gi, '\n')
+    .replace(/<\/(div|p|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        // Out-of-range references stay as written; fromCodePoint would throw
+        return point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Render a card template against a note's fields. Covers field references
+ * (with filters), {{#Field}} / {{^Field}} sections and {{FrontSide}}, which
+ * renders empty: the answer side should hold only the answer.
+ */
+export function renderAnkiTemplate(template: string, fields: Record<string, string>): string {
+  const section = /\{\{([#^])\s*([^}]+?)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+  let out = template;
+  let previous: string;
+  do {
+    previous = out;
+    out = out.replace(section, (_match, kind: string, name: string, inner: string) => {
+      const filled = (fields[name] ?? '').trim() !== '';
+      return (kind === '#') === filled ? inner : '';
+    });
+  } while (out !== previous);
+
+  return out.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_match, ref: string) => {
+    const parts = ref.split(':');
+    const name = parts[parts.length - 1].trim();
+    // A type-in prompt renders as an input box in Anki; ours is built in.
+    if (name === 'FrontSide' || parts.slice(0, -1).includes('type')) return '';
+    return fields[name] ?? '';
+  });
+}
+
+function parseJsonColumn<T>(value: SqliteValue): T | null {
+  if (typeof value !== 'string' || value === '') return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function readPackage(bytes: Uint8Array): Promise<{ collection: Uint8Array; media: Map<string, ZipEntry> }> {
+  const entries = new Map(readZipEntries(bytes).map(entry => [entry.path, entry]));
+  // Anki 2.1.50+ writes a zstd-compressed collection.anki21b next to a
+  // placeholder collection.anki2 that only says "please update Anki".
+  if (entries.has('collection.anki21b') && !entries.has('collection.anki21')) {
+    throw new Error(`This package uses the newer Anki format. ${LEGACY_EXPORT_HINT}`);
+  }
+  const collection = entries.get('collection.anki21') ?? entries.get('collection.anki2');
+  if (!collection) throw new Error('No Anki collection found in this file');
+
+  // `media` maps the numbered zip entries to their original filenames.
+  const media = new Map<string, ZipEntry>();
+  const index = entries.get('media');
+  if (index) {
+    const names = parseJsonColumn<Record<string, string>>(new TextDecoder().decode(await index.read()));
+    for (const [key, filename] of Object.entries(names ?? {})) {
+      const entry = entries.get(key);
+      if (entry) media.set(filename, entry);
+    }
+  }
+  return { collection: await collection.read(), media };
+}
+
+function toBase64(data: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+async function mediaDataUrl(entry: ZipEntry, filename: string): Promise<string | undefined> {
+  const type = MEDIA_TYPES[filename.split('.').pop()?.toLowerCase() ?? ''];
+  if (!type || entry.size > MAX_INLINE_MEDIA_BYTES) return undefined;
+  return `data:${type};base64,${toBase64(await entry.read())}`;
+}
+
+type CardContent = Pick<ParsedCard, 'kind' | 'front' | 'back' | 'backExtra' | 'canonicalAnswers' | 'mediaUrl'>;
+
+function clozeContent(model: AnkiModel, fields: Record<string, string>, clozeNumber: number): CardContent | string {
+  const qfmt = model.tmpls[0]?.qfmt ?? '';
+  const textField = /\{\{(?:[^}:]*:)*cloze:([^}]+)\}\}/.exec(qfmt)?.[1]?.trim() ?? model.flds[0]?.name ?? '';
+  const text = fields[textField] ?? '';
+
+  const answers: string[] = [];
+  const front = text.replace(CLOZE_DELETION, (_match, n: string, answer: string, hint?: string) => {
+    if (Number(n) !== clozeNumber) return answer;
+    const plain = ankiHtmlToText(answer);
+    answers.push(plain);
+    const plainHint = hint && ankiHtmlToText(hint);
+    return plainHint ? `{{${plain}::${plainHint}}}` : `{{${plain}}}`;
+  });
+  if (answers.length === 0) return `no c${clozeNumber} deletion in "${textField}"`;
+
+  const extra = model.flds
+    .filter(field => field.name !== textField)
+    .map(field => ankiHtmlToText(fields[field.name] ?? ''))
+    .filter(Boolean)
+    .join('\n');
+  return {
+    kind: 'cloze',
+    front: ankiHtmlToText(front.replace(SOUND_TAG, '')),
+    back: answers.join(', '),
+    backExtra: extra || undefined,
+    canonicalAnswers: answers.map(answer => normalizeText(answer)),
+  };
+}
+
+async function standardContent(
+  model: AnkiModel,
+  fields: Record<string, string>,
+  ord: number,
+  loadMedia: (filename: string) => Promise<string | undefined>,
+): Promise<CardContent | string> {
+  const template = model.tmpls.find(t => t.ord === ord) ?? model.tmpls[ord];
+  if (!template) return `note type "${model.name}" has no template ${ord + 1}`;
+
+  const question = renderAnkiTemplate(template.qfmt, fields);
+  const back = ankiHtmlToText(renderAnkiTemplate(template.afmt, fields).replace(SOUND_TAG, ''));
+  const front = ankiHtmlToText(question.replace(SOUND_TAG, ''));
+  if (!back) return 'the answer side is empty';
+
+  const sound = [...question.matchAll(SOUND_TAG)][0]?.[1];
+  const mediaUrl = sound ? await loadMedia(sound) : undefined;
+  if (mediaUrl) {
+    return { kind: 'audio', front: front || 'Type what you hear', back, mediaUrl, canonicalAnswers: [normalizeText(back)] };
+  }
+  if (!front) return sound ? `audio file "${sound}" is missing or too large` : 'the question side is empty';
+  return { kind: 'text', front, back, canonicalAnswers: [normalizeText(back)] };
+}
+
+const ANKI_QUEUES: CardQueue[] = ['new', 'learning', 'review', 'relearning'];
+
+function importedSchedule(card: SqliteRow, reviews: SqliteRow[], collectionCreated: number, now: number): ImportedSchedule | undefined {
+  const queue = ANKI_QUEUES[Number(card.type)] ?? 'new';
+  const suspended = Number(card.queue) === -1;
+  // Manual reschedules (type 4) and ease-0 rows are not answers.
+  const history = reviews
+    .filter(r => Number(r.type) !== 4 && Number(r.ease) >= 1 && Number(r.ease) <= 4)
+    .sort((a, b) => Number(a.id) - Number(b.id))
+    .map(r => ({
+      timestamp: Number(r.id),
+      grade: (Number(r.ease) - 1) as Grade,
+      responseTimeMs: Math.max(0, Number(r.time) || 0),
+    }));
+  if (queue === 'new' && history.length === 0 && !suspended) return undefined;
+
+  // Cards sitting in a filtered deck keep their home-deck due in odue.
+  const rawDue = Number(card.odid) ? Number(card.odue) : Number(card.due);
+  // Review cards count days from collection creation; (re)learning cards
+  // hold a Unix timestamp in seconds.
+  const due = queue === 'new'
+    ? now
+    : rawDue > 1_000_000_000
+      ? rawDue * 1000
+      : (collectionCreated + rawDue * SECONDS_PER_DAY) * 1000;
+
+  // SM-2 repetitions: successful answers since the last lapse.
+  let repetitions = 0;
+  for (let i = history.length - 1; i >= 0 && history[i].grade > 0; i--) repetitions++;
+  if (history.length === 0 && queue === 'review') {
+    repetitions = Math.max(1, Number(card.reps) - Number(card.lapses));
+  }
+
+  const factor = Number(card.factor);
+  return {
+    due,
+    intervalDays: Math.max(0, Number(card.ivl) || 0),
+    ease: factor > 0 ? factor / 1000 : 2.5,
+    repetitions,
+    lapses: Number(card.lapses) || 0,
+    queue,
+    lastReviewedAt: history.length > 0 ? history[history.length - 1].timestamp : undefined,
+    suspended: suspended || undefined,
+    reviews: history.length > 0 ? history : undefined,
+  };
+}
+
+/**
+ * Parse an Anki .apkg / .colpkg file into cards. Cards the mapping cannot
+ * represent are reported in `errors` (line = card number in the package);
+ * a file that is not a readable Anki package throws.
+ */
+export async function parseAnkiPackage(bytes: Uint8Array, now: number = Date.now()): Promise<ParseResult> {
+  const { collection, media } = await readPackage(bytes);
+  const [col] = readSqliteTable(collection, 'col') ?? [];
+  if (!col) throw new Error('Not an Anki collection');
+  const models = parseJsonColumn<Record<string, AnkiModel>>(col.models);
+  if (!models || Object.keys(models).length === 0) {
+    throw new Error(`Unsupported Anki collection format. ${LEGACY_EXPORT_HINT}`);
+  }
+  const decks = parseJsonColumn<Record<string, AnkiDeck>>(col.decks) ?? {};
+  const collectionCreated = Number(col.crt) || 0;
+
+  const notes = new Map((readSqliteTable(collection, 'notes') ?? []).map(note => [Number(note.id), note]));
+  const reviewsByCard = new Map<number, SqliteRow[]>();
+  for (const review of readSqliteTable(collection, 'revlog') ?? []) {
+    const list = reviewsByCard.get(Number(review.cid));
+    if (list) list.push(review);
+    else reviewsByCard.set(Number(review.cid), [review]);
+  }
+  const cardRows = (readSqliteTable(collection, 'cards') ?? [])
+    .sort((a, b) => Number(a.nid) - Number(b.nid) || Number(a.ord) - Number(b.ord));
+
+  const mediaCache = new Map<string, Promise<string | undefined>>();
+  const loadMedia = (filename: string): Promise<string | undefined> => {
+    const entry = media.get(filename);
+    if (!entry) return Promise.resolve(undefined);
+    let url = mediaCache.get(filename);
+    if (!url) {
+      url = mediaDataUrl(entry, filename);
+      mediaCache.set(filename, url);
+    }
+    return url;
+  };
+
+  const cards: ParsedCard[] = [];
+  const errors: ParseError[] = [];
+  for (const [index, card] of cardRows.entries()) {
+    const note = notes.get(Number(card.nid));
+    const model = note ? models[String(note.mid)] : undefined;
+    if (!note || !model) {
+      errors.push({ line: index + 1, message: 'Card has no note or note type', raw: String(card.id) });
+      continue;
+    }
+
+    const values = String(note.flds ?? '').split(FIELD_SEPARATOR);
+    const fields: Record<string, string> = {};
+    [...model.flds].sort((a, b) => a.ord - b.ord).forEach((field, i) => {
+      fields[field.name] = values[i] ?? '';
+    });
+    const tags = String(note.tags ?? '').trim().split(/\s+/).filter(Boolean);
+    const deckName = decks[String(card.did)]?.name;
+    fields.Tags = tags.join(' ');
+    fields.Deck = deckName ?? '';
+
+    const ord = Number(card.ord);
+    const content = model.type === MODEL_CLOZE
+      ? clozeContent(model, fields, ord + 1)
+      : await standardContent(model, fields, ord, loadMedia);
+    if (typeof content === 'string') {
+      errors.push({ line: index + 1, message: `Skipped: ${content}`, raw: ankiHtmlToText(values[0] ?? '').slice(0, 100) });
+      continue;
+    }
+
+    cards.push({
+      ...content,
+      tags: tags.length > 0 ? tags : undefined,
+      deckName,
+      siblingGroup: `anki-${note.id}`,
+      externalId: `${String(note.guid)}:${ord}`,
+      imported: importedSchedule(card, reviewsByCard.get(Number(card.id)) ?? [], collectionCreated, now),
+    });
+  }
+  return { cards, errors };
+}
@@ -0,0 +1,465 @@
+// Full-data backup and restore.
+//
+// A backup is a zip (writeZipBlob) holding manifest.json and one JSON file
+// per section. Blobs -- notebook attachments and cached TTS audio -- sit in
+// their own entries, referenced by path from the section's JSON. The
+// manifest records the format version: older archives are upgraded through
+// MIGRATIONS before anything is restored, newer ones are refused.
+//
+// Restore runs section by section, each either merged into what is already
+// there (records matched by id, the more recently updated copy wins) or
+// replacing it outright.
+
+import type {
+  AiHideStats,
+  Card,
+  Deck,
+  IpaProgress,
+  IpaStudyStats,
+  Note,
+  Notebook,
+  ReviewRecord,
+  Settings,
+  ShadowScript,
+  Stats,
+} from './types';
+import { DEFAULT_SETTINGS } from './types';
+import * as storage from './storage';
+import * as reviewLog from './reviewLog';
+import * as notebookStore from './notebookStore';
+import type { NotebookAttachment, NotebookBody } from './notebookStore';
+import * as audioCache from './tts/audioCache';
+import type { CachedAudioEntry } from './tts/audioCache';
+import { getPronCheckHistoryMap, savePronCheckHistoryMap, MAX_RUNS_PER_SCRIPT, type HistoryMap } from './shadowPronHistory';
+import { writeZipBlob } from './notebookExport';
+import { readZipEntries, type ZipEntry } from './zipReader';
+
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const APP_ID = 'scrolllearn';
+
+export type BackupSection =
+  | 'decks'
+  | 'settings'
+  | 'stats'
+  | 'notes'
+  | 'notebooks'
+  | 'shadow'
+  | 'ipa'
+  | 'aiHideStats'
+  | 'ttsCache';
+
+export type RestoreMode = 'merge' | 'replace';
+
+// Also the restore order: stats goes before decks so that, without
+// IndexedDB, the review history restored into Stats is not overwritten.
+export const BACKUP_SECTIONS: Array<{ id: BackupSection; label: string }> = [
+  { id: 'settings', label: 'Settings' },
+  { id: 'stats', label: 'Study stats' },
+  { id: 'decks', label: 'Decks, cards and review history' },
+  { id: 'notes', label: 'Captured notes' },
+  { id: 'notebooks', label: 'Notebooks and attachments' },
+  { id: 'shadow', label: 'Shadow scripts and pronunciation checks' },
+  { id: 'ipa', label: 'IPA progress' },
+  { id: 'aiHideStats', label: 'AI filter stats' },
+  { id: 'ttsCache', label: 'Cached TTS audio' },
+];
+
+export interface BackupManifest {
+  app: typeof APP_ID;
+  version: number;
+  createdAt: number;
+  extensionVersion?: string;
+  sections: Partial<Record<BackupSection, number>>; // Item count per section
+}
+
+export interface BackupData {
+  decks?: { decks: Deck[]; cards: Card[]; reviews: ReviewRecord[] };
+  settings?: Settings;
+  stats?: Stats; // reviewHistory travels with decks, so it is always empty here
+  notes?: Note[];
+  notebooks?: { notebooks: Notebook[]; bodies: NotebookBody[]; attachments: NotebookAttachment[] };
+  shadow?: { scripts: ShadowScript[]; pronHistory: HistoryMap };
+  ipa?: { progress: IpaProgress; stats: IpaStudyStats };
+  aiHideStats?: AiHideStats;
+  ttsCache?: CachedAudioEntry[];
+}
+
+export interface Backup {
+  manifest: BackupManifest;
+  data: BackupData;
+}
+
+// In the archive, attachment and audio records carry the zip path of their
+// bytes instead of the Blob.
+type ArchivedAttachment = Omit<NotebookAttachment, 'blob'> & { path: string };
+type ArchivedAudio = Omit<CachedAudioEntry, 'blob'> & { path: string };
+
+type RawSections = Record<string, unknown>;
+
+function sectionFile(section: BackupSection): string {
+  return `${section}.json`;
+}
+
+function sectionSize(section: BackupSection, data: BackupData): number {
+  switch (section) {
+    case 'decks': return data.decks ? data.decks.cards.length : 0;
+    case 'settings': return data.settings ? 1 : 0;
+    case 'stats': return data.stats ? data.stats.dailyStats.length : 0;
+    case 'notes': return data.notes?.length ?? 0;
+    case 'notebooks': return data.notebooks?.notebooks.length ?? 0;
+    case 'shadow': return data.shadow?.scripts.length ?? 0;
+    case 'ipa': return data.ipa ? Object.keys(data.ipa.progress).length : 0;
+    case 'aiHideStats': return data.aiHideStats ? data.aiHideStats.daily.length : 0;
+    case 'ttsCache': return data.ttsCache?.length ?? 0;
+  }
+}
+
+export function manifestFor(data: BackupData, createdAt: number, extensionVersion?: string): BackupManifest {
+  const sections: BackupManifest['sections'] = {};
+  for (const { id } of BACKUP_SECTIONS) {
+    if (data[id] !== undefined) sections[id] = sectionSize(id, data);
+  }
+  return { app: APP_ID, version: BACKUP_VERSION, createdAt, extensionVersion, sections };
+}
+
+// -----------------------------------------------------------------------------
+// Collect
+// -----------------------------------------------------------------------------
+
+/**
+ * Read the listed sections out of every store. The TTS cache is left out
+ * unless asked for: it is large and can always be regenerated.
+ */
+export async function collectBackup(
+  sections: BackupSection[] = BACKUP_SECTIONS.map(s => s.id).filter(id => id !== 'ttsCache'),
+): Promise<BackupData> {
+  const want = new Set(sections);
+  const data: BackupData = {};
+
+  if (want.has('decks')) {
+    const [decks, cards, stats, reviews] = await Promise.all([
+      storage.getDecks(),
+      storage.getCards(),
+      storage.getStats(),
+      reviewLog.getReviews(),
+    ]);
+    // Without IndexedDB the history lives on Stats.reviewHistory.
+    data.decks = { decks, cards, reviews: reviewLog.reviewLogAvailable() ? reviews : stats.reviewHistory };
+  }
+  if (want.has('settings')) data.settings = await storage.getSettings();
+  if (want.has('stats')) data.stats = { ...(await storage.getStats()), reviewHistory: [] };
+  if (want.has('notes')) data.notes = await storage.getNotes();
+  if (want.has('notebooks')) {
+    const [notebooks, bodies, attachments] = await Promise.all([
+      storage.getNotebooks(),
+      notebookStore.getAllBodies(),
+      notebookStore.getAllAttachments(),
+    ]);
+    data.notebooks = { notebooks, bodies, attachments };
+  }
+  if (want.has('shadow')) {
+    const [scripts, pronHistory] = await Promise.all([storage.getShadowScripts(), getPronCheckHistoryMap()]);
+    data.shadow = { scripts, pronHistory };
+  }
+  if (want.has('ipa')) {
+    const [progress, stats] = await Promise.all([storage.getIpaProgress(), storage.getIpaStats()]);
+    data.ipa = { progress, stats };
+  }
+  if (want.has('aiHideStats')) data.aiHideStats = await storage.getAiHideStats();
+  if (want.has('ttsCache')) data.ttsCache = await audioCache.listCached();
+  return data;
+}
+
+// -----------------------------------------------------------------------------
+// Archive
+// -----------------------------------------------------------------------------
+
+async function blobBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+export async function writeBackupArchive(
+  data: BackupData,
+  options: { now?: number; extensionVersion?: string } = {},
+): Promise<Blob> {
+  const manifest = manifestFor(data, options.now ?? Date.now(), options.extensionVersion);
+  const entries: { path: string; content: string | Uint8Array }[] = [
+    { path: MANIFEST_PATH, content: JSON.stringify(manifest, null, 2) },
+  ];
+  const sections: RawSections = { ...data };
+
+  if (data.notebooks) {
+    const attachments: ArchivedAttachment[] = [];
+    for (const { blob, ...attachment } of data.notebooks.attachments) {
+      const path = `notebooks/attachments/${attachment.id}`;
+      entries.push({ path, content: await blobBytes(blob) });
+      attachments.push({ ...attachment, path });
+    }
+    sections.notebooks = { ...data.notebooks, attachments };
+  }
+  if (data.ttsCache) {
+    const audio: ArchivedAudio[] = [];
+    for (const [index, { blob, ...entry }] of data.ttsCache.entries()) {
+      const path = `ttsCache/${index}`;
+      entries.push({ path, content: await blobBytes(blob) });
+      audio.push({ ...entry, path });
+    }
+    sections.ttsCache = audio;
+  }
+
+  for (const { id } of BACKUP_SECTIONS) {
+    if (sections[id] !== undefined) entries.push({ path: sectionFile(id), content: JSON.stringify(sections[id]) });
+  }
+  return writeZipBlob(entries);
+}
+
+// Cards on their own, or exportAllData()'s { decks, cards, settings, stats }:
+// the plain JSON exports from before backups had a manifest.
+function migrateLegacyExport(raw: RawSections): RawSections {
+  const legacy = raw.legacy;
+  const out: RawSections = {};
+  const exported = (Array.isArray(legacy) ? { cards: legacy } : legacy ?? {}) as {
+    decks?: Deck[];
+    cards?: Card[];
+    settings?: Settings;
+    stats?: Stats;
+  };
+  if (!Array.isArray(exported.cards)) throw new Error('Not a ScrollLearn backup');
+
+  const decks = exported.decks ?? [];
+  // A bare card array names its decks only by id; give each one a
+  // placeholder that an existing deck with the same id wins over on merge.
+  const known = new Set(decks.map(deck => deck.id));
+  for (const deckId of new Set(exported.cards.map(card => card.deckId))) {
+    if (known.has(deckId)) continue;
+    decks.push({ id: deckId, name: 'Restored deck', description: '', createdAt: 0, updatedAt: 0 });
+  }
+  out.decks = { decks, cards: exported.cards, reviews: exported.stats?.reviewHistory ?? [] };
+  if (exported.settings) out.settings = exported.settings;
+  if (exported.stats) out.stats = { ...exported.stats, reviewHistory: [] };
+  return out;
+}
+
+// MIGRATIONS[n] upgrades the sections of a version-n backup to version n+1.
+const MIGRATIONS: Array<(raw: RawSections) => RawSections> = [
+  migrateLegacyExport,
+];
+
+function migrate(raw: RawSections, fromVersion: number): RawSections {
+  let out = raw;
+  for (let version = fromVersion; version < BACKUP_VERSION; version++) {
+    out = MIGRATIONS[version](out);
+  }
+  return out;
+}
+
+async function readJson<T>(entry: ZipEntry | undefined): Promise<T | undefined> {
+  if (!entry) return undefined;
+  return JSON.parse(new TextDecoder().decode(await entry.read())) as T;
+}
+
+async function entryBlob(entries: Map<string, ZipEntry>, path: string, type: string): Promise<Blob> {
+  const entry = entries.get(path);
+  if (!entry) throw new Error(`Backup is missing ${path}`);
+  const bytes = await entry.read();
+  return new Blob([bytes.slice().buffer as ArrayBuffer], { type });
+}
+
+/**
+ * Open a backup: a zip written by writeBackupArchive, or one of the older
+ * plain JSON exports. Returns the manifest as of the current format version
+ * and the upgraded sections. Throws when the file is not a backup or was
+ * written by a newer version of the extension.
+ */
+export async function readBackupArchive(bytes: Uint8Array): Promise<Backup> {
+  // "PK": a zip. Anything else is tried as a pre-manifest JSON export.
+  if (bytes[0] !== 0x50 || bytes[1] !== 0x4b) {
+    let legacy: unknown;
+    try {
+      legacy = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+      throw new Error('Not a ScrollLearn backup');
+    }
+    const data = migrate({ legacy }, 0) as BackupData;
+    return { manifest: manifestFor(data, 0), data };
+  }
+
+  const entries = new Map(readZipEntries(bytes).map(entry => [entry.path, entry]));
+  const manifest = await readJson<BackupManifest>(entries.get(MANIFEST_PATH));
+  if (!manifest || manifest.app !== APP_ID) throw new Error('Not a ScrollLearn backup');
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error(`This backup was made by a newer version of ScrollLearn (format ${manifest.version}). Update the extension to restore it.`);
+  }
+
+  const raw: RawSections = {};
+  for (const { id } of BACKUP_SECTIONS) {
+    const value = await readJson<unknown>(entries.get(sectionFile(id)));
+    if (value !== undefined) raw[id] = value;
+  }
+  const sections = migrate(raw, manifest.version);
+
+  const data = sections as BackupData;
+  const notebooks = sections.notebooks as { attachments: ArchivedAttachment[] } | undefined;
+  if (notebooks && data.notebooks) {
+    data.notebooks.attachments = await Promise.all(notebooks.attachments.map(async ({ path, ...attachment }) => ({
+      ...attachment,
+      blob: await entryBlob(entries, path, attachment.mime),
+    })));
+  }
+  const audio = sections.ttsCache as ArchivedAudio[] | undefined;
+  if (audio) {
+    data.ttsCache = await Promise.all(audio.map(async ({ path, ...entry }) => ({
+      ...entry,
+      blob: await entryBlob(entries, path, entry.mimeType),
+    })));
+  }
+  return { manifest: { ...manifest, version: BACKUP_VERSION, sections: manifestFor(data, 0).sections }, data };
+}
+
+// -----------------------------------------------------------------------------
+// Restore
+// -----------------------------------------------------------------------------
+
+// Union by id. On a clash the copy updated later wins; records without an
+// updatedAt keep the local copy.
+function mergeById<T extends { id: string; updatedAt?: number }>(local: T[], incoming: T[]): T[] {
+  const byId = new Map(local.map(item => [item.id, item]));
+  for (const item of incoming) {
+    const current = byId.get(item.id);
+    if (!current || (item.updatedAt ?? 0) > (current.updatedAt ?? 0)) byId.set(item.id, item);
+  }
+  return [...byId.values()];
+}
+
+// Keep the local counters and streak; add the days only the backup has.
+function mergeStats(local: Stats, incoming: Stats): Stats {
+  const days = new Map(local.dailyStats.map(day => [day.date, day]));
+  for (const day of incoming.dailyStats) {
+    const current = days.get(day.date);
+    if (!current || day.reviews > current.reviews) days.set(day.date, day);
+  }
+  return {
+    ...local,
+    totalReviews: Math.max(local.totalReviews, incoming.totalReviews),
+    longestStreak: Math.max(local.longestStreak, incoming.longestStreak),
+    dailyStats: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+function mergeAiHideStats(local: AiHideStats, incoming: AiHideStats): AiHideStats {
+  const total = { ...local.total };
+  for (const [reason, count] of Object.entries(incoming.total) as Array<[keyof AiHideStats['total'], number]>) {
+    total[reason] = Math.max(total[reason] ?? 0, count);
+  }
+  const days = new Map(local.daily.map(day => [day.date, day]));
+  const hidden = (day: AiHideStats['daily'][number]) => Object.values(day.counts).reduce((sum, n) => sum + (n ?? 0), 0);
+  for (const day of incoming.daily) {
+    const current = days.get(day.date);
+    if (!current || hidden(day) > hidden(current)) days.set(day.date, day);
+  }
+  return { total, daily: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)) };
+}
+
+function mergePronHistory(local: HistoryMap, incoming: HistoryMap): HistoryMap {
+  const out: HistoryMap = { ...local };
+  for (const [scriptId, runs] of Object.entries(incoming)) {
+    const seen = new Set((out[scriptId] ?? []).map(run => run.createdAt));
+    const merged = [...(out[scriptId] ?? []), ...runs.filter(run => !seen.has(run.createdAt))]
+      .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0));
+    out[scriptId] = merged.slice(-MAX_RUNS_PER_SCRIPT);
+  }
+  return out;
+}
+
+async function restoreSection(section: BackupSection, data: BackupData, mode: RestoreMode): Promise<void> {
+  const replace = mode === 'replace';
+  switch (section) {
+    case 'settings': {
+      const incoming = data.settings!;
+      const base = replace ? DEFAULT_SETTINGS : await storage.getSettings();
+      await storage.saveSettings({ ...base, ...incoming });
+      return;
+    }
+    case 'stats': {
+      const local = await storage.getStats();
+      const next = replace ? data.stats! : mergeStats(local, data.stats!);
+      // The review history is restored with the decks section.
+      await storage.saveStats({ ...next, reviewHistory: local.reviewHistory });
+      return;
+    }
+    case 'decks': {
+      const { decks, cards, reviews } = data.decks!;
+      await storage.saveDecks(replace ? decks : mergeById(await storage.getDecks(), decks));
+      await storage.saveCards(replace ? cards : mergeById(await storage.getCards(), cards));
+      await storage.restoreReviewHistory(reviews, mode);
+      return;
+    }
+    case 'notes':
+      await storage.saveNotes(replace ? data.notes! : mergeById(await storage.getNotes(), data.notes!));
+      return;
+    case 'notebooks': {
+      const { notebooks, bodies, attachments } = data.notebooks!;
+      const local = replace ? [] : await storage.getNotebooks();
+      const merged = mergeById(local, notebooks);
+      // Only bring bodies across for notebooks whose backup copy won.
+      const restored = new Set(merged.filter(n => notebooks.includes(n)).map(n => n.id));
+      if (replace) await notebookStore.clearAll();
+      await notebookStore.putEntries(
+        bodies.filter(body => restored.has(body.id)),
+        attachments.filter(attachment => restored.has(attachment.notebookId)),
+      );
+      await storage.saveNotebooks(merged);
+      return;
+    }
+    case 'shadow': {
+      const { scripts, pronHistory } = data.shadow!;
+      await storage.saveShadowScripts(replace ? scripts : mergeById(await storage.getShadowScripts(), scripts));
+      await savePronCheckHistoryMap(replace ? pronHistory : mergePronHistory(await getPronCheckHistoryMap(), pronHistory));
+      return;
+    }
+    case 'ipa': {
+      const { progress, stats } = data.ipa!;
+      if (replace) {
+        await storage.saveIpaProgress(progress);
+        await storage.saveIpaStats(stats);
+        return;
+      }
+      const local = await storage.getIpaProgress();
+      const next = { ...local };
+      for (const [symbol, entry] of Object.entries(progress)) {
+        if (!next[symbol] || entry.lastSeen > next[symbol].lastSeen) next[symbol] = entry;
+      }
+      await storage.saveIpaProgress(next);
+      const dates = new Set([...(await storage.getIpaStats()).practiceDates, ...stats.practiceDates]);
+      await storage.saveIpaStats({ practiceDates: [...dates].sort() });
+      return;
+    }
+    case 'aiHideStats':
+      await storage.saveAiHideStats(replace ? data.aiHideStats! : mergeAiHideStats(await storage.getAiHideStats(), data.aiHideStats!));
+      return;
+    case 'ttsCache':
+      if (replace) await audioCache.clearCache();
+      await audioCache.putEntries(data.ttsCache!);
+      return;
+  }
+}
+
+/**
+ * Restore the sections listed in `plan`, each merged or replaced. Sections
+ * the backup does not hold are skipped. Returns the sections restored.
+ */
+export async function restoreBackup(
+  data: BackupData,
+  plan: Partial<Record<BackupSection, RestoreMode>>,
+): Promise<BackupSection[]> {
+  const restored: BackupSection[] = [];
+  for (const { id } of BACKUP_SECTIONS) {
+    const mode = plan[id];
+    if (!mode || data[id] === undefined) continue;
+    await restoreSection(id, data, mode);
+    restored.push(id);
+  }
+  return restored;
+}
@@ -0,0 +1,150 @@
+// IndexedDB-backed automatic backups.
+//
+// Once a day the background worker writes a full backup archive (the same
+// zip Settings → Download backup produces, minus the TTS cache) into its own
+// database and prunes the oldest snapshots down to the retention count. The
+// database is separate from every store clearAllData() wipes, so a bad
+// import or an accidental wipe can be rolled back from Settings.
+
+import type { Settings } from './types';
+import { collectBackup, manifestFor, writeBackupArchive, type BackupManifest } from './backup';
+
+const DB_NAME = 'scrolllearn-backups';
+const STORE_SNAPSHOTS = 'snapshots';
+const DB_VERSION = 1;
+
+export const SNAPSHOT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Alarms drift by a few minutes, and a snapshot taken on startup shifts the
+// schedule; anything within this margin of a full interval counts as due.
+const DUE_MARGIN_MS = 60 * 60 * 1000;
+
+export interface BackupSnapshot {
+  id: number; // createdAt, unique enough at one snapshot a day
+  createdAt: number;
+  byteLength: number;
+  sections: BackupManifest['sections'];
+  blob: Blob; // The backup archive, readable with readBackupArchive
+}
+
+export type BackupSnapshotInfo = Omit<BackupSnapshot, 'blob'>;
+
+export function snapshotsAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!snapshotsAvailable()) {
+    return Promise.reject(new Error('IndexedDB unavailable'));
+  }
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE_SNAPSHOTS)) {
+        db.createObjectStore(STORE_SNAPSHOTS, { keyPath: 'id' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB open failed'));
+  });
+  return dbPromise;
+}
+
+export function resetDbHandle(): void {
+  dbPromise = null;
+}
+
+function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE_SNAPSHOTS, mode);
+    const store = tx.objectStore(STORE_SNAPSHOTS);
+    let result: T;
+    Promise.resolve(fn(store)).then(value => {
+      result = value;
+    }).catch(reject);
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  }));
+}
+
+function reqAsPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+// Newest first, without the archives.
+export async function listSnapshots(): Promise<BackupSnapshotInfo[]> {
+  if (!snapshotsAvailable()) return [];
+  const all = await withStore('readonly', store => reqAsPromise<BackupSnapshot[]>(store.getAll()));
+  return all
+    .map(({ blob: _blob, ...info }) => info)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getSnapshot(id: number): Promise<BackupSnapshot | null> {
+  if (!snapshotsAvailable()) return null;
+  const snapshot = await withStore('readonly', store => reqAsPromise<BackupSnapshot | undefined>(store.get(id)));
+  return snapshot ?? null;
+}
+
+export async function saveSnapshot(snapshot: BackupSnapshot): Promise<void> {
+  await withStore<void>('readwrite', store => {
+    store.put(snapshot);
+  });
+}
+
+export async function deleteSnapshot(id: number): Promise<void> {
+  if (!snapshotsAvailable()) return;
+  await withStore<void>('readwrite', store => {
+    store.delete(id);
+  });
+}
+
+/** Delete all but the `keep` newest snapshots. Returns how many went. */
+export async function pruneSnapshots(keep: number): Promise<number> {
+  const stale = (await listSnapshots()).slice(Math.max(keep, 0));
+  if (stale.length === 0) return 0;
+  await withStore<void>('readwrite', store => {
+    stale.forEach(snapshot => store.delete(snapshot.id));
+  });
+  return stale.length;
+}
+
+export function snapshotDue(snapshots: BackupSnapshotInfo[], now: number): boolean {
+  const latest = snapshots.reduce((max, s) => Math.max(max, s.createdAt), 0);
+  return now - latest >= SNAPSHOT_INTERVAL_MS - DUE_MARGIN_MS;
+}
+
+/** Write a snapshot of everything except the TTS cache. */
+export async function takeSnapshot(now = Date.now()): Promise<BackupSnapshotInfo> {
+  const data = await collectBackup();
+  const blob = await writeBackupArchive(data, { now, extensionVersion: chrome.runtime.getManifest().version });
+  const { sections } = manifestFor(data, now);
+  const snapshot: BackupSnapshot = { id: now, createdAt: now, byteLength: blob.size, sections, blob };
+  await saveSnapshot(snapshot);
+  const { blob: _blob, ...info } = snapshot;
+  return info;
+}
+
+/**
+ * The alarm's entry point: take a snapshot when automatic backups are on and
+ * the last one is a day old, then prune to the retention count. Returns the
+ * new snapshot, or null when none was due.
+ */
+export async function runScheduledSnapshot(settings: Settings, now = Date.now()): Promise<BackupSnapshotInfo | null> {
+  if (!settings.autoBackupEnabled || !snapshotsAvailable()) return null;
+  if (!snapshotDue(await listSnapshots(), now)) return null;
+  const snapshot = await takeSnapshot(now);
+  await pruneSnapshots(settings.autoBackupKeep);
+  return snapshot;
+}
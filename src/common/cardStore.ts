@@ -0,0 +1,211 @@
+// IndexedDB-backed card store: one row per card, keyed by card id.
+//
+// Cards used to live in a single `scrolllearn_cards` array in
+// chrome.storage.local, so every getCard/saveCard read and rewrote the
+// whole collection and each in-feed quiz scanned it for due cards. Here a
+// save touches one row, and the `deckId` and `due` indexes answer deck
+// listings and due queries without loading everything.
+//
+// storage.ts owns the migration from the legacy array and falls back to it
+// where IndexedDB is missing. Unlike the review log, reads here let errors
+// propagate: cards are the user's data, and an empty list on a transient
+// failure would look like they had been deleted.
+
+import type { Card } from './types';
+
+const DB_NAME = 'scrolllearn-cards';
+const STORE_CARDS = 'cards';
+const DB_VERSION = 1;
+
+// Node (vitest) has no IndexedDB.
+export function cardStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!cardStoreAvailable()) {
+    return Promise.reject(new Error('IndexedDB unavailable'));
+  }
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE_CARDS)) {
+        const store = db.createObjectStore(STORE_CARDS, { keyPath: 'id' });
+        store.createIndex('deckId', 'deckId');
+        store.createIndex('due', 'due');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB open failed'));
+  });
+  return dbPromise;
+}
+
+export function resetDbHandle(): void {
+  dbPromise = null;
+}
+
+function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE_CARDS, mode);
+    const store = tx.objectStore(STORE_CARDS);
+    let result: T;
+    Promise.resolve(fn(store)).then(value => {
+      result = value;
+    }).catch(reject);
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  }));
+}
+
+function reqAsPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+// ---------------------------------------------------------------- reads
+
+export async function getAllCards(): Promise<Card[]> {
+  return withStore<Card[]>('readonly', store => reqAsPromise(store.getAll()));
+}
+
+export async function getCardsForDeck(deckId: string): Promise<Card[]> {
+  return withStore<Card[]>('readonly', store => reqAsPromise(store.index('deckId').getAll(deckId)));
+}
+
+export async function getCard(cardId: string): Promise<Card | undefined> {
+  return withStore<Card | undefined>(
+    'readonly',
+    store => reqAsPromise(store.get(cardId)) as Promise<Card | undefined>,
+  );
+}
+
+// Cards due at or before `now`, most overdue first. IndexedDB rejects a
+// non-finite count, so an Infinity limit is passed on as "no limit".
+export async function getDueCards(now: number, limit?: number): Promise<Card[]> {
+  const count = limit !== undefined && Number.isFinite(limit) ? limit : undefined;
+  return withStore<Card[]>(
+    'readonly',
+    store => reqAsPromise(store.index('due').getAll(IDBKeyRange.upperBound(now), count)),
+  );
+}
+
+// How many cards are due at or before `now` (and pass `filter`), walking
+// the due index with a cursor instead of loading the list.
+export async function countDueCards(now: number, filter?: (card: Card) => boolean): Promise<number> {
+  return withStore<number>('readonly', store => {
+    const index = store.index('due');
+    const range = IDBKeyRange.upperBound(now);
+    if (!filter) return reqAsPromise(index.count(range));
+    return new Promise<number>((resolve, reject) => {
+      let count = 0;
+      const req = index.openCursor(range);
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) {
+          resolve(count);
+          return;
+        }
+        if (filter(cursor.value as Card)) count++;
+        cursor.continue();
+      };
+      req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'));
+    });
+  });
+}
+
+export async function countCards(): Promise<number> {
+  return withStore<number>('readonly', store => reqAsPromise(store.count()));
+}
+
+// ---------------------------------------------------------------- writes
+
+export async function putCards(cards: Card[]): Promise<void> {
+  if (cards.length === 0) return;
+  await withStore<void>('readwrite', store => {
+    for (const card of cards) {
+      store.put(card);
+    }
+  });
+}
+
+// Apply `update` to each listed card that exists, in one transaction.
+// Returns the updated cards.
+export async function updateCards(cardIds: string[], update: (card: Card) => Card): Promise<Card[]> {
+  if (cardIds.length === 0) return [];
+  return withStore<Card[]>('readwrite', async store => {
+    const found = await Promise.all(cardIds.map(id => reqAsPromise(store.get(id)) as Promise<Card | undefined>));
+    const updated: Card[] = [];
+    for (const card of found) {
+      if (!card) continue;
+      const next = update(card);
+      store.put(next);
+      updated.push(next);
+    }
+    return updated;
+  });
+}
+
+// Copy cards whose id is not stored yet, leaving existing rows alone. Used
+// by the legacy-array migration, which may run in more than one extension
+// context at once. Returns how many were added.
+export async function addMissingCards(cards: Card[]): Promise<number> {
+  if (cards.length === 0) return 0;
+  return withStore<number>('readwrite', async store => {
+    const existing = new Set(await reqAsPromise(store.getAllKeys()));
+    let added = 0;
+    for (const card of cards) {
+      if (existing.has(card.id)) continue;
+      existing.add(card.id);
+      store.put(card);
+      added++;
+    }
+    return added;
+  });
+}
+
+export async function deleteCards(cardIds: string[]): Promise<void> {
+  if (cardIds.length === 0) return;
+  await withStore<void>('readwrite', store => {
+    for (const id of cardIds) {
+      store.delete(id);
+    }
+  });
+}
+
+export async function deleteCardsForDeck(deckId: string): Promise<void> {
+  await withStore<void>('readwrite', async store => {
+    const keys = await reqAsPromise(store.index('deckId').getAllKeys(deckId));
+    for (const key of keys) {
+      store.delete(key);
+    }
+  });
+}
+
+// Swap the whole collection for `cards` in one transaction (data import).
+export async function replaceAllCards(cards: Card[]): Promise<void> {
+  await withStore<void>('readwrite', store => {
+    store.clear();
+    for (const card of cards) {
+      store.put(card);
+    }
+  });
+}
+
+// Wipe the store. Used by clearAllData() and tests.
+export async function clearAll(): Promise<void> {
+  if (!cardStoreAvailable()) return;
+  await withStore<void>('readwrite', store => {
+    store.clear();
+  });
+}
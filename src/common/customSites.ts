@@ -0,0 +1,62 @@
+// User-defined feed sites.
+//
+// A custom site tells the feed content script how to read a site it has no
+// detector for, or one whose built-in selectors a redesign broke, without a
+// new release:
+//
+//   - the background registers content.ts on every enabled site's host
+//     (customSiteMatchPatterns), since the manifest only lists built-in sites;
+//   - content.ts looks up the site for the page (findCustomSite) and turns it
+//     into a DomainDetector ahead of the built-in ones.
+
+import type { CustomSite } from './types';
+
+export function newCustomSiteId(): string {
+  return `site_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// "https://www.example.com/feed" and "*.example.com" both mean example.com.
+export function normalizeSiteHost(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .split('/')[0]
+    .replace(/^\*\./, '')
+    .replace(/^(www\.|m\.)/, '');
+}
+
+const HOST_RE = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+const ATTRIBUTE_RE = /^[a-zA-Z_:][-a-zA-Z0-9_:.]*$/;
+
+// Returns what is wrong with a site, or null when content.ts can use it.
+export function validateCustomSite(site: CustomSite): string | null {
+  if (!HOST_RE.test(normalizeSiteHost(site.host))) return 'Enter a host like example.com';
+  if (!site.postSelector.trim()) return 'Enter a CSS selector for posts';
+  try {
+    document.createDocumentFragment().querySelector(site.postSelector);
+  } catch {
+    return 'The post selector is not valid CSS';
+  }
+  const attribute = site.postIdAttribute.trim();
+  if (attribute && !ATTRIBUTE_RE.test(attribute)) return 'The id attribute is not a valid attribute name';
+  return null;
+}
+
+export function customSiteMatches(site: CustomSite, hostname: string): boolean {
+  const host = normalizeSiteHost(site.host);
+  const page = hostname.toLowerCase();
+  return host !== '' && (page === host || page.endsWith(`.${host}`));
+}
+
+export function findCustomSite(sites: CustomSite[], hostname: string): CustomSite | undefined {
+  return sites.find(site => site.enabled && customSiteMatches(site, hostname) && validateCustomSite(site) === null);
+}
+
+// Chrome match patterns for registering content.ts; "*." covers the bare host.
+export function customSiteMatchPatterns(sites: CustomSite[]): string[] {
+  const hosts = sites
+    .filter(site => site.enabled && HOST_RE.test(normalizeSiteHost(site.host)))
+    .map(site => normalizeSiteHost(site.host));
+  return [...new Set(hosts)].map(host => `https://*.${host}/*`);
+}
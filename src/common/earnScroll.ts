@@ -0,0 +1,64 @@
+/**
+ * Earn Your Scroll
+ *
+ * With Settings.earnYourScroll on, each feed site gets a scroll budget:
+ * one allowance to start the day, plus one more for every few correct
+ * answers (DomainSettings.scrollBudget). Screens scrolled are counted per
+ * site in DailyStats.scrollScreens; once they use up the budget the feed is
+ * gated until more cards are answered. Meeting the daily goal
+ * (Settings.dailyQuizTarget reviews) lifts the gate for the rest of the day.
+ */
+
+import type { DailyStats, ScrollBudget } from './types';
+
+export const DEFAULT_SCROLL_BUDGET: ScrollBudget = { screens: 10, perCorrect: 2 };
+
+export interface ScrollAllowance {
+  goalMet: boolean;
+  reviews: number;
+  goal: number;
+  allowed: number;     // Screens earned on this site so far today
+  spent: number;       // Screens scrolled on this site today
+  left: number;        // Infinity once the goal is met
+  correctToNext: number; // Correct answers until the next allowance
+}
+
+export function scrollAllowance(
+  today: Pick<DailyStats, 'reviews' | 'correct' | 'scrollScreens'> | undefined,
+  domainKey: string,
+  budget: ScrollBudget | undefined,
+  goal: number,
+): ScrollAllowance {
+  const { screens, perCorrect } = budget ?? DEFAULT_SCROLL_BUDGET;
+  const reviews = today?.reviews ?? 0;
+  const correct = today?.correct ?? 0;
+  const spent = today?.scrollScreens?.[domainKey] ?? 0;
+  const per = Math.max(1, perCorrect);
+  const allowed = (1 + Math.floor(correct / per)) * screens;
+  const goalMet = reviews >= goal;
+
+  return {
+    goalMet,
+    reviews,
+    goal,
+    allowed,
+    spent,
+    left: goalMet ? Infinity : Math.max(0, allowed - spent),
+    correctToNext: per - (correct % per),
+  };
+}
+
+export function isScrollGated(allowance: ScrollAllowance): boolean {
+  return !allowance.goalMet && allowance.left <= 0;
+}
+
+/**
+ * Short progress line for the stats bar and popup, e.g. "4 of 10 screens left"
+ */
+export function describeAllowance(allowance: ScrollAllowance): string {
+  if (allowance.goalMet) return 'Goal met · scroll freely';
+  if (allowance.left <= 0) {
+    return `Out of scroll · ${allowance.correctToNext} correct to earn more`;
+  }
+  return `${Math.ceil(allowance.left)} of ${allowance.allowed} screens left`;
+}
@@ -1,8 +1,16 @@
-import type { Card, Grade, FuzzyThresholds } from './types';
+import type { AnswerMatching, ArticleLanguage, Card, Grade, FuzzyThresholds } from './types';
 import { DEFAULT_SETTINGS } from './types';
 import { similarity } from './fuzzy';
 import { normalizeText } from './parser';
 
+type GradingSettings = { eliminateChars: string; lowercaseNormalization: boolean; fuzzyThresholds: FuzzyThresholds };
+
+export interface GradedAnswer {
+  grade: Grade;
+  // A typed answer only matched once accents were ignored.
+  accentsOff: boolean;
+}
+
 /**
  * Grade an answer based on the card type and user response
  * Returns a grade from 0-3:
@@ -14,14 +22,26 @@ import { normalizeText } from './parser';
 export function gradeAnswer(
   card: Card,
   userAnswer: string | number | number[],
-  settings: { eliminateChars: string; lowercaseNormalization: boolean; fuzzyThresholds: FuzzyThresholds } = DEFAULT_SETTINGS
+  settings: GradingSettings = DEFAULT_SETTINGS
 ): Grade {
+  return checkAnswer(card, userAnswer, settings).grade;
+}
+
+/**
+ * gradeAnswer plus why a typed answer fell short, for feedback. Typed
+ * answers are compared with the card's answerMatching profile.
+ */
+export function checkAnswer(
+  card: Card,
+  userAnswer: string | number | number[],
+  settings: GradingSettings = DEFAULT_SETTINGS
+): GradedAnswer {
   switch (card.kind) {
     case 'mcq-single':
-      return gradeMcqSingle(card, userAnswer as number);
+      return { grade: gradeMcqSingle(card, userAnswer as number), accentsOff: false };
     
     case 'mcq-multi':
-      return gradeMcqMulti(card, userAnswer as number[]);
+      return { grade: gradeMcqMulti(card, userAnswer as number[]), accentsOff: false };
     
     case 'text':
       return gradeText(card, userAnswer as string, settings);
@@ -33,10 +53,65 @@ export function gradeAnswer(
       return gradeText(card, userAnswer as string, settings);
     
     default:
-      return 0;
+      return { grade: 0, accentsOff: false };
   }
 }
 
+// Leading articles per language, longest first so "unas" wins over "un".
+// Elided forms ("l'", "un'") carry their apostrophe and need no space.
+const ARTICLES: Record<ArticleLanguage, string[]> = {
+  en: ['the', 'an', 'a'],
+  fr: ['les', 'une', 'des', 'le', 'la', 'un', 'du', "l'"],
+  es: ['unos', 'unas', 'los', 'las', 'una', 'el', 'la', 'un'],
+  de: ['einem', 'einen', 'einer', 'eines', 'eine', 'ein', 'der', 'die', 'das', 'den', 'dem', 'des'],
+  it: ['gli', 'uno', 'una', 'il', 'lo', 'la', 'le', 'un', 'i', "un'", "l'"],
+  pt: ['umas', 'uma', 'uns', 'um', 'os', 'as', 'o', 'a'],
+};
+
+function stripArticle(text: string, language: ArticleLanguage): string {
+  const trimmed = text.trim().replace(/’/g, "'");
+  const lower = trimmed.toLowerCase();
+  for (const article of ARTICLES[language]) {
+    const elided = article.endsWith("'");
+    if (!lower.startsWith(elided ? article : `${article} `)) continue;
+    const rest = trimmed.slice(article.length).trim();
+    // An answer that is only an article keeps it.
+    if (rest) return rest;
+  }
+  return trimmed;
+}
+
+function stripAccents(text: string): string {
+  // đ has no decomposition, and Vietnamese answers are where it matters.
+  return text.normalize('NFD').replace(/\p{M}/gu, '').replace(/đ/g, 'd').replace(/Đ/g, 'D');
+}
+
+function comparableAnswer(text: string, matching: AnswerMatching, settings: GradingSettings): string {
+  const bare = matching.ignoreArticles ? stripArticle(text, matching.ignoreArticles) : text;
+  const normalized = normalizeText(bare, settings.eliminateChars, settings.lowercaseNormalization);
+  if (!matching.anyWordOrder) return normalized;
+  return normalized.split(' ').sort().join(' ');
+}
+
+/**
+ * Compare one typed answer with one expected answer under a matching
+ * profile: 'exact' when they agree once articles, punctuation and (if
+ * allowed) word order are set aside, 'accents' when they also need
+ * diacritics ignored, null otherwise.
+ */
+export function matchTypedAnswer(
+  input: string,
+  expected: string,
+  matching: AnswerMatching = {},
+  settings: GradingSettings = DEFAULT_SETTINGS
+): 'exact' | 'accents' | null {
+  const actual = comparableAnswer(input, matching, settings);
+  const target = comparableAnswer(expected, matching, settings);
+  if (actual === target) return 'exact';
+  if (matching.ignoreAccents && stripAccents(actual) === stripAccents(target)) return 'accents';
+  return null;
+}
+
 /**
  * Grade MCQ single choice
  * Exact match = 3, wrong = 0
@@ -100,25 +175,20 @@ function gradeMcqMulti(card: Card, selectedIndices: number[]): Grade {
 function gradeText(
   card: Card,
   userAnswer: string,
-  settings: { eliminateChars: string; lowercaseNormalization: boolean; fuzzyThresholds: FuzzyThresholds }
-): Grade {
+  settings: GradingSettings
+): GradedAnswer {
   const normalizedInput = normalizeText(
     userAnswer,
     settings.eliminateChars,
     settings.lowercaseNormalization
   );
   
-  // Get canonical answers (normalize them for comparison)
+  // Any canonical answer that matches exactly wins over one that only
+  // matches without accents.
   const rawAnswers = card.canonicalAnswers || [card.back];
-  const canonicalAnswers = rawAnswers.map(a =>
-    normalizeText(a, settings.eliminateChars, settings.lowercaseNormalization)
-  );
-
-  // Check exact match first
-  for (const answer of canonicalAnswers) {
-    if (normalizedInput === answer) {
-      return 3;
-    }
+  const matches = rawAnswers.map(answer => matchTypedAnswer(userAnswer, answer, card.answerMatching, settings));
+  if (matches.includes('exact')) {
+    return { grade: 3, accentsOff: false };
   }
   
   // Check regex match if provided
@@ -126,15 +196,19 @@ function gradeText(
     try {
       const regex = new RegExp(card.acceptedRegex, 'i');
       if (regex.test(userAnswer) || regex.test(normalizedInput)) {
-        return 3;
+        return { grade: 3, accentsOff: false };
       }
     } catch {
       // Invalid regex, skip
     }
   }
+
+  if (matches.includes('accents')) {
+    return { grade: 1, accentsOff: true };
+  }
   
-  // Exact match only (case-insensitive via normalization). No fuzzy tolerance.
-  return 0;
+  // No fuzzy tolerance beyond the deck's matching profile.
+  return { grade: 0, accentsOff: false };
 }
 
 /**
@@ -144,56 +218,69 @@ function gradeText(
 function gradeCloze(
   card: Card,
   userAnswers: string[],
-  settings: { eliminateChars: string; lowercaseNormalization: boolean; fuzzyThresholds: FuzzyThresholds }
-): Grade {
+  settings: GradingSettings
+): GradedAnswer {
   const canonicalAnswers = card.canonicalAnswers || [];
   
   if (canonicalAnswers.length === 0 || userAnswers.length === 0) {
-    return 0;
+    return { grade: 0, accentsOff: false };
   }
   
-  // Grade each blank
+  // Grade each blank: 3 for a match, 1 for a match without accents.
   const grades: number[] = [];
+  let accentsOff = false;
   
   for (let i = 0; i < Math.max(canonicalAnswers.length, userAnswers.length); i++) {
-    const expected = normalizeText(
-      canonicalAnswers[i] || '',
-      settings.eliminateChars,
-      settings.lowercaseNormalization
-    );
-    const actual = userAnswers[i] || '';
-
-    const normalizedActual = normalizeText(
-      actual,
-      settings.eliminateChars,
-      settings.lowercaseNormalization
-    );
-
-    // Exact match only (case-insensitive via normalization). No fuzzy tolerance.
-    if (normalizedActual === expected) {
-      grades.push(3);
-    } else {
-      grades.push(0);
-    }
+    const match = matchTypedAnswer(userAnswers[i] || '', canonicalAnswers[i] || '', card.answerMatching, settings);
+    if (match === 'accents') accentsOff = true;
+    grades.push(match === 'exact' ? 3 : match === 'accents' ? 1 : 0);
   }
   
   // Average grade
   const avgGrade = grades.reduce((a, b) => a + b, 0) / grades.length;
   
   // Round to nearest valid grade
-  if (avgGrade >= 2.5) return 3;
-  if (avgGrade >= 1.5) return 2;
-  if (avgGrade >= 0.5) return 1;
-  return 0;
+  let grade: Grade = 0;
+  if (avgGrade >= 2.5) grade = 3;
+  else if (avgGrade >= 1.5) grade = 2;
+  else if (avgGrade >= 0.5) grade = 1;
+  return { grade, accentsOff };
+}
+
+/**
+ * Whether a typed answer can be added to the card's accepted answers.
+ * Cloze answers are positional (one per blank), so only text and audio
+ * cards qualify.
+ */
+export function canAcceptAnswer(card: Card): boolean {
+  return card.kind === 'text' || card.kind === 'audio';
+}
+
+/**
+ * The card's canonicalAnswers with `answer` appended, normalized the way the
+ * parser stores them. Cards without canonicalAnswers are seeded with their
+ * back so the original answer keeps matching. Returns null when the answer is
+ * empty or already accepted.
+ */
+export function withAcceptedAnswer(card: Card, answer: string): string[] | null {
+  if (!canAcceptAnswer(card)) return null;
+  const normalized = normalizeText(answer);
+  if (!normalized) return null;
+  const current = card.canonicalAnswers ?? [normalizeText(card.back)];
+  if (current.some(existing => normalizeText(existing) === normalized)) return null;
+  return [...current, normalized];
 }
 
 /**
  * Get feedback message for a grade
  */
-export function getGradeFeedback(grade: Grade): {
+export function getGradeFeedback(grade: Grade, accentsOff = false): {
   type: 'success' | 'partial' | 'error';
   message: string;
 } {
+  if (accentsOff && grade < 2) {
+    return { type: 'partial', message: 'Close, check the accents' };
+  }
   switch (grade) {
     case 3:
       return { type: 'success', message: 'Perfect!' };
@@ -0,0 +1,102 @@
+// Notebook → deck card sync.
+//
+// A notebook linked to a deck keeps that deck's copy of its inline cards
+// (`term :: definition` lines, `{{cloze}}` paragraphs and the rest of the
+// markdown flashcard syntax) in step with the body:
+//
+//   - parseNotebookCards(markdown) runs on the dashboard, which owns the body.
+//   - planNotebookSync(...) runs in the background against the deck's cards
+//     and says which to insert, update and delete.
+//
+// Each synced card records its notebook and line (Card.source). A card is
+// matched back by its front first and, when the front was edited, by the
+// line it was on, so editing a definition or fixing a typo in a term keeps
+// the card's scheduling. Sync runs on every autosave, where a half-typed
+// line is normal, so a card whose line stops parsing is only orphaned
+// (CardSource.orphaned): it keeps its scheduling and is claimed back by a
+// later sync. Orphans are deleted only when the user asks.
+
+import type { Card, MarkdownCard } from './types';
+import { matchImportedCards, parseMarkdownCards } from './parser';
+
+// ==highlights== are emphasis in a notebook, not blanks.
+export function parseNotebookCards(markdown: string): MarkdownCard[] {
+  return parseMarkdownCards(markdown, { highlightClozes: false }).cards;
+}
+
+export type NotebookCardData = Omit<MarkdownCard, 'line' | 'deckName'> & Required<Pick<Card, 'source'>>;
+
+export interface NotebookSyncPlan {
+  insert: NotebookCardData[];
+  // Keyed by the id of the card to overwrite; scheduling is kept.
+  update: Map<string, NotebookCardData>;
+  orphan: string[]; // Newly unmatched cards to set aside
+  unmatched: string[]; // Every synced card without a line, orphaned before or now
+}
+
+export function planNotebookSync(
+  notebookId: string,
+  cards: MarkdownCard[],
+  deckCards: Card[],
+  makeId: () => string,
+): NotebookSyncPlan {
+  const synced = deckCards.filter(card => card.source?.notebookId === notebookId);
+  const claimed = new Set<string>();
+  const byLine = new Map<string, Card[]>();
+  for (const card of synced) {
+    const key = lineKey(card.source!.line, card.reversed);
+    byLine.set(key, [...(byLine.get(key) ?? []), card]);
+  }
+
+  // Pass one: same front. A front written twice only claims one card.
+  const matched = matchImportedCards(cards, synced).map(({ card, status, existing }): SyncMatch => {
+    if (!existing || claimed.has(existing.id)) return { card, existing: undefined, same: false };
+    claimed.add(existing.id);
+    const same = status === 'duplicate' && existing.source!.line === card.line && !existing.source!.orphaned;
+    return { card, existing, same };
+  });
+  // Pass two: whatever is left on the same line, in the same direction.
+  for (const entry of matched) {
+    if (entry.existing) continue;
+    entry.existing = byLine.get(lineKey(entry.card.line, entry.card.reversed))?.find(card => !claimed.has(card.id));
+    if (entry.existing) claimed.add(entry.existing.id);
+  }
+
+  // Parsed sibling keys only mean something within one parse; a pair keeps
+  // the group its existing half already has.
+  const groups = new Map<string, string>();
+  for (const { card, existing } of matched) {
+    if (card.siblingGroup && existing?.siblingGroup) groups.set(card.siblingGroup, existing.siblingGroup);
+  }
+  const groupFor = (key: string | undefined) => {
+    if (!key) return undefined;
+    if (!groups.has(key)) groups.set(key, makeId());
+    return groups.get(key);
+  };
+
+  const plan: NotebookSyncPlan = { insert: [], update: new Map(), orphan: [], unmatched: [] };
+  for (const { card, existing, same } of matched) {
+    if (same) continue;
+    const { line, deckName: _deckName, siblingGroup, ...content } = card;
+    const data: NotebookCardData = { ...content, source: { notebookId, line } };
+    if (existing) {
+      plan.update.set(existing.id, data);
+    } else {
+      plan.insert.push({ ...data, siblingGroup: groupFor(siblingGroup) });
+    }
+  }
+  const unmatched = synced.filter(card => !claimed.has(card.id));
+  plan.unmatched = unmatched.map(card => card.id);
+  plan.orphan = unmatched.filter(card => !card.source!.orphaned).map(card => card.id);
+  return plan;
+}
+
+interface SyncMatch {
+  card: MarkdownCard;
+  existing?: Card;
+  same: boolean; // Nothing to write: same content on the same line
+}
+
+function lineKey(line: number, reversed: boolean | undefined): string {
+  return `${reversed ? 'reverse' : 'forward'}:${line}`;
+}
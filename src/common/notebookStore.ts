@@ -265,3 +265,32 @@ export async function clearAll(): Promise<void> {
     /* ignore */
   }
 }
+
+// ---------------------------------------------------------------- backup
+
+// Every body and attachment across all notebooks, for backup.ts.
+export async function getAllBodies(): Promise<NotebookBody[]> {
+  if (!indexedDbAvailable()) return [];
+  return withStore<NotebookBody[]>(STORE_BODIES, 'readonly', store => reqAsPromise(store.getAll()));
+}
+
+export async function getAllAttachments(): Promise<NotebookAttachment[]> {
+  if (!indexedDbAvailable()) return [];
+  return withStore<NotebookAttachment[]>(STORE_ATTACHMENTS, 'readonly', store => reqAsPromise(store.getAll()));
+}
+
+// Write restored entries as-is, keeping their ids and timestamps. Unlike the
+// editor paths above, failures propagate so the restore can report them.
+export async function putEntries(bodies: NotebookBody[], attachments: NotebookAttachment[]): Promise<void> {
+  if (!indexedDbAvailable()) return;
+  if (bodies.length > 0) {
+    await withStore<void>(STORE_BODIES, 'readwrite', store => {
+      bodies.forEach(body => store.put(body));
+    });
+  }
+  if (attachments.length > 0) {
+    await withStore<void>(STORE_ATTACHMENTS, 'readwrite', store => {
+      attachments.forEach(attachment => store.put(attachment));
+    });
+  }
+}
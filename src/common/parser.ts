@@ -1,4 +1,4 @@
-import type { CardKind, ParsedCard, ParseResult, ParseError } from './types';
+import type { BatchImportMessage, Card, CardKind, MarkdownCard, ParsedCard, ParseResult, ParseError } from './types';
 
 /**
  * Normalize text for comparison and storage
@@ -104,15 +104,62 @@ export function parseSimpleLine(
  * Format: Text with {{answer}} blanks
  */
 function extractClozeAnswers(text: string): string[] {
-  const regex = /\{\{([^}]+)\}\}/g;
-  const answers: string[] = [];
-  let match;
-  
-  while ((match = regex.exec(text)) !== null) {
-    answers.push(normalizeText(match[1]));
-  }
-  
-  return answers;
+  return clozeBlankAnswers(text).map(answer => normalizeText(answer));
+}
+
+// A blank in a stored cloze front is {{answer}} or {{answer::hint}}; the
+// hint is shown in place of the blank. A {{c1::answer}} left unsplit (typed
+// into the card editor, say) reads as a plain blank.
+export function clozeBlank(inner: string): { answer: string; hint?: string } {
+  const [answer, ...hint] = inner.replace(/^c\d+::/, '').split('::');
+  return { answer: answer.trim(), hint: hint.join('::').trim() || undefined };
+}
+
+function clozeBlankAnswers(text: string): string[] {
+  return [...text.matchAll(/\{\{([^}]+)\}\}/g)].map(match => clozeBlank(match[1]).answer);
+}
+
+/** The front with every blank filled in, for titles and speech. */
+export function clozeText(front: string): string {
+  return front.replace(/\{\{([^}]+)\}\}/g, (_match, inner: string) => clozeBlank(inner).answer);
+}
+
+const NUMBERED_CLOZE = /\{\{c(\d+)::([^}]*)\}\}/g;
+
+/**
+ * Split a cloze card written with Anki-style numbered groups
+ * ({{c1::answer::hint}}) into one card per group number. Each card blanks
+ * its own group and shows the other groups' answers as context; unnumbered
+ * {{blanks}} are asked on every card. The cards share a sibling group,
+ * `groupKey` unless the card already names one. A back that isn't just the
+ * note's answers moves to backExtra, since each card's back becomes its own
+ * group's answers.
+ */
+export function splitClozeGroups(card: ParsedCard, groupKey: string): ParsedCard[] {
+  if (card.kind !== 'cloze') return [card];
+  const groups = [...new Set([...card.front.matchAll(NUMBERED_CLOZE)].map(match => Number(match[1])))]
+    .sort((a, b) => a - b);
+  if (groups.length === 0) return [card];
+
+  const noteBack = card.back.trim();
+  const backExtra = card.backExtra ?? (noteBack && noteBack !== clozeBlankAnswers(card.front).join(', ') ? noteBack : undefined);
+  return groups.map(group => {
+    const front = card.front.replace(NUMBERED_CLOZE, (_match, n: string, inner: string) => {
+      const { answer, hint } = clozeBlank(inner);
+      if (Number(n) !== group) return answer;
+      return hint ? `{{${answer}::${hint}}}` : `{{${answer}}}`;
+    });
+    const answers = clozeBlankAnswers(front);
+    return {
+      ...card,
+      front,
+      back: answers.join(', '),
+      backExtra,
+      canonicalAnswers: answers.map(answer => normalizeText(answer)),
+      siblingGroup: groups.length > 1 ? card.siblingGroup ?? groupKey : card.siblingGroup,
+      externalId: card.externalId && groups.length > 1 ? `${card.externalId}#c${group}` : card.externalId,
+    };
+  });
 }
 
 /**
@@ -136,7 +183,7 @@ export function parseSimpleFormat(
     
     const card = parseSimpleLine(trimmed, separator);
     if (card) {
-      cards.push(card);
+      cards.push(...splitClozeGroups(card, `cloze-${index + 1}`));
     } else {
       errors.push({
         line: index + 1,
@@ -263,6 +310,8 @@ export function parseCSV(content: string): ParseResult {
   const tagsIdx = getColumnIndex('tags', 'tag', 'categories', 'labels');
   const deckIdx = getColumnIndex('deck', 'deckname', 'deck_name', 'collection');
   const mediaIdx = getColumnIndex('mediaurl', 'media_url', 'media', 'audio', 'image');
+  const siblingIdx = getColumnIndex('siblinggroup', 'sibling_group', 'noteid', 'note_id');
+  const externalIdx = getColumnIndex('externalid', 'external_id', 'guid', 'uid');
 
   // Required columns - 'front' (or alias) is always required
   if (frontIdx === undefined) {
@@ -377,8 +426,10 @@ export function parseCSV(content: string): ParseResult {
       }
       
       const backExtra = getValueByIdx(backExtraIdx) || undefined;
+      const siblingGroup = getValueByIdx(siblingIdx) || undefined;
+      const externalId = getValueByIdx(externalIdx) || undefined;
 
-      cards.push({
+      cards.push(...splitClozeGroups({
         front,
         back: finalBack,
         backExtra,
@@ -389,7 +440,9 @@ export function parseCSV(content: string): ParseResult {
         mediaUrl,
         tags,
         deckName,
-      });
+        siblingGroup,
+        externalId,
+      }, `cloze-${i + 1}`));
     } catch (e) {
       errors.push({
         line: i + 1,
@@ -526,7 +579,7 @@ export function parseJSON(content: string): ParseResult {
         return;
       }
       
-      const { front, back, kind, options, correct, canonicalAnswers, mediaUrl, tags, deck, deckName: itemDeckName, backExtra, back_extra, details } = item;
+      const { front, back, kind, options, correct, canonicalAnswers, mediaUrl, tags, deck, deckName: itemDeckName, backExtra, back_extra, details, siblingGroup, noteId, externalId, guid, id } = item;
       
       if (!front) {
         errors.push({
@@ -577,7 +630,7 @@ export function parseJSON(content: string): ParseResult {
       
       const finalBackExtra = backExtra ?? back_extra ?? details;
 
-      cards.push({
+      cards.push(...splitClozeGroups({
         front: String(front),
         back: finalBack,
         backExtra: finalBackExtra ? String(finalBackExtra) : undefined,
@@ -588,7 +641,10 @@ export function parseJSON(content: string): ParseResult {
         mediaUrl: mediaUrl ? String(mediaUrl) : undefined,
         tags: Array.isArray(tags) ? tags.map(String) : undefined,
         deckName: (deck || itemDeckName) ? String(deck || itemDeckName) : undefined,
-      });
+        siblingGroup: (siblingGroup ?? noteId) != null ? String(siblingGroup ?? noteId) : undefined,
+        // `id` lets a deck exported from here be re-imported over itself.
+        externalId: (externalId ?? guid ?? id) != null ? String(externalId ?? guid ?? id) : undefined,
+      }, `cloze-${index + 1}`));
     });
     
     return { cards, errors };
@@ -604,6 +660,238 @@ export function parseJSON(content: string): ParseResult {
   }
 }
 
+// Markdown flashcards, in the conventions of Obsidian's spaced-repetition
+// plugins:
+//   Question::Answer        one card per line
+//   Question:::Answer       the same, plus its back→front copy
+//   question lines / ? / answer lines     a multi-line card; ?? adds the copy
+//   ==highlight== or {{blank}}            a paragraph with those is a cloze
+// Cards are separated by blank lines. Headings name the deck, nested ones
+// joined with '::' as in Anki. #tags anywhere in a card tag it; a line of
+// only tags applies to every card below it in the same section, and before
+// the first heading to the whole file, as do front-matter tags. Paragraphs
+// with none of the markers are ordinary notes and are skipped.
+
+const MD_HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+const MD_TAG = /(^|\s)#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu;
+const MD_LIST_MARKER = /^(?:[-*+]|\d+[.)])\s+/;
+
+interface MarkdownBlock {
+  line: number; // 1-based line of the block's first line
+  lines: string[];
+}
+
+// Strip #tags from text, returning both. `#1` and `C#` are not tags.
+function takeTags(text: string): { text: string; tags: string[] } {
+  const tags: string[] = [];
+  const stripped = text.replace(MD_TAG, (_m, lead: string, tag: string) => {
+    tags.push(tag);
+    return lead;
+  });
+  return { text: stripped.replace(/[ \t]+$/gm, '').trim(), tags };
+}
+
+function frontMatterTags(value: string, following: string[]): string[] {
+  const inline = value.trim();
+  if (inline.startsWith('[')) {
+    return inline.slice(1, inline.lastIndexOf(']')).split(',').map(unquoteYaml).filter(Boolean);
+  }
+  if (inline) return inline.split(/[\s,]+/).map(unquoteYaml).filter(Boolean);
+  // Block list: "tags:" followed by "  - tag" lines.
+  const tags: string[] = [];
+  for (const line of following) {
+    const item = line.match(/^\s*-\s+(.+)$/);
+    if (!item) break;
+    tags.push(unquoteYaml(item[1]));
+  }
+  return tags.filter(Boolean);
+}
+
+function unquoteYaml(value: string): string {
+  const v = value.trim();
+  return /^(["']).*\1$/.test(v) ? v.slice(1, -1) : v.replace(/^#/, '');
+}
+
+// Split at the first `::` (or `:::`) that is not inside a {{...}} blank, so
+// `{{c1::hint}}`-style text is never read as an inline pair.
+function splitInlinePair(line: string): { front: string; back: string; reverse: boolean } | null {
+  let depth = 0;
+  for (let i = 0; i < line.length - 1; i++) {
+    if (line.startsWith('{{', i)) { depth++; i++; continue; }
+    if (line.startsWith('}}', i)) { depth = Math.max(0, depth - 1); i++; continue; }
+    if (depth === 0 && line.startsWith('::', i)) {
+      const reverse = line.startsWith(':::', i);
+      return { front: line.slice(0, i).trim(), back: line.slice(i + (reverse ? 3 : 2)).trim(), reverse };
+    }
+  }
+  return null;
+}
+
+export interface MarkdownParseOptions {
+  // Read ==highlights== as cloze blanks. Default true; notebooks turn it off
+  // because there a highlight is usually just emphasis.
+  highlightClozes?: boolean;
+}
+
+/**
+ * Parse markdown flashcards (see the conventions above). Headings become
+ * each card's deckName; a front-matter title names the deck of cards that
+ * come before any heading.
+ */
+export function parseMarkdown(content: string): ParseResult {
+  const { cards, errors } = parseMarkdownCards(content);
+  return { cards: cards.map(({ line: _line, ...card }) => card), errors };
+}
+
+export function parseMarkdownCards(
+  content: string,
+  { highlightClozes = true }: MarkdownParseOptions = {},
+): { cards: MarkdownCard[]; errors: ParseError[] } {
+  const cards: MarkdownCard[] = [];
+  const errors: ParseError[] = [];
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+  let start = 0;
+  let fileDeck: string | undefined;
+  let fileTags: string[] = [];
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    if (end > 0) {
+      lines.slice(1, end).forEach((line, i, fm) => {
+        const field = line.match(/^(\w+):\s*(.*)$/);
+        if (field?.[1] === 'title' && field[2].trim()) fileDeck = unquoteYaml(field[2]);
+        if (field?.[1] === 'tags') fileTags = frontMatterTags(field[2], fm.slice(i + 1));
+      });
+      start = end + 1;
+    }
+  }
+
+  const headings: string[] = [];
+  let sectionTags: string[] = [];
+  let block: MarkdownBlock | null = null;
+  let inFence = false;
+
+  const deckName = () => (headings.length > 0 ? headings.filter(Boolean).join('::') : fileDeck);
+
+  const addCard = (card: ParsedCard, reverse: boolean, line: number) => {
+    if (!reverse) {
+      cards.push({ ...card, line });
+      return;
+    }
+    cards.push(...withReverseCards([{ ...card, line, siblingGroup: `md-${line}` }]));
+  };
+
+  const flush = () => {
+    if (!block) return;
+    const { line, lines: blockLines } = block;
+    block = null;
+    const raw = blockLines.join('\n');
+    const deck = deckName();
+    const inherited = [...fileTags, ...sectionTags];
+    const withTags = (tags: string[]) => {
+      const all = [...new Set([...inherited, ...tags])];
+      return all.length > 0 ? all : undefined;
+    };
+
+    // Multi-line card: question / ? / answer.
+    const sep = blockLines.findIndex(l => l.trim() === '?' || l.trim() === '??');
+    if (sep >= 0) {
+      const front = takeTags(blockLines.slice(0, sep).join('\n'));
+      const back = takeTags(blockLines.slice(sep + 1).join('\n'));
+      if (!front.text || !back.text) {
+        errors.push({ line, message: 'Multi-line card needs text both above and below the ? line', raw });
+        return;
+      }
+      addCard({
+        front: front.text,
+        back: back.text,
+        kind: 'text',
+        canonicalAnswers: [normalizeText(back.text)],
+        tags: withTags([...front.tags, ...back.tags]),
+        deckName: deck,
+      }, blockLines[sep].trim() === '??', line);
+      return;
+    }
+
+    // Inline pairs, one card per line.
+    const pairs = blockLines.map(l => splitInlinePair(l.replace(MD_LIST_MARKER, '')));
+    if (pairs.some(Boolean)) {
+      pairs.forEach((pair, i) => {
+        if (!pair) return;
+        const front = takeTags(pair.front);
+        const back = takeTags(pair.back);
+        if (!front.text || !back.text) {
+          errors.push({ line: line + i, message: 'Inline card needs text on both sides of ::', raw: blockLines[i] });
+          return;
+        }
+        addCard({
+          front: front.text,
+          back: back.text,
+          kind: 'text',
+          canonicalAnswers: [normalizeText(back.text)],
+          tags: withTags([...front.tags, ...back.tags]),
+          deckName: deck,
+        }, pair.reverse, line + i);
+      });
+      return;
+    }
+
+    // Cloze paragraph: ==highlight== becomes a {{blank}}.
+    const withBlanks = highlightClozes ? raw.replace(/==([^=\n]+)==/g, '{{$1}}') : raw;
+    if (/\{\{[^}]+\}\}/.test(withBlanks)) {
+      const { text, tags } = takeTags(withBlanks);
+      const cloze: ParsedCard = {
+        front: text,
+        back: clozeBlankAnswers(text).join(', '),
+        kind: 'cloze',
+        canonicalAnswers: extractClozeAnswers(text),
+        tags: withTags(tags),
+        deckName: deck,
+      };
+      cards.push(...splitClozeGroups(cloze, `md-${line}`).map(card => ({ ...card, line })));
+    }
+  };
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    if (/^(```|~~~)/.test(trimmed)) {
+      flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const heading = trimmed.match(MD_HEADING);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      headings.length = Math.min(headings.length, level - 1);
+      while (headings.length < level - 1) headings.push('');
+      headings.push(takeTags(heading[2]).text);
+      sectionTags = [];
+      continue;
+    }
+    if (!trimmed) {
+      flush();
+      continue;
+    }
+    // A line of nothing but tags tags the rest of the section.
+    const tagged = takeTags(trimmed);
+    if (!tagged.text && tagged.tags.length > 0) {
+      flush();
+      if (headings.length === 0) fileTags = [...fileTags, ...tagged.tags];
+      else sectionTags = [...sectionTags, ...tagged.tags];
+      continue;
+    }
+    if (!block) block = { line: i + 1, lines: [] };
+    block.lines.push(line);
+  }
+  flush();
+
+  return { cards, errors };
+}
+
 /**
  * Auto-detect format and parse
  */
@@ -628,6 +916,181 @@ export function autoDetectAndParse(content: string, separator: string = '|'): Pa
   return parseSimpleFormat(trimmed, separator);
 }
 
+type ReversibleCard = Pick<ParsedCard, 'kind' | 'front' | 'back' | 'canonicalAnswers' | 'siblingGroup' | 'reversed'>;
+
+/**
+ * Whether a back→front card can be made from this card. Only plain text
+ * cards qualify: MCQ options, cloze blanks and audio prompts have no
+ * meaningful reverse.
+ */
+export function canReverse(card: ReversibleCard): boolean {
+  return card.kind === 'text' && !card.reversed && card.back.trim().length > 0;
+}
+
+/**
+ * Follow every reversible card with its back→front copy. The pair share a
+ * sibling group (the card's own, or a new local key) so answering one side
+ * buries the other for the day; each side keeps its own scheduling state.
+ * The copy is graded against the original front.
+ */
+export function withReverseCards<T extends ReversibleCard>(cards: T[]): T[] {
+  // A card whose group already holds a reverse copy has been paired before.
+  const paired = new Set(cards.filter(c => c.reversed && c.siblingGroup).map(c => c.siblingGroup));
+  const out: T[] = [];
+  cards.forEach((card, index) => {
+    if (!canReverse(card) || (card.siblingGroup && paired.has(card.siblingGroup))) {
+      out.push(card);
+      return;
+    }
+    const siblingGroup = card.siblingGroup ?? `reverse-${index}`;
+    out.push({ ...card, siblingGroup });
+    // The copy starts fresh: it has no options, media or imported progress.
+    const { options: _options, correct: _correct, mediaUrl: _mediaUrl, acceptedRegex: _acceptedRegex, imported: _imported, ...rest } =
+      card as T & Pick<Card, 'options' | 'correct' | 'mediaUrl' | 'acceptedRegex'> & Pick<ParsedCard, 'imported'>;
+    out.push({
+      ...rest,
+      front: card.back,
+      back: card.front,
+      canonicalAnswers: [normalizeText(card.front)],
+      siblingGroup,
+      reversed: true,
+    } as unknown as T);
+  });
+  return out;
+}
+
+/**
+ * The batch_import payload for parsed cards. `reversed` must come along:
+ * without it a back→front card looks like a forward one, so withReverseCards
+ * would reverse it again and re-import would match it as forward.
+ */
+export function toImportCards(cards: ParsedCard[], deckId: string, keepProgress: boolean): BatchImportMessage['cards'] {
+  return cards.map(pc => ({
+    deckId,
+    kind: pc.kind,
+    front: pc.front,
+    back: pc.back,
+    backExtra: pc.backExtra,
+    options: pc.options,
+    correct: pc.correct,
+    canonicalAnswers: pc.canonicalAnswers,
+    mediaUrl: pc.mediaUrl,
+    tags: pc.tags,
+    siblingGroup: pc.siblingGroup,
+    reversed: pc.reversed,
+    externalId: pc.externalId,
+    imported: keepProgress ? pc.imported : undefined,
+  }));
+}
+
+/**
+ * Give each sibling group in an import a fresh id so keys from different
+ * files (or a re-import of the same file) never merge. A key used by only
+ * one card is dropped: a card with no siblings needs no group.
+ */
+export function scopeSiblingGroups<T extends { siblingGroup?: string }>(
+  cards: T[],
+  makeId: () => string,
+): T[] {
+  const counts = new Map<string, number>();
+  for (const card of cards) {
+    if (card.siblingGroup) counts.set(card.siblingGroup, (counts.get(card.siblingGroup) ?? 0) + 1);
+  }
+  const ids = new Map<string, string>();
+  return cards.map(card => {
+    const key = card.siblingGroup;
+    if (!key) return card;
+    if ((counts.get(key) ?? 0) < 2) {
+      const { siblingGroup: _siblingGroup, ...rest } = card;
+      return rest as T;
+    }
+    let id = ids.get(key);
+    if (!id) {
+      id = makeId();
+      ids.set(key, id);
+    }
+    return { ...card, siblingGroup: id };
+  });
+}
+
+type MatchableCard = Pick<
+  ParsedCard,
+  'kind' | 'front' | 'back' | 'backExtra' | 'options' | 'correct' | 'canonicalAnswers' | 'mediaUrl' | 'tags' | 'reversed' | 'externalId'
+>;
+
+export type ImportMatchStatus = 'new' | 'changed' | 'duplicate';
+
+export interface ImportMatch<T> {
+  card: T;
+  status: ImportMatchStatus;
+  existing?: Card; // The matched card, unless status is 'new'
+}
+
+// Content an import may overwrite; everything else on a card is identity,
+// scheduling or learner state.
+const CONTENT_FIELDS = ['front', 'back', 'backExtra', 'kind', 'options', 'correct', 'mediaUrl', 'tags'] as const;
+
+function comparable(value: unknown): string {
+  const empty = value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+  return JSON.stringify(empty ? null : value);
+}
+
+// Forward and reversed cards share a front text only by coincidence.
+function directionKey(card: Pick<ParsedCard, 'reversed'>, key: string): string {
+  return `${card.reversed ? 'reverse' : 'forward'}:${key}`;
+}
+
+/**
+ * Match incoming cards against the cards already in the target deck. An
+ * incoming externalId finds the card stored under that id (a re-imported
+ * export) or carrying that externalId; failing that, the normalized front
+ * decides. A match whose content is identical is a duplicate, any other
+ * match is changed.
+ */
+export function matchImportedCards<T extends MatchableCard>(cards: T[], existing: Card[]): ImportMatch<T>[] {
+  const byId = new Map<string, Card>();
+  const byExternalId = new Map<string, Card>();
+  const byFront = new Map<string, Card>();
+  for (const card of existing) {
+    byId.set(card.id, card);
+    if (card.externalId) byExternalId.set(directionKey(card, card.externalId), card);
+    const front = directionKey(card, normalizeText(card.front));
+    if (!byFront.has(front)) byFront.set(front, card);
+  }
+
+  return cards.map(card => {
+    const match =
+      (card.externalId
+        ? byId.get(card.externalId) ?? byExternalId.get(directionKey(card, card.externalId))
+        : undefined) ?? byFront.get(directionKey(card, normalizeText(card.front)));
+    if (!match) return { card, status: 'new' };
+    const same = CONTENT_FIELDS.every(field => comparable(card[field]) === comparable(match[field]));
+    return { card, status: same ? 'duplicate' : 'changed', existing: match };
+  });
+}
+
+/**
+ * `existing` with its content replaced by the incoming card's. Id,
+ * scheduling, suspension, flag and sibling group are kept. Answers the
+ * learner accepted by hand survive as long as the back is unchanged.
+ */
+export function mergeImportedContent(existing: Card, incoming: MatchableCard): Card {
+  const backChanged = normalizeText(incoming.back) !== normalizeText(existing.back);
+  return {
+    ...existing,
+    front: incoming.front,
+    back: incoming.back,
+    backExtra: incoming.backExtra,
+    kind: incoming.kind,
+    options: incoming.options,
+    correct: incoming.correct,
+    mediaUrl: incoming.mediaUrl,
+    tags: incoming.tags,
+    canonicalAnswers: backChanged ? incoming.canonicalAnswers : existing.canonicalAnswers ?? incoming.canonicalAnswers,
+    externalId: incoming.externalId ?? existing.externalId,
+  };
+}
+
 /**
  * Convert parsed card to display format for preview
  */
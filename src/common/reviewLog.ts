@@ -0,0 +1,226 @@
+// IndexedDB-backed review log: one row per answered card, kept forever.
+//
+// The log used to live in Stats.reviewHistory inside chrome.storage.local,
+// truncated to the last 1000 entries so every stats write stayed small.
+// Heavy users burned through that in a few days, losing exactly the
+// per-card history that retention analysis and parameter fitting need.
+// IndexedDB has no practical size cap and lets us query by card, deck or
+// time range without loading the whole log.
+//
+// The background worker appends (recordReview) and the dashboard reads;
+// both run on the extension origin so they share the same database.
+// Mirrors the shape of notebookStore.ts.
+
+import type { ReviewRecord } from './types';
+
+const DB_NAME = 'scrolllearn-reviews';
+const STORE_REVIEWS = 'reviews';
+const DB_VERSION = 1;
+
+export interface TimeRange {
+  from?: number; // inclusive Unix ms
+  to?: number;   // exclusive Unix ms
+}
+
+// Node (vitest) has no IndexedDB. Treat the log as unavailable rather than
+// crashing; callers fall back to the legacy in-stats array.
+export function reviewLogAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!reviewLogAvailable()) {
+    return Promise.reject(new Error('IndexedDB unavailable'));
+  }
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE_REVIEWS)) {
+        const store = db.createObjectStore(STORE_REVIEWS, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('cardId', 'cardId');
+        store.createIndex('deckId', 'deckId');
+        store.createIndex('timestamp', 'timestamp');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB open failed'));
+  });
+  return dbPromise;
+}
+
+export function resetDbHandle(): void {
+  dbPromise = null;
+}
+
+function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE_REVIEWS, mode);
+    const store = tx.objectStore(STORE_REVIEWS);
+    let result: T;
+    Promise.resolve(fn(store)).then(value => {
+      result = value;
+    }).catch(reject);
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  }));
+}
+
+function reqAsPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+function toKeyRange(range: TimeRange): IDBKeyRange | undefined {
+  const { from, to } = range;
+  if (from !== undefined && to !== undefined) return IDBKeyRange.bound(from, to, false, true);
+  if (from !== undefined) return IDBKeyRange.lowerBound(from);
+  if (to !== undefined) return IDBKeyRange.upperBound(to, true);
+  return undefined;
+}
+
+// The store assigns an autoincrement `id`; strip it so callers get plain
+// ReviewRecords back.
+function stripId(row: ReviewRecord & { id?: number }): ReviewRecord {
+  const { id: _id, ...record } = row;
+  return record;
+}
+
+function byTimestamp(a: ReviewRecord, b: ReviewRecord): number {
+  return a.timestamp - b.timestamp;
+}
+
+// ---------------------------------------------------------------- writes
+
+// Returns the new row's id so a just-recorded review can be undone.
+export async function appendReview(record: ReviewRecord): Promise<number> {
+  return withStore<number>(
+    'readwrite',
+    store => reqAsPromise(store.add({ ...record })) as Promise<number>,
+  );
+}
+
+export async function deleteReview(id: number): Promise<void> {
+  if (!reviewLogAvailable()) return;
+  try {
+    await withStore<void>('readwrite', store => {
+      store.delete(id);
+    });
+  } catch {
+    /* ignore */
+  }
+}
+
+// Bulk append in a single transaction. Used by the one-time migration from
+// Stats.reviewHistory. Unlike the reads, write failures propagate so the
+// migration does not drop the legacy array when the copy failed.
+export async function appendReviews(records: ReviewRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  await withStore<void>('readwrite', store => {
+    for (const record of records) {
+      store.add({ ...record });
+    }
+  });
+}
+
+// ---------------------------------------------------------------- reads
+
+// Reviews whose timestamp falls inside the range, oldest first. No range
+// returns the whole log.
+export async function getReviews(range: TimeRange = {}): Promise<ReviewRecord[]> {
+  if (!reviewLogAvailable()) return [];
+  try {
+    const rows = await withStore<Array<ReviewRecord & { id?: number }>>(
+      'readonly',
+      store => reqAsPromise(store.index('timestamp').getAll(toKeyRange(range))),
+    );
+    return rows.map(stripId);
+  } catch {
+    return [];
+  }
+}
+
+export async function getReviewsForCard(cardId: string): Promise<ReviewRecord[]> {
+  if (!reviewLogAvailable()) return [];
+  try {
+    const rows = await withStore<Array<ReviewRecord & { id?: number }>>(
+      'readonly',
+      store => reqAsPromise(store.index('cardId').getAll(cardId)),
+    );
+    return rows.map(stripId).sort(byTimestamp);
+  } catch {
+    return [];
+  }
+}
+
+export async function getReviewsForDeck(deckId: string, range: TimeRange = {}): Promise<ReviewRecord[]> {
+  if (!reviewLogAvailable()) return [];
+  try {
+    const rows = await withStore<Array<ReviewRecord & { id?: number }>>(
+      'readonly',
+      store => reqAsPromise(store.index('deckId').getAll(deckId)),
+    );
+    const { from = -Infinity, to = Infinity } = range;
+    return rows
+      .map(stripId)
+      .filter(r => r.timestamp >= from && r.timestamp < to)
+      .sort(byTimestamp);
+  } catch {
+    return [];
+  }
+}
+
+// Timestamps of the user's own reviews, oldest first, for the streak
+// recompute. Walks the timestamp index with a cursor instead of collecting
+// the rows; history imported from another app is skipped.
+export async function getReviewTimestamps(range: TimeRange = {}): Promise<number[]> {
+  if (!reviewLogAvailable()) return [];
+  try {
+    return await withStore<number[]>('readonly', store => new Promise<number[]>((resolve, reject) => {
+      const out: number[] = [];
+      const req = store.index('timestamp').openCursor(toKeyRange(range));
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) {
+          resolve(out);
+          return;
+        }
+        if (!(cursor.value as ReviewRecord).source) out.push(cursor.key as number);
+        cursor.continue();
+      };
+      req.onerror = () => reject(req.error ?? new Error('IndexedDB cursor failed'));
+    }));
+  } catch {
+    return [];
+  }
+}
+
+export async function countReviews(): Promise<number> {
+  if (!reviewLogAvailable()) return 0;
+  try {
+    return await withStore<number>('readonly', store => reqAsPromise(store.count()));
+  } catch {
+    return 0;
+  }
+}
+
+// Wipe the log. Used by clearAllData() and tests.
+export async function clearAll(): Promise<void> {
+  if (!reviewLogAvailable()) return;
+  try {
+    await withStore<void>('readwrite', store => {
+      store.clear();
+    });
+  } catch {
+    /* ignore */
+  }
+}
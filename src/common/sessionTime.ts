@@ -1,5 +1,7 @@
-// Pure derivations from the Stats.reviewHistory log. Used by Stats.tsx and
-// covered by tests/sessionTime.test.ts. No chrome.* APIs, no React.
+// Pure derivations from the review log (src/common/reviewLog.ts). Used by
+// Stats.tsx and the streak update in storage.recordReview, covered by
+// tests/sessionTime.test.ts. No chrome.* APIs, no React, no IndexedDB --
+// callers query the log and pass the records in.
 //
 // "Session" model: cluster review timestamps that arrive within a 5-minute
 // idle gap. Each cluster's duration is (last - first) plus a 30-second tail
@@ -171,3 +173,31 @@ export function dailySessionMs(
   flush();
   return out;
 }
+
+export interface StreakSummary {
+  current: number; // consecutive days ending today or yesterday, else 0
+  longest: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Study streaks over UTC calendar days, matching the UTC keys that
+// Stats.lastReviewDate uses. A streak that last extended yesterday is still
+// current -- today's review has not happened yet, it is not broken.
+export function reviewStreaks(timestamps: number[], now: number): StreakSummary {
+  const days = Array.from(new Set(timestamps.map(ts => Math.floor(ts / DAY_MS))))
+    .sort((a, b) => a - b);
+  if (days.length === 0) return { current: 0, longest: 0 };
+
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < days.length; i++) {
+    run = i > 0 && days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const today = Math.floor(now / DAY_MS);
+  const last = days[days.length - 1];
+  const current = last === today || last === today - 1 ? run : 0;
+  return { current, longest };
+}
@@ -5,11 +5,12 @@
 import type { PronCheckRun } from './types';
 import { STORAGE_KEYS } from './types';
 
-const MAX_RUNS_PER_SCRIPT = 50;
+export const MAX_RUNS_PER_SCRIPT = 50;
 
-type HistoryMap = Record<string, PronCheckRun[]>;
+export type HistoryMap = Record<string, PronCheckRun[]>;
 
-async function readAll(): Promise<HistoryMap> {
+// The whole map, keyed by script id. backup.ts reads and writes it wholesale.
+export async function getPronCheckHistoryMap(): Promise<HistoryMap> {
   try {
     const result = await chrome.storage.local.get(STORAGE_KEYS.SHADOW_PRON_HISTORY);
     const raw = result[STORAGE_KEYS.SHADOW_PRON_HISTORY];
@@ -20,12 +21,12 @@ async function readAll(): Promise<HistoryMap> {
   }
 }
 
-async function writeAll(map: HistoryMap): Promise<void> {
+export async function savePronCheckHistoryMap(map: HistoryMap): Promise<void> {
   await chrome.storage.local.set({ [STORAGE_KEYS.SHADOW_PRON_HISTORY]: map });
 }
 
 export async function getPronCheckHistory(scriptId: string): Promise<PronCheckRun[]> {
-  const map = await readAll();
+  const map = await getPronCheckHistoryMap();
   const list = map[scriptId];
   return Array.isArray(list) ? list : [];
 }
@@ -34,28 +35,28 @@ export async function appendPronCheckRun(
   scriptId: string,
   run: PronCheckRun,
 ): Promise<void> {
-  const map = await readAll();
+  const map = await getPronCheckHistoryMap();
   const existing = Array.isArray(map[scriptId]) ? map[scriptId] : [];
   const next = [...existing, run];
   if (next.length > MAX_RUNS_PER_SCRIPT) {
     next.splice(0, next.length - MAX_RUNS_PER_SCRIPT);
   }
   map[scriptId] = next;
-  await writeAll(map);
+  await savePronCheckHistoryMap(map);
 }
 
 export async function deletePronCheckHistoryFor(scriptId: string): Promise<void> {
-  const map = await readAll();
+  const map = await getPronCheckHistoryMap();
   if (!(scriptId in map)) return;
   delete map[scriptId];
-  await writeAll(map);
+  await savePronCheckHistoryMap(map);
 }
 
 // Flat list of every saved run across every script, sorted oldest-first by
 // createdAt so aggregate helpers (top problem words/phonemes) treat the most
 // recent global occurrence as the recency tiebreak.
 export async function getAllPronCheckHistory(): Promise<PronCheckRun[]> {
-  const map = await readAll();
+  const map = await getPronCheckHistoryMap();
   const out: PronCheckRun[] = [];
   for (const list of Object.values(map)) {
     if (Array.isArray(list)) out.push(...list);
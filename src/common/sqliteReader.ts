@@ -0,0 +1,229 @@
+// Read-only SQLite file reader: walks table b-trees straight from the
+// database bytes. Just enough to pull rows out of an Anki collection without
+// shipping a WebAssembly SQLite build.
+//
+// Supported: rowid tables (including overflow pages and INTEGER PRIMARY KEY
+// rowid aliases), UTF-8 and UTF-16 text. Not supported: WITHOUT ROWID tables,
+// indexes (never needed for a full scan), or a pending WAL file.
+//
+// Format reference: https://www.sqlite.org/fileformat2.html
+
+export type SqliteValue = number | string | Uint8Array | null;
+export type SqliteRow = Record<string, SqliteValue>;
+
+const HEADER_MAGIC = 'SQLite format 3\u0000';
+
+const PAGE_TABLE_INTERIOR = 0x05;
+const PAGE_TABLE_LEAF = 0x0d;
+
+interface Database {
+  bytes: Uint8Array;
+  view: DataView;
+  pageSize: number;
+  usableSize: number;
+  decoder: TextDecoder;
+}
+
+interface TableSchema {
+  rootPage: number;
+  columns: string[];
+  rowidColumn: number; // Index of the INTEGER PRIMARY KEY column, or -1
+}
+
+function openDatabase(bytes: Uint8Array): Database {
+  const magic = new TextDecoder().decode(bytes.subarray(0, 16));
+  if (magic !== HEADER_MAGIC) throw new Error('Not an SQLite database');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const encoding = view.getUint32(56);
+  const label = encoding === 2 ? 'utf-16le' : encoding === 3 ? 'utf-16be' : 'utf-8';
+  return {
+    bytes,
+    view,
+    pageSize,
+    usableSize: pageSize - bytes[20],
+    decoder: new TextDecoder(label),
+  };
+}
+
+// SQLite varint: 1-9 bytes, big-endian, 7 bits per byte except the ninth.
+function readVarint(bytes: Uint8Array, offset: number): [value: number, length: number] {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) return [value, i + 1];
+  }
+  return [value * 256 + bytes[offset + 8], 9];
+}
+
+function pageOffset(db: Database, page: number): number {
+  return (page - 1) * db.pageSize;
+}
+
+// Reassemble a cell payload that may spill onto overflow pages.
+function readPayload(db: Database, start: number, payloadSize: number): Uint8Array {
+  const u = db.usableSize;
+  const maxLocal = u - 35;
+  if (payloadSize <= maxLocal) return db.bytes.subarray(start, start + payloadSize);
+
+  const minLocal = Math.floor(((u - 12) * 32) / 255) - 23;
+  const k = minLocal + ((payloadSize - minLocal) % (u - 4));
+  const local = k <= maxLocal ? k : minLocal;
+
+  const out = new Uint8Array(payloadSize);
+  out.set(db.bytes.subarray(start, start + local));
+  let written = local;
+  let next = db.view.getUint32(start + local);
+  while (written < payloadSize && next !== 0) {
+    const base = pageOffset(db, next);
+    const chunk = Math.min(u - 4, payloadSize - written);
+    out.set(db.bytes.subarray(base + 4, base + 4 + chunk), written);
+    written += chunk;
+    next = db.view.getUint32(base);
+  }
+  return out;
+}
+
+function readInt(view: DataView, offset: number, size: number): number {
+  switch (size) {
+    case 1: return view.getInt8(offset);
+    case 2: return view.getInt16(offset);
+    case 3: return (view.getInt8(offset) * 65536) + view.getUint16(offset + 1);
+    case 4: return view.getInt32(offset);
+    case 6: return (view.getInt16(offset) * 4294967296) + view.getUint32(offset + 2);
+    default: return Number(view.getBigInt64(offset));
+  }
+}
+
+const INT_SIZES: Record<number, number> = { 1: 1, 2: 2, 3: 3, 4: 4, 5: 6, 6: 8 };
+
+function decodeRecord(db: Database, payload: Uint8Array): SqliteValue[] {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const [headerSize, headerLength] = readVarint(payload, 0);
+  const types: number[] = [];
+  for (let offset = headerLength; offset < headerSize;) {
+    const [type, length] = readVarint(payload, offset);
+    types.push(type);
+    offset += length;
+  }
+
+  const values: SqliteValue[] = [];
+  let offset = headerSize;
+  for (const type of types) {
+    if (type === 0) {
+      values.push(null);
+    } else if (type in INT_SIZES) {
+      values.push(readInt(view, offset, INT_SIZES[type]));
+      offset += INT_SIZES[type];
+    } else if (type === 7) {
+      values.push(view.getFloat64(offset));
+      offset += 8;
+    } else if (type === 8 || type === 9) {
+      values.push(type - 8);
+    } else if (type >= 12) {
+      const size = Math.floor((type - 12) / 2);
+      const data = payload.subarray(offset, offset + size);
+      values.push(type % 2 === 0 ? data.slice() : db.decoder.decode(data));
+      offset += size;
+    } else {
+      throw new Error(`Unsupported SQLite serial type ${type}`);
+    }
+  }
+  return values;
+}
+
+// Depth-first walk of a table b-tree, yielding (rowid, record) in rowid order.
+function walkTable(db: Database, rootPage: number, visit: (rowid: number, values: SqliteValue[]) => void): void {
+  const stack = [rootPage];
+  while (stack.length > 0) {
+    const page = stack.pop()!;
+    // Page 1 carries the 100-byte file header before its b-tree header.
+    const header = pageOffset(db, page) + (page === 1 ? 100 : 0);
+    const type = db.bytes[header];
+    const cellCount = db.view.getUint16(header + 3);
+
+    if (type === PAGE_TABLE_INTERIOR) {
+      // Push right-to-left so children pop in key order.
+      stack.push(db.view.getUint32(header + 8));
+      for (let i = cellCount - 1; i >= 0; i--) {
+        const cell = pageOffset(db, page) + db.view.getUint16(header + 12 + i * 2);
+        stack.push(db.view.getUint32(cell));
+      }
+    } else if (type === PAGE_TABLE_LEAF) {
+      for (let i = 0; i < cellCount; i++) {
+        let cell = pageOffset(db, page) + db.view.getUint16(header + 8 + i * 2);
+        const [payloadSize, sizeLength] = readVarint(db.bytes, cell);
+        cell += sizeLength;
+        const [rowid, rowidLength] = readVarint(db.bytes, cell);
+        cell += rowidLength;
+        visit(rowid, decodeRecord(db, readPayload(db, cell, payloadSize)));
+      }
+    } else {
+      throw new Error(`Unexpected SQLite page type ${type} on page ${page}`);
+    }
+  }
+}
+
+const TABLE_CONSTRAINT = /^(constraint|primary|unique|check|foreign)\b/i;
+
+// Column names from a CREATE TABLE statement, in declaration order.
+export function parseColumns(sql: string): { columns: string[]; rowidColumn: number } {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const defs: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of body) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      defs.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  defs.push(current);
+
+  const columns: string[] = [];
+  let rowidColumn = -1;
+  for (const def of defs.map(d => d.trim()).filter(Boolean)) {
+    if (TABLE_CONSTRAINT.test(def)) continue;
+    const name = def.split(/\s+/)[0].replace(/^["`[]|["`\]]$/g, '');
+    if (/^\S+\s+integer\s+primary\s+key/i.test(def)) rowidColumn = columns.length;
+    columns.push(name);
+  }
+  return { columns, rowidColumn };
+}
+
+function findTable(db: Database, name: string): TableSchema | null {
+  let found: TableSchema | null = null;
+  // sqlite_schema: type, name, tbl_name, rootpage, sql
+  walkTable(db, 1, (_rowid, [type, tableName, , rootPage, sql]) => {
+    if (found || type !== 'table' || typeof tableName !== 'string') return;
+    if (tableName.toLowerCase() !== name.toLowerCase()) return;
+    found = { rootPage: Number(rootPage), ...parseColumns(String(sql)) };
+  });
+  return found;
+}
+
+/**
+ * Every row of `table` as an object keyed by column name. Columns added by
+ * a later ALTER TABLE read as null on rows written before it. Returns null
+ * when the table does not exist.
+ */
+export function readSqliteTable(bytes: Uint8Array, table: string): SqliteRow[] | null {
+  const db = openDatabase(bytes);
+  const schema = findTable(db, table);
+  if (!schema) return null;
+  const rows: SqliteRow[] = [];
+  walkTable(db, schema.rootPage, (rowid, values) => {
+    const row: SqliteRow = {};
+    schema.columns.forEach((column, i) => {
+      row[column] = i === schema.rowidColumn ? rowid : values[i] ?? null;
+    });
+    rows.push(row);
+  });
+  return rows;
+}
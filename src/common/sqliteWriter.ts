@@ -0,0 +1,274 @@
+// Write-once SQLite file builder, the counterpart of sqliteReader.ts. Lays
+// out a fresh database holding the given rowid tables, enough to hand an
+// Anki collection to Anki without shipping a WebAssembly SQLite build.
+//
+// Every table is written in one go: leaves packed in rowid order, interior
+// pages built on top, large records spilled to overflow pages. No indexes,
+// no free pages. The schema table has to fit on page 1.
+//
+// Format reference: https://www.sqlite.org/fileformat2.html
+
+import { parseColumns, type SqliteValue } from './sqliteReader';
+
+export interface SqliteTableData {
+  name: string;
+  sql: string; // CREATE TABLE statement, stored verbatim in sqlite_schema
+  rows: SqliteValue[][]; // Values in column order
+}
+
+const PAGE_SIZE = 4096;
+const HEADER_MAGIC = 'SQLite format 3\u0000';
+const FILE_HEADER_SIZE = 100;
+
+const PAGE_TABLE_INTERIOR = 0x05;
+const PAGE_TABLE_LEAF = 0x0d;
+const LEAF_HEADER_SIZE = 8;
+const INTERIOR_HEADER_SIZE = 12;
+
+const encoder = new TextEncoder();
+
+function varint(value: number): number[] {
+  if (!Number.isSafeInteger(value) || value < 0) throw new Error(`Cannot encode ${value} as an SQLite varint`);
+  const groups = [value % 128];
+  for (let rest = Math.floor(value / 128); rest > 0; rest = Math.floor(rest / 128)) {
+    groups.unshift((rest % 128) | 0x80);
+  }
+  // Safe integers need at most 8 groups, so the 9-byte form never comes up.
+  return groups;
+}
+
+// Smallest serial type holding an integer, with its byte width.
+function integerType(value: number): [type: number, size: number] {
+  if (value === 0) return [8, 0];
+  if (value === 1) return [9, 0];
+  if (value >= -0x80 && value < 0x80) return [1, 1];
+  if (value >= -0x8000 && value < 0x8000) return [2, 2];
+  if (value >= -0x800000 && value < 0x800000) return [3, 3];
+  if (value >= -0x80000000 && value < 0x80000000) return [4, 4];
+  if (value >= -0x800000000000 && value < 0x800000000000) return [5, 6];
+  return [6, 8];
+}
+
+function encodeRecord(values: SqliteValue[]): Uint8Array {
+  const types: number[] = [];
+  const bodies: Uint8Array[] = [];
+  for (const value of values) {
+    if (value === null) {
+      types.push(0);
+    } else if (typeof value === 'number' && Number.isInteger(value)) {
+      const [type, size] = integerType(value);
+      const body = new Uint8Array(size);
+      let bits = BigInt(value);
+      for (let i = size - 1; i >= 0; i--) {
+        body[i] = Number(bits & 0xffn);
+        bits >>= 8n;
+      }
+      types.push(type);
+      bodies.push(body);
+    } else if (typeof value === 'number') {
+      const body = new Uint8Array(8);
+      new DataView(body.buffer).setFloat64(0, value);
+      types.push(7);
+      bodies.push(body);
+    } else if (typeof value === 'string') {
+      const body = encoder.encode(value);
+      types.push(13 + body.length * 2);
+      bodies.push(body);
+    } else {
+      types.push(12 + value.length * 2);
+      bodies.push(value);
+    }
+  }
+
+  const typeBytes = types.flatMap(varint);
+  // The header size counts its own varint.
+  let headerSize = typeBytes.length + 1;
+  while (varint(headerSize).length + typeBytes.length !== headerSize) headerSize++;
+  const header = [...varint(headerSize), ...typeBytes];
+
+  const out = new Uint8Array(header.length + bodies.reduce((sum, body) => sum + body.length, 0));
+  out.set(header);
+  let offset = header.length;
+  for (const body of bodies) {
+    out.set(body, offset);
+    offset += body.length;
+  }
+  return out;
+}
+
+class PageWriter {
+  readonly pages: Uint8Array[] = [];
+
+  allocate(): number {
+    this.pages.push(new Uint8Array(PAGE_SIZE));
+    return this.pages.length;
+  }
+
+  page(number: number): Uint8Array {
+    return this.pages[number - 1];
+  }
+
+  // A leaf cell: payload size, rowid, the local part of the payload and,
+  // when it does not fit, the first overflow page. Mirrors readPayload.
+  leafCell(rowid: number, payload: Uint8Array): Uint8Array {
+    const maxLocal = PAGE_SIZE - 35;
+    let local = payload.length;
+    let firstOverflow = 0;
+    if (payload.length > maxLocal) {
+      const minLocal = Math.floor(((PAGE_SIZE - 12) * 32) / 255) - 23;
+      const k = minLocal + ((payload.length - minLocal) % (PAGE_SIZE - 4));
+      local = k <= maxLocal ? k : minLocal;
+      firstOverflow = this.writeOverflow(payload.subarray(local));
+    }
+    const prefix = [...varint(payload.length), ...varint(rowid)];
+    const cell = new Uint8Array(prefix.length + local + (firstOverflow ? 4 : 0));
+    cell.set(prefix);
+    cell.set(payload.subarray(0, local), prefix.length);
+    if (firstOverflow) new DataView(cell.buffer).setUint32(prefix.length + local, firstOverflow);
+    return cell;
+  }
+
+  private writeOverflow(rest: Uint8Array): number {
+    const chunk = PAGE_SIZE - 4;
+    const numbers = Array.from({ length: Math.ceil(rest.length / chunk) }, () => this.allocate());
+    numbers.forEach((number, i) => {
+      const page = this.page(number);
+      new DataView(page.buffer).setUint32(0, numbers[i + 1] ?? 0);
+      page.set(rest.subarray(i * chunk, (i + 1) * chunk), 4);
+    });
+    return numbers[0];
+  }
+
+  // Write a b-tree page: header, cell pointer array, cells packed from the end.
+  writeBtreePage(number: number, type: number, cells: Uint8Array[], rightChild?: number): void {
+    const page = this.page(number);
+    const view = new DataView(page.buffer);
+    const header = number === 1 ? FILE_HEADER_SIZE : 0;
+    const headerSize = type === PAGE_TABLE_INTERIOR ? INTERIOR_HEADER_SIZE : LEAF_HEADER_SIZE;
+    const used = cells.reduce((sum, cell) => sum + cell.length + 2, header + headerSize);
+    if (used > PAGE_SIZE) throw new Error('SQLite page overflowed');
+    let content = PAGE_SIZE;
+    cells.forEach((cell, i) => {
+      content -= cell.length;
+      page.set(cell, content);
+      view.setUint16(header + headerSize + i * 2, content);
+    });
+    page[header] = type;
+    view.setUint16(header + 3, cells.length);
+    view.setUint16(header + 5, content);
+    if (rightChild !== undefined) view.setUint32(header + 8, rightChild);
+  }
+}
+
+interface Subtree {
+  page: number;
+  maxRowid: number;
+}
+
+// Pack cells into leaves, then stack interior levels until one root is left.
+function writeTable(writer: PageWriter, cells: Array<{ rowid: number; cell: Uint8Array }>): number {
+  let level: Subtree[] = [];
+  let group: typeof cells = [];
+  let free = PAGE_SIZE - LEAF_HEADER_SIZE;
+  const flushLeaf = () => {
+    const page = writer.allocate();
+    writer.writeBtreePage(page, PAGE_TABLE_LEAF, group.map(c => c.cell));
+    level.push({ page, maxRowid: group[group.length - 1]?.rowid ?? 0 });
+    group = [];
+    free = PAGE_SIZE - LEAF_HEADER_SIZE;
+  };
+  for (const entry of cells) {
+    if (group.length > 0 && entry.cell.length + 2 > free) flushLeaf();
+    group.push(entry);
+    free -= entry.cell.length + 2;
+  }
+  flushLeaf();
+
+  while (level.length > 1) {
+    const parents: Subtree[] = [];
+    let children: Subtree[] = [];
+    let room = PAGE_SIZE - INTERIOR_HEADER_SIZE;
+    const flushInterior = () => {
+      const page = writer.allocate();
+      const right = children[children.length - 1];
+      const cells = children.slice(0, -1).map(child => {
+        const key = varint(child.maxRowid);
+        const cell = new Uint8Array(4 + key.length);
+        new DataView(cell.buffer).setUint32(0, child.page);
+        cell.set(key, 4);
+        return cell;
+      });
+      writer.writeBtreePage(page, PAGE_TABLE_INTERIOR, cells, right.page);
+      parents.push({ page, maxRowid: right.maxRowid });
+      children = [];
+      room = PAGE_SIZE - INTERIOR_HEADER_SIZE;
+    };
+    for (const child of level) {
+      const size = 4 + varint(child.maxRowid).length + 2;
+      if (children.length > 0 && size > room) flushInterior();
+      children.push(child);
+      room -= size;
+    }
+    flushInterior();
+    level = parents;
+  }
+  return level[0].page;
+}
+
+function writeFileHeader(page: Uint8Array, pageCount: number): void {
+  const view = new DataView(page.buffer);
+  page.set(encoder.encode(HEADER_MAGIC));
+  view.setUint16(16, PAGE_SIZE);
+  page[18] = 1; // File format write version: legacy (no WAL)
+  page[19] = 1; // Read version
+  page[20] = 0; // Reserved bytes per page
+  page[21] = 64; // Max embedded payload fraction (fixed)
+  page[22] = 32; // Min embedded payload fraction (fixed)
+  page[23] = 32; // Leaf payload fraction (fixed)
+  view.setUint32(24, 1); // File change counter
+  view.setUint32(28, pageCount);
+  view.setUint32(40, 1); // Schema cookie
+  view.setUint32(44, 4); // Schema format 4: allows serial types 8 and 9
+  view.setUint32(56, 1); // UTF-8
+  view.setUint32(92, 1); // Version-valid-for, matches the change counter
+  view.setUint32(96, 3045000); // SQLITE_VERSION_NUMBER of the "writer"
+}
+
+/**
+ * Build a complete SQLite database file holding `tables`. A column declared
+ * INTEGER PRIMARY KEY supplies the rowid (and is stored as NULL in the
+ * record, as SQLite does); other tables number their rows from 1.
+ */
+export function writeSqliteDatabase(tables: SqliteTableData[]): Uint8Array {
+  const writer = new PageWriter();
+  writer.allocate(); // Page 1: file header + sqlite_schema
+
+  const schemaCells: Uint8Array[] = [];
+  tables.forEach((table, index) => {
+    const { rowidColumn } = parseColumns(table.sql);
+    const cells = table.rows
+      .map((values, i) => {
+        const rowid = rowidColumn >= 0 ? Number(values[rowidColumn]) : i + 1;
+        if (!Number.isSafeInteger(rowid)) throw new Error(`Invalid rowid in ${table.name}`);
+        const record = rowidColumn >= 0 ? values.map((v, j) => (j === rowidColumn ? null : v)) : values;
+        return { rowid, record };
+      })
+      .sort((a, b) => a.rowid - b.rowid)
+      .map(({ rowid, record }) => ({ rowid, cell: writer.leafCell(rowid, encodeRecord(record)) }));
+    const rootPage = writeTable(writer, cells);
+    // sqlite_schema: type, name, tbl_name, rootpage, sql
+    const record = encodeRecord(['table', table.name, table.name, rootPage, table.sql]);
+    schemaCells.push(writer.leafCell(index + 1, record));
+  });
+
+  const schemaSize = schemaCells.reduce((sum, cell) => sum + cell.length + 2, 0);
+  if (schemaSize > PAGE_SIZE - FILE_HEADER_SIZE - LEAF_HEADER_SIZE) {
+    throw new Error('Too many tables for a single schema page');
+  }
+  writer.writeBtreePage(1, PAGE_TABLE_LEAF, schemaCells);
+  writeFileHeader(writer.page(1), writer.pages.length);
+
+  const out = new Uint8Array(writer.pages.length * PAGE_SIZE);
+  writer.pages.forEach((page, i) => out.set(page, i * PAGE_SIZE));
+  return out;
+}
@@ -4,17 +4,25 @@ import type {
   Card,
   DailyStats,
   Deck,
+  DeckDayCount,
+  DeckDayCounts,
+  LastAnswer,
   KeywordGroup,
   Note,
   Notebook,
   Settings,
   Stats,
   ReviewRecord,
+  ReviewUndo,
   ShadowScript,
   IpaProgress,
   IpaStudyStats,
 } from './types';
 import { STORAGE_KEYS, DEFAULT_SETTINGS, emptyAiHideStats, flattenEnabledKeywords, generateId } from './types';
+import * as reviewLog from './reviewLog';
+import * as cardStore from './cardStore';
+import * as notebookStore from './notebookStore';
+import { reviewStreaks } from './sessionTime';
 
 // Batch size for chunked operations
 const BATCH_SIZE = 100;
@@ -68,12 +76,60 @@ export async function deleteDeck(deckId: string): Promise<void> {
   await saveDecks(decks.filter(d => d.id !== deckId));
   
   // Delete all cards in deck
+  if (await cardStoreReady()) {
+    await cardStore.deleteCardsForDeck(deckId);
+    await touchCards();
+    return;
+  }
   const cards = await getCards();
   await saveCards(cards.filter(c => c.deckId !== deckId));
 }
 
 // Card Operations
+//
+// Cards live in the IndexedDB card store. Where IndexedDB is missing (the
+// vitest environment) they stay in the legacy STORAGE_KEYS.CARDS array.
+// Either way every write bumps STORAGE_KEYS.CARDS_REVISION so pages that
+// listen on chrome.storage.onChanged know to re-read.
+
+let cardsMigration: Promise<number> | null = null;
+
+// Move a legacy STORAGE_KEYS.CARDS array into the card store. Runs at most
+// once per extension context; every card operation waits on it, so callers
+// never see a half-migrated collection. Returns how many cards were copied.
+export function migrateCards(): Promise<number> {
+  if (!cardStore.cardStoreAvailable()) return Promise.resolve(0);
+  cardsMigration ??= copyLegacyCards().catch(error => {
+    cardsMigration = null;
+    throw error;
+  });
+  return cardsMigration;
+}
+
+async function copyLegacyCards(): Promise<number> {
+  const legacy = await get<Card[]>(STORAGE_KEYS.CARDS, []);
+  if (legacy.length === 0) return 0;
+  // Existing rows win: another context may have migrated and edited them.
+  const copied = await cardStore.addMissingCards(legacy);
+  await chrome.storage.local.remove(STORAGE_KEYS.CARDS);
+  await touchCards();
+  return copied;
+}
+
+async function cardStoreReady(): Promise<boolean> {
+  if (!cardStore.cardStoreAvailable()) return false;
+  await migrateCards();
+  return true;
+}
+
+async function touchCards(): Promise<void> {
+  await set(STORAGE_KEYS.CARDS_REVISION, Date.now());
+}
+
 export async function getCards(deckId?: string): Promise<Card[]> {
+  if (await cardStoreReady()) {
+    return deckId ? cardStore.getCardsForDeck(deckId) : cardStore.getAllCards();
+  }
   const cards = await get<Card[]>(STORAGE_KEYS.CARDS, []);
   if (deckId) {
     return cards.filter(c => c.deckId === deckId);
@@ -81,20 +137,34 @@ export async function getCards(deckId?: string): Promise<Card[]> {
   return cards;
 }
 
+// Replaces the whole collection.
 export async function saveCards(cards: Card[]): Promise<void> {
-  await set(STORAGE_KEYS.CARDS, cards);
+  if (await cardStoreReady()) {
+    await cardStore.replaceAllCards(cards);
+    await touchCards();
+    return;
+  }
+  await chrome.storage.local.set({ [STORAGE_KEYS.CARDS]: cards, [STORAGE_KEYS.CARDS_REVISION]: Date.now() });
 }
 
 export async function getCard(cardId: string): Promise<Card | undefined> {
+  if (await cardStoreReady()) {
+    return cardStore.getCard(cardId);
+  }
   const cards = await getCards();
   return cards.find(c => c.id === cardId);
 }
 
 export async function saveCard(card: Card): Promise<Card> {
+  const updatedCard = { ...card, updatedAt: Date.now() };
+  if (await cardStoreReady()) {
+    await cardStore.putCards([updatedCard]);
+    await touchCards();
+    return updatedCard;
+  }
+
   const cards = await getCards();
   const index = cards.findIndex(c => c.id === card.id);
-  const updatedCard = { ...card, updatedAt: Date.now() };
-  
   if (index >= 0) {
     cards[index] = updatedCard;
   } else {
@@ -105,13 +175,57 @@ export async function saveCard(card: Card): Promise<Card> {
   return updatedCard;
 }
 
+// Apply `update` to each listed card in one write. Returns how many matched.
+export async function updateCards(cardIds: string[], update: (card: Card) => Card): Promise<number> {
+  const now = Date.now();
+  if (await cardStoreReady()) {
+    const updated = await cardStore.updateCards(cardIds, card => ({ ...update(card), updatedAt: now }));
+    if (updated.length > 0) await touchCards();
+    return updated.length;
+  }
+
+  const ids = new Set(cardIds);
+  const cards = await getCards();
+  let count = 0;
+  const next = cards.map(card => {
+    if (!ids.has(card.id)) return card;
+    count++;
+    return { ...update(card), updatedAt: now };
+  });
+  if (count > 0) await saveCards(next);
+  return count;
+}
+
 export async function deleteCard(cardId: string): Promise<void> {
+  if (await cardStoreReady()) {
+    await cardStore.deleteCards([cardId]);
+    await touchCards();
+    return;
+  }
   const cards = await getCards();
   await saveCards(cards.filter(c => c.id !== cardId));
 }
 
+export async function deleteCards(cardIds: string[]): Promise<void> {
+  if (cardIds.length === 0) return;
+  if (await cardStoreReady()) {
+    await cardStore.deleteCards(cardIds);
+    await touchCards();
+    return;
+  }
+  const ids = new Set(cardIds);
+  const cards = await getCards();
+  await saveCards(cards.filter(c => !ids.has(c.id)));
+}
+
 // Batch Import with Chunking
 export async function batchImportCards(newCards: Card[]): Promise<number> {
+  if (await cardStoreReady()) {
+    await cardStore.putCards(newCards);
+    await touchCards();
+    return newCards.length;
+  }
+
   const existingCards = await getCards();
   const allCards = [...existingCards];
   
@@ -212,6 +326,9 @@ export async function saveStats(stats: Stats): Promise<void> {
 // Daily stats are kept long enough to backfill the annual heatmap with margin.
 const DAILY_STATS_RETENTION_DAYS = 400;
 
+// Reviews kept in Stats.reviewHistory when IndexedDB is unavailable.
+const LEGACY_HISTORY_CAP = 1000;
+
 function todayKey(): string {
   return new Date().toISOString().split('T')[0];
 }
@@ -238,16 +355,33 @@ function ensureToday(stats: Stats, today: string): DailyStats {
   return todayStats;
 }
 
-export async function recordReview(record: ReviewRecord): Promise<void> {
+function recomputeAccuracy(stats: Stats): void {
+  const totalCorrect = stats.dailyStats.reduce((sum, d) => sum + d.correct, 0);
+  const totalReviews = stats.dailyStats.reduce((sum, d) => sum + d.reviews, 0);
+  stats.averageAccuracy = totalReviews > 0 ? totalCorrect / totalReviews : 0;
+}
+
+export async function recordReview(record: ReviewRecord): Promise<ReviewUndo> {
   const stats = await getStats();
   const today = todayKey();
+  const undo: ReviewUndo = {
+    logId: null,
+    date: today,
+    currentStreak: stats.currentStreak,
+    longestStreak: stats.longestStreak,
+    lastReviewDate: stats.lastReviewDate,
+  };
 
-  // Add to review history
-  stats.reviewHistory.push(record);
-
-  // Keep only last 1000 reviews in history
-  if (stats.reviewHistory.length > 1000) {
-    stats.reviewHistory = stats.reviewHistory.slice(-1000);
+  // Append to the review log. Without IndexedDB (tests) fall back to the
+  // legacy capped array on Stats.
+  const logged = reviewLog.reviewLogAvailable();
+  if (logged) {
+    undo.logId = await reviewLog.appendReview(record);
+  } else {
+    stats.reviewHistory.push(record);
+    if (stats.reviewHistory.length > LEGACY_HISTORY_CAP) {
+      stats.reviewHistory = stats.reviewHistory.slice(-LEGACY_HISTORY_CAP);
+    }
   }
 
   // Update totals
@@ -276,18 +410,142 @@ export async function recordReview(record: ReviewRecord): Promise<void> {
       stats.currentStreak = 1;
     }
 
+    // Once a day, reconcile against the log so a stale lastReviewDate
+    // (restored backup, cleared stats) cannot reset a streak the log still
+    // shows. The log only has what survived the old 1000-entry cap, so it
+    // can raise the counters but never lower them.
+    if (logged) {
+      const fromLog = reviewStreaks(await reviewLog.getReviewTimestamps(), Date.now());
+      stats.currentStreak = Math.max(stats.currentStreak, fromLog.current);
+      stats.longestStreak = Math.max(stats.longestStreak, fromLog.longest);
+    }
+
     stats.longestStreak = Math.max(stats.longestStreak, stats.currentStreak);
     stats.lastReviewDate = today;
   }
 
-  // Recalculate average accuracy
-  const totalCorrect = stats.dailyStats.reduce((sum, d) => sum + d.correct, 0);
-  const totalReviews = stats.dailyStats.reduce((sum, d) => sum + d.reviews, 0);
-  stats.averageAccuracy = totalReviews > 0 ? totalCorrect / totalReviews : 0;
+  recomputeAccuracy(stats);
 
   stats.dailyStats = pruneDailyStats(stats.dailyStats);
 
   await saveStats(stats);
+  return undo;
+}
+
+/**
+ * Take a review recorded by recordReview back out: drop the log row, undo
+ * the totals and daily counters, and restore the streak as it was.
+ */
+export async function revertReview(record: ReviewRecord, undo: ReviewUndo): Promise<void> {
+  if (undo.logId !== null) {
+    await reviewLog.deleteReview(undo.logId);
+  }
+
+  const stats = await getStats();
+  if (undo.logId === null) {
+    for (let i = stats.reviewHistory.length - 1; i >= 0; i--) {
+      const r = stats.reviewHistory[i];
+      if (r.cardId === record.cardId && r.timestamp === record.timestamp) {
+        stats.reviewHistory.splice(i, 1);
+        break;
+      }
+    }
+  }
+
+  stats.totalReviews = Math.max(0, stats.totalReviews - 1);
+  const day = stats.dailyStats.find(d => d.date === undo.date);
+  if (day) {
+    day.reviews = Math.max(0, day.reviews - 1);
+    if (record.grade >= 2) {
+      day.correct = Math.max(0, day.correct - 1);
+    } else {
+      day.incorrect = Math.max(0, day.incorrect - 1);
+    }
+    day.practiceMs = Math.max(0, (day.practiceMs ?? 0) - (record.responseTimeMs || 0));
+  }
+
+  stats.currentStreak = undo.currentStreak;
+  stats.longestStreak = undo.longestStreak;
+  stats.lastReviewDate = undo.lastReviewDate;
+  recomputeAccuracy(stats);
+
+  await saveStats(stats);
+}
+
+/**
+ * Move the legacy Stats.reviewHistory array into the IndexedDB review log.
+ * Runs on every service-worker start; a no-op once the array is empty.
+ * Returns the number of records moved.
+ */
+export async function migrateReviewHistory(): Promise<number> {
+  if (!reviewLog.reviewLogAvailable()) return 0;
+  const legacy = (await getStats()).reviewHistory ?? [];
+  if (legacy.length === 0) return 0;
+
+  await reviewLog.appendReviews(legacy);
+
+  // Re-read so a review recorded while the copy ran is not clobbered.
+  const stats = await getStats();
+  stats.reviewHistory = [];
+  await saveStats(stats);
+  return legacy.length;
+}
+
+// Backup restore (backup.ts): put `records` into the review log, either in
+// place of everything there or next to it, skipping reviews already logged.
+export async function restoreReviewHistory(records: ReviewRecord[], mode: 'merge' | 'replace'): Promise<void> {
+  const key = (r: ReviewRecord) => `${r.cardId}|${r.timestamp}`;
+  if (reviewLog.reviewLogAvailable()) {
+    if (mode === 'replace') await reviewLog.clearAll();
+    const logged = mode === 'replace' ? new Set<string>() : new Set((await reviewLog.getReviews()).map(key));
+    await reviewLog.appendReviews(records.filter(r => !logged.has(key(r))));
+    return;
+  }
+  const stats = await getStats();
+  const kept = mode === 'replace' ? [] : stats.reviewHistory;
+  const logged = new Set(kept.map(key));
+  const merged = [...kept, ...records.filter(r => !logged.has(key(r)))].sort((a, b) => a.timestamp - b.timestamp);
+  await saveStats({ ...stats, reviewHistory: merged.slice(-LEGACY_HISTORY_CAP) });
+}
+
+// Review history that arrives with imported cards (an Anki package). Only
+// kept in the review log: years of another app's reviews would push the
+// user's own out of the capped legacy array. Stats totals are left alone, and
+// the rows are marked so streaks don't count days spent in the other app.
+export async function importReviewHistory(records: ReviewRecord[]): Promise<number> {
+  if (records.length === 0 || !reviewLog.reviewLogAvailable()) return 0;
+  await reviewLog.appendReviews(records.map(record => ({ ...record, source: 'anki' as const })));
+  return records.length;
+}
+
+// Per-deck daily counters (Deck.newCardsPerDay / Deck.reviewsPerDay).
+// Keyed by the same UTC day as dailyStats; a stale day reads as empty.
+export async function getDeckDayCounts(): Promise<DeckDayCounts> {
+  const today = todayKey();
+  const counts = await get<DeckDayCounts>(STORAGE_KEYS.DECK_DAY_COUNTS, { date: today, decks: {} });
+  return counts.date === today ? counts : { date: today, decks: {} };
+}
+
+// `delta` is -1 when an answer is undone.
+export async function recordDeckAnswer(deckId: string, kind: keyof DeckDayCount, delta: 1 | -1 = 1): Promise<void> {
+  const counts = await getDeckDayCounts();
+  const entry = counts.decks[deckId] ?? { newCards: 0, reviews: 0 };
+  entry[kind] = Math.max(0, entry[kind] + delta);
+  counts.decks[deckId] = entry;
+  await set(STORAGE_KEYS.DECK_DAY_COUNTS, counts);
+}
+
+// Snapshot of the most recent answer, for undo_last_answer
+export async function getLastAnswer(): Promise<LastAnswer | null> {
+  return get<LastAnswer | null>(STORAGE_KEYS.LAST_ANSWER, null);
+}
+
+export async function saveLastAnswer(answer: LastAnswer): Promise<void> {
+  await set(STORAGE_KEYS.LAST_ANSWER, answer);
+}
+
+export async function clearLastAnswer(): Promise<void> {
+  await chrome.storage.local.remove(STORAGE_KEYS.LAST_ANSWER);
 }
 
 export async function recordShadowMs(ms: number): Promise<void> {
@@ -300,6 +558,21 @@ export async function recordShadowMs(ms: number): Promise<void> {
   await saveStats(stats);
 }
 
+// Earn-your-scroll spending; returns today's stats so the caller can check
+// what is left.
+export async function recordScrollScreens(domain: string, screens: number): Promise<DailyStats> {
+  const stats = await getStats();
+  const todayStats = ensureToday(stats, todayKey());
+  if (Number.isFinite(screens) && screens > 0) {
+    const spent = todayStats.scrollScreens ?? {};
+    spent[domain] = Math.round(((spent[domain] ?? 0) + screens) * 100) / 100;
+    todayStats.scrollScreens = spent;
+    stats.dailyStats = pruneDailyStats(stats.dailyStats);
+    await saveStats(stats);
+  }
+  return todayStats;
+}
+
 export async function recordConversationTurn(): Promise<void> {
   const stats = await getStats();
   const today = todayKey();
@@ -340,17 +613,27 @@ export async function recordPronCheckRun(averageScore: number): Promise<void> {
   await saveStats(stats);
 }
 
-// Due Queue Operations
-export async function getDueCards(limit: number = 100): Promise<Card[]> {
-  const now = Date.now();
+// Due Queue Operations. `until` looks past now, e.g. to learn ahead.
+export async function getDueCards(limit: number = 100, until: number = Date.now()): Promise<Card[]> {
+  if (await cardStoreReady()) {
+    return cardStore.getDueCards(until, limit);
+  }
   const cards = await getCards();
   
   return cards
-    .filter(c => c.due <= now)
+    .filter(c => c.due <= until)
     .sort((a, b) => a.due - b.due)
     .slice(0, limit);
 }
 
+export async function countDueCards(filter?: (card: Card) => boolean): Promise<number> {
+  const now = Date.now();
+  if (await cardStoreReady()) {
+    return cardStore.countDueCards(now, filter);
+  }
+  return (await getCards()).filter(c => c.due <= now && (!filter || filter(c))).length;
+}
+
 export async function getNextCardForDomain(_domain: string): Promise<Card | null> {
   // For now, domain doesn't affect card selection
   // Could be extended to filter by deck tags or card categories
@@ -481,6 +764,11 @@ export async function saveNote(note: Note): Promise<Note> {
   return note;
 }
 
+// Replaces every note; no dedupe and no stats. Used by backup restore.
+export async function saveNotes(notes: Note[]): Promise<void> {
+  await set(STORAGE_KEYS.NOTES, notes);
+}
+
 export async function deleteNote(noteId: string): Promise<void> {
   const notes = await getNotes();
   await set(STORAGE_KEYS.NOTES, notes.filter(n => n.id !== noteId));
@@ -581,43 +869,12 @@ export async function exportDeck(deckId: string): Promise<{ deck: Deck; cards: C
   return { deck, cards };
 }
 
-// Export all data
-export async function exportAllData(): Promise<{
-  decks: Deck[];
-  cards: Card[];
-  settings: Settings;
-  stats: Stats;
-}> {
-  const [decks, cards, settings, stats] = await Promise.all([
-    getDecks(),
-    getCards(),
-    getSettings(),
-    getStats(),
-  ]);
-  
-  return { decks, cards, settings, stats };
-}
-
-// Import all data
-export async function importAllData(data: {
-  decks?: Deck[];
-  cards?: Card[];
-  settings?: Partial<Settings>;
-}): Promise<void> {
-  if (data.decks) {
-    await saveDecks(data.decks);
-  }
-  if (data.cards) {
-    await saveCards(data.cards);
-  }
-  if (data.settings) {
-    await saveSettings(data.settings);
-  }
-}
-
 // Clear all data
 export async function clearAllData(): Promise<void> {
   await chrome.storage.local.clear();
+  await reviewLog.clearAll();
+  await cardStore.clearAll();
+  await notebookStore.clearAll();
 }
 
 // Shadow Scripts
@@ -637,6 +894,10 @@ export async function saveShadowScript(script: ShadowScript): Promise<ShadowScri
   return script;
 }
 
+export async function saveShadowScripts(scripts: ShadowScript[]): Promise<void> {
+  await set(STORAGE_KEYS.SHADOW_SCRIPTS, scripts);
+}
+
 export async function deleteShadowScript(scriptId: string): Promise<void> {
   const scripts = await getShadowScripts();
   await set(STORAGE_KEYS.SHADOW_SCRIPTS, scripts.filter(s => s.id !== scriptId));
@@ -686,6 +947,10 @@ export async function getAiHideStats(): Promise<AiHideStats> {
   };
 }
 
+export async function saveAiHideStats(stats: AiHideStats): Promise<void> {
+  await set(STORAGE_KEYS.AI_HIDE_STATS, stats);
+}
+
 export async function recordAiHideHit(reason: AiReason, now: number = Date.now()): Promise<void> {
   const stats = await getAiHideStats();
   stats.total[reason] = (stats.total[reason] ?? 0) + 1;
@@ -184,6 +184,18 @@ export async function putCached(
   void evictIfOverBudget();
 }
 
+/**
+ * Store entries exactly as given (keys, timestamps and all). Used when
+ * restoring a backup; unlike putCached, failures propagate.
+ */
+export async function putEntries(entries: CachedAudioEntry[]): Promise<void> {
+  if (!indexedDbAvailable() || entries.length === 0) return;
+  await withStore<void>('readwrite', store => {
+    entries.forEach(entry => store.put(entry));
+  });
+  void evictIfOverBudget();
+}
+
 /**
  * Remove a single cached entry. No-op if the key isn't in the cache.
  */
@@ -3,10 +3,38 @@ export type CardKind = 'mcq-single' | 'mcq-multi' | 'text' | 'cloze' | 'audio';
 
 export type Grade = 0 | 1 | 2 | 3;
 
+// Spaced-repetition algorithm a deck is scheduled with. 'sm2' is the original
+// SuperMemo-2 variant in src/background/scheduler.ts; 'fsrs' is the
+// stability/difficulty model in src/background/fsrs.ts.
+export type SchedulerAlgorithm = 'sm2' | 'fsrs';
+
+// Languages whose leading articles typed-answer grading can ignore.
+export type ArticleLanguage = 'en' | 'fr' | 'es' | 'de' | 'it' | 'pt';
+
+// How loosely a deck's typed answers (text, audio, cloze) are compared with
+// the expected answer. Everything off is the original exact match; see
+// matchTypedAnswer in grading.ts.
+export interface AnswerMatching {
+  ignoreArticles?: ArticleLanguage; // "the apple" = "apple", "le chat" = "chat"
+  ignoreAccents?: boolean; // "cafe" for "café" is a Hard grade with an accent hint instead of a miss
+  anyWordOrder?: boolean; // Multi-word answers match as a bag of words
+}
+
+// Where a card sits in its lifecycle. 'learning' and 'relearning' cards step
+// through short intraday delays (the deck's learning/relearning steps) before
+// graduating to day-based 'review' intervals.
+export type CardQueue = 'new' | 'learning' | 'review' | 'relearning';
+
+// Colored marker for the learner's own triage ("check this", "rewrite this").
+// Flags never affect scheduling.
+export type CardFlag = 'red' | 'orange' | 'green' | 'blue' | 'purple';
+export const CARD_FLAGS: CardFlag[] = ['red', 'orange', 'green', 'blue', 'purple'];
+
 export interface Card {
   id: string;
   deckId: string;
   deckName?: string; // Populated when fetched for quiz
+  answerMatching?: AnswerMatching; // The deck's, populated when fetched for quiz
   kind: CardKind;
   front: string;
   back: string;
@@ -24,24 +52,126 @@ export interface Card {
   ease: number; // Default 2.5
   repetitions: number;
   lapses: number;
+  // Optional for back-compat with cards saved before learning steps existed;
+  // readers derive the queue via getCardQueue when undefined.
+  queue?: CardQueue;
+  learningStep?: number; // Index into the deck's (re)learning steps while queue is learning/relearning
+
+  // FSRS Scheduling Fields. Only populated once the card is reviewed in a
+  // deck that uses the FSRS scheduler (existing SM-2 progress is seeded via
+  // seedFsrsState). Retrievability is not stored because it decays with
+  // time; derive it from stability + lastReviewedAt with fsrsRetrievability.
+  stability?: number; // Days until recall probability decays to 90%
+  difficulty?: number; // 1 (easiest) .. 10 (hardest)
+  lastReviewedAt?: number; // Unix timestamp in ms
+
+  // Exclusion and triage. A suspended card is never served until unsuspended;
+  // a buried card is held back until buriedUntil (the start of the next day).
+  // Both leave the scheduling fields untouched.
+  suspended?: boolean;
+  buriedUntil?: number; // Unix timestamp in ms
+  flag?: CardFlag;
+
+  // Cards generated from the same source (the blanks of one cloze note, a
+  // forward/reverse pair) share this id. Answering one buries the others
+  // until the next day so siblings don't show up back-to-back.
+  siblingGroup?: string;
+  reversed?: boolean; // Back→front copy of a text card, generated on import
+  // Stable id from the import source, so a re-import can find this card
+  // again after its front was edited.
+  externalId?: string;
+  // Set on cards a notebook sync created; see notebookCards.ts.
+  source?: CardSource;
   
   // Metadata
   createdAt: number;
   updatedAt: number;
 }
 
+// The notebook line a card was written on. Line numbers are 1-based and
+// refreshed on every sync, so they only ever reflect the last save.
+// An orphaned card's line no longer parses (often just mid-edit): it keeps
+// its scheduling but isn't served until a later sync claims it again.
+export interface CardSource {
+  notebookId: string;
+  line: number;
+  orphaned?: boolean;
+}
+
 export interface Deck {
   id: string;
   name: string;
   description: string;
+  // Optional for back-compat with decks saved before per-deck scheduling
+  // existed; readers treat undefined as 'sm2' / DEFAULT_DESIRED_RETENTION.
+  scheduler?: SchedulerAlgorithm;
+  desiredRetention?: number; // FSRS only: target recall probability when a card comes due (0.7..0.97)
+  fsrsWeights?: number[]; // FSRS only: weights fitted to this deck's review log; undefined = defaults
+  optimizedAt?: number; // When fsrsWeights were last fitted
+  learningSteps?: number[]; // Minutes between reviews of a new card before it graduates
+  relearningSteps?: number[]; // Minutes between reviews of a lapsed card before it re-graduates
+  // Daily limits; undefined means unlimited. Learning cards are never held back.
+  newCardsPerDay?: number; // New cards introduced per day
+  reviewsPerDay?: number; // Graduated-card reviews per day
+  showInFeed?: boolean; // false = Study tab only, never quizzed in the social feed
+  reverseCards?: boolean; // Imports also create a back→front card for each text card
+  answerMatching?: AnswerMatching; // Undefined = exact matching
   createdAt: number;
   updatedAt: number;
 }
 
 // Settings Types
+
+// What paces quizzes on a site (see src/content/quizTrigger.ts):
+//   posts  - every showAfterNPosts posts scrolled past
+//   time   - every `every` minutes of active use (page visible, recent input)
+//   scroll - every `every` screen heights scrolled down
+//   dwell  - every `every` minutes on the site, watching included; the
+//            budget starts over with each visit
+export type QuizTriggerMode = 'posts' | 'time' | 'scroll' | 'dwell';
+
+export interface QuizTrigger {
+  mode: QuizTriggerMode;
+  every?: number; // Minutes or screens; unset = the mode's default
+}
+
 export interface DomainSettings {
   enabled: boolean;
   customSelectors?: string[];
+  trigger?: QuizTrigger; // Undefined = posts
+  scrollBudget?: ScrollBudget; // Earn-your-scroll budget; undefined = DEFAULT_SCROLL_BUDGET
+}
+
+// Earn your scroll (common/earnScroll.ts): `screens` of scrolling for every
+// `perCorrect` correct answers, plus one allowance to start the day.
+export interface ScrollBudget {
+  screens: number;
+  perCorrect: number;
+}
+
+// A feed site defined in Settings rather than in code (see
+// src/common/customSites.ts). `host` matches the host and its subdomains.
+// `postIdAttribute` names the attribute on the post, or on an element inside
+// it, that holds a stable id; empty means the post's first link is used.
+// `insertion` anchors the quiz after the post or after its parent, for
+// feeds that wrap each post in a layout row.
+export type CustomSiteInsertion = 'post' | 'parent';
+
+export interface CustomSite {
+  id: string;
+  name: string;
+  host: string;
+  postSelector: string;
+  postIdAttribute: string;
+  insertion: CustomSiteInsertion;
+  enabled: boolean;
+}
+
+// What "Test on open tab" found on the page.
+export interface CustomSitePreview {
+  matched: number;
+  withId: number;
+  sampleIds: string[];
 }
 
 export interface FuzzyThresholds {
@@ -88,6 +218,9 @@ export function flattenEnabledKeywords(groups: KeywordGroup[]): string[] {
 
 export interface Settings {
   showAfterNPosts: number; // Default 5
+  adaptiveFrequency: boolean; // Let the background vary the gap (background/quizFrequency.ts)
+  dailyQuizTarget: number; // Daily review goal: paces adaptive frequency, lifts earn-your-scroll
+  earnYourScroll: boolean; // Gate feeds once the scroll earned by correct answers runs out
   pauseMinutesAfterQuiz: number; // Default 0
   activeDeckId: string | null; // Deck currently prioritized for quizzes
   eliminateChars: string; // Default ".,!?()'\""
@@ -106,6 +239,12 @@ export interface Settings {
   hideYouTubeShorts: boolean;
   hideFacebookStrangers: boolean;
   hideInstagramStrangers: boolean;
+  hideXPromoted: boolean;
+  hideRedditPromoted: boolean;
+  hideLinkedInPromoted: boolean;
+  hideLinkedInVideos: boolean;
+  hideTikTokSponsored: boolean;
+  customSites: CustomSite[];
   hideByKeyword: boolean;
   // Topic buckets that own the user's keywords. Source of truth -- the UI
   // edits this directly. The content blocker still reads the flat
@@ -129,6 +268,9 @@ export interface Settings {
   noteTranslateDirection: TranslateDirection;
   noteAutoTranslate: boolean;
   noteToastDurationSeconds: number;
+  // Automatic backups (see backupSnapshots.ts)
+  autoBackupEnabled: boolean; // Default true. Daily snapshot into IndexedDB.
+  autoBackupKeep: number; // Default 7. Snapshots kept; older ones are pruned.
   // Speak mode
   autoSpeakAnswer: boolean; // Default true. Auto-pronounce the correct answer on success/retry-success.
   // Hugging Face access token used by the 'kokoro-api' TTS provider to call
@@ -207,6 +349,9 @@ export const GEMINI_API_MODELS: ReadonlyArray<{ id: GeminiApiModelId; label: str
 
 export const DEFAULT_SETTINGS: Settings = {
   showAfterNPosts: 10,
+  adaptiveFrequency: false,
+  dailyQuizTarget: 30,
+  earnYourScroll: false,
   pauseMinutesAfterQuiz: 0,
   activeDeckId: null,
   eliminateChars: '.,!?()\'"',
@@ -215,6 +360,10 @@ export const DEFAULT_SETTINGS: Settings = {
     'facebook.com': { enabled: true },
     'youtube.com': { enabled: false },
     'instagram.com': { enabled: true },
+    'x.com': { enabled: true },
+    'reddit.com': { enabled: true },
+    'linkedin.com': { enabled: true },
+    'tiktok.com': { enabled: true },
   },
   fuzzyThresholds: {
     exact: 1.0,
@@ -234,6 +383,12 @@ export const DEFAULT_SETTINGS: Settings = {
   hideYouTubeShorts: true,
   hideFacebookStrangers: true,
   hideInstagramStrangers: true,
+  hideXPromoted: true,
+  hideRedditPromoted: true,
+  hideLinkedInPromoted: true,
+  hideLinkedInVideos: false,
+  hideTikTokSponsored: true,
+  customSites: [],
   hideByKeyword: true,
   keywordGroups: [],
   blockedKeywords: [],
@@ -245,6 +400,8 @@ export const DEFAULT_SETTINGS: Settings = {
   noteTranslateDirection: 'auto',
   noteAutoTranslate: true,
   noteToastDurationSeconds: 10,
+  autoBackupEnabled: true,
+  autoBackupKeep: 7,
   autoSpeakAnswer: true,
   kokoroApiToken: '',
   elevenLabsApiKey: '',
@@ -305,6 +462,8 @@ export interface Notebook {
   // arbitrary strings (e.g. 'type', 'author', 'source'); values are plain
   // strings rendered as YAML front-matter on .md export.
   properties: Record<string, string>;
+  // Deck that inline cards in the body sync into on every save.
+  linkedDeckId?: string;
   createdAt: number;
   updatedAt: number;
 }
@@ -318,6 +477,9 @@ export interface ReviewRecord {
   timestamp: number;
   grade: Grade;
   responseTimeMs: number;
+  // Set on history brought in from another app; streaks only count the
+  // user's own reviews.
+  source?: 'anki';
 }
 
 export interface DailyStats {
@@ -337,6 +499,42 @@ export interface DailyStats {
   pronCheckRuns?: number;       // Count of saved pron-check runs today.
   pronCheckAvgScore?: number;   // Running mean of (pronunciation+naturalness+fluency)/3 across today's runs.
   pronCheckBestScore?: number;  // Highest single-run average score recorded today.
+  scrollScreens?: Record<string, number>; // Screens scrolled per site under earn-your-scroll.
+}
+
+// What storage.recordReview changed, so storage.revertReview can take a
+// single review back out again.
+export interface ReviewUndo {
+  logId: number | null; // Review-log row id; null when the legacy array was used
+  date: string; // dailyStats key the review was counted under
+  currentStreak: number; // Streak fields as they were before the review
+  longestStreak: number;
+  lastReviewDate: string | null;
+}
+
+// The most recent card_answered, kept until the undo window closes.
+export interface LastAnswer {
+  card: Card; // Pre-answer copy of the card
+  record: ReviewRecord;
+  undo: ReviewUndo;
+  dayCount: keyof DeckDayCount | null; // Which per-deck daily counter the answer bumped
+  buriedSiblings?: string[]; // Sibling card ids the answer buried
+  answeredAt: number;
+}
+
+// How long the Study tab and in-feed quiz offer "Undo" after an answer.
+export const UNDO_WINDOW_MS = 10_000;
+
+// Per-deck answer counts for one UTC day, backing Deck.newCardsPerDay and
+// Deck.reviewsPerDay. Replaced wholesale when `date` rolls over.
+export interface DeckDayCount {
+  newCards: number;
+  reviews: number;
+}
+
+export interface DeckDayCounts {
+  date: string; // YYYY-MM-DD
+  decks: Record<string, DeckDayCount>;
 }
 
 export interface Stats {
@@ -347,6 +545,9 @@ export interface Stats {
   longestStreak: number;
   lastReviewDate: string | null;
   dailyStats: DailyStats[];
+  // Legacy capped log. The full history lives in the IndexedDB review log
+  // (src/common/reviewLog.ts); this is migrated out on startup and only
+  // refilled where IndexedDB is unavailable.
   reviewHistory: ReviewRecord[];
 }
 
@@ -356,6 +557,13 @@ export interface GetNextCardMessage {
   domain: string;
 }
 
+// Reply to GetNextCardMessage. nextGap is the number of posts to wait before
+// the following quiz (showAfterNPosts unless adaptive frequency is on).
+export interface FeedQuiz {
+  card: Card | null;
+  nextGap: number;
+}
+
 export interface CardAnsweredMessage {
   type: 'card_answered';
   cardId: string;
@@ -365,8 +573,23 @@ export interface CardAnsweredMessage {
 
 export interface BatchImportMessage {
   type: 'batch_import';
-  cards: Omit<Card, 'id' | 'due' | 'intervalDays' | 'ease' | 'repetitions' | 'lapses' | 'createdAt' | 'updatedAt'>[];
+  cards: (Omit<Card, 'id' | 'due' | 'intervalDays' | 'ease' | 'repetitions' | 'lapses' | 'createdAt' | 'updatedAt'> & { imported?: ImportedSchedule })[];
   deckId: string;
+  // Also create back→front cards. Undefined follows the deck's reverseCards.
+  reverse?: boolean;
+  // What to do with cards already in the deck. Undefined imports them again.
+  onDuplicate?: ImportDuplicateAction;
+}
+
+// How an import treats a card that matches one already in the target deck:
+// leave it alone, overwrite its content but keep its scheduling, or add the
+// incoming card alongside it.
+export type ImportDuplicateAction = 'skip' | 'update' | 'new';
+
+export interface ImportSummary {
+  inserted: number;
+  updated: number;
+  skipped: number;
 }
 
 export interface GetSettingsMessage {
@@ -412,6 +635,43 @@ export interface DeleteCardMessage {
   cardId: string;
 }
 
+export interface UndoLastAnswerMessage {
+  type: 'undo_last_answer';
+  // Only undo if the last answer was for this card, so a stale Undo button
+  // can't revert a different card answered elsewhere.
+  cardId?: string;
+}
+
+// Replace the automatic grade of the card's last answer ("I was right" /
+// "Actually wrong"). With acceptAnswer set, the typed answer is also added
+// to the card's canonicalAnswers.
+export interface OverrideGradeMessage {
+  type: 'override_grade';
+  cardId: string;
+  grade: Grade;
+  acceptAnswer?: string;
+}
+
+export interface SuspendCardMessage {
+  type: 'suspend_card';
+  cardIds: string[];
+  suspended: boolean;
+}
+
+// buried: false unburies early.
+export interface BuryCardMessage {
+  type: 'bury_card';
+  cardIds: string[];
+  buried: boolean;
+}
+
+// flag: null clears the flag.
+export interface FlagCardMessage {
+  type: 'flag_card';
+  cardIds: string[];
+  flag: CardFlag | null;
+}
+
 export interface GetStatsMessage {
   type: 'get_stats';
 }
@@ -486,6 +746,29 @@ export interface DeleteNotebookMessage {
   notebookId: string;
 }
 
+// Cards parsed from a notebook body (by the dashboard, which owns the body)
+// replace the notebook's cards in its linked deck. With createDeck, an
+// unlinked notebook first gets a new deck named after it; removeOrphans
+// deletes the cards no longer in the body instead of keeping them orphaned.
+export interface NotebookSyncOptions {
+  createDeck?: boolean;
+  removeOrphans?: boolean;
+}
+
+export interface SyncNotebookCardsMessage extends NotebookSyncOptions {
+  type: 'sync_notebook_cards';
+  notebookId: string;
+  cards: MarkdownCard[];
+}
+
+export interface NotebookSyncSummary {
+  deckId: string;
+  inserted: number;
+  updated: number;
+  orphaned: number; // Cards kept aside because their line is gone
+  removed: number;
+}
+
 // Folder rename / drag-move: every notebook whose folderPath starts with
 // `fromPath` is rewritten to start with `toPath`. Use empty 'fromPath' to
 // move every root-level notebook into a folder.
@@ -768,6 +1051,14 @@ export interface RecordConversationMessage {
   type: 'record_conversation';
 }
 
+// Screens scrolled on a feed site under earn-your-scroll. Replies with
+// today's DailyStats.
+export interface RecordScrollMessage {
+  type: 'record_scroll';
+  domain: string;
+  screens: number;
+}
+
 export interface RecordPronCheckMessage {
   type: 'record_pron_check';
   // Average of the three axis scores (0-100) for the run that was just saved.
@@ -846,6 +1137,29 @@ export interface GetAiHideStatsMessage {
   type: 'get_ai_hide_stats';
 }
 
+// Fit FSRS weights to a deck's review log. Read-only: the dashboard applies
+// the result by saving the deck with the returned weights.
+export interface OptimizeDeckMessage {
+  type: 'optimize_deck';
+  deckId: string;
+}
+
+// How well a set of FSRS weights explains a review log: mean predicted
+// recall vs. the observed recall rate over the same reviews, and the log
+// loss the optimizer minimises.
+export interface RetentionFit {
+  predicted: number;
+  actual: number;
+  logLoss: number;
+}
+
+export interface OptimizerResult {
+  reviewCount: number; // Reviews the fit was scored on
+  before: RetentionFit; // The deck's current weights
+  after: RetentionFit; // The fitted weights
+  weights: number[];
+}
+
 export type Message =
   | GetNextCardMessage
   | CardAnsweredMessage
@@ -874,6 +1188,7 @@ export type Message =
   | SaveNotebookMessage
   | DeleteNotebookMessage
   | MoveNotebookFolderMessage
+  | SyncNotebookCardsMessage
   | CheckForUpdateMessage
   | GetUpdateInfoMessage
   | InstallUpdateMessage
@@ -890,11 +1205,18 @@ export type Message =
   | GetIpaStatsMessage
   | SetIpaStatsMessage
   | RecordShadowPracticeMessage
+  | RecordScrollMessage
   | RecordConversationMessage
   | RecordPronCheckMessage
   | AiQualityReviewMessage
   | RecordAiHideMessage
-  | GetAiHideStatsMessage;
+  | GetAiHideStatsMessage
+  | OptimizeDeckMessage
+  | UndoLastAnswerMessage
+  | OverrideGradeMessage
+  | SuspendCardMessage
+  | BuryCardMessage
+  | FlagCardMessage;
 
 // Response Types
 export interface SuccessResponse<T = undefined> {
@@ -921,6 +1243,30 @@ export interface ParsedCard {
   mediaUrl?: string;
   tags?: string[];
   deckName?: string;
+  // Cards with the same key in one parse result are siblings. The key is
+  // only meaningful within that result; import replaces it with a fresh id.
+  siblingGroup?: string;
+  reversed?: boolean;
+  externalId?: string;
+  // Progress carried over from another app (an Anki package).
+  imported?: ImportedSchedule;
+}
+
+// A card parsed from markdown, with the 1-based line it starts on.
+export type MarkdownCard = ParsedCard & { line: number };
+
+// Scheduling state and review history brought in with a card from another
+// app's export. Applied on import in place of the new-card defaults.
+export interface ImportedSchedule {
+  due: number;
+  intervalDays: number;
+  ease: number;
+  repetitions: number;
+  lapses: number;
+  queue: CardQueue;
+  lastReviewedAt?: number;
+  suspended?: boolean;
+  reviews?: Array<Pick<ReviewRecord, 'timestamp' | 'grade' | 'responseTimeMs'>>;
 }
 
 export interface ParseResult {
@@ -941,7 +1287,11 @@ export type NewDeck = Omit<Deck, 'id' | 'createdAt' | 'updatedAt'>;
 // Storage Keys
 export const STORAGE_KEYS = {
   DECKS: 'scrolllearn_decks',
+  // Legacy card array; cards now live in IndexedDB (cardStore.ts) and this
+  // key only holds them until migrateCards() runs.
   CARDS: 'scrolllearn_cards',
+  // Timestamp bumped on every card write so onChanged listeners can refresh.
+  CARDS_REVISION: 'scrolllearn_cards_revision',
   SETTINGS: 'scrolllearn_settings',
   STATS: 'scrolllearn_stats',
   REVIEW_HISTORY: 'scrolllearn_review_history',
@@ -968,6 +1318,10 @@ export const STORAGE_KEYS = {
   // Persistent counters for posts hidden by the AI quality filter, broken
   // down by reason. Powers the "AI content review" panel on the Stats tab.
   AI_HIDE_STATS: 'scrolllearn_ai_hide_stats',
+  // DeckDayCounts for today: new cards introduced and reviews done per deck.
+  DECK_DAY_COUNTS: 'scrolllearn_deck_day_counts',
+  // LastAnswer snapshot backing undo_last_answer.
+  LAST_ANSWER: 'scrolllearn_last_answer',
 } as const;
 
 // Update Info
@@ -998,6 +1352,7 @@ export function createCard(data: NewCard): Card {
     ease: 2.5,
     repetitions: 0,
     lapses: 0,
+    queue: 'new',
     createdAt: now,
     updatedAt: now,
   };
@@ -0,0 +1,78 @@
+// Minimal ZIP reader, the counterpart of writeZipBlob in notebookExport.ts.
+//
+// Handles what Anki packages and our own exports use: STORE and DEFLATE
+// entries, no encryption, no ZIP64. DEFLATE goes through the platform's
+// DecompressionStream, so there is no inflate implementation to ship.
+
+const SIG_LOCAL = 0x04034b50;
+const SIG_CD = 0x02014b50;
+const SIG_EOCD = 0x06054b50;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  path: string;
+  compressedSize: number;
+  size: number;
+  read(): Promise<Uint8Array>;
+}
+
+async function inflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  const copy = bytes.slice().buffer as ArrayBuffer;
+  const stream = new Blob([copy]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The EOCD record is 22 bytes plus a comment of up to 65535 bytes.
+  const stop = Math.max(0, view.byteLength - 22 - 0xFFFF);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === SIG_EOCD) return offset;
+  }
+  throw new Error('Not a zip file');
+}
+
+/**
+ * List the entries of a zip archive. Entry data is only decompressed when
+ * read() is called.
+ */
+export function readZipEntries(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xFFFFFFFF) throw new Error('ZIP64 archives are not supported');
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== SIG_CD) throw new Error('Corrupt zip central directory');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.push({
+      path,
+      compressedSize,
+      size,
+      read: async () => {
+        if (view.getUint32(localOffset, true) !== SIG_LOCAL) throw new Error(`Corrupt zip entry: ${path}`);
+        // The local header's own name/extra lengths can differ from the
+        // central directory's.
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(start, start + compressedSize);
+        if (method === METHOD_STORE) return data;
+        if (method === METHOD_DEFLATE) return inflateRaw(data);
+        throw new Error(`Unsupported zip compression method ${method} for ${path}`);
+      },
+    });
+  }
+  return entries;
+}
@@ -246,6 +246,17 @@ function buildYouTubeShortsCSS(): string {
   `;
 }
 
+function buildRedditPromotedCSS(): string {
+  return `
+    shreddit-ad-post,
+    shreddit-dynamic-ad-link,
+    shreddit-comments-page-ad,
+    article:has(> shreddit-ad-post) {
+      display: none !important;
+    }
+  `;
+}
+
 function buildHiddenClassCSS(): string {
   // data-sl-hidden is used for elements where React reconciliation would otherwise
   // remove our class (e.g. non-article Facebook posts). React doesn't manage
@@ -277,6 +288,10 @@ function buildCSS(settings: Settings, hostname: string): string {
     rules.push(buildYouTubeShortsCSS());
   }
 
+  if (settings.hideRedditPromoted && hostname.includes('reddit')) {
+    rules.push(buildRedditPromotedCSS());
+  }
+
   return rules.join('\n');
 }
 
@@ -306,6 +321,11 @@ function getHostname(): string {
   return window.location.hostname.replace(/^(www\.|m\.)/, '');
 }
 
+// "x" is too short for the includes() checks used for the other sites.
+function isXHost(hostname: string): boolean {
+  return /(^|\.)(x|twitter)\.com$/.test(hostname);
+}
+
 /**
  * Hide an element.
  * Uses three layers (most → least React-proof):
@@ -343,6 +363,18 @@ function closestFeedUnit(start: Element, hostname: string): Element | null {
   if (hostname.includes('instagram')) {
     return start.closest('article');
   }
+  if (isXHost(hostname)) {
+    return start.closest('[data-testid="cellInnerDiv"]') || start.closest('article');
+  }
+  if (hostname.includes('reddit')) {
+    return start.closest('article') || start.closest('shreddit-post');
+  }
+  if (hostname.includes('linkedin')) {
+    return start.closest('[data-id^="urn:li:"]') || start.closest('div.feed-shared-update-v2');
+  }
+  if (hostname.includes('tiktok')) {
+    return start.closest('[data-e2e="recommend-list-item-container"]');
+  }
   return null;
 }
 
@@ -848,6 +880,43 @@ function scanInstagramArticles(el: Element, hostname: string, markers: string[],
   }
 }
 
+/**
+ * Hide posts matching `selector` in, around or containing `el` when
+ * `detector` flags them. Hides the post's feed unit so no empty row is left.
+ */
+function scanFeedPosts(
+  el: Element,
+  hostname: string,
+  selector: string,
+  detector: (post: Element) => boolean,
+  category: BlockCategory,
+) {
+  const posts = el.matches?.(selector) ? [el] : Array.from(el.querySelectorAll(selector));
+  const parentPost = el.parentElement?.closest(selector);
+  if (parentPost) posts.push(parentPost);
+  for (const post of posts) {
+    if (post.closest(HIDDEN_SEL) || !detector(post)) continue;
+    hideElement(closestFeedUnit(post, hostname) || post, category);
+  }
+}
+
+// Promoted posts on X carry an "Ad" label and no timestamp permalink.
+function isXPromoted(post: Element): boolean {
+  if (post.querySelector('a[href*="/status/"] time')) return false;
+  return elementContainsMarker(post, ['Ad', 'Promoted']);
+}
+
+function isLinkedInPromoted(post: Element): boolean {
+  return elementContainsMarker(post, ['Promoted', 'Promoted by']);
+}
+
+// LinkedIn's short-video shelf is a feed row of several videos with no
+// post author above them.
+function isLinkedInVideoShelf(row: Element): boolean {
+  if (row.querySelector('.update-components-actor')) return false;
+  return row.querySelectorAll('video').length >= 2 || elementContainsMarker(row, ['Videos', 'Videos for you']);
+}
+
 /**
  * Find and hide Facebook's Reels navigation items by aria-label and text.
  * Covers: top navigation bar (aria-label), sidebar (text-based divs),
@@ -988,6 +1057,11 @@ function scanElement(el: Element, settings: Settings, hostname: string) {
     }
   }
 
+  // --- LinkedIn video shelf ---
+  if (settings.hideLinkedInVideos && hostname.includes('linkedin')) {
+    scanFeedPosts(el, hostname, '.scaffold-finite-scroll__content > div', isLinkedInVideoShelf, 'shorts');
+  }
+
   // --- Facebook Sponsored ---
   if (settings.hideFacebookSponsored && isFacebook) {
     scanFacebookArticles(el, isFacebookSponsored, 'sponsored');
@@ -999,6 +1073,22 @@ function scanElement(el: Element, settings: Settings, hostname: string) {
     scanInstagramArticles(el, hostname, ['Sponsored'], 'sponsored');
   }
 
+  // --- X, Reddit, LinkedIn and TikTok promoted posts ---
+  if (settings.hideXPromoted && isXHost(hostname)) {
+    scanFeedPosts(el, hostname, 'article[data-testid="tweet"]', isXPromoted, 'sponsored');
+  }
+  if (settings.hideRedditPromoted && hostname.includes('reddit')) {
+    // CSS covers the ad elements; this catches their article wrappers where
+    // :has() misses (the ad isn't a direct child).
+    scanFeedPosts(el, hostname, 'shreddit-ad-post', () => true, 'sponsored');
+  }
+  if (settings.hideLinkedInPromoted && hostname.includes('linkedin')) {
+    scanFeedPosts(el, hostname, 'div.feed-shared-update-v2', isLinkedInPromoted, 'sponsored');
+  }
+  if (settings.hideTikTokSponsored && hostname.includes('tiktok')) {
+    scanFeedPosts(el, hostname, '[data-e2e="recommend-list-item-container"]', post => elementContainsMarker(post, ['Sponsored', 'Ad']), 'sponsored');
+  }
+
   // --- Facebook Suggested ---
   if (settings.hideFacebookSuggested && isFacebook) {
     scanFacebookArticles(el, isFacebookSuggested, 'suggested');
@@ -8,13 +8,30 @@
  * - Manages scroll blocking during quiz
  */
 
-import type { Card, Settings } from '../common/types';
-import { DEFAULT_SETTINGS, STORAGE_KEYS } from '../common/types';
+import type { Card, DailyStats, FeedQuiz, Grade, Settings } from '../common/types';
+import { DEFAULT_SETTINGS, STORAGE_KEYS, UNDO_WINDOW_MS } from '../common/types';
 import { facebookDetector, getVisiblePosts, type DomainDetector } from './fb';
 import { youtubeDetector, isYouTubeFeedPage, isYouTubeWatchPage } from './youtube';
 import { instagramDetector, isInstagramFeedPage } from './instagram';
-import { normalizeText } from '../common/parser';
+import { xDetector, isXFeedPage } from './twitter';
+import { redditDetector, isRedditFeedPage } from './reddit';
+import { linkedinDetector, isLinkedInFeedPage } from './linkedin';
+import { tiktokDetector, isTikTokFeedPage } from './tiktok';
+import { createCustomDetector } from './custom';
+import { describeAllowance, isScrollGated, scrollAllowance, type ScrollAllowance } from '../common/earnScroll';
+import { findCustomSite } from '../common/customSites';
+import {
+  emptyTriggerState,
+  isTriggerDue,
+  loadTriggerState,
+  resetTrigger,
+  saveTriggerState,
+  tickTrigger,
+  type TriggerState,
+} from './quizTrigger';
+import { checkAnswer, type GradedAnswer } from '../common/grading';
 import { renderBackExtraHTML } from '../common/markdown';
+import { clozeBlank } from '../common/parser';
 import { speak, stopSpeaking, isSpeechSupported } from '../common/speak';
 import { startBlocker, updateBlocker, getBlockedCount, getBlockedCounts } from './blocker';
 
@@ -22,8 +39,15 @@ import { startBlocker, updateBlocker, getBlockedCount, getBlockedCounts } from '
 let currentDetector: DomainDetector | null = null;
 let settings: Settings = DEFAULT_SETTINGS;
 const scrolledPastPostIds: Set<string> = new Set(); // Posts user has scrolled past
-let scrolledPastCount = 0; // Simple counter for posts scrolled past
+let trigger: TriggerState = emptyTriggerState(Date.now()); // Posts, time and scroll counted toward the next quiz
 let lastScrollY = 0; // Track scroll position to detect direction
+let lastInputAt = 0; // Last scroll, key or pointer input, for active time
+let lastHref = window.location.href; // Spot SPA navigations
+let quizGap: number | null = null; // Posts before the next quiz, as the background last said
+let scrollSpent = 0; // Screens scrolled on this site today (earn your scroll)
+let pendingScrollScreens = 0; // Scrolled since the last record_scroll
+let isRecordingScroll = false;
+let scrollGateWaived = false; // Nothing due to earn scroll with on this page
 let isQuizActive = false;
 let observer: MutationObserver | null = null;
 let currentCard: Card | null = null;
@@ -53,6 +77,7 @@ const sessionStats: SessionStats = {
 const QUIZ_CONTAINER_ID = 'scrolllearn-quiz-root';
 const BLOCKER_ID = 'scrolllearn-scroll-blocker';
 const DELETE_CONFIRM_ID = 'scrolllearn-delete-confirm';
+const SCROLL_GATE_ID = 'scrolllearn-scroll-gate';
 
 function isExtensionContextInvalidated(error: unknown): boolean {
   const message = error instanceof Error ? error.message : String(error);
@@ -64,7 +89,14 @@ function isExtensionContextInvalidated(error: unknown): boolean {
  */
 async function initialize() {
   console.log('[ScrollLearn] Initializing content script...');
+
+  // A custom site covering a built-in host injects this script a second time
+  if (document.documentElement.hasAttribute('data-scrolllearn-feed')) return;
+  document.documentElement.setAttribute('data-scrolllearn-feed', '');
   
+  // Load settings (custom sites live there)
+  await loadSettings();
+
   // Detect domain
   currentDetector = detectDomain();
   if (!currentDetector) {
@@ -73,9 +105,6 @@ async function initialize() {
   }
   
   console.log(`[ScrollLearn] Using ${currentDetector.name} detector`);
-  
-  // Load settings
-  await loadSettings();
 
   // Start content blocker (independent of quiz system)
   startBlocker(settings);
@@ -106,8 +135,14 @@ async function initialize() {
     return;
   }
   
+  // Pick up the counters from before a reload or navigation
+  trigger = loadTriggerState(window.sessionStorage, Date.now());
+  if (settings.earnYourScroll) await loadTodayStats();
+  lastScrollY = window.scrollY;
+
   // Start observing
   startObserver();
+  startTriggerClock();
   
   // Initial check
   checkAndInjectQuiz();
@@ -118,6 +153,12 @@ async function initialize() {
  */
 function detectDomain(): DomainDetector | null {
   const hostname = window.location.hostname;
+
+  // User-defined sites win, so they can stand in for a broken built-in one
+  const customSite = findCustomSite(settings.customSites, hostname);
+  if (customSite) {
+    return createCustomDetector(customSite);
+  }
   
   if (facebookDetector.domain.test(hostname)) {
     return facebookDetector;
@@ -136,6 +177,22 @@ function detectDomain(): DomainDetector | null {
       return instagramDetector;
     }
   }
+
+  if (xDetector.domain.test(hostname) && isXFeedPage()) {
+    return xDetector;
+  }
+
+  if (redditDetector.domain.test(hostname) && isRedditFeedPage()) {
+    return redditDetector;
+  }
+
+  if (linkedinDetector.domain.test(hostname) && isLinkedInFeedPage()) {
+    return linkedinDetector;
+  }
+
+  if (tiktokDetector.domain.test(hostname) && isTikTokFeedPage()) {
+    return tiktokDetector;
+  }
   
   return null;
 }
@@ -177,6 +234,7 @@ async function loadTodayStats() {
         sessionStats.todayTotal = todayData.reviews || 0;
         sessionStats.todayCorrect = todayData.correct || 0;
         sessionStats.todayIncorrect = todayData.incorrect || 0;
+        scrollSpent = (todayData as DailyStats).scrollScreens?.[getDomainKey()] ?? 0;
       }
       sessionStats.currentStreak = stats.currentStreak || 0;
     }
@@ -192,15 +250,6 @@ async function loadTodayStats() {
 function startObserver() {
   if (!currentDetector) return;
   
-  const container = currentDetector.getFeedContainer();
-  if (!container) {
-    console.log('[ScrollLearn] No feed container found, retrying...');
-    setTimeout(startObserver, 1000);
-    return;
-  }
-  
-  console.log('[ScrollLearn] Feed container found, starting scroll listener');
-  
   // Throttle function - only check every 500ms during scroll
   let lastScrollCheck = 0;
   const throttledCheck = () => {
@@ -215,6 +264,22 @@ function startObserver() {
   
   // Listen for scroll events - this is the primary trigger
   window.addEventListener('scroll', throttledCheck, { passive: true });
+
+  observeFeed();
+}
+
+/**
+ * Watch the feed container for posts loaded by infinite scroll
+ */
+function observeFeed() {
+  if (!currentDetector) return;
+
+  const container = currentDetector.getFeedContainer();
+  if (!container) {
+    console.log('[ScrollLearn] No feed container found, retrying...');
+    setTimeout(observeFeed, 1000);
+    return;
+  }
   
   // Also use MutationObserver as backup for infinite scroll loading
   // but with much longer debounce to avoid false triggers
@@ -238,6 +303,147 @@ function startObserver() {
   console.log('[ScrollLearn] Scroll listener and observer started');
 }
 
+/**
+ * Count active and dwell time once a second, fire time-based quizzes, and
+ * follow SPA navigations without losing the counters
+ */
+function startTriggerClock() {
+  const markInput = () => { lastInputAt = Date.now(); };
+  for (const type of ['scroll', 'wheel', 'keydown', 'pointerdown', 'pointermove', 'touchstart']) {
+    window.addEventListener(type, markInput, { passive: true, capture: true });
+  }
+
+  setInterval(() => {
+    if (window.location.href !== lastHref) {
+      lastHref = window.location.href;
+      handleNavigation();
+    }
+
+    if (isQuizActive) return;
+    if (settings.earnYourScroll && currentDetector) void recordScroll();
+    trigger = tickTrigger(trigger, Date.now(), {
+      visible: document.visibilityState === 'visible',
+      lastInputAt,
+    });
+    saveTriggerState(window.sessionStorage, trigger);
+
+    if (currentDetector && isQuizDue()) {
+      console.log('[ScrollLearn] Triggering quiz (time)...');
+      void showQuiz();
+    }
+  }, 1000);
+}
+
+/**
+ * The page changed without a reload: re-detect the feed, keep the counters
+ */
+function handleNavigation() {
+  currentDetector = detectDomain();
+  observer?.disconnect();
+  observer = null;
+  lastScrollY = window.scrollY;
+  if (currentDetector) observeFeed();
+}
+
+function isQuizDue(): boolean {
+  const siteTrigger = settings.domainSettings[getDomainKey()]?.trigger;
+  const postsGap = quizGap ?? settings.showAfterNPosts;
+  // Adaptive frequency stretches the time and scroll budgets by as much as the post gap
+  const scale = postsGap / Math.max(settings.showAfterNPosts, 1);
+  return isTriggerDue(trigger, siteTrigger, postsGap, window.innerHeight, scale);
+}
+
+/**
+ * What's left of this site's earned scroll, counting what hasn't been
+ * recorded yet
+ */
+function currentAllowance(): ScrollAllowance {
+  const domainKey = getDomainKey();
+  return scrollAllowance(
+    {
+      reviews: sessionStats.todayTotal,
+      correct: sessionStats.todayCorrect,
+      scrollScreens: { [domainKey]: scrollSpent + pendingScrollScreens },
+    },
+    domainKey,
+    settings.domainSettings[domainKey]?.scrollBudget,
+    settings.dailyQuizTarget,
+  );
+}
+
+/**
+ * Send scrolled screens to DailyStats, then gate the feed if the budget is
+ * spent. The reply carries today's totals from every tab.
+ */
+async function recordScroll() {
+  if (isRecordingScroll) return;
+  const screens = pendingScrollScreens;
+  if (screens > 0) {
+    isRecordingScroll = true;
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'record_scroll', domain: getDomainKey(), screens });
+      pendingScrollScreens -= screens;
+      if (response?.ok && response.data) {
+        const today = response.data as DailyStats;
+        scrollSpent = today.scrollScreens?.[getDomainKey()] ?? scrollSpent + screens;
+        sessionStats.todayTotal = Math.max(sessionStats.todayTotal, today.reviews);
+        sessionStats.todayCorrect = Math.max(sessionStats.todayCorrect, today.correct);
+      }
+    } catch (error) {
+      if (isExtensionContextInvalidated(error)) return;
+      console.error('[ScrollLearn] Failed to record scroll:', error);
+    } finally {
+      isRecordingScroll = false;
+    }
+  }
+  updateScrollGate();
+}
+
+function updateScrollGate() {
+  if (isQuizActive) return;
+  const allowance = currentAllowance();
+  const gated = settings.earnYourScroll && !scrollGateWaived && isScrollGated(allowance);
+  const gate = document.getElementById(SCROLL_GATE_ID);
+  if (gated && !gate) showScrollGate(allowance);
+  if (!gated && gate) hideScrollGate();
+}
+
+/**
+ * Blur the feed and hold scrolling until another card is answered
+ */
+function showScrollGate(allowance: ScrollAllowance) {
+  const gate = document.createElement('div');
+  gate.id = SCROLL_GATE_ID;
+  gate.className = 'scrolllearn-quiz-container scrolllearn-scroll-gate';
+  gate.innerHTML = `
+    <div class="scrolllearn-confirm-dialog" role="alertdialog" aria-modal="true" aria-labelledby="ss-gate-title" aria-describedby="ss-gate-description">
+      <h3 class="scrolllearn-confirm-title" id="ss-gate-title">Scroll used up</h3>
+      <p class="scrolllearn-confirm-description" id="ss-gate-description">
+        ${allowance.correctToNext} more correct ${allowance.correctToNext === 1 ? 'answer earns' : 'answers earn'} the next stretch.
+        ${allowance.reviews} of ${allowance.goal} cards toward today's goal.
+      </p>
+      <div class="scrolllearn-confirm-actions">
+        <button class="scrolllearn-quiz-btn scrolllearn-quiz-btn-primary" id="ss-gate-earn">Answer a card</button>
+      </div>
+    </div>
+  `;
+  document.body.appendChild(gate);
+  gate.querySelector('#ss-gate-earn')?.addEventListener('click', () => void showQuiz());
+  enableScrollBlock();
+}
+
+function hideScrollGate() {
+  const gate = document.getElementById(SCROLL_GATE_ID);
+  if (!gate) return;
+  gate.remove();
+  disableScrollBlock();
+}
+
+function resetQuizTrigger() {
+  trigger = resetTrigger(trigger);
+  saveTriggerState(window.sessionStorage, trigger);
+}
+
 /**
  * Check if we should inject a quiz and do it
  */
@@ -254,6 +460,10 @@ async function checkAndInjectQuiz() {
   }
   
   lastScrollY = currentScrollY;
+  trigger = { ...trigger, scrolledPx: trigger.scrolledPx + scrollDelta };
+  if (settings.earnYourScroll) {
+    pendingScrollScreens += scrollDelta / Math.max(window.innerHeight, 1);
+  }
   
   // Get all visible posts
   const posts = getVisiblePosts(currentDetector);
@@ -267,18 +477,19 @@ async function checkAndInjectQuiz() {
     
     if (!scrolledPastPostIds.has(postId)) {
       scrolledPastPostIds.add(postId);
-      scrolledPastCount++;
+      trigger = { ...trigger, posts: trigger.posts + 1 };
       newPostsThisCheck++;
-      console.log('[ScrollLearn] New post found:', postId, 'Total:', scrolledPastCount);
+      console.log('[ScrollLearn] New post found:', postId, 'Total:', trigger.posts);
     }
   }
   
   if (newPostsThisCheck > 0) {
-    console.log('[ScrollLearn] Posts this check:', posts.length, 'New:', newPostsThisCheck, 'Total unique:', scrolledPastCount, 'Target:', settings.showAfterNPosts);
+    console.log('[ScrollLearn] Posts this check:', posts.length, 'New:', newPostsThisCheck, 'Total unique:', trigger.posts, 'Target:', quizGap ?? settings.showAfterNPosts);
   }
+  saveTriggerState(window.sessionStorage, trigger);
   
   // Check if we should show a quiz
-  if (scrolledPastCount >= settings.showAfterNPosts) {
+  if (isQuizDue()) {
     console.log('[ScrollLearn] Triggering quiz...');
     await showQuiz();
   }
@@ -307,20 +518,27 @@ async function showQuiz() {
 
     console.log('[ScrollLearn] Background response:', response);
 
-    if (!response.ok || !response.data) {
+    const quiz = response.ok ? response.data as FeedQuiz | undefined : undefined;
+    if (quiz) quizGap = quiz.nextGap;
+    if (!quiz?.card) {
       console.log('[ScrollLearn] No cards due - make sure you have imported cards in the extension!');
-      scrolledPastPostIds.clear(); scrolledPastCount = 0;
+      scrolledPastPostIds.clear(); resetQuizTrigger();
+      // With nothing to answer, the feed can't be earned back
+      scrollGateWaived = true;
+      hideScrollGate();
       return;
     }
 
     // Re-check after second await: quiz may have been dismissed while fetching card
     if (isQuizActive) return;
 
-    currentCard = response.data as Card;
+    currentCard = quiz.card;
     isQuizActive = true;
+    // Cards are due again (a learning step matured), so scroll can be earned
+    scrollGateWaived = false;
     
     // Reset counter but pre-populate with visible posts so they aren't re-counted after quiz
-    scrolledPastCount = 0;
+    resetQuizTrigger();
     scrolledPastPostIds.clear();
     if (currentDetector) {
       const visiblePosts = getVisiblePosts(currentDetector);
@@ -336,6 +554,7 @@ async function showQuiz() {
     console.log('[ScrollLearn] Showing card:', currentCard.front.substring(0, 50));
     
     // Inject quiz UI
+    hideScrollGate();
     injectQuizUI(currentCard);
     
     // Record start time for response time tracking
@@ -532,10 +751,19 @@ function buildStatsHTML(_deckName?: string): string {
       ${todayTotal > 0 ? `<span style="${moss}" data-tooltip="${accuracy}% correct">${accuracy}%</span>` : ''}
       <span style="${sessionStyle}" data-tooltip="Session: ${sessionCorrect} correct, ${sessionIncorrect} wrong">${sessionScoreDisplay}</span>
       ${currentStreak > 0 ? `<span style="${clay}" data-tooltip="${currentStreak}-card streak">${currentStreak} streak</span>` : ''}
+      ${settings.earnYourScroll ? buildScrollPill(base) : ''}
     </div>
   `;
 }
 
+function buildScrollPill(style: string): string {
+  const allowance = currentAllowance();
+  const label = allowance.goalMet
+    ? 'goal met'
+    : `${allowance.reviews}/${allowance.goal} · ${Math.ceil(allowance.left)} scr`;
+  return `<span style="${style}" data-tooltip="${escapeHTML(describeAllowance(allowance))}">${label}</span>`;
+}
+
 /**
  * Build quiz HTML based on card type
  */
@@ -747,10 +975,12 @@ function parseClozeAnswersFromBack(back: string): string[] {
 function buildClozeHTML(card: Card): string {
   // Replace {{answer}} with input fields
   let blankIndex = 0;
-  const html = card.front.replace(/\{\{([^}]+)\}\}/g, () => {
+  const html = card.front.replace(/\{\{([^}]+)\}\}/g, (_match, inner: string) => {
     const inputId = `ss-cloze-${blankIndex}`;
     blankIndex++;
-    return `<span class="scrolllearn-quiz-cloze-blank"><input type="text" id="${inputId}" autocomplete="off" /></span>`;
+    const { hint } = clozeBlank(inner);
+    const placeholder = hint ? ` placeholder="${escapeHTML(hint).replace(/"/g, '&quot;')}"` : '';
+    return `<span class="scrolllearn-quiz-cloze-blank"><input type="text" id="${inputId}" autocomplete="off"${placeholder} /></span>`;
   });
   
   return `
@@ -1015,25 +1245,17 @@ async function handleSubmit(card: Card) {
   }
   
   // Grade the answer locally (background will also grade)
-  const grade = gradeAnswerLocally(card, userAnswer);
+  const { grade, accentsOff } = gradeAnswerLocally(card, userAnswer);
+  const statsBefore: SessionStats = { ...sessionStats };
   
   // Update session stats
-  sessionStats.todayTotal++;
-  if (grade >= 2) {
-    sessionStats.todayCorrect++;
-    sessionStats.sessionCorrect++;
-    sessionStats.currentStreak++;
-  } else {
-    sessionStats.todayIncorrect++;
-    sessionStats.sessionIncorrect++;
-    sessionStats.currentStreak = 0;
-  }
+  applySessionGrade(grade);
   
   // Update stats display
   updateStatsDisplay(grade);
   
   // Show feedback
-  showAnswerFeedback(card, grade);
+  showAnswerFeedback(card, grade, accentsOff);
   
   // Disable further interaction
   disableQuizInteraction();
@@ -1051,6 +1273,27 @@ async function handleSubmit(card: Card) {
     console.error('[ScrollLearn] Failed to record answer:', error);
   }
   
+  showPostAnswerActions(card, grade);
+  showUndoButton(card, statsBefore);
+  if (typeof userAnswer === 'string') {
+    showGradeOverride(card, grade, userAnswer, statsBefore);
+  }
+}
+
+function applySessionGrade(grade: Grade) {
+  sessionStats.todayTotal++;
+  if (grade >= 2) {
+    sessionStats.todayCorrect++;
+    sessionStats.sessionCorrect++;
+    sessionStats.currentStreak++;
+  } else {
+    sessionStats.todayIncorrect++;
+    sessionStats.sessionIncorrect++;
+    sessionStats.currentStreak = 0;
+  }
+}
+
+function showPostAnswerActions(card: Card, grade: Grade) {
   // If wrong answer (grade < 2), show retry practice for text/audio/cloze, else next card
   // If correct (grade >= 2), show continue button
   if (grade < 2) {
@@ -1065,12 +1308,119 @@ async function handleSubmit(card: Card) {
 }
 
 /**
- * Grade answer locally (simplified grading for immediate feedback)
+ * Let the learner dispute the automatic grade of a typed answer. "I was
+ * right" can also add the typed answer to the card's accepted answers.
+ */
+function showGradeOverride(card: Card, grade: Grade, userAnswer: string, statsBefore: SessionStats) {
+  if (card.kind !== 'text' && card.kind !== 'audio' && card.kind !== 'cloze') return;
+  const actionsContainer = document.getElementById('ss-actions');
+  if (!actionsContainer) return;
+
+  const newGrade: Grade = grade >= 2 ? 0 : 2;
+  const overrideBtn = document.createElement('button');
+  overrideBtn.className = 'scrolllearn-quiz-btn scrolllearn-quiz-btn-ghost';
+  overrideBtn.id = 'ss-override';
+  overrideBtn.textContent = newGrade >= 2 ? 'I was right' : 'Actually wrong';
+  actionsContainer.appendChild(overrideBtn);
+
+  let acceptBox: HTMLInputElement | null = null;
+  if (newGrade >= 2 && card.kind !== 'cloze' && userAnswer.trim()) {
+    const label = document.createElement('label');
+    label.className = 'scrolllearn-quiz-accept';
+    acceptBox = document.createElement('input');
+    acceptBox.type = 'checkbox';
+    acceptBox.checked = true;
+    label.append(acceptBox, ` Accept “${userAnswer.trim()}” next time`);
+    actionsContainer.appendChild(label);
+  }
+
+  overrideBtn.addEventListener('click', async () => {
+    overrideBtn.disabled = true;
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'override_grade',
+        cardId: card.id,
+        grade: newGrade,
+        acceptAnswer: acceptBox?.checked ? userAnswer.trim() : undefined,
+      });
+      if (!response?.ok || !response.data) {
+        overrideBtn.disabled = false;
+        return;
+      }
+      const updated = response.data as Card;
+      currentCard = updated;
+      Object.assign(sessionStats, statsBefore);
+      applySessionGrade(newGrade);
+      updateStatsDisplay(newGrade);
+      showAnswerFeedback(updated, newGrade);
+      isRetryMode = false;
+      disableQuizInteraction();
+      // Re-grading re-records the answer, so Undo applies to the new grade.
+      showPostAnswerActions(updated, newGrade);
+      showUndoButton(updated, statsBefore);
+    } catch (error) {
+      console.error('[ScrollLearn] Failed to re-grade answer:', error);
+      overrideBtn.disabled = false;
+    }
+  });
+}
+
+/**
+ * Offer a short-lived Undo next to the post-answer actions. Undoing rolls
+ * the card's schedule and stats back in the background and re-shows the
+ * same question.
+ */
+function showUndoButton(card: Card, statsBefore: SessionStats) {
+  const actionsContainer = document.getElementById('ss-actions');
+  if (!actionsContainer) return;
+
+  const undoBtn = document.createElement('button');
+  undoBtn.className = 'scrolllearn-quiz-btn scrolllearn-quiz-btn-secondary';
+  undoBtn.id = 'ss-undo';
+  undoBtn.textContent = 'Undo';
+  actionsContainer.appendChild(undoBtn);
+
+  const timer = window.setTimeout(() => undoBtn.remove(), UNDO_WINDOW_MS);
+  undoBtn.addEventListener('click', async () => {
+    window.clearTimeout(timer);
+    undoBtn.disabled = true;
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'undo_last_answer', cardId: card.id });
+      if (!response?.ok || !response.data) {
+        undoBtn.remove();
+        return;
+      }
+      Object.assign(sessionStats, statsBefore);
+      isRetryMode = false;
+      shuffledIndices = [];
+      currentCard = response.data as Card;
+
+      const container = document.getElementById(QUIZ_CONTAINER_ID);
+      if (container) {
+        container.innerHTML = buildQuizHTML(currentCard);
+        setupQuizEventListeners(currentCard);
+        const firstInput = container.querySelector('button, input');
+        if (firstInput instanceof HTMLElement) {
+          firstInput.focus();
+        }
+      }
+      (window as unknown as { ssQuizStartTime: number }).ssQuizStartTime = Date.now();
+    } catch (error) {
+      console.error('[ScrollLearn] Failed to undo answer:', error);
+      undoBtn.remove();
+    }
+  });
+}
+
+/**
+ * Grade answer locally (simplified grading for immediate feedback). Typed
+ * answers go through the same matcher as the Study tab, so the deck's
+ * answer-matching profile applies here too.
  */
-function gradeAnswerLocally(card: Card, userAnswer: string | number | number[]): 0 | 1 | 2 | 3 {
+function gradeAnswerLocally(card: Card, userAnswer: string | number | number[]): GradedAnswer {
   switch (card.kind) {
     case 'mcq-single':
-      return userAnswer === card.correct ? 3 : 0;
+      return { grade: userAnswer === card.correct ? 3 : 0, accentsOff: false };
     
     case 'mcq-multi': {
       const correct = card.correct as number[];
@@ -1083,61 +1433,20 @@ function gradeAnswerLocally(card: Card, userAnswer: string | number | number[]):
       }
       
       const score = matches / Math.max(correct.length, selected.length);
-      if (score >= 0.9) return 3;
-      if (score >= 0.6) return 2;
-      if (score >= 0.2) return 1;
-      return 0;
+      let grade: Grade = 0;
+      if (score >= 0.9) grade = 3;
+      else if (score >= 0.6) grade = 2;
+      else if (score >= 0.2) grade = 1;
+      return { grade, accentsOff: false };
     }
     
     case 'text':
-    case 'audio': {
-      // Normalize both answers using the same logic as grading.ts
-      const normalizedInput = normalizeText(
-        userAnswer as string,
-        settings.eliminateChars,
-        settings.lowercaseNormalization
-      );
-
-      // Get canonical answer or normalize card.back
-      const canonicalAnswers = card.canonicalAnswers || [
-        normalizeText(card.back, settings.eliminateChars, settings.lowercaseNormalization)
-      ];
-
-      // Check exact match only (case-insensitive via normalization). No fuzzy tolerance.
-      for (const answer of canonicalAnswers) {
-        if (normalizedInput === answer) return 3;
-      }
-      return 0;
-    }
-    
-    case 'cloze': {
-      const inputs = (userAnswer as string).split('|');
-      const expected = card.canonicalAnswers || [];
-
-      let totalScore = 0;
-      for (let i = 0; i < expected.length; i++) {
-        const normalizedInput = normalizeText(
-          inputs[i] || '',
-          settings.eliminateChars,
-          settings.lowercaseNormalization
-        );
-        const normalizedExpected = expected[i] || '';
-
-        // Exact match only (case-insensitive via normalization). No fuzzy tolerance.
-        if (normalizedInput === normalizedExpected) {
-          totalScore += 3;
-        }
-      }
-
-      const avgScore = totalScore / expected.length;
-      if (avgScore >= 2.5) return 3;
-      if (avgScore >= 1.5) return 2;
-      if (avgScore >= 0.5) return 1;
-      return 0;
-    }
+    case 'audio':
+    case 'cloze':
+      return checkAnswer(card, userAnswer, settings);
     
     default:
-      return 0;
+      return { grade: 0, accentsOff: false };
   }
 }
 
@@ -1161,7 +1470,7 @@ function showFeedback(message: string, type: 'success' | 'error' | 'partial', sp
 /**
  * Show answer feedback with correct answer
  */
-function showAnswerFeedback(card: Card, grade: 0 | 1 | 2 | 3) {
+function showAnswerFeedback(card: Card, grade: 0 | 1 | 2 | 3, accentsOff = false) {
   const container = document.getElementById(QUIZ_CONTAINER_ID);
   if (!container) return;
 
@@ -1178,7 +1487,7 @@ function showAnswerFeedback(card: Card, grade: 0 | 1 | 2 | 3) {
     if (settings.autoSpeakAnswer) speak(correctAnswer);
   } else if (grade === 1) {
     type = 'partial';
-    message = 'Almost there...';
+    message = accentsOff ? 'Close, check the accents' : 'Almost there...';
     const correctAnswer = getCorrectAnswerDisplay(card);
     message += `. The answer was: ${correctAnswer}`;
     showFeedback(message, type, correctAnswer);
@@ -1576,7 +1885,9 @@ async function loadNextCard() {
       domain: getDomainKey(),
     });
     
-    if (!response.ok || !response.data) {
+    const quiz = response.ok ? response.data as FeedQuiz | undefined : undefined;
+    if (quiz) quizGap = quiz.nextGap;
+    if (!quiz?.card) {
       console.log('[ScrollLearn] No more cards available');
       // Show message and allow continuing
       showFeedback('No more cards available. You can continue scrolling!', 'success');
@@ -1592,7 +1903,7 @@ async function loadNextCard() {
       return;
     }
     
-    currentCard = response.data as Card;
+    currentCard = quiz.card;
     console.log('[ScrollLearn] Showing next card:', currentCard.front.substring(0, 50));
     
     // Update the quiz UI with the new card
@@ -1758,7 +2069,7 @@ function closeQuiz() {
       const postId = currentDetector.getPostId(post);
       if (postId && !scrolledPastPostIds.has(postId)) {
         scrolledPastPostIds.add(postId);
-        // Don't increment scrolledPastCount - these are "seen" but not "scrolled past"
+        // Don't count these toward the trigger - they are "seen" but not "scrolled past"
       }
     }
     console.log('[ScrollLearn] Pre-populated', visiblePosts.length, 'visible posts after quiz close');
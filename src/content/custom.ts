@@ -0,0 +1,88 @@
+/**
+ * User-defined Feed Detection
+ *
+ * Builds a DomainDetector from a CustomSite defined in Settings. Posts are
+ * whatever the site's selector matches (outermost match only); the post id
+ * comes from the configured attribute, on the post or inside it, or else
+ * from the post's first link.
+ */
+
+import type { CustomSite, CustomSitePreview } from '../common/types';
+import { normalizeSiteHost } from '../common/customSites';
+import type { DomainDetector } from './fb';
+
+/**
+ * Turn a custom site into a detector
+ */
+export function createCustomDetector(site: CustomSite): DomainDetector {
+  const attribute = site.postIdAttribute.trim();
+  const host = normalizeSiteHost(site.host);
+
+  return {
+    name: site.name.trim() || host,
+    domain: new RegExp(`(^|\\.)${host.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i'),
+
+    getPostSelector(): string {
+      return site.postSelector;
+    },
+
+    getFeedContainer(): HTMLElement | null {
+      const container = document.querySelector('[role="feed"], main, [role="main"]');
+      return container instanceof HTMLElement ? container : document.body;
+    },
+
+    isValidPost(element: Element): boolean {
+      const rect = element.getBoundingClientRect();
+      if (rect.width < 200 || rect.height < 60) {
+        return false;
+      }
+
+      // A selector loose enough to match inside a post counts the post once
+      return !element.parentElement?.closest(site.postSelector);
+    },
+
+    getInsertionPoint(post: Element): Element | null {
+      return site.insertion === 'parent' ? post.parentElement ?? post : post;
+    },
+
+    getPostId(post: Element): string | null {
+      const id = attribute
+        ? post.getAttribute(attribute) ?? post.querySelector(`[${attribute}]`)?.getAttribute(attribute)
+        : post.querySelector('a[href]')?.getAttribute('href');
+      return id ? `custom-${id}` : null;
+    },
+  };
+}
+
+/**
+ * Outline the posts a selector matches on the current page for a few
+ * seconds and report what was found.
+ *
+ * Runs in the page through chrome.scripting.executeScript, which sends only
+ * the function's source: it must not use anything from outside its body, so
+ * it repeats the post and id rules of createCustomDetector.
+ */
+export function previewCustomSitePosts(postSelector: string, postIdAttribute: string): CustomSitePreview {
+  const OUTLINE_MS = 4000;
+  const posts = Array.from(document.querySelectorAll(postSelector))
+    .filter(post => !post.parentElement?.closest(postSelector));
+
+  const ids: string[] = [];
+  for (const post of posts) {
+    const id = postIdAttribute
+      ? post.getAttribute(postIdAttribute) ?? post.querySelector(`[${postIdAttribute}]`)?.getAttribute(postIdAttribute)
+      : post.querySelector('a[href]')?.getAttribute('href');
+    if (id) ids.push(id);
+
+    const el = post as HTMLElement;
+    const previous = { outline: el.style.outline, offset: el.style.outlineOffset };
+    el.style.outline = `3px solid ${id ? '#B4532A' : '#9CA3AF'}`;
+    el.style.outlineOffset = '-3px';
+    setTimeout(() => {
+      el.style.outline = previous.outline;
+      el.style.outlineOffset = previous.offset;
+    }, OUTLINE_MS);
+  }
+
+  return { matched: posts.length, withId: ids.length, sampleIds: [...new Set(ids)].slice(0, 3) };
+}
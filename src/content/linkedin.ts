@@ -0,0 +1,84 @@
+/**
+ * LinkedIn Feed Post Detection
+ *
+ * LinkedIn's feed markup keeps readable class names and activity URNs:
+ * - div.feed-shared-update-v2 is a post
+ * - data-urn / data-id carry "urn:li:activity:<id>" on the post or its wrapper
+ */
+
+import type { DomainDetector } from './fb';
+
+/**
+ * LinkedIn detector for feed posts
+ */
+export const linkedinDetector: DomainDetector = {
+  name: 'LinkedIn',
+  domain: /(^|\.)linkedin\.com$/i,
+
+  /**
+   * Get selector for feed posts
+   */
+  getPostSelector(): string {
+    return 'div.feed-shared-update-v2';
+  },
+
+  /**
+   * Get the main feed container
+   */
+  getFeedContainer(): HTMLElement | null {
+    const selectors = [
+      'main .scaffold-finite-scroll__content',
+      'main[aria-label]',
+      'main',
+    ];
+
+    for (const selector of selectors) {
+      const container = document.querySelector(selector);
+      if (container instanceof HTMLElement) {
+        return container;
+      }
+    }
+
+    return document.body;
+  },
+
+  /**
+   * Check if an element is a valid feed post
+   */
+  isValidPost(element: Element): boolean {
+    const rect = element.getBoundingClientRect();
+    if (rect.width < 300 || rect.height < 100) {
+      return false;
+    }
+
+    // Reshares nest the original update inside the outer one
+    return !element.parentElement?.closest('div.feed-shared-update-v2');
+  },
+
+  /**
+   * Get insertion point for quiz (the feed row holding the post)
+   */
+  getInsertionPoint(post: Element): Element | null {
+    return post.closest('[data-id^="urn:li:"]') || post;
+  },
+
+  /**
+   * Get unique identifier for a post
+   */
+  getPostId(post: Element): string | null {
+    const urn = post.getAttribute('data-urn')
+      || post.closest('[data-id^="urn:li:"]')?.getAttribute('data-id')
+      || post.querySelector('[data-urn^="urn:li:"]')?.getAttribute('data-urn');
+    const match = urn?.match(/urn:li:[a-zA-Z]+:(\d+)/);
+    if (match) return `li-${match[1]}`;
+
+    return null;
+  },
+};
+
+/**
+ * Check if we're on the home feed
+ */
+export function isLinkedInFeedPage(): boolean {
+  return window.location.pathname.startsWith('/feed');
+}
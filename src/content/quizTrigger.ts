@@ -0,0 +1,125 @@
+/**
+ * Quiz Triggers
+ *
+ * Decides when the next quiz is due on a site. Each site picks a mode in
+ * DomainSettings.trigger: posts scrolled past (the default), minutes of
+ * active use, screens scrolled, or a per-visit dwell budget that counts
+ * passive watching too.
+ *
+ * The counters are kept in the tab's sessionStorage, so reloads and
+ * navigations within the site pick up where they left off.
+ */
+
+import type { QuizTrigger, QuizTriggerMode } from '../common/types';
+
+export const TRIGGER_DEFAULTS: Record<Exclude<QuizTriggerMode, 'posts'>, number> = {
+  time: 5,    // minutes
+  scroll: 25, // screens
+  dwell: 15,  // minutes
+};
+
+// Input within this window makes the time count as active
+export const ACTIVE_WINDOW_MS = 30 * 1000;
+
+// Not seeing the site for this long starts a new visit (and dwell budget)
+export const VISIT_GAP_MS = 30 * 60 * 1000;
+
+// Longest stretch one tick may add, so a throttled or suspended timer
+// doesn't credit the time it was asleep
+const MAX_TICK_MS = 5 * 1000;
+
+const STORAGE_KEY = 'scrolllearn-quiz-trigger';
+
+export interface TriggerState {
+  posts: number;
+  activeMs: number;
+  dwellMs: number;
+  scrolledPx: number;
+  lastVisibleAt: number;
+}
+
+export function emptyTriggerState(now: number): TriggerState {
+  return { posts: 0, activeMs: 0, dwellMs: 0, scrolledPx: 0, lastVisibleAt: now };
+}
+
+/**
+ * Credit the time since the last visible tick
+ */
+export function tickTrigger(
+  state: TriggerState,
+  now: number,
+  activity: { visible: boolean; lastInputAt: number },
+): TriggerState {
+  if (!activity.visible) return state;
+  if (now - state.lastVisibleAt > VISIT_GAP_MS) {
+    return { ...state, dwellMs: 0, lastVisibleAt: now };
+  }
+
+  const elapsed = Math.max(0, Math.min(now - state.lastVisibleAt, MAX_TICK_MS));
+  const active = now - activity.lastInputAt <= ACTIVE_WINDOW_MS;
+  return {
+    ...state,
+    dwellMs: state.dwellMs + elapsed,
+    activeMs: active ? state.activeMs + elapsed : state.activeMs,
+    lastVisibleAt: now,
+  };
+}
+
+/**
+ * `scale` stretches or shrinks the time and scroll budgets under adaptive
+ * frequency; for posts the caller passes the adjusted gap itself
+ */
+export function isTriggerDue(
+  state: TriggerState,
+  trigger: QuizTrigger | undefined,
+  showAfterNPosts: number,
+  viewportHeight: number,
+  scale = 1,
+): boolean {
+  const mode = trigger?.mode ?? 'posts';
+  if (mode === 'posts') return state.posts >= showAfterNPosts;
+
+  const every = (trigger?.every ?? TRIGGER_DEFAULTS[mode]) * scale;
+  switch (mode) {
+    case 'time':
+      return state.activeMs >= every * 60 * 1000;
+    case 'dwell':
+      return state.dwellMs >= every * 60 * 1000;
+    case 'scroll':
+      return state.scrolledPx >= every * Math.max(viewportHeight, 1);
+  }
+}
+
+/**
+ * Start counting again after a quiz; the visit carries on
+ */
+export function resetTrigger(state: TriggerState): TriggerState {
+  return emptyTriggerState(state.lastVisibleAt);
+}
+
+export function loadTriggerState(storage: Pick<Storage, 'getItem'>, now: number): TriggerState {
+  try {
+    const saved = JSON.parse(storage.getItem(STORAGE_KEY) ?? 'null') as Partial<TriggerState> | null;
+    const fresh = emptyTriggerState(now);
+    if (!saved || typeof saved !== 'object') return fresh;
+    const number = (key: keyof TriggerState) => (typeof saved[key] === 'number' && Number.isFinite(saved[key]) ? saved[key] : fresh[key]);
+    return {
+      posts: number('posts'),
+      activeMs: number('activeMs'),
+      dwellMs: number('dwellMs'),
+      scrolledPx: number('scrolledPx'),
+      lastVisibleAt: number('lastVisibleAt'),
+    };
+  } catch {
+    return emptyTriggerState(now);
+  }
+}
+
+export function saveTriggerState(storage: Pick<Storage, 'setItem'>, state: TriggerState): void {
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // Storage can be full or blocked on the page; the counters just won't
+    // outlive this document
+  }
+}
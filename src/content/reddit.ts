@@ -0,0 +1,106 @@
+/**
+ * Reddit Feed Post Detection
+ *
+ * The current Reddit web app is built from custom elements:
+ * - shreddit-feed holds the home, popular and subreddit feeds
+ * - shreddit-post is a post, carrying its t3_ id and permalink as attributes
+ * - shreddit-ad-post is a promoted post (excluded here, hidden by the blocker)
+ *
+ * old.reddit.com is not supported.
+ */
+
+import type { DomainDetector } from './fb';
+
+/**
+ * Reddit detector for feed posts
+ */
+export const redditDetector: DomainDetector = {
+  name: 'Reddit',
+  domain: /(^|\.)reddit\.com$/i,
+
+  /**
+   * Get selector for feed posts
+   */
+  getPostSelector(): string {
+    return 'shreddit-feed shreddit-post, shreddit-feed article';
+  },
+
+  /**
+   * Get the main feed container
+   */
+  getFeedContainer(): HTMLElement | null {
+    const selectors = [
+      'shreddit-feed',
+      'main',
+    ];
+
+    for (const selector of selectors) {
+      const container = document.querySelector(selector);
+      if (container instanceof HTMLElement) {
+        return container;
+      }
+    }
+
+    return document.body;
+  },
+
+  /**
+   * Check if an element is a valid feed post
+   */
+  isValidPost(element: Element): boolean {
+    // A post wrapped in an article matches twice; count the wrapper only
+    if (element.tagName === 'SHREDDIT-POST' && element.parentElement?.closest('article')) {
+      return false;
+    }
+
+    const rect = element.getBoundingClientRect();
+    if (rect.width < 250 || rect.height < 80) {
+      return false;
+    }
+
+    const post = element.tagName === 'SHREDDIT-POST' ? element : element.querySelector('shreddit-post');
+    return post !== null && !element.querySelector('shreddit-ad-post');
+  },
+
+  /**
+   * Get insertion point for quiz (after the post)
+   */
+  getInsertionPoint(post: Element): Element | null {
+    return post.closest('article') || post;
+  },
+
+  /**
+   * Get unique identifier for a post
+   */
+  getPostId(post: Element): string | null {
+    const shredditPost = post.tagName === 'SHREDDIT-POST' ? post : post.querySelector('shreddit-post');
+    if (!shredditPost) return null;
+
+    // Fullname attribute (t3_abc123), present on every post
+    const id = shredditPost.getAttribute('id') || shredditPost.getAttribute('post-id');
+    if (id) return `rd-${id}`;
+
+    const permalink = shredditPost.getAttribute('permalink') || '';
+    const match = permalink.match(/\/comments\/([a-z0-9]+)/i);
+    if (match) return `rd-t3_${match[1]}`;
+
+    return null;
+  },
+};
+
+/**
+ * Check if we're on a feed (home, popular, all or a subreddit listing)
+ */
+export function isRedditFeedPage(): boolean {
+  const path = window.location.pathname;
+  return (
+    path === '/' ||
+    path.startsWith('/best') ||
+    path.startsWith('/hot') ||
+    path.startsWith('/new') ||
+    path.startsWith('/top') ||
+    path.startsWith('/r/popular') ||
+    path.startsWith('/r/all') ||
+    path.match(/^\/r\/[^/]+\/?(?:(?:hot|new|top|rising)\/?)?$/) !== null
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * TikTok Web Feed Detection
+ *
+ * TikTok's class names are generated, but test hooks survive in data-e2e:
+ * - [data-e2e="recommend-list-item-container"] is one video in For You /
+ *   Following
+ * - the author link and /video/<id> link identify the video
+ */
+
+import type { DomainDetector } from './fb';
+
+/**
+ * TikTok detector for feed videos
+ */
+export const tiktokDetector: DomainDetector = {
+  name: 'TikTok',
+  domain: /(^|\.)tiktok\.com$/i,
+
+  /**
+   * Get selector for feed videos
+   */
+  getPostSelector(): string {
+    return '[data-e2e="recommend-list-item-container"]';
+  },
+
+  /**
+   * Get the main feed container
+   */
+  getFeedContainer(): HTMLElement | null {
+    const selectors = [
+      '#main-content-homepage_hot',
+      '#main-content-others_homepage',
+      'main',
+    ];
+
+    for (const selector of selectors) {
+      const container = document.querySelector(selector);
+      if (container instanceof HTMLElement) {
+        return container;
+      }
+    }
+
+    return document.body;
+  },
+
+  /**
+   * Check if an element is a valid feed video
+   */
+  isValidPost(element: Element): boolean {
+    const rect = element.getBoundingClientRect();
+    if (rect.width < 200 || rect.height < 300) {
+      return false;
+    }
+
+    return element.querySelector('video, [data-e2e="video-author-uniqueid"]') !== null;
+  },
+
+  /**
+   * Get insertion point for quiz (after the video)
+   */
+  getInsertionPoint(post: Element): Element | null {
+    return post;
+  },
+
+  /**
+   * Get unique identifier for a video
+   */
+  getPostId(post: Element): string | null {
+    const videoLink = post.querySelector('a[href*="/video/"]');
+    const match = videoLink?.getAttribute('href')?.match(/\/video\/(\d+)/);
+    if (match) return `tt-${match[1]}`;
+
+    // The player is keyed by video id while the page link is still loading
+    const player = post.querySelector('[id^="xgwrapper-"]');
+    const playerMatch = player?.id.match(/(\d{10,})/);
+    if (playerMatch) return `tt-${playerMatch[1]}`;
+
+    return null;
+  },
+};
+
+/**
+ * Check if we're on the For You or Following feed
+ */
+export function isTikTokFeedPage(): boolean {
+  const path = window.location.pathname;
+  return (
+    path === '/' ||
+    path.startsWith('/foryou') ||
+    path.startsWith('/following')
+  );
+}
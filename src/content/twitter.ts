@@ -0,0 +1,98 @@
+/**
+ * X (Twitter) Timeline Post Detection
+ *
+ * X renders the timeline as a virtualized list with obfuscated class names,
+ * but tags its structure with data-testid attributes:
+ * - [data-testid="cellInnerDiv"] wraps each timeline row
+ * - article[data-testid="tweet"] is the post itself
+ * - the post's timestamp links to its /status/<id> permalink
+ */
+
+import type { DomainDetector } from './fb';
+
+/**
+ * X detector for timeline posts
+ */
+export const xDetector: DomainDetector = {
+  name: 'X',
+  domain: /(^|\.)(x|twitter)\.com$/i,
+
+  /**
+   * Get selector for timeline posts
+   */
+  getPostSelector(): string {
+    return 'article[data-testid="tweet"]';
+  },
+
+  /**
+   * Get the main timeline container
+   */
+  getFeedContainer(): HTMLElement | null {
+    const selectors = [
+      'div[aria-label^="Timeline"]',
+      '[data-testid="primaryColumn"]',
+      'main[role="main"]',
+    ];
+
+    for (const selector of selectors) {
+      const container = document.querySelector(selector);
+      if (container instanceof HTMLElement) {
+        return container;
+      }
+    }
+
+    return document.body;
+  },
+
+  /**
+   * Check if an element is a valid timeline post
+   */
+  isValidPost(element: Element): boolean {
+    const rect = element.getBoundingClientRect();
+    if (rect.width < 250 || rect.height < 80) {
+      return false;
+    }
+
+    // Quoted posts are articles nested inside another post
+    if (element.parentElement?.closest('article[data-testid="tweet"]')) {
+      return false;
+    }
+
+    // Promoted posts don't link their timestamp to a permalink
+    return element.querySelector('a[href*="/status/"] time') !== null;
+  },
+
+  /**
+   * Get insertion point for quiz (the timeline row holding the post)
+   */
+  getInsertionPoint(post: Element): Element | null {
+    return post.closest('[data-testid="cellInnerDiv"]') || post;
+  },
+
+  /**
+   * Get unique identifier for a post
+   */
+  getPostId(post: Element): string | null {
+    // The timestamp link is the post's own permalink; other /status/ links
+    // may point at a quoted post
+    const permalink = post.querySelector('a[href*="/status/"] time')?.closest('a')
+      || post.querySelector('a[href*="/status/"]');
+    const match = permalink?.getAttribute('href')?.match(/\/status\/(\d+)/);
+    if (match) return `x-${match[1]}`;
+
+    return null;
+  },
+};
+
+/**
+ * Check if we're on a timeline (home, profile, list or search results)
+ */
+export function isXFeedPage(): boolean {
+  const path = window.location.pathname;
+  return (
+    path === '/home' ||
+    path === '/search' ||
+    path.startsWith('/i/lists/') ||
+    path.match(/^\/[A-Za-z0-9_]+\/?$/) !== null // Profile pages
+  );
+}
@@ -12,8 +12,9 @@ import Stats from './components/Stats';
 import ShadowPanel from './components/shadow/ShadowPanel';
 import StudySession from './components/study/StudySession';
 import UpdateBanner from './components/UpdateBanner';
-import type { Deck, Card, Note, Notebook, Settings as SettingsType, Stats as StatsType } from '../common/types';
+import type { Deck, Card, ImportDuplicateAction, MarkdownCard, Note, Notebook, NotebookSyncOptions, NotebookSyncSummary, Settings as SettingsType, Stats as StatsType } from '../common/types';
 import { STORAGE_KEYS } from '../common/types';
+import { isCardDue } from '../background/scheduler';
 import { isNotebooksSeeded, markNotebooksSeeded } from '../common/storage';
 import { saveBody as saveNotebookBody } from '../common/notebookStore';
 import {
@@ -213,7 +214,7 @@ export default function App() {
     const watched: string[] = [
       STORAGE_KEYS.NOTES,
       STORAGE_KEYS.NOTEBOOKS,
-      STORAGE_KEYS.CARDS,
+      STORAGE_KEYS.CARDS_REVISION,
       STORAGE_KEYS.DECKS,
       STORAGE_KEYS.STATS,
       STORAGE_KEYS.SETTINGS,
@@ -291,11 +292,13 @@ export default function App() {
     return response;
   }, []);
 
-  async function handleImport(importCards: Card[], deckId: string) {
+  async function handleImport(importCards: Card[], deckId: string, reverse?: boolean, onDuplicate?: ImportDuplicateAction) {
     const response = await chrome.runtime.sendMessage({ 
       type: 'batch_import', 
       cards: importCards,
-      deckId 
+      deckId,
+      reverse,
+      onDuplicate,
     });
     if (response.ok) {
       await loadData();
@@ -340,6 +343,21 @@ export default function App() {
     throw new Error(response.error || 'Failed to move folder');
   }
 
+  async function handleSyncNotebookCards(
+    notebookId: string,
+    cards: MarkdownCard[],
+    options?: NotebookSyncOptions,
+  ): Promise<NotebookSyncSummary | null> {
+    const response = await chrome.runtime.sendMessage({
+      type: 'sync_notebook_cards',
+      notebookId,
+      cards,
+      ...options,
+    });
+    if (response.ok) return response.data as NotebookSyncSummary | null;
+    throw new Error(response.error || 'Failed to sync notebook cards');
+  }
+
   const tabs: { id: Tab; label: string; num: string }[] = [
     { id: 'study',     label: 'Study',             num: '01' },
     { id: 'shadow',    label: 'Practice speaking', num: '02' },
@@ -352,7 +370,7 @@ export default function App() {
     { id: 'guide',     label: 'Guide',             num: '09' },
   ];
 
-  const totalDue = cards.filter(c => c.due <= Date.now()).length;
+  const totalDue = cards.filter(c => isCardDue(c)).length;
   const streak = stats?.currentStreak ?? 0;
 
   if (loading) {
@@ -516,6 +534,8 @@ export default function App() {
               onDeleteNotebook={handleDeleteNotebook}
               onMoveFolder={handleMoveNotebookFolder}
               onRestoreSamples={handleRestoreNotebookSamples}
+              decks={decks}
+              onSyncCards={handleSyncNotebookCards}
               onPendingImport={(payload) => {
                 const existing = new Set(decks.map(d => d.name));
                 setPendingImport({
@@ -547,6 +567,7 @@ export default function App() {
         {activeTab === 'import' && (
           <ImportPanel
             decks={decks}
+            cards={cards}
             onImport={handleImport}
             onCreateDeck={handleSaveDeck}
             pendingImport={pendingImport}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import type { Card, CardKind } from '../../common/types';
-import { normalizeText } from '../../common/parser';
+import { clozeBlank, normalizeText } from '../../common/parser';
 
 interface CardEditorProps {
   card?: Card;
@@ -33,7 +33,7 @@ export default function CardEditor({ card, deckId, onSave, onCancel }: CardEdito
     const answers: string[] = [];
     let match;
     while ((match = regex.exec(text)) !== null) {
-      answers.push(normalizeText(match[1]));
+      answers.push(normalizeText(clozeBlank(match[1]).answer));
     }
     return answers;
   }
@@ -159,7 +159,7 @@ export default function CardEditor({ card, deckId, onSave, onCancel }: CardEdito
         />
         {kind === 'cloze' && (
           <p className="text-xs text-surface-500 mt-1">
-            Wrap answers in double curly braces: {'{{answer}}'}
+            Wrap answers in double curly braces: {'{{answer}}'}, or {'{{answer::hint}}'} to show a hint in the blank
           </p>
         )}
       </div>
@@ -1,10 +1,11 @@
 import { useEffect, useMemo, useState } from 'react';
 import type { Card } from '../../common/types';
+import { clozeBlank, clozeText } from '../../common/parser';
 import RenderBackExtra from './study/RenderBackExtra';
 import SpeakButton from './study/SpeakButton';
 
 function clozeFrontForSpeech(front: string): string {
-  return front.replace(/\{\{|\}\}/g, '');
+  return clozeText(front);
 }
 
 interface CardPreviewProps {
@@ -34,7 +35,7 @@ function renderClozeWithAnswers(front: string): React.ReactNode {
   const parts = front.split(/(\{\{[^}]+\}\})/g);
   return parts.map((part, i) => {
     if (part.startsWith('{{') && part.endsWith('}}')) {
-      const answer = part.slice(2, -2);
+      const { answer } = clozeBlank(part.slice(2, -2));
       return (
         <span
           key={i}
@@ -1,10 +1,31 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
-import type { Deck, Card, Grade, Stats, Response } from '../../common/types';
-import { calculateRetentionRate } from '../../background/scheduler';
+import type { AnswerMatching, ArticleLanguage, Deck, Card, CardFlag, Grade, SchedulerAlgorithm, Stats, Response, Message } from '../../common/types';
+import { CARD_FLAGS } from '../../common/types';
+import {
+  DEFAULT_LEARNING_STEPS,
+  DEFAULT_RELEARNING_STEPS,
+  calculateRetentionRate,
+  formatSteps,
+  getCardQueue,
+  getDeckScheduler,
+  isCardActive,
+  isCardDue,
+  parseSteps,
+} from '../../background/scheduler';
+import {
+  DEFAULT_DESIRED_RETENTION,
+  MAX_DESIRED_RETENTION,
+  MIN_DESIRED_RETENTION,
+  normalizeDesiredRetention,
+} from '../../background/fsrs';
 import CardEditor from './CardEditor';
+import Select from './Select';
 import CardPreview from './CardPreview';
+import OptimizeDeckDialog from './OptimizeDeckDialog';
+import ExportDeckDialog from './ExportDeckDialog';
 import EditorialHeader from './EditorialHeader';
 import { useConfirm } from '../hooks/useConfirm';
+import { useReviewLog } from '../hooks/useReviewLog';
 
 interface DeckListProps {
   decks: Deck[];
@@ -23,6 +44,34 @@ interface DeckListProps {
 }
 
 const DAY_MS = 86_400_000;
+const RETENTION_WINDOW_DAYS = 30;
+
+// Blank or unparseable means "no limit".
+function parseDailyLimit(input: string): number | undefined {
+  const n = Number.parseInt(input, 10);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+type CardStateFilter = 'all' | 'active' | 'suspended' | 'buried' | 'flagged' | CardFlag;
+
+const FLAG_COLORS: Record<CardFlag, string> = {
+  red: 'var(--rose)',
+  orange: 'var(--clay)',
+  green: 'var(--moss)',
+  blue: '#5B7A99',
+  purple: '#8A6A9C',
+};
+
+function matchesStateFilter(card: Card, filter: CardStateFilter, now: number): boolean {
+  switch (filter) {
+    case 'all': return true;
+    case 'active': return isCardActive(card, now);
+    case 'suspended': return !!card.suspended;
+    case 'buried': return !card.suspended && !isCardActive(card, now);
+    case 'flagged': return !!card.flag;
+    default: return card.flag === filter;
+  }
+}
 
 function todayWord() {
   return new Intl.NumberFormat('en-US').format;
@@ -53,6 +102,22 @@ function shortKind(kind: Card['kind']): string {
   }
 }
 
+const ARTICLE_LANGUAGE_OPTIONS: { value: ArticleLanguage; label: string; hint: string }[] = [
+  { value: 'en', label: 'English', hint: 'the, a, an' },
+  { value: 'fr', label: 'French', hint: "le, la, les, l', un, une" },
+  { value: 'es', label: 'Spanish', hint: 'el, la, los, las, un, una' },
+  { value: 'de', label: 'German', hint: 'der, die, das, ein, eine' },
+  { value: 'it', label: 'Italian', hint: "il, lo, la, l', un, una" },
+  { value: 'pt', label: 'Portuguese', hint: 'o, a, os, as, um, uma' },
+];
+
+// Patch a deck's matching profile, dropping it once every option is off so
+// the deck goes back to exact matching.
+function withMatching(current: AnswerMatching | undefined, patch: AnswerMatching): AnswerMatching | undefined {
+  const next = { ...current, ...patch };
+  return next.ignoreArticles || next.ignoreAccents || next.anyWordOrder ? next : undefined;
+}
+
 export default function DeckList({
   decks,
   cards,
@@ -71,12 +136,20 @@ export default function DeckList({
   const confirm = useConfirm();
   const [expandedDeck, setExpandedDeck] = useState<string | null>(null);
   const [editingDeck, setEditingDeck] = useState<Deck | null>(null);
+  // Steps are edited as free text ("1m 10m 1h") and parsed on save so a
+  // half-typed token doesn't get reformatted under the cursor.
+  const [stepsDraft, setStepsDraft] = useState({ learning: '', relearning: '' });
+  const [limitsDraft, setLimitsDraft] = useState({ newCards: '', reviews: '' });
+  const [optimizingDeck, setOptimizingDeck] = useState<Deck | null>(null);
+  const [exportingDeck, setExportingDeck] = useState<Deck | null>(null);
   const [editingCard, setEditingCard] = useState<Card | null>(null);
   const [showNewDeck, setShowNewDeck] = useState(false);
   const [showNewCard, setShowNewCard] = useState(false);
   const [newDeckName, setNewDeckName] = useState('');
   const [newDeckDescription, setNewDeckDescription] = useState('');
   const [cardFilter, setCardFilter] = useState('');
+  const [cardStateFilter, setCardStateFilter] = useState<CardStateFilter>('all');
+  const [selectedCardIds, setSelectedCardIds] = useState<Set<string>>(() => new Set());
   const [previewState, setPreviewState] = useState<{ deckId: string; index: number } | null>(null);
   const [showSchedulerHelp, setShowSchedulerHelp] = useState(false);
   const pendingScrollCardIdRef = useRef<string | null>(null);
@@ -119,19 +192,22 @@ export default function DeckList({
   // is short-lived; we accept slight clock staleness in exchange for purity.
   const [now] = useState(() => Date.now());
 
+  // Only the 30-day retention window is shown here, so skip older log rows.
+  const recentReviews = useReviewLog(stats, now - RETENTION_WINDOW_DAYS * DAY_MS);
+
   // Group review history by deck once, then derive retention per deck.
-  // Using stats.reviewHistory is necessary because per-card `repetitions`
+  // Using the review log is necessary because per-card `repetitions`
   // resets to 0 on a lapse, so a deck-level `1 - lapses/repetitions` is
   // mathematically broken (denominator drops while lapses keep climbing).
   const reviewsByDeck = useMemo(() => {
     const map = new Map<string, { grade: Grade; timestamp: number }[]>();
-    for (const r of stats?.reviewHistory ?? []) {
+    for (const r of recentReviews) {
       const list = map.get(r.deckId);
       if (list) list.push({ grade: r.grade, timestamp: r.timestamp });
       else map.set(r.deckId, [{ grade: r.grade, timestamp: r.timestamp }]);
     }
     return map;
-  }, [stats?.reviewHistory]);
+  }, [recentReviews]);
 
   // Per-deck aggregates ----------------------------------------------------
   const perDeck = useMemo(() => {
@@ -147,12 +223,12 @@ export default function DeckList({
     }>();
     for (const deck of decks) {
       const list = cards.filter(c => c.deckId === deck.id);
-      const due = list.filter(c => c.due <= now).length;
-      const newCount = list.filter(c => c.repetitions === 0).length;
+      const due = list.filter(c => isCardDue(c, now)).length;
+      const newCount = list.filter(c => getCardQueue(c) === 'new').length;
       const avgEase = list.length > 0
         ? list.reduce((s, c) => s + (c.ease ?? 2.5), 0) / list.length
         : 2.5;
-      const retention = calculateRetentionRate(reviewsByDeck.get(deck.id) ?? [], 30);
+      const retention = calculateRetentionRate(reviewsByDeck.get(deck.id) ?? [], RETENTION_WINDOW_DAYS);
       const kinds: Record<string, number> = { text: 0, 'mcq-single': 0, 'mcq-multi': 0, cloze: 0, audio: 0 };
       for (const c of list) kinds[c.kind] = (kinds[c.kind] ?? 0) + 1;
       const forecast = new Array(14).fill(0);
@@ -168,7 +244,7 @@ export default function DeckList({
     return map;
   }, [decks, cards, now, reviewsByDeck]);
 
-  const totalDue = useMemo(() => cards.filter(c => c.due <= now).length, [cards, now]);
+  const totalDue = useMemo(() => cards.filter(c => isCardDue(c, now)).length, [cards, now]);
 
   // Reviewed-today comes from stats.dailyStats with today's YYYY-MM-DD key
   const reviewedToday = useMemo(() => {
@@ -206,9 +282,31 @@ export default function DeckList({
     setShowNewDeck(false);
   }
 
+  function openDeckEditor(deck: Deck) {
+    setEditingDeck(deck);
+    setStepsDraft({
+      learning: formatSteps(deck.learningSteps ?? DEFAULT_LEARNING_STEPS),
+      relearning: formatSteps(deck.relearningSteps ?? DEFAULT_RELEARNING_STEPS),
+    });
+    setLimitsDraft({
+      newCards: deck.newCardsPerDay?.toString() ?? '',
+      reviews: deck.reviewsPerDay?.toString() ?? '',
+    });
+  }
+
   async function handleUpdateDeck() {
     if (!editingDeck || !editingDeck.name.trim()) return;
-    await onSaveDeck(editingDeck);
+    const next: Deck = {
+      ...editingDeck,
+      learningSteps: parseSteps(stepsDraft.learning),
+      relearningSteps: parseSteps(stepsDraft.relearning),
+    };
+    if (getDeckScheduler(next) === 'fsrs') {
+      next.desiredRetention = normalizeDesiredRetention(next.desiredRetention);
+    }
+    next.newCardsPerDay = parseDailyLimit(limitsDraft.newCards);
+    next.reviewsPerDay = parseDailyLimit(limitsDraft.reviews);
+    await onSaveDeck(next);
     setEditingDeck(null);
   }
 
@@ -225,15 +323,20 @@ export default function DeckList({
     }
   }
 
-  async function handleExportDeck(deck: Deck) {
-    const list = cards.filter(c => c.deckId === deck.id);
-    const blob = new Blob([JSON.stringify({ deck, cards: list }, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${deck.name.replace(/[^a-z0-9]/gi, '_')}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+  // Bulk suspend/bury/flag. The background writes the cards and App reloads
+  // them from the storage change.
+  async function handleBulkAction(message: Extract<Message, { type: 'suspend_card' | 'bury_card' | 'flag_card' }>) {
+    await chrome.runtime.sendMessage(message);
+    setSelectedCardIds(new Set());
+  }
+
+  function toggleCardSelected(cardId: string) {
+    setSelectedCardIds(prev => {
+      const next = new Set(prev);
+      if (next.has(cardId)) next.delete(cardId);
+      else next.add(cardId);
+      return next;
+    });
   }
 
   // Render -----------------------------------------------------------------
@@ -362,6 +465,7 @@ export default function DeckList({
                             {deck.name}
                           </span>
                           {isActive && <span className="pill pill-ink" style={{ flexShrink: 0 }}>active</span>}
+                          {deck.showInFeed === false && <span className="pill" style={{ flexShrink: 0 }}>study only</span>}
                         </div>
                         {deck.description && (
                           <div
@@ -426,6 +530,8 @@ export default function DeckList({
                             onClick={() => {
                               setExpandedDeck(isOpen ? null : deck.id);
                               setCardFilter('');
+                              setCardStateFilter('all');
+                              setSelectedCardIds(new Set());
                             }}
                             className={isOpen ? 'btn btn-dark' : 'btn btn-ghost'}
                             style={{ padding: '6px 10px', fontSize: 12, gap: 4 }}
@@ -585,6 +691,14 @@ export default function DeckList({
                             bar (TODAY) includes everything overdue right now.
                           </div>
 
+                          <div style={{ marginBottom: 14 }}>
+                            <strong style={{ color: 'var(--ink)' }}>Learning steps.</strong>{' '}
+                            New cards first repeat after {formatSteps(deck.learningSteps ?? DEFAULT_LEARNING_STEPS) || 'no steps'};
+                            forgotten cards after {formatSteps(deck.relearningSteps ?? DEFAULT_RELEARNING_STEPS) || 'no steps'}.
+                            Again restarts the steps, Hard repeats one, Good moves on, and Easy graduates
+                            straight to the first review interval below.
+                          </div>
+
                           <div style={{ marginBottom: 6 }}>
                             <strong style={{ color: 'var(--ink)' }}>How long until a card returns.</strong>
                           </div>
@@ -601,9 +715,9 @@ export default function DeckList({
                               <tbody>
                                 <tr>
                                   <td><span className="pill">Again</span></td>
-                                  <td className="mono">10 min</td>
-                                  <td className="mono">10 min (resets)</td>
-                                  <td className="mono">10 min (resets)</td>
+                                  <td className="mono">restart steps</td>
+                                  <td className="mono">relearn (resets)</td>
+                                  <td className="mono">relearn (resets)</td>
                                 </tr>
                                 <tr>
                                   <td><span className="pill">Hard</span></td>
@@ -627,6 +741,20 @@ export default function DeckList({
                             </table>
                           </div>
 
+                          {getDeckScheduler(deck) === 'fsrs' && (
+                            <div style={{ marginTop: 14 }}>
+                              <strong style={{ color: 'var(--ink)' }}>This deck uses FSRS.</strong>{' '}
+                              The table above describes SM-2. Under FSRS each card tracks a stability
+                              (days until recall falls to 90%) and a difficulty (1 to 10); the next interval
+                              is the day predicted recall reaches the deck's desired
+                              retention ({Math.round(normalizeDesiredRetention(deck.desiredRetention) * 100)}%).
+                              Again sends the card through the relearning steps.
+                              {deck.optimizedAt
+                                ? ' The model weights were fitted to your own reviews of this deck.'
+                                : ' Optimize schedule fits the model weights to your own reviews.'}
+                            </div>
+                          )}
+
                           <p style={{ marginTop: 14, color: 'var(--ink-3)', fontSize: 12 }}>
                             Intervals cap at 365 days. The 'Ease' column in the cards table below shows each card's
                             current ease factor. See the <a href="#guide" className="ulink">Guide</a> for the full SM-2 walkthrough.
@@ -667,7 +795,7 @@ export default function DeckList({
                       </button>
                       <button
                         type="button"
-                        onClick={() => setEditingDeck(deck)}
+                        onClick={() => openDeckEditor(deck)}
                         className="btn btn-ghost"
                         style={{ padding: '6px 14px', fontSize: 12 }}
                       >
@@ -675,7 +803,15 @@ export default function DeckList({
                       </button>
                       <button
                         type="button"
-                        onClick={() => handleExportDeck(deck)}
+                        onClick={() => setOptimizingDeck(deck)}
+                        className="btn btn-ghost"
+                        style={{ padding: '6px 14px', fontSize: 12 }}
+                      >
+                        Optimize schedule
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setExportingDeck(deck)}
                         className="btn btn-ghost"
                         style={{ padding: '6px 14px', fontSize: 12 }}
                       >
@@ -700,32 +836,93 @@ export default function DeckList({
                     {/* All cards */}
                     {(() => {
                       const q = cardFilter.trim().toLowerCase();
-                      const filtered = q
-                        ? agg.cardList.filter(c => {
-                            const front = (c.front ?? '').toLowerCase();
-                            const back = Array.isArray(c.back) ? c.back.join(', ').toLowerCase() : (c.back ?? '').toLowerCase();
-                            return front.includes(q) || back.includes(q);
-                          })
-                        : agg.cardList;
+                      const filtered = agg.cardList.filter(c => {
+                        if (!matchesStateFilter(c, cardStateFilter, now)) return false;
+                        if (!q) return true;
+                        const front = (c.front ?? '').toLowerCase();
+                        const back = Array.isArray(c.back) ? c.back.join(', ').toLowerCase() : (c.back ?? '').toLowerCase();
+                        return front.includes(q) || back.includes(q);
+                      });
+                      const isFiltered = q !== '' || cardStateFilter !== 'all';
+                      const selectedIds = filtered.filter(c => selectedCardIds.has(c.id)).map(c => c.id);
+                      const allSelected = filtered.length > 0 && selectedIds.length === filtered.length;
                       return (
                         <div style={{ marginTop: 30 }}>
                           <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12, flexWrap: 'wrap' }}>
                             <div className="eyebrow">
-                              All cards · {numberFmt(filtered.length)}{q ? ` of ${numberFmt(agg.cardList.length)}` : ''}
+                              All cards · {numberFmt(filtered.length)}{isFiltered ? ` of ${numberFmt(agg.cardList.length)}` : ''}
                             </div>
                             {agg.cardList.length > 0 && (
-                              <input
-                                type="text"
-                                className="input-editorial"
-                                value={cardFilter}
-                                onChange={e => setCardFilter(e.target.value)}
-                                placeholder="Filter cards..."
-                                style={{ maxWidth: 240, fontSize: 13, padding: '6px 10px' }}
-                              />
+                              <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                                <Select<CardStateFilter>
+                                  value={cardStateFilter}
+                                  onChange={setCardStateFilter}
+                                  options={[
+                                    { value: 'all', label: 'All cards' },
+                                    { value: 'active', label: 'Active', hint: 'Not suspended or buried' },
+                                    { value: 'suspended', label: 'Suspended' },
+                                    { value: 'buried', label: 'Buried', hint: 'Back tomorrow' },
+                                    { value: 'flagged', label: 'Any flag' },
+                                    ...CARD_FLAGS.map(flag => ({ value: flag, label: `${flag[0].toUpperCase()}${flag.slice(1)} flag` })),
+                                  ]}
+                                  ariaLabel="Filter cards by state"
+                                />
+                                <input
+                                  type="text"
+                                  className="input-editorial"
+                                  value={cardFilter}
+                                  onChange={e => setCardFilter(e.target.value)}
+                                  placeholder="Filter cards..."
+                                  style={{ maxWidth: 240, fontSize: 13, padding: '6px 10px' }}
+                                />
+                              </div>
                             )}
                           </div>
+                          {selectedIds.length > 0 && (
+                            <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginTop: 10, fontSize: 12 }}>
+                              <span className="mono" style={{ color: 'var(--ink-3)', marginRight: 4 }}>
+                                {numberFmt(selectedIds.length)} selected
+                              </span>
+                              <button type="button" className="btn btn-ghost" style={{ padding: '4px 12px', fontSize: 12 }}
+                                onClick={() => handleBulkAction({ type: 'suspend_card', cardIds: selectedIds, suspended: true })}>
+                                Suspend
+                              </button>
+                              <button type="button" className="btn btn-ghost" style={{ padding: '4px 12px', fontSize: 12 }}
+                                onClick={() => handleBulkAction({ type: 'suspend_card', cardIds: selectedIds, suspended: false })}>
+                                Unsuspend
+                              </button>
+                              <button type="button" className="btn btn-ghost" style={{ padding: '4px 12px', fontSize: 12 }}
+                                onClick={() => handleBulkAction({ type: 'bury_card', cardIds: selectedIds, buried: true })}>
+                                Bury
+                              </button>
+                              <button type="button" className="btn btn-ghost" style={{ padding: '4px 12px', fontSize: 12 }}
+                                onClick={() => handleBulkAction({ type: 'bury_card', cardIds: selectedIds, buried: false })}>
+                                Unbury
+                              </button>
+                              <Select<CardFlag | 'none' | ''>
+                                value=""
+                                placeholder="Flag…"
+                                onChange={v => {
+                                  if (v) handleBulkAction({ type: 'flag_card', cardIds: selectedIds, flag: v === 'none' ? null : v });
+                                }}
+                                options={[
+                                  ...CARD_FLAGS.map(flag => ({
+                                    value: flag,
+                                    label: <span style={{ color: FLAG_COLORS[flag] }}>● {flag}</span>,
+                                  })),
+                                  { value: 'none' as const, label: 'Clear flag' },
+                                ]}
+                                ariaLabel="Flag selected cards"
+                              />
+                              <button type="button" className="ulink" style={{ background: 'none', padding: 0, fontSize: 12, cursor: 'pointer' }}
+                                onClick={() => setSelectedCardIds(new Set())}>
+                                clear selection
+                              </button>
+                            </div>
+                          )}
                           <table className="dtable" style={{ marginTop: 10, tableLayout: 'fixed' }}>
                             <colgroup>
+                              <col style={{ width: 32 }} />
                               <col style={{ width: 80 }} />
                               <col />
                               <col />
@@ -735,6 +932,15 @@ export default function DeckList({
                             </colgroup>
                             <thead>
                               <tr>
+                                <th>
+                                  <input
+                                    type="checkbox"
+                                    checked={allSelected}
+                                    disabled={filtered.length === 0}
+                                    onChange={() => setSelectedCardIds(allSelected ? new Set() : new Set(filtered.map(c => c.id)))}
+                                    aria-label="Select all shown cards"
+                                  />
+                                </th>
                                 <th>Type</th>
                                 <th>Front</th>
                                 <th>Back</th>
@@ -746,7 +952,7 @@ export default function DeckList({
                             <tbody>
                               {showNewCard && (
                                 <tr>
-                                  <td colSpan={6}>
+                                  <td colSpan={7}>
                                     <CardEditor
                                       deckId={deck.id}
                                       onSave={async (card) => {
@@ -760,7 +966,7 @@ export default function DeckList({
                               )}
                               {filtered.length === 0 && !showNewCard && (
                                 <tr>
-                                  <td colSpan={6} style={{ textAlign: 'center', color: 'var(--ink-4)', padding: '24px 0' }}>
+                                  <td colSpan={7} style={{ textAlign: 'center', color: 'var(--ink-4)', padding: '24px 0' }}>
                                     {q ? `No cards match "${cardFilter}".` : 'No cards in this deck yet.'}
                                   </td>
                                 </tr>
@@ -770,7 +976,7 @@ export default function DeckList({
                             return (
                               <tr key={card.id} id={`card-row-${card.id}`}>
                                 {editingCard?.id === card.id ? (
-                                  <td colSpan={6}>
+                                  <td colSpan={7}>
                                     <CardEditor
                                       card={card}
                                       deckId={deck.id}
@@ -784,7 +990,23 @@ export default function DeckList({
                                 ) : (
                                   <>
                                     <td>
-                                      <span className="pill">{shortKind(card.kind)}</span>
+                                      <input
+                                        type="checkbox"
+                                        checked={selectedCardIds.has(card.id)}
+                                        onChange={() => toggleCardSelected(card.id)}
+                                        aria-label="Select card"
+                                      />
+                                    </td>
+                                    <td style={{ whiteSpace: 'nowrap' }}>
+                                      <span className="pill" title={card.reversed ? 'Back → front' : undefined}>
+                                        {shortKind(card.kind)}{card.reversed ? ' ⇄' : ''}
+                                      </span>
+                                      {card.flag && (
+                                        <span
+                                          title={`${card.flag} flag`}
+                                          style={{ display: 'inline-block', width: 8, height: 8, borderRadius: 999, marginLeft: 6, background: FLAG_COLORS[card.flag] }}
+                                        />
+                                      )}
                                     </td>
                                     <td style={{ maxWidth: 240, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
                                       {card.front}
@@ -793,7 +1015,7 @@ export default function DeckList({
                                       {Array.isArray(card.back) ? card.back.join(', ') : card.back}
                                     </td>
                                     <td className="mono" style={{ color: due.tone === 'now' ? 'var(--clay-deep)' : 'var(--ink-2)' }}>
-                                      {due.label}
+                                      {card.suspended ? 'susp.' : !isCardActive(card, now) ? 'buried' : due.label}
                                     </td>
                                     <td className="mono">{(card.ease ?? 2.5).toFixed(1)}</td>
                                     <td style={{ textAlign: 'right', whiteSpace: 'nowrap' }}>
@@ -972,6 +1194,22 @@ export default function DeckList({
         );
       })()}
 
+      {optimizingDeck && (
+        <OptimizeDeckDialog
+          deck={optimizingDeck}
+          onApply={async next => { await onSaveDeck(next); }}
+          onClose={() => setOptimizingDeck(null)}
+        />
+      )}
+
+      {exportingDeck && (
+        <ExportDeckDialog
+          deck={exportingDeck}
+          cards={cards.filter(c => c.deckId === exportingDeck.id)}
+          onClose={() => setExportingDeck(null)}
+        />
+      )}
+
       {/* Edit deck modal */}
       {editingDeck && (
         <div
@@ -1008,6 +1246,177 @@ export default function DeckList({
                 onChange={e => setEditingDeck({ ...editingDeck, description: e.target.value })}
                 placeholder="Description"
               />
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12, alignItems: 'end' }}>
+                <label style={{ display: 'grid', gap: 6 }}>
+                  <span className="eyebrow">Scheduler</span>
+                  <Select<SchedulerAlgorithm>
+                    value={getDeckScheduler(editingDeck)}
+                    onChange={v => setEditingDeck({ ...editingDeck, scheduler: v })}
+                    options={[
+                      { value: 'sm2', label: 'SM-2', hint: 'Classic ease-factor intervals' },
+                      { value: 'fsrs', label: 'FSRS', hint: 'Stability / difficulty memory model' },
+                    ]}
+                    width="100%"
+                    ariaLabel="Scheduler"
+                  />
+                </label>
+                {getDeckScheduler(editingDeck) === 'fsrs' && (
+                  <label style={{ display: 'grid', gap: 6 }}>
+                    <span className="eyebrow">Desired retention</span>
+                    <input
+                      type="number"
+                      className="input-editorial"
+                      min={Math.round(MIN_DESIRED_RETENTION * 100)}
+                      max={Math.round(MAX_DESIRED_RETENTION * 100)}
+                      step={1}
+                      value={Math.round((editingDeck.desiredRetention ?? DEFAULT_DESIRED_RETENTION) * 100)}
+                      onChange={e => setEditingDeck({
+                        ...editingDeck,
+                        desiredRetention: Number(e.target.value) / 100,
+                      })}
+                      aria-label="Desired retention percent"
+                    />
+                  </label>
+                )}
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+                <label style={{ display: 'grid', gap: 6 }}>
+                  <span className="eyebrow">Learning steps</span>
+                  <input
+                    type="text"
+                    className="input-editorial"
+                    value={stepsDraft.learning}
+                    onChange={e => setStepsDraft({ ...stepsDraft, learning: e.target.value })}
+                    placeholder="e.g. 1m 10m 1h"
+                  />
+                </label>
+                <label style={{ display: 'grid', gap: 6 }}>
+                  <span className="eyebrow">Relearning steps</span>
+                  <input
+                    type="text"
+                    className="input-editorial"
+                    value={stepsDraft.relearning}
+                    onChange={e => setStepsDraft({ ...stepsDraft, relearning: e.target.value })}
+                    placeholder="e.g. 10m"
+                  />
+                </label>
+              </div>
+              <div style={{ fontSize: 12, color: 'var(--ink-3)' }}>
+                New cards repeat after each learning step before graduating to daily intervals; a
+                forgotten card goes through the relearning steps. Leave empty to skip the steps.
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1.4fr', gap: 12, alignItems: 'end' }}>
+                <label style={{ display: 'grid', gap: 6 }}>
+                  <span className="eyebrow">New / day</span>
+                  <input
+                    type="number"
+                    className="input-editorial"
+                    min={0}
+                    step={1}
+                    value={limitsDraft.newCards}
+                    onChange={e => setLimitsDraft({ ...limitsDraft, newCards: e.target.value })}
+                    placeholder="No limit"
+                  />
+                </label>
+                <label style={{ display: 'grid', gap: 6 }}>
+                  <span className="eyebrow">Reviews / day</span>
+                  <input
+                    type="number"
+                    className="input-editorial"
+                    min={0}
+                    step={1}
+                    value={limitsDraft.reviews}
+                    onChange={e => setLimitsDraft({ ...limitsDraft, reviews: e.target.value })}
+                    placeholder="No limit"
+                  />
+                </label>
+                <label style={{ display: 'grid', gap: 6 }}>
+                  <span className="eyebrow">Quiz in</span>
+                  <Select<'feed' | 'study'>
+                    value={editingDeck.showInFeed === false ? 'study' : 'feed'}
+                    onChange={v => setEditingDeck({ ...editingDeck, showInFeed: v === 'feed' })}
+                    options={[
+                      { value: 'feed', label: 'Feed + Study', hint: 'Quizzes appear while scrolling' },
+                      { value: 'study', label: 'Study tab only', hint: 'Never shown in the social feed' },
+                    ]}
+                    width="100%"
+                    ariaLabel="Where this deck is quizzed"
+                  />
+                </label>
+              </div>
+              <label style={{ display: 'grid', gap: 6 }}>
+                <span className="eyebrow">Imported text cards</span>
+                <Select<'forward' | 'both'>
+                  value={editingDeck.reverseCards ? 'both' : 'forward'}
+                  onChange={v => setEditingDeck({ ...editingDeck, reverseCards: v === 'both' })}
+                  options={[
+                    { value: 'forward', label: 'Front → back only' },
+                    { value: 'both', label: 'Both directions', hint: 'Adds a back → front card with its own schedule' },
+                  ]}
+                  width="100%"
+                  ariaLabel="Card directions created on import"
+                />
+              </label>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 12, alignItems: 'end' }}>
+                <label style={{ display: 'grid', gap: 6 }}>
+                  <span className="eyebrow">Ignore articles</span>
+                  <Select<ArticleLanguage | 'off'>
+                    value={editingDeck.answerMatching?.ignoreArticles ?? 'off'}
+                    onChange={v => setEditingDeck({
+                      ...editingDeck,
+                      answerMatching: withMatching(editingDeck.answerMatching, { ignoreArticles: v === 'off' ? undefined : v }),
+                    })}
+                    options={[
+                      { value: 'off', label: 'Off' },
+                      ...ARTICLE_LANGUAGE_OPTIONS,
+                    ]}
+                    width="100%"
+                    ariaLabel="Leading articles ignored in typed answers"
+                  />
+                </label>
+                <label style={{ display: 'grid', gap: 6 }}>
+                  <span className="eyebrow">Accents</span>
+                  <Select<'strict' | 'lenient'>
+                    value={editingDeck.answerMatching?.ignoreAccents ? 'lenient' : 'strict'}
+                    onChange={v => setEditingDeck({
+                      ...editingDeck,
+                      answerMatching: withMatching(editingDeck.answerMatching, { ignoreAccents: v === 'lenient' || undefined }),
+                    })}
+                    options={[
+                      { value: 'strict', label: 'Must match' },
+                      { value: 'lenient', label: 'Close enough', hint: 'Missing accents grade Hard with a hint' },
+                    ]}
+                    width="100%"
+                    ariaLabel="How typed answers treat accents"
+                  />
+                </label>
+                <label style={{ display: 'grid', gap: 6 }}>
+                  <span className="eyebrow">Word order</span>
+                  <Select<'strict' | 'any'>
+                    value={editingDeck.answerMatching?.anyWordOrder ? 'any' : 'strict'}
+                    onChange={v => setEditingDeck({
+                      ...editingDeck,
+                      answerMatching: withMatching(editingDeck.answerMatching, { anyWordOrder: v === 'any' || undefined }),
+                    })}
+                    options={[
+                      { value: 'strict', label: 'As written' },
+                      { value: 'any', label: 'Any order', hint: 'Multi-word answers match as a set of words' },
+                    ]}
+                    width="100%"
+                    ariaLabel="Whether typed answers must keep word order"
+                  />
+                </label>
+              </div>
+              <div style={{ fontSize: 12, color: 'var(--ink-3)' }}>
+                Limits reset daily and count cards answered anywhere. Cards in their learning steps
+                are always shown.
+              </div>
+              {getDeckScheduler(editingDeck) === 'fsrs' && (
+                <div style={{ fontSize: 12, color: 'var(--ink-3)' }}>
+                  Cards come due when their predicted recall drops to this percentage. Higher means more
+                  reviews; existing progress is carried over from SM-2 when you switch.
+                </div>
+              )}
               <div style={{ display: 'flex', gap: 8 }}>
                 <button onClick={handleUpdateDeck} className="btn btn-clay" type="button">Save changes</button>
                 <button onClick={() => setEditingDeck(null)} className="btn btn-ghost" type="button">Cancel</button>
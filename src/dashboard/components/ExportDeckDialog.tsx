@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import type { Card, Deck } from '../../common/types';
+import { buildAnkiPackage, buildAnkiText } from '../../common/ankiExport';
+import { downloadBlob } from '../../common/notebookExport';
+import { getReviewsForDeck } from '../../common/reviewLog';
+import Select from './Select';
+
+interface ExportDeckDialogProps {
+  deck: Deck;
+  cards: Card[];
+  onClose: () => void;
+}
+
+type ExportFormat = 'json' | 'apkg' | 'anki-text';
+
+function fileBase(deck: Deck): string {
+  return deck.name.replace(/[^a-z0-9]/gi, '_');
+}
+
+// Export one deck: our own JSON (re-importable as-is), an Anki package, or
+// Anki's tab-separated text for an Anki that is already set up.
+export default function ExportDeckDialog({ deck, cards, onClose }: ExportDeckDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('apkg');
+  const [includeScheduling, setIncludeScheduling] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  async function runExport() {
+    setBusy(true);
+    setErrorMsg(null);
+    try {
+      if (format === 'json') {
+        const blob = new Blob([JSON.stringify({ deck, cards }, null, 2)], { type: 'application/json' });
+        downloadBlob(blob, `${fileBase(deck)}.json`);
+      } else if (format === 'anki-text') {
+        downloadBlob(new Blob([buildAnkiText(deck, cards)], { type: 'text/plain' }), `${fileBase(deck)}.txt`);
+      } else {
+        const reviews = includeScheduling ? await getReviewsForDeck(deck.id) : [];
+        downloadBlob(await buildAnkiPackage(deck, cards, { includeScheduling, reviews }), `${fileBase(deck)}.apkg`);
+      }
+      onClose();
+    } catch (error) {
+      setErrorMsg(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 50,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'rgba(31, 27, 22, 0.55)',
+        backdropFilter: 'blur(2px)',
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card-flat"
+        style={{ width: '100%', maxWidth: 460, margin: '0 16px', padding: 28 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="eyebrow" style={{ marginBottom: 14 }}>Export · {deck.name}</div>
+        <div style={{ display: 'grid', gap: 14, fontSize: 13, color: 'var(--ink-2)' }}>
+          <label style={{ display: 'grid', gap: 6 }}>
+            <span className="eyebrow">Format</span>
+            <Select<ExportFormat>
+              value={format}
+              onChange={setFormat}
+              options={[
+                { value: 'apkg', label: 'Anki package (.apkg)', hint: 'Double-click to open in Anki, desktop or mobile' },
+                { value: 'anki-text', label: 'Anki text (.txt)', hint: 'Tab-separated, for Anki’s Basic and Cloze types' },
+                { value: 'json', label: 'ScrollLearn JSON', hint: 'Everything, re-importable here' },
+              ]}
+              width="100%"
+              ariaLabel="Export format"
+            />
+          </label>
+
+          {format === 'apkg' && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6, cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={includeScheduling}
+                onChange={e => setIncludeScheduling(e.target.checked)}
+                style={{ accentColor: 'var(--clay)' }}
+              />
+              Keep due dates, intervals and review history
+            </label>
+          )}
+          <div style={{ fontSize: 12, color: 'var(--ink-3)' }}>
+            {format === 'apkg' && (includeScheduling
+              ? 'Cards continue in Anki where you left off here.'
+              : 'Cards arrive in Anki as new, ready to share.')}
+            {format === 'anki-text' && 'Cards arrive as new. Back details are appended to the back of Basic notes; audio is not included.'}
+            {format === 'json' && 'Cards keep their full scheduling state.'}
+          </div>
+
+          {errorMsg && <div style={{ color: 'var(--rose)', fontSize: 12.5 }}>{errorMsg}</div>}
+
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+            <button onClick={runExport} disabled={busy || cards.length === 0} className="btn btn-clay" type="button">
+              {busy ? 'Exporting…' : `Export ${cards.length} ${cards.length === 1 ? 'card' : 'cards'}`}
+            </button>
+            <button onClick={onClose} className="btn btn-ghost" type="button">Cancel</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -123,7 +123,7 @@ export default function Guide() {
       <Section num="01" label="The idea">
         <H>Turn idle scrolling into review time.</H>
         <P>
-          ScrollLearn injects spaced-repetition flashcards into Facebook, YouTube, and Instagram. Every few posts you scroll, a card appears. Answer it; the feed continues. Cards you struggle with come back sooner; cards you know recede.
+          ScrollLearn injects spaced-repetition flashcards into Facebook, YouTube, Instagram, X, Reddit, LinkedIn, and TikTok. Every few posts you scroll, a card appears. Answer it; the feed continues. Cards you struggle with come back sooner; cards you know recede.
         </P>
         <P>
           Outside of feeds, ScrollLearn also lets you <strong>pluck</strong> text from any allowlisted site straight into the Bookmarks tab while you read, and gives you a separate <strong>Notebooks</strong> surface for long-form, manually authored markdown notes.
@@ -134,8 +134,10 @@ export default function Guide() {
         <H>How the injection works.</H>
         <List>
           <Bullet>A card appears after every <em>N</em> posts (default 5; tunable in Settings).</Bullet>
+          <Bullet>Or pick a different <strong>Quiz trigger</strong> per site under Settings → Sites &amp; blocking: minutes of active scrolling, screens scrolled, or minutes per visit including time spent just watching (useful on TikTok and Shorts).</Bullet>
           <Bullet>After answering, you can configure a quiet pause before the next card fires.</Bullet>
           <Bullet>Per-site toggle: open the popup on a feed site to enable or pause it just for that domain.</Bullet>
+          <Bullet>Other feeds: add them under Settings → Sites &amp; blocking → <strong>Custom sites</strong> with a host and a CSS selector for posts (plus an optional attribute holding each post's id). <strong>Test on open tab</strong> outlines what the selector matches on a tab showing the site. A custom site also overrides a built-in one on the same host.</Bullet>
           <Bullet>The card pulled is whatever is most overdue in your active deck (or globally if no active deck is set).</Bullet>
         </List>
         <P>
@@ -149,17 +151,21 @@ export default function Guide() {
           <Bullet><strong>Text</strong> — free-form answer with fuzzy matching (Levenshtein / Jaro-Winkler). Wrong answers trigger retry-to-practice.</Bullet>
           <Bullet><strong>MCQ single</strong> — pick one option. Options shuffle each time the card is shown so you don't memorize positions.</Bullet>
           <Bullet><strong>MCQ multi</strong> — pick all that apply. Also shuffled.</Bullet>
-          <Bullet><strong>Cloze</strong> — fill the blank. Use <Code>{'{{answer}}'}</Code> in the prompt; wrong answers retry.</Bullet>
+          <Bullet><strong>Cloze</strong> — fill the blank. Use <Code>{'{{answer}}'}</Code> in the prompt, or <Code>{'{{answer::hint}}'}</Code> to show a hint in the blank; wrong answers retry. Imported <Code>{'{{c1::…}}'}</Code> groups become one card each.</Bullet>
           <Bullet><strong>Audio</strong> — listen, then type what you heard. Wrong answers retry.</Bullet>
         </List>
         <H>Retry-to-practice mode.</H>
         <P>
           When you miss a text/cloze/audio card, the miss is recorded for scheduling, and then the input re-opens with "Type the correct answer to continue...". Wrong attempts show an inline character-level diff (red strikethrough vs. green target). You can't move on until you type it correctly. MCQs skip retry — selecting the right option after seeing it isn't real practice.
         </P>
+        <H>How strict typed answers are.</H>
+        <P>
+          By default a typed answer has to match once case and punctuation are set aside. Under <strong>Edit deck</strong> each deck can loosen that: <strong>Ignore articles</strong> accepts "chat" for "le chat" in the chosen language, <strong>Accents: Close enough</strong> grades "cafe" for "café" as <Kbd>Hard</Kbd> with a "check the accents" hint instead of a miss, and <strong>Word order: Any order</strong> accepts "pepper and salt" for "salt and pepper". The same rules apply in the feed and in the Study tab.
+        </P>
       </Section>
 
       <Section num="04" label="Importing">
-        <H>Three formats: Simple, CSV, JSON.</H>
+        <H>Four formats: Simple, CSV, JSON, Markdown.</H>
         <P>
           Open the Import tab, paste, choose a deck (or create one), preview, import. Batches of 100 cards at a time. Use the <strong>Prompt Generator</strong> to draft a Claude/ChatGPT/Gemini prompt that emits cards in the format you want.
         </P>
@@ -171,6 +177,14 @@ Capital of France? | Paris`}</Pre>
         <P>Headers: <Code>type</Code>, <Code>question</Code>, <Code>answer</Code>, <Code>options</Code> (for MCQ, semicolon-delimited), <Code>tags</Code>.</P>
         <H>JSON</H>
         <P>Array of card objects. The exporter (Decks tab) emits this format too — round-trip safe.</P>
+        <H>Markdown</H>
+        <P>
+          Obsidian-style flashcards: <Code>Question::Answer</Code> per line (<Code>:::</Code> for both directions), or question lines, a lone <Code>?</Code>, then answer lines. <Code>==highlights==</Code> and <Code>{'{{blanks}}'}</Code> make cloze cards. Headings name the deck and <Code>#tags</Code> tag the cards.
+        </P>
+        <H>Anki</H>
+        <P>
+          Upload an <Code>.apkg</Code> to bring an Anki deck in, progress included. The other way, <strong>Export</strong> on a deck writes an Anki package (optionally with due dates, intervals and review history) or Anki's tab-separated text.
+        </P>
       </Section>
 
       <Section num="05" label="Studying & the scheduler">
@@ -182,6 +196,11 @@ Capital of France? | Paris`}</Pre>
           Failed cards (Again) reschedule to <strong>10 minutes</strong>, not the next day — they come back inside the same session so you actually re-encounter them.
         </P>
 
+        <H>Learning steps</H>
+        <P>
+          Before a new card earns day-based intervals it goes through short learning steps (default <strong>1 minute</strong>, then <strong>10 minutes</strong>). <Kbd>Again</Kbd> restarts the steps, <Kbd>Hard</Kbd> repeats the current one, <Kbd>Good</Kbd> moves to the next, and <Kbd>Easy</Kbd> graduates immediately. A forgotten card goes through the relearning steps (default 10 minutes) the same way. Cards mid-step are always shown before other due cards. Both lists are set per deck under <strong>Edit deck</strong>; the intervals below apply once a card graduates.
+        </P>
+
         <H>How long until a card returns?</H>
         <P>
           The next due date depends on the grade you give and how many times you've already passed the card. Here's the schedule the scheduler runs.
@@ -218,6 +237,11 @@ Again: card resets, returns in 10 minutes`}</Pre>
           Concretely: if you grade a brand-new card <Kbd>Good</Kbd> every time, you'll see it again in 1 day, then 6 days, then ~2 weeks, ~1 month, ~2.5 months, ~6 months, then capped at 1 year. Grading <Kbd>Easy</Kbd> every time stretches that curve out about 2-3x faster.
         </P>
 
+        <H>FSRS, per deck</H>
+        <P>
+          Under <strong>Edit deck</strong> you can switch a deck to FSRS. Instead of an ease factor it tracks each card's stability and difficulty, and schedules the next review for the day your predicted recall falls to the deck's desired retention (90% by default). Existing SM-2 progress carries over when you switch.
+        </P>
+
         <H>Where to study</H>
         <List>
           <Bullet>Click <strong>Begin study</strong> in the dashboard, or <strong>Study now</strong> in the popup, for a focused session.</Bullet>
@@ -264,6 +288,10 @@ Again: card resets, returns in 10 minutes`}</Pre>
           <Bullet>The AI panel ("AI" toggle next to Edit/Preview) reuses the same Gemini plumbing as Explain/Ask: <strong>Summarize</strong>, free-form <strong>Ask</strong>, and <strong>Generate quiz</strong> (which routes a CSV deck into the Import tab).</Bullet>
           <Bullet>Five starter templates from the new-notebook picker: Blank, Daily learning log, Concept note, Book/article note, Lecture/talk note.</Bullet>
         </List>
+        <H>Cards from your notes.</H>
+        <P>
+          Pick a deck in a notebook's <strong>cards</strong> property and its <Code>term :: definition</Code> lines and <Code>{'{{cloze}}'}</Code> paragraphs become cards in that deck, re-synced on every save. A card follows its line: fix a typo or rewrite the definition and the card updates without losing its schedule; delete the line and the card is set aside with its schedule, ready to come back if you retype it, until you remove it from the <strong>cards</strong> row. Highlights (<Code>==text==</Code>) are left alone here.
+        </P>
         <P>
           Bodies and image blobs live in IndexedDB so very long notes don't swamp <Code>chrome.storage</Code>; only the metadata (title, tags, folderPath, properties, timestamps) is mirrored to <Code>chrome.storage.local</Code>, which is what powers the live-sync between the dashboard and the side panel.
         </P>
@@ -278,6 +306,9 @@ Again: card resets, returns in 10 minutes`}</Pre>
           <Bullet><strong>Facebook</strong> — Reels, Sponsored, Suggested, Strangers' posts.</Bullet>
           <Bullet><strong>Instagram</strong> — Reels, Sponsored, Suggested, Strangers.</Bullet>
           <Bullet><strong>YouTube</strong> — Shorts.</Bullet>
+          <Bullet><strong>X</strong> and <strong>Reddit</strong> — Promoted.</Bullet>
+          <Bullet><strong>LinkedIn</strong> — Promoted, the short-video shelf.</Bullet>
+          <Bullet><strong>TikTok</strong> — Sponsored.</Bullet>
         </List>
         <P>
           The popup tracks how many of each were hidden in the current tab. Hover the running total for a per-category breakdown.
@@ -288,6 +319,8 @@ Again: card resets, returns in 10 minutes`}</Pre>
         <H>What you can tune.</H>
         <List>
           <Bullet><strong>Show after N posts</strong> — frequency of feed quizzes.</Bullet>
+          <Bullet><strong>Adaptive frequency</strong> — let the backlog set the pace: more quizzes while cards pile up against your <strong>daily goal</strong>, fewer once it's met or you're acing them.</Bullet>
+          <Bullet><strong>Earn your scroll</strong> — each site gives you a few screens of scrolling per correct answers; when they run out the feed blurs until you answer another card. Reaching the daily goal frees the feed for the day.</Bullet>
           <Bullet><strong>Pause after quiz</strong> — minutes of quiet between cards.</Bullet>
           <Bullet><strong>Active deck</strong> — restrict cards to one deck, or leave on auto-select.</Bullet>
           <Bullet><strong>Note allowlist</strong> — which sites pluck mode is armed on.</Bullet>
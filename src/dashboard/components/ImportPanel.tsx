@@ -1,6 +1,7 @@
-import { Fragment, useState, useRef, useEffect, useCallback } from 'react';
-import type { Deck, Card, ParsedCard, Response } from '../../common/types';
-import { parseSimpleFormat, parseCSV, parseJSON } from '../../common/parser';
+import { Fragment, useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import type { Deck, Card, ImportDuplicateAction, ImportSummary, ParsedCard, Response } from '../../common/types';
+import { matchImportedCards, toImportCards, withReverseCards, parseSimpleFormat, parseCSV, parseJSON, parseMarkdown, type ImportMatchStatus } from '../../common/parser';
+import { parseAnkiPackage } from '../../common/ankiImport';
 import EditorialHeader from './EditorialHeader';
 import GeminiProgressBanner from './GeminiProgressBanner';
 import PromptGenerator from './PromptGenerator';
@@ -8,7 +9,7 @@ import RenderBackExtra from './study/RenderBackExtra';
 import { useGeminiAutomation } from '../hooks/useGeminiAutomation';
 import { uniqueDeckName } from '../utils/deckNames';
 
-type ImportFormat = 'simple' | 'csv' | 'json';
+type ImportFormat = 'simple' | 'csv' | 'json' | 'markdown';
 
 export interface PendingImport {
   content: string;
@@ -18,7 +19,8 @@ export interface PendingImport {
 
 interface ImportPanelProps {
   decks: Deck[];
-  onImport: (cards: Card[], deckId: string) => Promise<Response<{ inserted: number }>>;
+  cards: Card[];
+  onImport: (cards: Card[], deckId: string, reverse?: boolean, onDuplicate?: ImportDuplicateAction) => Promise<Response<ImportSummary>>;
   onCreateDeck: (deck: Omit<Deck, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Response<Deck>>;
   pendingImport?: PendingImport | null;
   onPendingImportConsumed?: () => void;
@@ -30,6 +32,7 @@ const FORMAT_TABS: { value: ImportFormat; label: string }[] = [
   { value: 'simple', label: 'Simple' },
   { value: 'csv', label: 'CSV' },
   { value: 'json', label: 'JSON' },
+  { value: 'markdown', label: 'Markdown' },
 ];
 
 const PLACEHOLDERS: Record<ImportFormat, string> = {
@@ -48,6 +51,23 @@ Math,mcq-single,3+3?,6,6|7|8|9,0,arithmetic`,
   { "front": "What is 2+2?", "back": "4", "kind": "text" },
   { "front": "3+3?", "back": "6", "kind": "mcq-single", "options": ["6","7","8","9"], "correct": 0 }
 ]`,
+  markdown:
+`# Spanish
+#verbs
+ser::to be
+gato:::cat
+
+What does "estar" describe?
+?
+Temporary states and location
+
+Yo ==soy== de Madrid.`,
+};
+
+const MATCH_PILL: Record<ImportMatchStatus, { label: string; className: string; title: string }> = {
+  new: { label: 'new', className: 'pill pill-moss', title: 'Not in the target deck yet' },
+  changed: { label: 'changed', className: 'pill pill-gold', title: 'Already in the deck with different content' },
+  duplicate: { label: 'dup', className: 'pill', title: 'Already in the deck, identical' },
 };
 
 function shortKind(kind: ParsedCard['kind']): string {
@@ -60,7 +80,15 @@ function shortKind(kind: ParsedCard['kind']): string {
   }
 }
 
-export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImport, onPendingImportConsumed }: ImportPanelProps) {
+function importSummaryText(summary?: ImportSummary): string {
+  if (!summary) return 'Import complete';
+  const parts = [`Imported ${numberFmt(summary.inserted)} ${summary.inserted === 1 ? 'card' : 'cards'}`];
+  if (summary.updated > 0) parts.push(`updated ${numberFmt(summary.updated)}`);
+  if (summary.skipped > 0) parts.push(`skipped ${numberFmt(summary.skipped)}`);
+  return parts.join(' · ');
+}
+
+export default function ImportPanel({ decks, cards, onImport, onCreateDeck, pendingImport, onPendingImportConsumed }: ImportPanelProps) {
   const [format, setFormat] = useState<ImportFormat>('csv');
   const [content, setContent] = useState('');
   const [separator, setSeparator] = useState('|');
@@ -70,10 +98,16 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
   const [parsedCards, setParsedCards] = useState<ParsedCard[]>([]);
   const [errors, setErrors] = useState<Array<{ line: number; message: string; raw: string }>>([]);
   const [importing, setImporting] = useState(false);
-  const [importResult, setImportResult] = useState<{ success: boolean; count: number } | null>(null);
+  const [importResult, setImportResult] = useState<{ success: boolean; summary?: ImportSummary } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [showAllCards, setShowAllCards] = useState(false);
+  // null follows the target deck's "reverse cards" option.
+  const [reverseOverride, setReverseOverride] = useState<boolean | null>(null);
   const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+  const [onDuplicate, setOnDuplicate] = useState<ImportDuplicateAction>('update');
+  // File name of a loaded Anki package; its cards bypass the text parsers.
+  const [ankiSource, setAnkiSource] = useState<string | null>(null);
+  const [keepAnkiProgress, setKeepAnkiProgress] = useState(true);
 
   const [showPromptGenerator, setShowPromptGenerator] = useState(false);
 
@@ -94,6 +128,7 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
       case 'simple': result = parseSimpleFormat(payload.content, separator); break;
       case 'csv':    result = parseCSV(payload.content); break;
       case 'json':   result = parseJSON(payload.content); break;
+      case 'markdown': result = parseMarkdown(payload.content); break;
     }
     setParsedCards(result.cards);
     setErrors(result.errors);
@@ -140,23 +175,54 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
       case 'simple': result = parseSimpleFormat(content, separator); break;
       case 'csv':    result = parseCSV(content); break;
       case 'json':   result = parseJSON(content); break;
+      case 'markdown': result = parseMarkdown(content); break;
     }
     setParsedCards(result.cards);
     setErrors(result.errors);
     setImportResult(null);
     setShowAllCards(false);
     setExpandedIndex(null);
+    setAnkiSource(null);
+    const deckName = result.cards.find(c => c.deckName)?.deckName;
+    if (deckName && createNewDeck && !newDeckName.trim()) setNewDeckName(deckName);
+  }
+
+  async function loadAnkiPackage(file: File) {
+    setImportResult(null);
+    setShowAllCards(false);
+    setExpandedIndex(null);
+    setContent('');
+    try {
+      const result = await parseAnkiPackage(new Uint8Array(await file.arrayBuffer()));
+      setParsedCards(result.cards);
+      setErrors(result.errors);
+      setAnkiSource(file.name);
+      const deckName = result.cards.find(c => c.deckName)?.deckName;
+      if (createNewDeck && !newDeckName.trim()) {
+        setNewDeckName(deckName ?? file.name.replace(/\.(apkg|colpkg)$/i, ''));
+      }
+    } catch (error) {
+      setParsedCards([]);
+      setErrors([{ line: 0, message: error instanceof Error ? error.message : String(error), raw: file.name }]);
+      setAnkiSource(null);
+    }
   }
 
   function handleFileUpload(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     if (!file) return;
+    e.target.value = '';
+    if (/\.(apkg|colpkg)$/i.test(file.name)) {
+      void loadAnkiPackage(file);
+      return;
+    }
     const reader = new FileReader();
     reader.onload = (event) => {
       const text = event.target?.result as string;
       setContent(text);
       if (file.name.endsWith('.json')) setFormat('json');
       else if (file.name.endsWith('.csv')) setFormat('csv');
+      else if (/\.(md|markdown)$/i.test(file.name)) setFormat('markdown');
     };
     reader.readAsText(file);
   }
@@ -173,28 +239,18 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
         else throw new Error('Failed to create deck');
       }
       if (!targetDeckId) throw new Error('No deck selected');
-      const cardsToImport = parsedCards.map(pc => ({
-        deckId: targetDeckId,
-        kind: pc.kind,
-        front: pc.front,
-        back: pc.back,
-        backExtra: pc.backExtra,
-        options: pc.options,
-        correct: pc.correct,
-        canonicalAnswers: pc.canonicalAnswers,
-        mediaUrl: pc.mediaUrl,
-        tags: pc.tags,
-      })) as unknown as Card[];
-      const result = await onImport(cardsToImport, targetDeckId);
+      const cardsToImport = toImportCards(parsedCards, targetDeckId, keepAnkiProgress) as unknown as Card[];
+      const result = await onImport(cardsToImport, targetDeckId, generateReverse, onDuplicate);
       if (result.ok) {
-        setImportResult({ success: true, count: result.data?.inserted || parsedCards.length });
+        setImportResult({ success: true, summary: result.data });
         setParsedCards([]);
         setContent('');
+        setAnkiSource(null);
       } else {
         throw new Error('Import failed');
       }
     } catch (error) {
-      setImportResult({ success: false, count: 0 });
+      setImportResult({ success: false });
       console.error('Import error:', error);
     } finally {
       setImporting(false);
@@ -202,6 +258,7 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
   }
 
   function clearAll() {
+    setAnkiSource(null);
     setContent('');
     setParsedCards([]);
     setErrors([]);
@@ -212,7 +269,30 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
 
   const lineCount = content.split('\n').filter(l => l.trim()).length;
   const previewCards = showAllCards ? parsedCards : parsedCards.slice(0, 5);
-  const importDisabled = importing || parsedCards.length === 0 || (createNewDeck ? !newDeckName.trim() : !selectedDeck);
+  const targetDeck = createNewDeck ? undefined : decks.find(d => d.id === selectedDeck);
+  const generateReverse = reverseOverride ?? !!targetDeck?.reverseCards;
+  // Match against the target deck so the preview can tell new cards from
+  // ones a previous import already brought in. A new deck has nothing to match.
+  const targetDeckId = targetDeck?.id;
+  const { reverseCount, matchCounts, rowStatuses } = useMemo(() => {
+    const withReverse = withReverseCards(parsedCards);
+    const deckCards = targetDeckId ? cards.filter(c => c.deckId === targetDeckId) : [];
+    const counts: Record<ImportMatchStatus, number> = { new: 0, changed: 0, duplicate: 0 };
+    const reversing = reverseOverride ?? !!targetDeck?.reverseCards;
+    for (const m of matchImportedCards(reversing ? withReverse : parsedCards, deckCards)) counts[m.status]++;
+    return {
+      reverseCount: withReverse.length - parsedCards.length,
+      matchCounts: counts,
+      rowStatuses: matchImportedCards(parsedCards, deckCards).map(m => m.status),
+    };
+  }, [parsedCards, cards, targetDeckId, reverseOverride, targetDeck]);
+  const extraCount = generateReverse ? reverseCount : 0;
+  const matchedCount = matchCounts.changed + matchCounts.duplicate;
+  const totalToImport = onDuplicate === 'new' ? parsedCards.length + extraCount : matchCounts.new;
+  const totalToUpdate = onDuplicate === 'update' ? matchCounts.changed : 0;
+  const importDisabled = importing || parsedCards.length === 0 || totalToImport + totalToUpdate === 0
+    || (createNewDeck ? !newDeckName.trim() : !selectedDeck);
+  const withProgressCount = parsedCards.filter(c => c.imported).length;
   const missingBackExtraCount = parsedCards.filter(c => !c.backExtra || !c.backExtra.trim()).length;
 
   return (
@@ -222,10 +302,10 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
         title={
           <>
             Bring in cards from{' '}
-            <span style={{ fontStyle: 'italic', color: 'var(--clay)' }}>plaintext</span>, CSV, or JSON.
+            <span style={{ fontStyle: 'italic', color: 'var(--clay)' }}>plaintext</span>, CSV, JSON, or Markdown.
           </>
         }
-        sub="Three formats, one preview. Paste below, choose a target deck, and inspect before committing."
+        sub="Four formats plus Anki packages, one preview. Paste below or upload a file, choose a target deck, and inspect before committing."
         action={
           <button
             type="button"
@@ -324,7 +404,7 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
               }}
             >
               <span className="mono" style={{ fontSize: 11, color: 'var(--ink-3)', letterSpacing: '.06em', textTransform: 'uppercase' }}>
-                {numberFmt(lineCount)} {lineCount === 1 ? 'line' : 'lines'}
+                {ankiSource ?? `${numberFmt(lineCount)} ${lineCount === 1 ? 'line' : 'lines'}`}
                 {parsedCards.length > 0 && ` · ${numberFmt(parsedCards.length)} ${parsedCards.length === 1 ? 'card' : 'cards'} parsed`}
               </span>
               <div style={{ display: 'flex', gap: 8 }}>
@@ -332,7 +412,7 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
                   type="file"
                   ref={fileInputRef}
                   onChange={handleFileUpload}
-                  accept=".txt,.csv,.json"
+                  accept=".txt,.csv,.json,.md,.markdown,.apkg,.colpkg"
                   style={{ display: 'none' }}
                 />
                 <button
@@ -343,7 +423,7 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
                 >
                   Upload file
                 </button>
-                {content && (
+                {(content || ankiSource) && (
                   <button
                     type="button"
                     onClick={clearAll}
@@ -431,6 +511,51 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
                 </select>
               )}
             </div>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 12, fontSize: 13, color: 'var(--ink-2)', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={generateReverse}
+                onChange={e => setReverseOverride(e.target.checked)}
+                style={{ accentColor: 'var(--clay)' }}
+              />
+              Also create back → front cards
+              {parsedCards.length > 0 && (
+                <span className="mono" style={{ fontSize: 11.5, color: 'var(--ink-3)' }}>
+                  {reverseCount === 0 ? 'no text cards to reverse' : `+${numberFmt(reverseCount)} ${reverseCount === 1 ? 'card' : 'cards'}`}
+                </span>
+              )}
+            </label>
+            {ankiSource && withProgressCount > 0 && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 12, fontSize: 13, color: 'var(--ink-2)', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={keepAnkiProgress}
+                  onChange={e => setKeepAnkiProgress(e.target.checked)}
+                  style={{ accentColor: 'var(--clay)' }}
+                />
+                Keep Anki intervals and review history
+                <span className="mono" style={{ fontSize: 11.5, color: 'var(--ink-3)' }}>
+                  {numberFmt(withProgressCount)} {withProgressCount === 1 ? 'card' : 'cards'} with progress
+                </span>
+              </label>
+            )}
+            {matchedCount > 0 && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginTop: 12, fontSize: 13, color: 'var(--ink-2)', flexWrap: 'wrap' }}>
+                <span>
+                  {numberFmt(matchedCount)} {matchedCount === 1 ? 'card is' : 'cards are'} already in this deck
+                </span>
+                <select
+                  className="input-editorial"
+                  value={onDuplicate}
+                  onChange={e => setOnDuplicate(e.target.value as ImportDuplicateAction)}
+                  style={{ width: 'auto' }}
+                >
+                  <option value="update">Update content, keep scheduling</option>
+                  <option value="skip">Skip them</option>
+                  <option value="new">Import as new cards</option>
+                </select>
+              </div>
+            )}
           </div>
 
           {/* backExtra coverage warning (gold) — flags rows the AI left empty */}
@@ -486,7 +611,7 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
               {importing
                 ? 'Importing…'
                 : parsedCards.length > 0
-                  ? `Import ${numberFmt(parsedCards.length)} ${parsedCards.length === 1 ? 'card' : 'cards'} →`
+                  ? `Import ${numberFmt(totalToImport)} ${totalToImport === 1 ? 'card' : 'cards'}${totalToUpdate > 0 ? ` · update ${numberFmt(totalToUpdate)}` : ''} →`
                   : 'Import →'}
             </button>
             {parsedCards.length > 0 && (
@@ -508,7 +633,7 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
               }}
             >
               <div className="eyebrow" style={{ color: importResult.success ? '#4F5B40' : '#8A4A42' }}>
-                {importResult.success ? `Imported ${numberFmt(importResult.count)} cards` : 'Import failed'}
+                {importResult.success ? importSummaryText(importResult.summary) : 'Import failed'}
               </div>
             </div>
           )}
@@ -540,6 +665,8 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
       <div style={{ marginTop: 36 }}>
         <div className="eyebrow">
           C · Preview {parsedCards.length > 0 && `· ${numberFmt(parsedCards.length)} ${parsedCards.length === 1 ? 'card' : 'cards'}`}
+          {extraCount > 0 && ` + ${numberFmt(extraCount)} back → front`}
+          {matchedCount > 0 && ` · ${numberFmt(matchCounts.new)} new · ${numberFmt(matchCounts.changed)} changed · ${numberFmt(matchCounts.duplicate)} duplicate`}
         </div>
 
         {parsedCards.length === 0 ? (
@@ -560,6 +687,7 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
             <table className="dtable" style={{ width: '100%', tableLayout: 'fixed' }}>
               <colgroup>
                 <col style={{ width: 36 }} />
+                <col style={{ width: 90 }} />
                 <col style={{ width: 70 }} />
                 <col style={{ width: 130 }} />
                 <col />
@@ -573,6 +701,7 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
               <thead>
                 <tr>
                   <th>#</th>
+                  <th>Match</th>
                   <th>Type</th>
                   <th>Deck</th>
                   <th>Front</th>
@@ -596,6 +725,7 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
                   const hasExtra = !!(card.backExtra && card.backExtra.trim());
                   const extraChars = hasExtra ? card.backExtra!.length : 0;
                   const isExpanded = expandedIndex === i;
+                  const match = MATCH_PILL[rowStatuses[i] ?? 'new'];
                   const cellEllipsis: React.CSSProperties = {
                     overflow: 'hidden',
                     textOverflow: 'ellipsis',
@@ -610,6 +740,7 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
                         <td className="mono" style={{ color: 'var(--ink-4)' }}>
                           {String(i + 1).padStart(2, '0')}
                         </td>
+                        <td><span className={match.className} style={{ fontSize: 10 }} title={match.title}>{match.label}</span></td>
                         <td><span className="pill">{shortKind(card.kind)}</span></td>
                         <td className="mono" style={{ ...cellEllipsis, fontSize: 11, color: 'var(--ink-3)' }} title={deckText}>
                           {deckText}
@@ -644,7 +775,7 @@ export default function ImportPanel({ decks, onImport, onCreateDeck, pendingImpo
                       </tr>
                       {isExpanded && (
                         <tr>
-                          <td colSpan={10} style={{ padding: 0, background: 'var(--paper-2)' }}>
+                          <td colSpan={11} style={{ padding: 0, background: 'var(--paper-2)' }}>
                             <div style={{ padding: '18px 22px', display: 'grid', gridTemplateColumns: '120px 1fr', gap: '12px 16px', fontSize: 13 }}>
                               <div className="eyebrow" style={{ alignSelf: 'start', paddingTop: 2 }}>Front</div>
                               <div className="serif" style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word', color: 'var(--ink)' }}>
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import type { Deck, OptimizerResult, Response } from '../../common/types';
+
+interface OptimizeDeckDialogProps {
+  deck: Deck;
+  onApply: (deck: Deck) => Promise<void>;
+  onClose: () => void;
+}
+
+type State = 'idle' | 'running' | 'done' | 'error';
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+// "Optimize my schedule": fits FSRS weights to the deck's review log in the
+// background worker, shows how well the current and fitted weights predict
+// the user's actual recall, and saves the fitted weights on Apply.
+export default function OptimizeDeckDialog({ deck, onApply, onClose }: OptimizeDeckDialogProps) {
+  const [state, setState] = useState<State>('idle');
+  const [result, setResult] = useState<OptimizerResult | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const isFsrs = deck.scheduler === 'fsrs';
+
+  async function run() {
+    setState('running');
+    setErrorMsg(null);
+    const res: Response<OptimizerResult> = await chrome.runtime.sendMessage({ type: 'optimize_deck', deckId: deck.id });
+    if (res?.ok && res.data) {
+      setResult(res.data);
+      setState('done');
+    } else {
+      setErrorMsg((res && !res.ok && res.error) || 'Optimization failed');
+      setState('error');
+    }
+  }
+
+  async function apply() {
+    if (!result) return;
+    await onApply({ ...deck, scheduler: 'fsrs', fsrsWeights: result.weights, optimizedAt: Date.now() });
+    onClose();
+  }
+
+  async function resetToDefaults() {
+    await onApply({ ...deck, fsrsWeights: undefined, optimizedAt: undefined });
+    onClose();
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 50,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'rgba(31, 27, 22, 0.55)',
+        backdropFilter: 'blur(2px)',
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card-flat"
+        style={{ width: '100%', maxWidth: 500, margin: '0 16px', padding: 28 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="eyebrow" style={{ marginBottom: 14 }}>Optimize schedule · {deck.name}</div>
+        <div style={{ display: 'grid', gap: 14, fontSize: 13, color: 'var(--ink-2)' }}>
+          <p style={{ margin: 0 }}>
+            Fits the FSRS memory model to your own review history for this deck, entirely on this
+            device. A good fit predicts how often you actually remember a card when it comes due.
+          </p>
+          {deck.optimizedAt && (
+            <p style={{ margin: 0, color: 'var(--ink-3)', fontSize: 12 }}>
+              Currently using weights fitted {new Date(deck.optimizedAt).toLocaleDateString()}.
+            </p>
+          )}
+
+          {state === 'error' && errorMsg && (
+            <div style={{ color: 'var(--rose)', fontSize: 12.5 }}>{errorMsg}</div>
+          )}
+
+          {result && (
+            <table className="dtable" style={{ fontSize: 12 }}>
+              <thead>
+                <tr>
+                  <th />
+                  <th>Predicted recall</th>
+                  <th>Actual recall</th>
+                  <th>Log loss</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td>{deck.fsrsWeights ? 'Current fit' : 'Defaults'}</td>
+                  <td className="mono">{pct(result.before.predicted)}</td>
+                  <td className="mono">{pct(result.before.actual)}</td>
+                  <td className="mono">{result.before.logLoss.toFixed(4)}</td>
+                </tr>
+                <tr>
+                  <td>Optimized</td>
+                  <td className="mono">{pct(result.after.predicted)}</td>
+                  <td className="mono">{pct(result.after.actual)}</td>
+                  <td className="mono">{result.after.logLoss.toFixed(4)}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+          {result && (
+            <div style={{ fontSize: 12, color: 'var(--ink-3)' }}>
+              Scored on {result.reviewCount.toLocaleString()} repeat reviews. Lower log loss is a better fit.
+              {!isFsrs && ' Applying switches this deck from SM-2 to FSRS; card progress carries over.'}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+            {state !== 'done' && (
+              <button onClick={run} disabled={state === 'running'} className="btn btn-clay" type="button">
+                {state === 'running' ? 'Optimizing…' : 'Run optimizer'}
+              </button>
+            )}
+            {state === 'done' && (
+              <button onClick={apply} className="btn btn-clay" type="button">
+                {isFsrs ? 'Apply weights' : 'Apply and switch to FSRS'}
+              </button>
+            )}
+            {deck.fsrsWeights && (
+              <button onClick={resetToDefaults} className="btn btn-ghost" type="button">Reset to defaults</button>
+            )}
+            <button onClick={onClose} className="btn btn-ghost" type="button">Close</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
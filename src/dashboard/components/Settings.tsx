@@ -7,14 +7,22 @@ import type {
   GeminiModelChoice,
   GeminiAutoStrategy,
   KeywordGroup,
+  QuizTrigger,
+  ScrollBudget,
 } from '../../common/types';
 import { DEFAULT_SETTINGS, GEMINI_API_MODELS, STORAGE_KEYS } from '../../common/types';
-import { newKeywordGroupId } from '../../common/storage';
+import { TRIGGER_DEFAULTS } from '../../content/quizTrigger';
+import { DEFAULT_SCROLL_BUDGET } from '../../common/earnScroll';
+import { clearAllData, newKeywordGroupId } from '../../common/storage';
 import { MODEL_QUOTAS, getUsage, type GeminiApiUsage } from '../../common/gemini/quota';
 import { parseRegexEntry, validateAllowlistEntry } from '../../common/allowlist';
 import EditorialHeader from './EditorialHeader';
 import SettingsKeywordSuggest from './SettingsKeywordSuggest';
 import SettingsKeywordAutoGroup from './SettingsKeywordAutoGroup';
+import SettingsBackup from './SettingsBackup';
+import SettingsSnapshots from './SettingsSnapshots';
+import SettingsCustomSites from './SettingsCustomSites';
+import Select from './Select';
 import { useConfirm } from '../hooks/useConfirm';
 
 interface SettingsProps {
@@ -34,6 +42,42 @@ function normalizeAllowlistInput(raw: string): string {
   return host;
 }
 
+// Quiz trigger presets, encoded as "mode:every" for the select. "posts"
+// follows the global "show after N posts" setting.
+const TRIGGER_PRESETS = [
+  'time:2', 'time:5', 'time:10',
+  'scroll:10', 'scroll:25', 'scroll:50',
+  'dwell:5', 'dwell:15', 'dwell:30',
+];
+
+function triggerValue(trigger: QuizTrigger | undefined): string {
+  if (!trigger || trigger.mode === 'posts') return 'posts';
+  return `${trigger.mode}:${trigger.every ?? TRIGGER_DEFAULTS[trigger.mode]}`;
+}
+
+function triggerLabel(value: string, showAfterNPosts: number): string {
+  const [mode, every] = value.split(':');
+  switch (mode) {
+    case 'time': return `Every ${every} min active`;
+    case 'scroll': return `Every ${every} screens`;
+    case 'dwell': return `After ${every} min per visit`;
+    default: return `Every ${showAfterNPosts} posts`;
+  }
+}
+
+// Earn-your-scroll budgets, encoded as "screens:perCorrect"
+const SCROLL_BUDGET_PRESETS = ['5:1', '10:1', '10:2', '20:2', '30:3'];
+
+function scrollBudgetValue(budget: ScrollBudget | undefined): string {
+  const { screens, perCorrect } = budget ?? DEFAULT_SCROLL_BUDGET;
+  return `${screens}:${perCorrect}`;
+}
+
+function scrollBudgetLabel(value: string): string {
+  const [screens, perCorrect] = value.split(':');
+  return `${screens} screens / ${perCorrect === '1' ? 'correct' : `${perCorrect} correct`}`;
+}
+
 const KEYWORD_PRESETS: { label: string; keywords: string[] }[] = [
   { label: 'War & conflict',  keywords: ['war', 'conflict', 'attack', 'missile', 'bomb', 'military', 'troops'] },
   { label: 'Politics',        keywords: ['election', 'congress', 'senate', 'president', 'democrat', 'republican'] },
@@ -46,6 +90,10 @@ const SUPPORTED_DOMAINS = [
   { domain: 'facebook.com',  label: 'facebook.com',  reels: 'hideFacebookReels',  sponsored: 'hideFacebookSponsored',  suggested: 'hideFacebookSuggested',  strangers: 'hideFacebookStrangers',  hides: 'Reels · Sponsored · Suggested · Strangers' },
   { domain: 'instagram.com', label: 'instagram.com', reels: 'hideInstagramReels', sponsored: 'hideInstagramSponsored', suggested: 'hideInstagramSuggested', strangers: 'hideInstagramStrangers', hides: 'Reels · Sponsored · Suggested · Strangers' },
   { domain: 'youtube.com',   label: 'youtube.com',   reels: 'hideYouTubeShorts',  sponsored: null,                     suggested: null,                     strangers: null,                     hides: 'Shorts only' },
+  { domain: 'x.com',         label: 'x.com',         reels: null,                 sponsored: 'hideXPromoted',          suggested: null,                     strangers: null,                     hides: 'Promoted only' },
+  { domain: 'reddit.com',    label: 'reddit.com',    reels: null,                 sponsored: 'hideRedditPromoted',     suggested: null,                     strangers: null,                     hides: 'Promoted only' },
+  { domain: 'linkedin.com',  label: 'linkedin.com',  reels: 'hideLinkedInVideos', sponsored: 'hideLinkedInPromoted',   suggested: null,                     strangers: null,                     hides: 'Videos · Promoted' },
+  { domain: 'tiktok.com',    label: 'tiktok.com',    reels: null,                 sponsored: 'hideTikTokSponsored',    suggested: null,                     strangers: null,                     hides: 'Sponsored only' },
 ] as const;
 
 /* ----- Atoms ----- */
@@ -826,6 +874,44 @@ export default function Settings({ settings, onSave }: SettingsProps) {
     });
   }
 
+  function setDomainTrigger(domain: string, value: string) {
+    const [mode, every] = value.split(':');
+    const trigger: QuizTrigger | undefined = mode === 'posts'
+      ? undefined
+      : { mode: mode as QuizTrigger['mode'], every: Number(every) };
+    setLocalSettings({
+      ...localSettings,
+      domainSettings: {
+        ...localSettings.domainSettings,
+        [domain]: { ...localSettings.domainSettings[domain], enabled: isDomainEnabled(domain), trigger },
+      },
+    });
+  }
+
+  function setDomainScrollBudget(domain: string, value: string) {
+    const [screens, perCorrect] = value.split(':').map(Number);
+    setLocalSettings({
+      ...localSettings,
+      domainSettings: {
+        ...localSettings.domainSettings,
+        [domain]: { ...localSettings.domainSettings[domain], enabled: isDomainEnabled(domain), scrollBudget: { screens, perCorrect } },
+      },
+    });
+  }
+
+  function scrollBudgetOptions(domain: string) {
+    const current = scrollBudgetValue(localSettings.domainSettings[domain]?.scrollBudget);
+    const values = SCROLL_BUDGET_PRESETS.includes(current) ? SCROLL_BUDGET_PRESETS : [...SCROLL_BUDGET_PRESETS, current];
+    return values.map(value => ({ value, label: scrollBudgetLabel(value) }));
+  }
+
+  function triggerOptions(domain: string) {
+    const current = triggerValue(localSettings.domainSettings[domain]?.trigger);
+    const values = ['posts', ...TRIGGER_PRESETS];
+    if (!values.includes(current)) values.push(current);
+    return values.map(value => ({ value, label: triggerLabel(value, localSettings.showAfterNPosts) }));
+  }
+
   // --- Keyword group helpers ---
   //
   // The grouped store (localSettings.keywordGroups) is the source of truth.
@@ -1213,6 +1299,8 @@ export default function Settings({ settings, onSave }: SettingsProps) {
               <tr>
                 <th style={{ paddingLeft: 24 }}>Site</th>
                 <th style={{ textAlign: 'center' }}>Quizzes</th>
+                <th>Quiz trigger</th>
+                {localSettings.earnYourScroll && <th>Scroll budget</th>}
                 <th style={{ textAlign: 'center' }}>Reels / Shorts</th>
                 <th style={{ textAlign: 'center' }}>Sponsored</th>
                 <th style={{ textAlign: 'center' }}>Suggested</th>
@@ -1221,7 +1309,7 @@ export default function Settings({ settings, onSave }: SettingsProps) {
             </thead>
             <tbody>
               {SUPPORTED_DOMAINS.map(s => {
-                const reelsKey = s.reels as keyof SettingsType;
+                const reelsKey = s.reels as keyof SettingsType | null;
                 const sponsoredKey = s.sponsored as keyof SettingsType | null;
                 const suggestedKey = s.suggested as keyof SettingsType | null;
                 const strangersKey = s.strangers as keyof SettingsType | null;
@@ -1234,8 +1322,30 @@ export default function Settings({ settings, onSave }: SettingsProps) {
                     <td style={{ textAlign: 'center' }}>
                       <SiteToggle on={isDomainEnabled(s.domain)} onClick={() => toggleDomain(s.domain)} ariaLabel={`Quizzes on ${s.label}`} />
                     </td>
+                    <td>
+                      <Select
+                        value={triggerValue(localSettings.domainSettings[s.domain]?.trigger)}
+                        options={triggerOptions(s.domain)}
+                        onChange={value => setDomainTrigger(s.domain, value)}
+                        ariaLabel={`Quiz trigger on ${s.label}`}
+                        menuWidth={220}
+                      />
+                    </td>
+                    {localSettings.earnYourScroll && (
+                      <td>
+                        <Select
+                          value={scrollBudgetValue(localSettings.domainSettings[s.domain]?.scrollBudget)}
+                          options={scrollBudgetOptions(s.domain)}
+                          onChange={value => setDomainScrollBudget(s.domain, value)}
+                          ariaLabel={`Scroll budget on ${s.label}`}
+                          menuWidth={220}
+                        />
+                      </td>
+                    )}
                     <td style={{ textAlign: 'center' }}>
-                      <SiteToggle on={localSettings[reelsKey] as boolean} onClick={() => toggle(reelsKey)} ariaLabel={`Reels on ${s.label}`} />
+                      {reelsKey
+                        ? <SiteToggle on={localSettings[reelsKey] as boolean} onClick={() => toggle(reelsKey)} ariaLabel={`Reels on ${s.label}`} />
+                        : <SiteToggle on={false} onClick={() => {}} dim />}
                     </td>
                     <td style={{ textAlign: 'center' }}>
                       {sponsoredKey
@@ -1257,6 +1367,7 @@ export default function Settings({ settings, onSave }: SettingsProps) {
               })}
             </tbody>
           </table>
+          <SettingsCustomSites sites={localSettings.customSites} onChange={sites => update('customSites', sites)} />
         </div>
       </section>
 
@@ -1457,11 +1568,20 @@ export default function Settings({ settings, onSave }: SettingsProps) {
 
       {/* === D · QUIZ BEHAVIOUR === */}
       <section style={{ marginTop: 48 }}>
-        <SectionHead num="D" label="Quiz behaviour" count="8 SETTINGS" />
+        <SectionHead num="D" label="Quiz behaviour" count="12 SETTINGS" />
         <div className="card-flat" style={{ padding: '4px 28px' }}>
           <Row label="Show after N posts" hint="Cards appear once you have scrolled past this many feed items.">
             <Stepper value={localSettings.showAfterNPosts} unit="posts" min={1} max={50} onChange={n => update('showAfterNPosts', n)} />
           </Row>
+          <Row label="Adaptive frequency" hint="Quiz more often while many cards are overdue, less once the daily target is met or you are getting nearly everything right. The gap above becomes the baseline.">
+            <ToggleControl on={localSettings.adaptiveFrequency} onClick={() => toggle('adaptiveFrequency')} ariaLabel="Adaptive frequency" />
+          </Row>
+          <Row label="Daily goal" hint="Cards to review each day. Adaptive frequency paces the backlog against it; earn your scroll stops gating once it is met.">
+            <Stepper value={localSettings.dailyQuizTarget} unit="cards" min={5} max={300} step={5} onChange={n => update('dailyQuizTarget', n)} />
+          </Row>
+          <Row label="Earn your scroll" hint="Each site allows a scroll budget per few correct answers (set per site under Sites & blocking). When it runs out the feed blurs until you answer more cards.">
+            <ToggleControl on={localSettings.earnYourScroll} onClick={() => toggle('earnYourScroll')} ariaLabel="Earn your scroll" />
+          </Row>
           <Row label="Pause after a card" hint="Cooldown before another quiz can appear on the same site.">
             <Stepper value={localSettings.pauseMinutesAfterQuiz} unit="min" min={0} max={180} onChange={n => update('pauseMinutesAfterQuiz', n)} />
           </Row>
@@ -1736,29 +1856,26 @@ export default function Settings({ settings, onSave }: SettingsProps) {
 
       {/* === H · DATA === */}
       <section style={{ marginTop: 48, marginBottom: 24 }}>
-        <SectionHead num="H" label="Data" count="EXPORT · WIPE" />
+        <SectionHead num="H" label="Data" count="BACKUP · WIPE" />
         <div className="card-flat" style={{ padding: '4px 28px' }}>
-          <Row label="Export" hint="Download every card and deck as JSON for backup or migration.">
-            <button
-              type="button"
-              onClick={async () => {
-                const response = await chrome.runtime.sendMessage({ type: 'get_cards' });
-                if (response.ok) {
-                  const blob = new Blob([JSON.stringify(response.data, null, 2)], { type: 'application/json' });
-                  const url = URL.createObjectURL(blob);
-                  const a = document.createElement('a');
-                  a.href = url;
-                  a.download = 'scrolllearn-export.json';
-                  a.click();
-                  URL.revokeObjectURL(url);
-                }
-              }}
-              className="btn btn-ghost"
-              style={{ padding: '10px 18px' }}
-            >
-              Export all data
-            </button>
+          <SettingsBackup />
+          <Row label="Automatic backups" hint="Take a snapshot of everything once a day, stored in this browser. Survives Clear all data.">
+            <ToggleControl
+              on={localSettings.autoBackupEnabled}
+              onClick={() => update('autoBackupEnabled', !localSettings.autoBackupEnabled)}
+              ariaLabel="Automatic backups"
+            />
+          </Row>
+          <Row label="Keep" hint="Snapshots to keep. Older ones are deleted when a new one is taken.">
+            <Stepper
+              value={localSettings.autoBackupKeep}
+              unit="snapshots"
+              min={1}
+              max={60}
+              onChange={n => update('autoBackupKeep', n)}
+            />
           </Row>
+          <SettingsSnapshots />
           <Row label="Clear" hint="Delete every card, deck, note, and setting. This cannot be undone." last>
             <button
               type="button"
@@ -1770,7 +1887,7 @@ export default function Settings({ settings, onSave }: SettingsProps) {
                   variant: 'danger',
                 });
                 if (ok) {
-                  chrome.storage.local.clear();
+                  await clearAllData();
                   window.location.reload();
                 }
               }}
@@ -0,0 +1,180 @@
+import { useRef, useState } from 'react';
+import {
+  BACKUP_SECTIONS,
+  collectBackup,
+  readBackupArchive,
+  restoreBackup,
+  writeBackupArchive,
+  type Backup,
+  type BackupSection,
+  type RestoreMode,
+} from '../../common/backup';
+import { downloadBlob } from '../../common/notebookExport';
+import Select from './Select';
+
+type SectionChoice = RestoreMode | 'skip';
+
+function backupFileName(now: Date): string {
+  return `scrolllearn-backup-${now.toISOString().slice(0, 10)}.zip`;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Download a backup of everything, or pick one and choose per section
+// whether to merge it into what is here, replace what is here, or skip it.
+// The page reloads after a restore so every view picks up the new data.
+export default function SettingsBackup() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeTtsCache, setIncludeTtsCache] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [pending, setPending] = useState<Backup | null>(null);
+  const [plan, setPlan] = useState<Partial<Record<BackupSection, SectionChoice>>>({});
+
+  async function handleDownload() {
+    setBusy(true);
+    setErrorMsg(null);
+    try {
+      const sections = BACKUP_SECTIONS.map(s => s.id).filter(id => includeTtsCache || id !== 'ttsCache');
+      const data = await collectBackup(sections);
+      const blob = await writeBackupArchive(data, { extensionVersion: chrome.runtime.getManifest().version });
+      downloadBlob(blob, backupFileName(new Date()));
+    } catch (err) {
+      setErrorMsg(errorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleFile(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setErrorMsg(null);
+    try {
+      const backup = await readBackupArchive(new Uint8Array(await file.arrayBuffer()));
+      setPending(backup);
+      setPlan(Object.fromEntries(Object.keys(backup.manifest.sections).map(id => [id, 'merge'])));
+    } catch (err) {
+      setPending(null);
+      setErrorMsg(errorMessage(err));
+    }
+  }
+
+  async function handleRestore() {
+    if (!pending) return;
+    setBusy(true);
+    setErrorMsg(null);
+    try {
+      const modes: Partial<Record<BackupSection, RestoreMode>> = {};
+      for (const [id, choice] of Object.entries(plan) as Array<[BackupSection, SectionChoice]>) {
+        if (choice !== 'skip') modes[id] = choice;
+      }
+      await restoreBackup(pending.data, modes);
+      window.location.reload();
+    } catch (err) {
+      setErrorMsg(errorMessage(err));
+      setBusy(false);
+    }
+  }
+
+  const available = pending
+    ? BACKUP_SECTIONS.filter(({ id }) => pending.manifest.sections[id] !== undefined)
+    : [];
+  const nothingChosen = available.every(({ id }) => (plan[id] ?? 'skip') === 'skip');
+
+  return (
+    <div style={{ padding: '20px 0', borderBottom: '1px solid var(--rule)' }}>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 280px', gap: 32, alignItems: 'center' }}>
+        <div>
+          <div className="serif" style={{ fontSize: 16, fontWeight: 600 }}>Backup</div>
+          <div style={{ fontSize: 13, color: 'var(--ink-3)', marginTop: 3, lineHeight: 1.45 }}>
+            One file with decks, review history, settings, notes, notebooks, shadowing and IPA progress.
+            Restore it here or on another browser.
+          </div>
+        </div>
+        <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: 8 }}>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button
+              type="button"
+              onClick={() => void handleDownload()}
+              disabled={busy}
+              className="btn btn-ghost"
+              style={{ padding: '10px 18px' }}
+            >
+              Download backup
+            </button>
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={e => void handleFile(e)}
+              accept=".zip,.json"
+              style={{ display: 'none' }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busy}
+              className="btn btn-ghost"
+              style={{ padding: '10px 18px' }}
+            >
+              Restore…
+            </button>
+          </div>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12, color: 'var(--ink-3)', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={includeTtsCache}
+              onChange={e => setIncludeTtsCache(e.target.checked)}
+              style={{ accentColor: 'var(--clay)' }}
+            />
+            Include cached TTS audio
+          </label>
+        </div>
+      </div>
+
+      {pending && (
+        <div style={{ marginTop: 16, display: 'grid', gap: 10 }}>
+          <div className="eyebrow">
+            {pending.manifest.createdAt
+              ? `Backup from ${new Date(pending.manifest.createdAt).toLocaleString()}`
+              : 'Backup from an older export'}
+          </div>
+          {available.map(({ id, label }) => (
+            <div key={id} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 16, fontSize: 13 }}>
+              <span>
+                {label}
+                <span className="mono" style={{ marginLeft: 8, fontSize: 11, color: 'var(--ink-3)' }}>
+                  {pending.manifest.sections[id]}
+                </span>
+              </span>
+              <Select<SectionChoice>
+                value={plan[id] ?? 'skip'}
+                onChange={choice => setPlan(prev => ({ ...prev, [id]: choice }))}
+                options={[
+                  { value: 'merge', label: 'Merge', hint: 'Add what is missing; newer copies win' },
+                  { value: 'replace', label: 'Replace', hint: 'Discard what is here first' },
+                  { value: 'skip', label: 'Skip' },
+                ]}
+                width={140}
+                ariaLabel={`Restore ${label}`}
+              />
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+            <button type="button" onClick={() => setPending(null)} disabled={busy} className="btn btn-ghost">
+              Cancel
+            </button>
+            <button type="button" onClick={() => void handleRestore()} disabled={busy || nothingChosen} className="btn btn-clay">
+              {busy ? 'Restoring…' : 'Restore'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {errorMsg && <div style={{ marginTop: 8, color: 'var(--rose)', fontSize: 12.5 }}>{errorMsg}</div>}
+    </div>
+  );
+}
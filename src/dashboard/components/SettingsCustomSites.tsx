@@ -0,0 +1,132 @@
+import { useState, type CSSProperties } from 'react';
+import type { CustomSite, CustomSiteInsertion, CustomSitePreview } from '../../common/types';
+import { customSiteMatches, newCustomSiteId, normalizeSiteHost, validateCustomSite } from '../../common/customSites';
+import { previewCustomSitePosts } from '../../content/custom';
+import Select from './Select';
+
+const INSERTION_OPTIONS: { value: CustomSiteInsertion; label: string }[] = [
+  { value: 'post', label: 'After the post' },
+  { value: 'parent', label: 'After its wrapper' },
+];
+
+const inputStyle: CSSProperties = {
+  height: 34,
+  padding: '0 10px',
+  border: '1px solid var(--rule-2)',
+  borderRadius: 8,
+  background: 'var(--card)',
+  fontSize: 13,
+  minWidth: 0,
+};
+
+interface SettingsCustomSitesProps {
+  sites: CustomSite[];
+  onChange: (sites: CustomSite[]) => void;
+}
+
+// The most recently used tab showing the site, so "Test" works from the
+// dashboard tab itself.
+async function findSiteTab(site: CustomSite): Promise<chrome.tabs.Tab | undefined> {
+  const tabs = await chrome.tabs.query({});
+  return tabs
+    .filter(tab => {
+      if (tab.id === undefined || !tab.url?.startsWith('https://')) return false;
+      return customSiteMatches(site, new URL(tab.url).hostname);
+    })
+    .sort((a, b) => (b.lastAccessed ?? 0) - (a.lastAccessed ?? 0))[0];
+}
+
+// Feed sites defined by selectors rather than code. Each row is saved with
+// the rest of Settings; "Test on open tab" outlines what the selector matches
+// on a tab already showing the site.
+export default function SettingsCustomSites({ sites, onChange }: SettingsCustomSitesProps) {
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+
+  function updateSite(id: string, patch: Partial<CustomSite>) {
+    onChange(sites.map(site => (site.id === id ? { ...site, ...patch } : site)));
+  }
+
+  function addSite() {
+    onChange([
+      ...sites,
+      { id: newCustomSiteId(), name: '', host: '', postSelector: '', postIdAttribute: '', insertion: 'post', enabled: true },
+    ]);
+  }
+
+  function describePreview(preview: CustomSitePreview): string {
+    if (preview.matched === 0) return 'No posts matched on the open tab.';
+    const ids = preview.sampleIds.length > 0 ? ` e.g. ${preview.sampleIds.join(', ')}` : '';
+    return `${preview.matched} posts matched, ${preview.withId} with an id${ids}. Posts without an id are not counted.`;
+  }
+
+  async function testSite(site: CustomSite) {
+    const show = (message: string) => setPreviews(prev => ({ ...prev, [site.id]: message }));
+    const error = validateCustomSite(site);
+    if (error) return show(error);
+    try {
+      const tab = await findSiteTab(site);
+      if (!tab?.id) return show(`Open ${normalizeSiteHost(site.host)} in a tab, then test again.`);
+      const [injection] = await chrome.scripting.executeScript({
+        target: { tabId: tab.id },
+        func: previewCustomSitePosts,
+        args: [site.postSelector, site.postIdAttribute.trim()],
+      });
+      show(describePreview(injection.result as CustomSitePreview));
+    } catch (err) {
+      show(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return (
+    <div style={{ padding: '16px 24px 20px', display: 'grid', gap: 12 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <span className="eyebrow">Custom sites · {sites.length}</span>
+        <button type="button" onClick={addSite} className="btn btn-ghost" style={{ padding: '6px 12px', fontSize: 12 }}>
+          Add site
+        </button>
+      </div>
+      {sites.length === 0 && (
+        <div style={{ fontSize: 13, color: 'var(--ink-3)' }}>
+          Quiz on another feed, or patch a site above after a redesign, by describing its posts with a CSS selector.
+        </div>
+      )}
+      {sites.map(site => {
+        const error = site.host || site.postSelector ? validateCustomSite(site) : null;
+        return (
+          <div key={site.id} style={{ display: 'grid', gap: 8, paddingBottom: 12, borderBottom: '1px solid var(--rule)' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 2fr', gap: 8 }}>
+              <input style={inputStyle} value={site.name} placeholder="Name" aria-label="Site name" onChange={e => updateSite(site.id, { name: e.target.value })} />
+              <input style={inputStyle} className="mono" value={site.host} placeholder="example.com" aria-label="Host" onChange={e => updateSite(site.id, { host: e.target.value })} />
+              <input style={inputStyle} className="mono" value={site.postSelector} placeholder="Post selector, e.g. article.post" aria-label="Post selector" onChange={e => updateSite(site.id, { postSelector: e.target.value })} />
+            </div>
+            <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+              <input style={{ ...inputStyle, width: 200 }} className="mono" value={site.postIdAttribute} placeholder="Id attribute (optional)" aria-label="Post id attribute" onChange={e => updateSite(site.id, { postIdAttribute: e.target.value })} />
+              <Select
+                value={site.insertion}
+                options={INSERTION_OPTIONS}
+                onChange={insertion => updateSite(site.id, { insertion })}
+                ariaLabel="Quiz placement"
+              />
+              <button
+                type="button"
+                onClick={() => updateSite(site.id, { enabled: !site.enabled })}
+                aria-pressed={site.enabled}
+                aria-label={`Quizzes on ${site.name || site.host || 'this site'}`}
+                className={'switch-editorial' + (site.enabled ? ' on' : '')}
+              />
+              <span style={{ flex: 1 }} />
+              <button type="button" onClick={() => void testSite(site)} className="btn btn-ghost" style={{ padding: '4px 10px', fontSize: 12 }}>
+                Test on open tab
+              </button>
+              <button type="button" onClick={() => onChange(sites.filter(s => s.id !== site.id))} className="btn btn-ghost" style={{ padding: '4px 10px', fontSize: 12 }}>
+                Remove
+              </button>
+            </div>
+            {error && <div className="mono" style={{ fontSize: 11, color: 'var(--rose)' }}>{error}</div>}
+            {previews[site.id] && <div style={{ fontSize: 12.5, color: 'var(--ink-2)' }}>{previews[site.id]}</div>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
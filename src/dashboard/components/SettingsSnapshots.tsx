@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { BACKUP_SECTIONS, readBackupArchive, restoreBackup, type BackupSection, type RestoreMode } from '../../common/backup';
+import {
+  getSnapshot,
+  listSnapshots,
+  snapshotsAvailable,
+  takeSnapshot,
+  type BackupSnapshotInfo,
+} from '../../common/backupSnapshots';
+import { downloadBlob } from '../../common/notebookExport';
+import { useConfirm } from '../hooks/useConfirm';
+
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function snapshotFileName(createdAt: number): string {
+  return `scrolllearn-backup-${new Date(createdAt).toISOString().slice(0, 10)}.zip`;
+}
+
+// The automatic snapshots the background worker keeps in IndexedDB, newest
+// first. Restoring one replaces every section it holds, after snapshotting
+// the current data so the restore itself can be undone.
+export default function SettingsSnapshots() {
+  const confirm = useConfirm();
+  const [snapshots, setSnapshots] = useState<BackupSnapshotInfo[]>([]);
+  const [revision, setRevision] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSnapshots().then(list => {
+      if (!cancelled) setSnapshots(list);
+    });
+    return () => { cancelled = true; };
+  }, [revision]);
+
+  async function run(task: () => Promise<void>) {
+    setBusy(true);
+    setErrorMsg(null);
+    try {
+      await task();
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+      setRevision(r => r + 1);
+    }
+  }
+
+  async function openSnapshot(id: number) {
+    const snapshot = await getSnapshot(id);
+    if (!snapshot) throw new Error('That snapshot no longer exists');
+    return snapshot;
+  }
+
+  function handleDownload(info: BackupSnapshotInfo) {
+    void run(async () => {
+      downloadBlob((await openSnapshot(info.id)).blob, snapshotFileName(info.createdAt));
+    });
+  }
+
+  async function handleRestore(info: BackupSnapshotInfo) {
+    const ok = await confirm({
+      title: 'Restore snapshot',
+      message: `Replace your current data with the snapshot from ${new Date(info.createdAt).toLocaleString()}? A snapshot of what is here now is taken first.`,
+      confirmLabel: 'Restore',
+      variant: 'danger',
+    });
+    if (!ok) return;
+    await run(async () => {
+      const snapshot = await openSnapshot(info.id);
+      const { data } = await readBackupArchive(new Uint8Array(await snapshot.blob.arrayBuffer()));
+      await takeSnapshot();
+      const plan: Partial<Record<BackupSection, RestoreMode>> = {};
+      for (const { id } of BACKUP_SECTIONS) plan[id] = 'replace';
+      await restoreBackup(data, plan);
+      window.location.reload();
+    });
+  }
+
+  if (!snapshotsAvailable()) return null;
+
+  return (
+    <div style={{ padding: '16px 0 20px', borderBottom: '1px solid var(--rule)', display: 'grid', gap: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <span className="eyebrow">Snapshots · {snapshots.length}</span>
+        <button
+          type="button"
+          onClick={() => void run(async () => { await takeSnapshot(); })}
+          disabled={busy}
+          className="btn btn-ghost"
+          style={{ padding: '6px 12px', fontSize: 12 }}
+        >
+          Back up now
+        </button>
+      </div>
+      {snapshots.length === 0 && (
+        <div style={{ fontSize: 13, color: 'var(--ink-3)' }}>No snapshots yet. The first one is taken within a day.</div>
+      )}
+      {snapshots.map(info => (
+        <div key={info.id} style={{ display: 'flex', alignItems: 'center', gap: 12, fontSize: 13 }}>
+          <span style={{ flex: 1 }}>{new Date(info.createdAt).toLocaleString()}</span>
+          <span className="mono" style={{ fontSize: 11, color: 'var(--ink-3)' }}>{formatBytes(info.byteLength)}</span>
+          <button type="button" onClick={() => handleDownload(info)} disabled={busy} className="btn btn-ghost" style={{ padding: '4px 10px', fontSize: 12 }}>
+            Download
+          </button>
+          <button type="button" onClick={() => void handleRestore(info)} disabled={busy} className="btn btn-ghost" style={{ padding: '4px 10px', fontSize: 12 }}>
+            Restore
+          </button>
+        </div>
+      ))}
+      {errorMsg && <div style={{ color: 'var(--rose)', fontSize: 12.5 }}>{errorMsg}</div>}
+    </div>
+  );
+}
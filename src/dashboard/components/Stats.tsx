@@ -23,6 +23,7 @@ import {
   weekWindow,
   type SessionWindow,
 } from '../../common/sessionTime';
+import { useReviewLog } from '../hooks/useReviewLog';
 
 interface StatsProps {
   stats: StatsType;
@@ -175,6 +176,15 @@ export default function Stats({ stats, decks, cards, notes, settings }: StatsPro
   const currentStreak = stats.currentStreak;
   const bestStreak = stats.longestStreak;
 
+  // ----- Range window for sections that follow it ---------------------------
+  const window = useMemo(() => rangeWindow(range, now), [range, now]);
+
+  // Only the part of the log the page shows: the selected range, stretched
+  // to cover this month's recap and the 30-day retention window.
+  const retentionWindowDays = 30;
+  const historyFrom = Math.min(window.from, monthWindow(now).from, now - retentionWindowDays * DAY_MS);
+  const reviewHistory = useReviewLog(stats, historyFrom);
+
   const cardsThisWeek = useMemo(
     () => cards.filter(c => (c.createdAt ?? 0) > now - 7 * DAY_MS).length,
     [cards, now],
@@ -183,31 +193,27 @@ export default function Stats({ stats, decks, cards, notes, settings }: StatsPro
   // Retention is the share of recent reviews graded >= 2. We can't derive it
   // from per-card `repetitions` because that field resets to 0 on each lapse,
   // making a deck-level `1 - lapses/repetitions` arithmetically broken.
-  const retentionWindowDays = 30;
   const recentReviewsCount = useMemo(() => {
     const cutoff = now - retentionWindowDays * DAY_MS;
-    return stats.reviewHistory.filter(r => r.timestamp >= cutoff).length;
-  }, [stats.reviewHistory, now]);
+    return reviewHistory.filter(r => r.timestamp >= cutoff).length;
+  }, [reviewHistory, now]);
   const retentionRate = useMemo(
-    () => calculateRetentionRate(stats.reviewHistory, retentionWindowDays),
-    [stats.reviewHistory],
+    () => calculateRetentionRate(reviewHistory, retentionWindowDays),
+    [reviewHistory],
   );
   const retentionPct = Math.round(retentionRate * 100);
   const totalReps = recentReviewsCount;
 
-  // ----- Range window for sections that follow it ---------------------------
-  const window = useMemo(() => rangeWindow(range, now), [range, now]);
-
-  // Time studied across the selected range. Prefer the live reviewHistory
-  // (clusters reflect actual session shape) and fall back to dailyStats.practiceMs
-  // for days outside the 1000-record history cap.
+  // Time studied across the selected range. Prefer the review log (clusters
+  // reflect actual session shape) and fall back to dailyStats.practiceMs for
+  // days that predate the log.
   const timeStudiedMs = useMemo(() => {
-    const fromHistory = sessionMsInWindow(stats.reviewHistory, window);
+    const fromHistory = sessionMsInWindow(reviewHistory, window);
     if (fromHistory > 0) return fromHistory;
     let ms = 0;
     for (const d of dailyInWindow(stats.dailyStats, window)) ms += d.practiceMs ?? 0;
     return ms;
-  }, [stats.reviewHistory, stats.dailyStats, window]);
+  }, [reviewHistory, stats.dailyStats, window]);
 
   // ----- Recap windows (always today / week / month) ------------------------
   const recap = useMemo(() => {
@@ -222,7 +228,7 @@ export default function Stats({ stats, decks, cards, notes, settings }: StatsPro
     const todayAgg: RecapAgg = {
       reviews: todayDaily?.reviews ?? 0,
       correct: todayDaily?.correct ?? 0,
-      practiceMs: todayDaily?.practiceMs ?? sessionMsInWindow(stats.reviewHistory, today),
+      practiceMs: todayDaily?.practiceMs ?? sessionMsInWindow(reviewHistory, today),
     };
     const weekAgg = aggregate(dailyInWindow(stats.dailyStats, week));
     const monthAgg = aggregate(dailyInWindow(stats.dailyStats, month));
@@ -231,11 +237,11 @@ export default function Stats({ stats, decks, cards, notes, settings }: StatsPro
 
     // Prefer history-based session ms when available so empty-history days
     // don't undercount on devices that just gained the practiceMs field.
-    weekAgg.practiceMs = Math.max(weekAgg.practiceMs, sessionMsInWindow(stats.reviewHistory, week));
-    monthAgg.practiceMs = Math.max(monthAgg.practiceMs, sessionMsInWindow(stats.reviewHistory, month));
+    weekAgg.practiceMs = Math.max(weekAgg.practiceMs, sessionMsInWindow(reviewHistory, week));
+    monthAgg.practiceMs = Math.max(monthAgg.practiceMs, sessionMsInWindow(reviewHistory, month));
 
     return { todayAgg, weekAgg, monthAgg, priorWeekAgg, priorMonthAgg };
-  }, [stats.reviewHistory, stats.dailyStats, now]);
+  }, [reviewHistory, stats.dailyStats, now]);
 
   // ----- Review history bars (existing) -------------------------------------
   const days = useMemo(() => {
@@ -269,7 +275,7 @@ export default function Stats({ stats, decks, cards, notes, settings }: StatsPro
 
   // ----- Time-on-task daily bars (selected range) ---------------------------
   const timeOnTask = useMemo(() => {
-    const sessions = dailySessionMs(stats.reviewHistory, window);
+    const sessions = dailySessionMs(reviewHistory, window);
     const out: { date: string; ms: number; isToday: boolean }[] = [];
     const today = new Date();
     const n = rangeDays(range);
@@ -281,13 +287,13 @@ export default function Stats({ stats, decks, cards, notes, settings }: StatsPro
       out.push({ date: key, ms, isToday: i === 0 });
     }
     return out;
-  }, [stats.reviewHistory, window, range]);
+  }, [reviewHistory, window, range]);
 
   const maxMs = Math.max(...timeOnTask.map(d => d.ms), 60_000);
 
   // ----- Hour of day & day of week (selected range) -------------------------
-  const hourBuckets = useMemo(() => reviewsByHour(stats.reviewHistory, window), [stats.reviewHistory, window]);
-  const dowBuckets = useMemo(() => reviewsByDow(stats.reviewHistory, window), [stats.reviewHistory, window]);
+  const hourBuckets = useMemo(() => reviewsByHour(reviewHistory, window), [reviewHistory, window]);
+  const dowBuckets = useMemo(() => reviewsByDow(reviewHistory, window), [reviewHistory, window]);
   const peakHour = useMemo(() => {
     let max = 0, idx = -1;
     for (let i = 0; i < hourBuckets.length; i++) {
@@ -308,7 +314,7 @@ export default function Stats({ stats, decks, cards, notes, settings }: StatsPro
   // ----- Retention by deck (extended) ---------------------------------------
   const lastReviewByDeck = useMemo(() => {
     const map = new Map<string, { ts: number; reviews: number }>();
-    for (const r of stats.reviewHistory) {
+    for (const r of reviewHistory) {
       const cur = map.get(r.deckId);
       if (cur) {
         cur.reviews++;
@@ -318,17 +324,17 @@ export default function Stats({ stats, decks, cards, notes, settings }: StatsPro
       }
     }
     return map;
-  }, [stats.reviewHistory]);
+  }, [reviewHistory]);
 
   const reviewsByDeckId = useMemo(() => {
     const map = new Map<string, { grade: Grade; timestamp: number }[]>();
-    for (const r of stats.reviewHistory) {
+    for (const r of reviewHistory) {
       const list = map.get(r.deckId);
       if (list) list.push({ grade: r.grade, timestamp: r.timestamp });
       else map.set(r.deckId, [{ grade: r.grade, timestamp: r.timestamp }]);
     }
     return map;
-  }, [stats.reviewHistory]);
+  }, [reviewHistory]);
 
   const deckRetention = useMemo(() => {
     return decks.map(deck => {
@@ -7,7 +7,7 @@ import {
   useRef,
   useState,
 } from 'react';
-import type { Notebook } from '../../../common/types';
+import type { Deck, Notebook } from '../../../common/types';
 import type { AutosaveStatus } from '../../hooks/useNotebookAutosave';
 import { putAttachment } from '../../../common/notebookStore';
 import NotebookPreview from './NotebookPreview';
@@ -97,6 +97,13 @@ interface NotebookEditorProps {
   onViewModeChange: (next: ViewMode) => void;
   rightPanel?: React.ReactNode;
   extraToolbar?: React.ReactNode;
+  // Deck picker for the notebook's inline cards; see PropertiesPanel.
+  linkedDeck?: {
+    decks: Deck[];
+    onChange: (deckId: string | 'new' | null) => void;
+    orphaned: number;
+    onRemoveOrphans: () => void;
+  };
 }
 
 function formatSavedAt(savedAt: number | null): string {
@@ -173,6 +180,7 @@ function NotebookEditorImpl(
     onViewModeChange,
     rightPanel,
     extraToolbar,
+    linkedDeck,
   }: NotebookEditorProps,
   forwardedRef: React.ForwardedRef<NotebookEditorHandle>,
 ) {
@@ -606,6 +614,7 @@ function NotebookEditorImpl(
           properties={notebook.properties}
           onPropertiesChange={(next) => onMetaChange({ properties: next })}
           folderPath={notebook.folderPath}
+          linkedDeck={linkedDeck && { ...linkedDeck, deckId: notebook.linkedDeckId ?? null }}
         />
 
         {/* View-mode tabs + formatting toolbar.
@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import type { Notebook } from '../../../common/types';
+import type { Deck, MarkdownCard, Notebook, NotebookSyncOptions, NotebookSyncSummary } from '../../../common/types';
 import { createNotebook } from '../../../common/types';
 import {
   deleteAllForNotebook,
@@ -7,6 +7,7 @@ import {
   saveBody,
 } from '../../../common/notebookStore';
 import { instantiateTemplate, type NotebookTemplate } from '../../../common/notebookTemplates';
+import { parseNotebookCards } from '../../../common/notebookCards';
 import {
   buildNotebookZip,
   downloadBlob,
@@ -88,6 +89,16 @@ interface NotebooksPanelProps {
   // on every hashchange so navigating between deep links inside the same
   // dashboard tab works without a reload.
   initialNotebookId?: string | null;
+  // Decks a notebook can be linked to, and the message round-trip that
+  // syncs a notebook's inline cards into its linked deck. Resolves to null
+  // when the notebook has no linked deck. The deck row in Properties is
+  // hidden unless both are wired.
+  decks?: Deck[];
+  onSyncCards?: (
+    notebookId: string,
+    cards: MarkdownCard[],
+    options?: NotebookSyncOptions,
+  ) => Promise<NotebookSyncSummary | null>;
 }
 
 // Persist the metadata via the message channel; the body is owned by the
@@ -126,6 +137,8 @@ export default function NotebooksPanel({
   embedded = false,
   onPendingImport,
   initialNotebookId = null,
+  decks,
+  onSyncCards,
 }: NotebooksPanelProps) {
   // Initial selection precedence:
   //   1. Explicit deep link from the parent (`initialNotebookId`)
@@ -308,11 +321,69 @@ export default function NotebooksPanel({
 
   const activeNotebook = notebooks.find(nb => nb.id === activeId) ?? null;
 
+  // Autosave fires after the panel may have switched notebooks, so the
+  // linked-deck check reads the latest list rather than a stale closure.
+  const notebooksRef = useRef(notebooks);
+  useEffect(() => { notebooksRef.current = notebooks; }, [notebooks]);
+
+  // Cards set aside by the last sync because their line is gone, so the
+  // Properties row can offer to delete them.
+  const [orphans, setOrphans] = useState<{ notebookId: string; count: number } | null>(null);
+
+  const syncCards = useCallback(
+    async (notebookId: string, body: string, options?: NotebookSyncOptions) => {
+      if (!onSyncCards) return null;
+      const summary = await onSyncCards(notebookId, parseNotebookCards(body), options);
+      setOrphans(summary ? { notebookId, count: summary.orphaned } : null);
+      return summary;
+    },
+    [onSyncCards],
+  );
+
+  const handleAfterSave = useCallback(
+    (notebookId: string, body: string) => {
+      if (!notebooksRef.current.find(nb => nb.id === notebookId)?.linkedDeckId) return;
+      syncCards(notebookId, body).catch(err => {
+        console.error('[ScrollLearn] Notebook card sync failed:', err);
+      });
+    },
+    [syncCards],
+  );
+
   const { status, savedAt, flush } = useNotebookAutosave({
     notebookId: activeId,
     body: bodyText,
+    onAfterSave: handleAfterSave,
   });
 
+  // Linking runs a sync straight away so the deck fills without waiting for
+  // the next edit. Unlinking leaves the cards where they are; linking back
+  // later finds them again through their source.
+  async function handleLinkDeck(deckId: string | 'new' | null) {
+    if (!activeNotebook) return;
+    await flush();
+    try {
+      if (deckId === 'new') {
+        await syncCards(activeNotebook.id, bodyText, { createDeck: true });
+        return;
+      }
+      await onSaveNotebook({ ...activeNotebook, linkedDeckId: deckId ?? undefined });
+      if (deckId) await syncCards(activeNotebook.id, bodyText);
+    } catch (err) {
+      window.alert(`Failed to sync cards: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  async function handleRemoveOrphans() {
+    if (!activeNotebook) return;
+    await flush();
+    try {
+      await syncCards(activeNotebook.id, bodyText, { removeOrphans: true });
+    } catch (err) {
+      window.alert(`Failed to remove cards: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
   // Metadata writes are immediate (so the tree updates without a
   // debounce). Body writes go through the autosave hook above.
   const handleMetaChange = useCallback(
@@ -761,6 +832,12 @@ export default function NotebooksPanel({
                 body={bodyText}
                 onBodyChange={setBodyText}
                 onMetaChange={handleMetaChange}
+                linkedDeck={decks && onSyncCards ? {
+                  decks,
+                  onChange: (id) => void handleLinkDeck(id),
+                  orphaned: orphans?.notebookId === activeNotebook.id ? orphans.count : 0,
+                  onRemoveOrphans: () => void handleRemoveOrphans(),
+                } : undefined}
                 onForceSave={() => void flush()}
                 onDelete={() =>
                   void requestDeleteNotebook(
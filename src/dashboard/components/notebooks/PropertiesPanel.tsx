@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import type { Deck } from '../../../common/types';
 
 interface PropertiesPanelProps {
   tags: string[];
@@ -6,8 +7,21 @@ interface PropertiesPanelProps {
   properties: Record<string, string>;
   onPropertiesChange: (next: Record<string, string>) => void;
   folderPath: string;
+  // Deck the notebook's inline cards sync into. Omitted where syncing isn't
+  // wired, which hides the row.
+  linkedDeck?: {
+    decks: Deck[];
+    deckId: string | null;
+    onChange: (deckId: string | 'new' | null) => void;
+    // Synced cards whose line is gone; kept with their scheduling until
+    // the user removes them here.
+    orphaned: number;
+    onRemoveOrphans: () => void;
+  };
 }
 
+const NEW_DECK_OPTION = '__new__';
+
 // Obsidian-style "Properties" rows. Title sits above this in NotebookEditor
 // because the title doubles as the tab name in the FolderTree.
 export default function PropertiesPanel({
@@ -16,6 +30,7 @@ export default function PropertiesPanel({
   properties,
   onPropertiesChange,
   folderPath,
+  linkedDeck,
 }: PropertiesPanelProps) {
   const [tagDraft, setTagDraft] = useState('');
   const [showAdd, setShowAdd] = useState(false);
@@ -57,7 +72,8 @@ export default function PropertiesPanel({
     onPropertiesChange(next);
   }
 
-  // Render order: built-in folderPath (read-only), tags, custom rows, +Add.
+  // Render order: built-in folderPath (read-only), linked deck, tags,
+  // custom rows, +Add.
   return (
     <div
       style={{
@@ -73,6 +89,46 @@ export default function PropertiesPanel({
         </span>
       </PropertyRow>
 
+      {linkedDeck && (
+        <PropertyRow label="cards">
+          <select
+            value={linkedDeck.deckId ?? ''}
+            onChange={(e) => {
+              const v = e.target.value;
+              linkedDeck.onChange(v === NEW_DECK_OPTION ? 'new' : v || null);
+            }}
+            title="Sync term :: definition lines and {{cloze}} paragraphs into this deck on every save"
+            style={{
+              border: 'none',
+              outline: 'none',
+              background: 'transparent',
+              fontSize: 12,
+              color: linkedDeck.deckId ? 'var(--ink)' : 'var(--ink-3)',
+              maxWidth: '100%',
+            }}
+          >
+            <option value="">Not synced to a deck</option>
+            {linkedDeck.decks.map(d => (
+              <option key={d.id} value={d.id}>{d.name}</option>
+            ))}
+            {!linkedDeck.deckId && <option value={NEW_DECK_OPTION}>New deck from this notebook</option>}
+          </select>
+          {linkedDeck.deckId && linkedDeck.orphaned > 0 && (
+            <span style={{ fontSize: 11, color: 'var(--ink-3)', marginLeft: 8 }}>
+              {linkedDeck.orphaned} no longer in the notebook ·{' '}
+              <button
+                type="button"
+                onClick={linkedDeck.onRemoveOrphans}
+                title="Delete these cards and their scheduling from the deck"
+                style={{ border: 'none', background: 'none', padding: 0, fontSize: 11, color: 'var(--clay-deep)', cursor: 'pointer' }}
+              >
+                remove
+              </button>
+            </span>
+          )}
+        </PropertyRow>
+      )}
+
       <PropertyRow label="tags">
         <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, alignItems: 'center' }}>
           {tags.map(t => (
@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect } from 'react';
 import type { Card, Grade } from '@/common/types';
-import { getGradeFeedback, getCorrectAnswerDisplay } from '@/common/grading';
+import { UNDO_WINDOW_MS } from '@/common/types';
+import { canAcceptAnswer, getGradeFeedback, getCorrectAnswerDisplay } from '@/common/grading';
 import { getSettings } from '@/common/storage';
 import { speak } from '@/common/speak';
 import AiAssistTrigger from '../aiAssist/AiAssistTrigger';
@@ -10,9 +11,15 @@ import SpeakButton from './SpeakButton';
 interface AnswerFeedbackProps {
   card: Card;
   grade: Grade;
+  // The typed answer only matched with accents ignored (see checkAnswer).
+  accentsOff?: boolean;
   userAnswer: string | number | number[];
   shuffledIndices: number[];
   onNext: () => void;
+  // When set, an Undo button is offered for UNDO_WINDOW_MS after the answer.
+  onUndo?: () => void;
+  // When set, typed answers can be re-graded: "I was right" / "Actually wrong".
+  onOverride?: (grade: Grade, acceptAnswer?: string) => Promise<void>;
 }
 
 /** Generate inline diff spans comparing user answer vs correct answer */
@@ -34,15 +41,21 @@ function generateInlineDiff(userAnswer: string, correctAnswer: string): { user:
   return result;
 }
 
-export default function AnswerFeedback({ card, grade, userAnswer, shuffledIndices, onNext }: AnswerFeedbackProps) {
+export default function AnswerFeedback({ card, grade, accentsOff = false, userAnswer, shuffledIndices, onNext, onUndo, onOverride }: AnswerFeedbackProps) {
   const [retryValue, setRetryValue] = useState('');
+  const [undoOpen, setUndoOpen] = useState(true);
+  const [overridden, setOverridden] = useState(false);
+  const [acceptTyped, setAcceptTyped] = useState(true);
   const [retryComplete, setRetryComplete] = useState(false);
   const [retryAttemptDiff, setRetryAttemptDiff] = useState<ReturnType<typeof generateInlineDiff> | null>(null);
   const retryInputRef = useRef<HTMLInputElement>(null);
 
-  const feedback = getGradeFeedback(grade);
+  const feedback = getGradeFeedback(grade, accentsOff);
   const correctDisplay = getCorrectAnswerDisplay(card);
-  const needsRetry = grade < 2 && (card.kind === 'text' || card.kind === 'audio' || card.kind === 'cloze');
+  const isTyped = card.kind === 'text' || card.kind === 'audio' || card.kind === 'cloze';
+  const needsRetry = grade < 2 && isTyped;
+  const typedAnswer = typeof userAnswer === 'string' ? userAnswer.trim() : '';
+  const canOverride = !!onOverride && isTyped && !overridden;
 
   useEffect(() => {
     if (needsRetry && !retryComplete) {
@@ -50,6 +63,12 @@ export default function AnswerFeedback({ card, grade, userAnswer, shuffledIndice
     }
   }, [needsRetry, retryComplete]);
 
+  // Feedback mounts once per answer, so one timer covers the undo window.
+  useEffect(() => {
+    const t = window.setTimeout(() => setUndoOpen(false), UNDO_WINDOW_MS);
+    return () => window.clearTimeout(t);
+  }, []);
+
   // Auto-speak the correct answer when the user answers correctly (grade >= 2),
   // or when retry mode completes successfully. Setting `autoSpeakAnswer` defaults on.
   useEffect(() => {
@@ -78,6 +97,13 @@ export default function AnswerFeedback({ card, grade, userAnswer, shuffledIndice
     }
   }
 
+  async function handleOverride(newGrade: Grade) {
+    if (!onOverride) return;
+    setOverridden(true);
+    const accept = newGrade >= 2 && acceptTyped && canAcceptAnswer(card) && typedAnswer ? typedAnswer : undefined;
+    await onOverride(newGrade, accept);
+  }
+
   function handleRetryKeyDown(e: React.KeyboardEvent) {
     if (e.key === 'Enter') {
       e.preventDefault();
@@ -120,6 +146,31 @@ export default function AnswerFeedback({ card, grade, userAnswer, shuffledIndice
             <SpeakButton text={correctDisplay} ariaLabel="Speak correct answer" />
           </p>
         )}
+        {canOverride && (
+          <div style={{ marginTop: 10, display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap', fontSize: 12.5 }}>
+            {grade < 2 ? (
+              <>
+                <button onClick={() => handleOverride(2)} type="button" className="btn btn-ghost">
+                  I was right
+                </button>
+                {canAcceptAnswer(card) && typedAnswer && (
+                  <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6, color: 'var(--ink-3)' }}>
+                    <input
+                      type="checkbox"
+                      checked={acceptTyped}
+                      onChange={e => setAcceptTyped(e.target.checked)}
+                    />
+                    Accept “{typedAnswer}” next time
+                  </label>
+                )}
+              </>
+            ) : (
+              <button onClick={() => handleOverride(0)} type="button" className="btn btn-ghost">
+                Actually wrong
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Rich back-extra reveal panel */}
@@ -306,16 +357,23 @@ export default function AnswerFeedback({ card, grade, userAnswer, shuffledIndice
       </div>
 
       {/* Next button (shown when retry not needed or retry complete) */}
-      {(!needsRetry || retryComplete) && (
-        <button
-          onClick={onNext}
-          type="button"
-          className="btn btn-clay"
-          autoFocus
-        >
-          Next question
-        </button>
-      )}
+      <div style={{ display: 'flex', gap: 8 }}>
+        {(!needsRetry || retryComplete) && (
+          <button
+            onClick={onNext}
+            type="button"
+            className="btn btn-clay"
+            autoFocus
+          >
+            Next question
+          </button>
+        )}
+        {onUndo && undoOpen && (
+          <button onClick={onUndo} type="button" className="btn btn-ghost">
+            Undo answer
+          </button>
+        )}
+      </div>
     </div>
   );
 }
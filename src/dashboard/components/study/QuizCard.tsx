@@ -1,5 +1,6 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import type { Card, Settings } from '@/common/types';
+import { clozeBlank } from '@/common/parser';
 
 interface QuizCardProps {
   card: Card;
@@ -152,7 +153,7 @@ export default function QuizCard({ card, shuffledIndices, onSubmit, onSkip, onEd
                           setClozeAnswers(updated);
                         }}
                         disabled={disabled}
-                        placeholder={`blank ${idx + 1}`}
+                        placeholder={clozeBlank(part.slice(2, -2)).hint ?? `blank ${idx + 1}`}
                         style={{
                           display: 'inline-block',
                           minWidth: 130,
@@ -1,6 +1,8 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import type { Card, Deck, Grade, Settings } from '@/common/types';
-import { gradeAnswer } from '@/common/grading';
+import { checkAnswer } from '@/common/grading';
+import { clozeBlank, clozeText } from '@/common/parser';
+import { isCardDue } from '@/background/scheduler';
 import EditorialHeader from '../EditorialHeader';
 import QuizCard from './QuizCard';
 import { shuffleArray } from './utils';
@@ -46,7 +48,7 @@ function getDueCountsByDeck(cards: Card[]): Map<string, number> {
   const now = Date.now();
   const map = new Map<string, number>();
   for (const card of cards) {
-    if (card.due <= now) map.set(card.deckId, (map.get(card.deckId) || 0) + 1);
+    if (isCardDue(card, now)) map.set(card.deckId, (map.get(card.deckId) || 0) + 1);
   }
   return map;
 }
@@ -62,6 +64,16 @@ function getProgressByDeck(cards: Card[]): Map<string, { learned: number; total:
   return map;
 }
 
+function applyGrade(stats: SessionStats, grade: Grade): SessionStats {
+  const ok = grade >= 2;
+  return {
+    reviewed: stats.reviewed + 1,
+    correct: stats.correct + (ok ? 1 : 0),
+    incorrect: stats.incorrect + (ok ? 0 : 1),
+    streak: ok ? stats.streak + 1 : 0,
+  };
+}
+
 function getCardCountsByDeck(cards: Card[]): Map<string, number> {
   const map = new Map<string, number>();
   for (const card of cards) {
@@ -74,7 +86,10 @@ export default function StudySession({ decks, cards, settings, onDataChange, onS
   const [sessionState, setSessionState] = useState<SessionState>('loading');
   const [currentCard, setCurrentCard] = useState<Card | null>(null);
   const [sessionStats, setSessionStats] = useState<SessionStats>({ reviewed: 0, correct: 0, incorrect: 0, streak: 0 });
+  // Session stats from before the last answer, restored on Undo.
+  const [statsBeforeAnswer, setStatsBeforeAnswer] = useState<SessionStats | null>(null);
   const [lastGrade, setLastGrade] = useState<Grade>(0);
+  const [lastAccentsOff, setLastAccentsOff] = useState(false);
   const [lastAnswer, setLastAnswer] = useState<string | number | number[]>('');
   const [shuffledIndices, setShuffledIndices] = useState<number[]>([]);
   const [outcomes, setOutcomes] = useState<Outcome[]>([]);
@@ -174,8 +189,9 @@ export default function StudySession({ decks, cards, settings, onDataChange, onS
 
   async function handleAnswer(userAnswer: string | number | number[]) {
     if (!currentCard) return;
-    const grade = gradeAnswer(currentCard, userAnswer, settings);
+    const { grade, accentsOff } = checkAnswer(currentCard, userAnswer, settings);
     setLastGrade(grade);
+    setLastAccentsOff(accentsOff);
     setLastAnswer(userAnswer);
 
     try {
@@ -189,17 +205,54 @@ export default function StudySession({ decks, cards, settings, onDataChange, onS
       // background may be unavailable
     }
 
-    const ok = grade >= 2;
-    setOutcomes(prev => [...prev, ok ? 'right' : 'wrong']);
-    setSessionStats(prev => ({
-      reviewed: prev.reviewed + 1,
-      correct: prev.correct + (ok ? 1 : 0),
-      incorrect: prev.incorrect + (ok ? 0 : 1),
-      streak: ok ? prev.streak + 1 : 0,
-    }));
+    setStatsBeforeAnswer(sessionStats);
+    setOutcomes(prev => [...prev, grade >= 2 ? 'right' : 'wrong']);
+    setSessionStats(applyGrade(sessionStats, grade));
     setSessionState('feedback');
   }
 
+  // "I was right" / "Actually wrong": the background re-records the answer
+  // with the new grade; the session tally is recounted from before it.
+  async function handleOverride(grade: Grade, acceptAnswer?: string) {
+    if (!currentCard) return;
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'override_grade',
+        cardId: currentCard.id,
+        grade,
+        acceptAnswer,
+      });
+      if (!response?.ok || !response.data) return;
+      setCurrentCard(response.data as Card);
+    } catch {
+      return;
+    }
+    setLastGrade(grade);
+    setLastAccentsOff(false);
+    setOutcomes(prev => [...prev.slice(0, -1), grade >= 2 ? 'right' : 'wrong']);
+    if (statsBeforeAnswer) setSessionStats(applyGrade(statsBeforeAnswer, grade));
+  }
+
+  // Take the last answer back: the background restores the card's scheduling
+  // and returns it, and the card is asked again.
+  async function handleUndo() {
+    if (!currentCard) return;
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'undo_last_answer',
+        cardId: currentCard.id,
+      });
+      if (!response?.ok || !response.data) return;
+      setCurrentCard(response.data as Card);
+    } catch {
+      return;
+    }
+    setOutcomes(prev => prev.slice(0, -1));
+    if (statsBeforeAnswer) setSessionStats(statsBeforeAnswer);
+    setStatsBeforeAnswer(null);
+    setSessionState('answering');
+  }
+
   async function handleSkip() {
     if (!currentCard) return;
     try {
@@ -470,7 +523,7 @@ export default function StudySession({ decks, cards, settings, onDataChange, onS
                   {currentCard.kind === 'cloze'
                     ? currentCard.front.split(/(\{\{[^}]+\}\})/g).map((part, i) =>
                         part.startsWith('{{') && part.endsWith('}}')
-                          ? <span key={i} style={{ padding: '0 6px', margin: '0 2px', borderBottom: '2px solid var(--clay)', color: 'var(--clay-deep)', fontWeight: 600 }}>{part.slice(2, -2)}</span>
+                          ? <span key={i} style={{ padding: '0 6px', margin: '0 2px', borderBottom: '2px solid var(--clay)', color: 'var(--clay-deep)', fontWeight: 600 }}>{clozeBlank(part.slice(2, -2)).answer}</span>
                           : <span key={i}>{part}</span>
                       )
                     : currentCard.front}
@@ -479,9 +532,12 @@ export default function StudySession({ decks, cards, settings, onDataChange, onS
                 <AnswerFeedback
                   card={currentCard}
                   grade={lastGrade}
+                  accentsOff={lastAccentsOff}
                   userAnswer={lastAnswer}
                   shuffledIndices={shuffledIndices}
                   onNext={handleNext}
+                  onUndo={handleUndo}
+                  onOverride={handleOverride}
                 />
               </div>
             )}
@@ -550,7 +606,7 @@ export default function StudySession({ decks, cards, settings, onDataChange, onS
                     {String(position).padStart(2, '0')}
                   </span>
                   <span className="serif" style={{ fontSize: 14, fontWeight: 700, color: 'var(--ink)', flex: 1, minWidth: 0, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
-                    {currentCard.front.replace(/\{\{|\}\}/g, '')}
+                    {clozeText(currentCard.front)}
                   </span>
                   <span className="mono" style={{ fontSize: 10, color: 'var(--clay-deep)', textTransform: 'uppercase', letterSpacing: '.08em' }}>
                     current
@@ -13,9 +13,9 @@ interface UseNotebookAutosaveOptions {
   body: string;
   // Default 800ms - keeps the editor responsive while batching keystrokes.
   debounceMs?: number;
-  // Called every time a save completes, so the parent can refresh metadata
-  // (updatedAt) or trigger a metadata save in lockstep.
-  onAfterSave?: (notebookId: string) => void;
+  // Called every time a save completes, with the body just written, so the
+  // parent can refresh metadata (updatedAt) or act on the saved content.
+  onAfterSave?: (notebookId: string, body: string) => void;
 }
 
 interface UseNotebookAutosaveApi {
@@ -61,7 +61,7 @@ export function useNotebookAutosave({
       lastSavedRef.current = { id, body: value };
       setStatus('saved');
       setSavedAt(Date.now());
-      onAfterSaveRef.current?.(id);
+      onAfterSaveRef.current?.(id, value);
     } catch {
       setStatus('error');
     }
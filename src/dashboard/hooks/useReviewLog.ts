@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import type { ReviewRecord, Stats } from '../../common/types';
+import { getReviews } from '../../common/reviewLog';
+
+// Review records since `from` (Unix ms, inclusive), read straight from the
+// IndexedDB review log. Reloads whenever the stats object changes -- App
+// refetches stats on every storage change, and every recordReview bumps
+// totalReviews -- so views stay live without a message round-trip.
+//
+// Anything still in the legacy Stats.reviewHistory array (pre-migration, or
+// a browser without IndexedDB) is appended so the views never go blank.
+export function useReviewLog(stats: Stats | null | undefined, from?: number): ReviewRecord[] {
+  const [records, setRecords] = useState<ReviewRecord[]>([]);
+  const totalReviews = stats?.totalReviews ?? 0;
+  const legacy = stats?.reviewHistory;
+
+  useEffect(() => {
+    let cancelled = false;
+    getReviews({ from }).then(logged => {
+      if (cancelled) return;
+      const extra = (legacy ?? []).filter(r => from === undefined || r.timestamp >= from);
+      setRecords(extra.length > 0 ? [...logged, ...extra] : logged);
+    });
+    return () => { cancelled = true; };
+  }, [totalReviews, legacy, from]);
+
+  return records;
+}
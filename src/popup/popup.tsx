@@ -5,6 +5,8 @@ import type { Card, Deck, Stats, Settings, UpdateInfo } from '../common/types';
 import type { BlockedCounts } from '../content/blocker';
 import { isExtensionHost, isHostAllowed, parseRegexEntry } from '../common/allowlist';
 import DeckDropdown from '../dashboard/components/DeckDropdown';
+import { isCardDue } from '../background/scheduler';
+import { describeAllowance, scrollAllowance, type ScrollAllowance } from '../common/earnScroll';
 import './popup.css';
 
 interface PopupState {
@@ -133,7 +135,7 @@ function Popup() {
       if (cardsResponse?.ok && Array.isArray(cardsResponse.data)) {
         for (const card of cardsResponse.data as Card[]) {
           cardCounts[card.deckId] = (cardCounts[card.deckId] ?? 0) + 1;
-          if (card.due <= now) {
+          if (isCardDue(card, now)) {
             dueCounts[card.deckId] = (dueCounts[card.deckId] ?? 0) + 1;
             totalDue += 1;
           }
@@ -219,6 +221,16 @@ function Popup() {
     return domainSettings?.enabled !== false;
   }
 
+  function earnedScroll(): ScrollAllowance {
+    const today = new Date().toISOString().split('T')[0];
+    return scrollAllowance(
+      state.stats?.dailyStats.find(d => d.date === today),
+      state.currentSite,
+      state.settings?.domainSettings[state.currentSite]?.scrollBudget,
+      state.settings?.dailyQuizTarget ?? 0,
+    );
+  }
+
   function isNoteCaptureEnabled(): boolean {
     if (!state.settings || !state.currentSite) return false;
     return isHostAllowed(
@@ -358,7 +370,11 @@ function Popup() {
   const isFacebook = currentSite.includes('facebook');
   const isYouTube = currentSite.includes('youtube');
   const isInstagram = currentSite.includes('instagram');
-  const isSocialSite = isFacebook || isYouTube || isInstagram;
+  const isX = currentSite === 'x.com' || currentSite === 'twitter.com';
+  const isReddit = currentSite.includes('reddit');
+  const isLinkedIn = currentSite.includes('linkedin');
+  const isTikTok = currentSite.includes('tiktok');
+  const isSocialSite = isFacebook || isYouTube || isInstagram || isX || isReddit || isLinkedIn || isTikTok;
 
   // Blocked breakdown ordered for grid. AI rows only appear when the AI
   // quality filter is enabled so the grid stays compact for users who only
@@ -493,9 +509,12 @@ function Popup() {
             <div>
               <div className="head">{siteEnabled ? 'Quizzes enabled' : 'Quizzes paused'}</div>
               <div className="sub">
-                Every {settings?.showAfterNPosts ?? 5} posts
+                {settings?.adaptiveFrequency ? 'About every' : 'Every'} {settings?.showAfterNPosts ?? 5} posts
                 {settings?.pauseMinutesAfterQuiz ? ` · pause ${settings.pauseMinutesAfterQuiz} m` : ''}
               </div>
+              {settings?.earnYourScroll && siteEnabled && (
+                <div className="sub">{describeAllowance(earnedScroll())}</div>
+              )}
             </div>
             <button
               type="button"
@@ -508,7 +527,7 @@ function Popup() {
           <div className="site-row">
             <div>
               <div className="head" style={{ color: 'var(--ink-3)' }}>Not a feed site</div>
-              <div className="sub">Quizzes inject on Facebook, YouTube, and Instagram.</div>
+              <div className="sub">Quizzes inject on Facebook, YouTube, Instagram, X, Reddit, LinkedIn, and TikTok.</div>
             </div>
             <button type="button" className="switch" aria-pressed="false" disabled />
           </div>
@@ -622,6 +641,21 @@ function Popup() {
           {isYouTube && (
             <ToggleRow label="Shorts" checked={settings.hideYouTubeShorts} onChange={() => toggleBlockingSetting('hideYouTubeShorts')} />
           )}
+          {isX && (
+            <ToggleRow label="Promoted" checked={settings.hideXPromoted} onChange={() => toggleBlockingSetting('hideXPromoted')} />
+          )}
+          {isReddit && (
+            <ToggleRow label="Promoted" checked={settings.hideRedditPromoted} onChange={() => toggleBlockingSetting('hideRedditPromoted')} />
+          )}
+          {isLinkedIn && (
+            <>
+              <ToggleRow label="Promoted" checked={settings.hideLinkedInPromoted} onChange={() => toggleBlockingSetting('hideLinkedInPromoted')} />
+              <ToggleRow label="Videos"   checked={settings.hideLinkedInVideos}   onChange={() => toggleBlockingSetting('hideLinkedInVideos')} />
+            </>
+          )}
+          {isTikTok && (
+            <ToggleRow label="Sponsored" checked={settings.hideTikTokSponsored} onChange={() => toggleBlockingSetting('hideTikTokSponsored')} />
+          )}
           {!isSocialSite && (
             <div className="mono" style={{ fontSize: 10.5, color: 'var(--ink-4)', letterSpacing: '.06em', marginTop: 4 }}>
               Per-site toggles appear when this popup is open on a feed site.
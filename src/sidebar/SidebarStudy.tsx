@@ -1,6 +1,8 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { Card, Deck, Grade, Settings } from '@/common/types';
-import { gradeAnswer } from '@/common/grading';
+import { checkAnswer } from '@/common/grading';
+import { clozeBlank } from '@/common/parser';
+import { isCardDue } from '@/background/scheduler';
 import AnswerFeedback from '../dashboard/components/study/AnswerFeedback';
 import QuizCard from '../dashboard/components/study/QuizCard';
 import { shuffleArray } from '../dashboard/components/study/utils';
@@ -20,7 +22,7 @@ function getDueCount(cards: Card[], deckId: string | null): number {
   let n = 0;
   for (const c of cards) {
     if (deckId && c.deckId !== deckId) continue;
-    if (c.due <= now) n++;
+    if (isCardDue(c, now)) n++;
   }
   return n;
 }
@@ -36,6 +38,7 @@ export default function SidebarStudy({
   const [currentCard, setCurrentCard] = useState<Card | null>(null);
   const [shuffledIndices, setShuffledIndices] = useState<number[]>([]);
   const [lastGrade, setLastGrade] = useState<Grade>(0);
+  const [lastAccentsOff, setLastAccentsOff] = useState(false);
   const [lastAnswer, setLastAnswer] = useState<string | number | number[]>('');
   const [reviewed, setReviewed] = useState(0);
   const [correct, setCorrect] = useState(0);
@@ -92,8 +95,9 @@ export default function SidebarStudy({
 
   async function handleAnswer(userAnswer: string | number | number[]) {
     if (!currentCard) return;
-    const grade = gradeAnswer(currentCard, userAnswer, settings);
+    const { grade, accentsOff } = checkAnswer(currentCard, userAnswer, settings);
     setLastGrade(grade);
+    setLastAccentsOff(accentsOff);
     setLastAnswer(userAnswer);
     try {
       await chrome.runtime.sendMessage({
@@ -109,6 +113,44 @@ export default function SidebarStudy({
     setSessionState('feedback');
   }
 
+  async function handleUndo() {
+    if (!currentCard) return;
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'undo_last_answer',
+        cardId: currentCard.id,
+      });
+      if (!response?.ok || !response.data) return;
+      setCurrentCard(response.data as Card);
+    } catch {
+      return;
+    }
+    setReviewed(n => Math.max(0, n - 1));
+    if (lastGrade >= 2) setCorrect(n => Math.max(0, n - 1));
+    setSessionState('answering');
+  }
+
+  async function handleOverride(grade: Grade, acceptAnswer?: string) {
+    if (!currentCard) return;
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'override_grade',
+        cardId: currentCard.id,
+        grade,
+        acceptAnswer,
+      });
+      if (!response?.ok || !response.data) return;
+      setCurrentCard(response.data as Card);
+    } catch {
+      return;
+    }
+    const wasCorrect = lastGrade >= 2;
+    const isCorrect = grade >= 2;
+    if (wasCorrect !== isCorrect) setCorrect(n => Math.max(0, n + (isCorrect ? 1 : -1)));
+    setLastGrade(grade);
+    setLastAccentsOff(false);
+  }
+
   async function handleSkip() {
     if (!currentCard) return;
     try {
@@ -264,7 +306,7 @@ export default function SidebarStudy({
                           fontWeight: 600,
                         }}
                       >
-                        {part.slice(2, -2)}
+                        {clozeBlank(part.slice(2, -2)).answer}
                       </span>
                     ) : (
                       <span key={i}>{part}</span>
@@ -275,9 +317,12 @@ export default function SidebarStudy({
           <AnswerFeedback
             card={currentCard}
             grade={lastGrade}
+            accentsOff={lastAccentsOff}
             userAnswer={lastAnswer}
             shuffledIndices={shuffledIndices}
             onNext={handleNext}
+            onUndo={handleUndo}
+            onOverride={handleOverride}
           />
         </div>
       )}
@@ -7,8 +7,10 @@ import NotesPanel from '../dashboard/components/NotesPanel';
 // tab" pattern below is preserved via the notebooksMounted gate so state
 // persists once it has been opened the first time in a session.
 const NotebooksPanel = lazy(() => import('../dashboard/components/notebooks/NotebooksPanel'));
-import type { Card, Deck, Note, Notebook, Settings as SettingsType } from '../common/types';
+import type { Card, Deck, MarkdownCard, Note, Notebook, NotebookSyncOptions, NotebookSyncSummary, Settings as SettingsType } from '../common/types';
 import { DEFAULT_SETTINGS, STORAGE_KEYS } from '../common/types';
+import { getCards } from '../common/storage';
+import { isCardDue } from '../background/scheduler';
 import ChatPanel from './ChatPanel';
 import SidebarStudy from './SidebarStudy';
 import SidebarTabs from './SidebarTabs';
@@ -28,18 +30,18 @@ interface Snapshot {
   settings: SettingsType;
 }
 
-// Read everything the sidebar needs straight from chrome.storage.local. Avoids
-// waking the service worker on every refresh and lets us apply storage-event
-// payloads directly when changes arrive.
+// Read everything the sidebar needs straight from storage: cards from the
+// IndexedDB card store (the side panel shares the extension origin), the rest
+// from chrome.storage.local. Avoids waking the service worker on every
+// refresh and lets us apply storage-event payloads directly when changes
+// arrive.
 async function readSnapshot(): Promise<Snapshot> {
-  const stored = await chrome.storage.local.get([
-    STORAGE_KEYS.CARDS,
+  const [cards, stored] = await Promise.all([getCards(), chrome.storage.local.get([
     STORAGE_KEYS.DECKS,
     STORAGE_KEYS.NOTES,
     STORAGE_KEYS.NOTEBOOKS,
     STORAGE_KEYS.SETTINGS,
-  ]);
-  const cards = (stored[STORAGE_KEYS.CARDS] as Card[] | undefined) ?? [];
+  ])]);
   const decks = (stored[STORAGE_KEYS.DECKS] as Deck[] | undefined) ?? [];
   const notes = (stored[STORAGE_KEYS.NOTES] as Note[] | undefined) ?? [];
   const notebooks = (stored[STORAGE_KEYS.NOTEBOOKS] as Notebook[] | undefined) ?? [];
@@ -111,9 +113,12 @@ function SidebarApp() {
       area: string,
     ) {
       if (area !== 'local') return;
-      const cardsChange = changes[STORAGE_KEYS.CARDS];
-      if (cardsChange) {
-        setCards((cardsChange.newValue as Card[] | undefined) ?? []);
+      // Card writes only bump a revision key; the cards themselves are in
+      // IndexedDB.
+      if (changes[STORAGE_KEYS.CARDS_REVISION]) {
+        getCards()
+          .then(setCards)
+          .catch(error => console.error('[ScrollLearn:sidebar] card reload failed:', error));
       }
       const decksChange = changes[STORAGE_KEYS.DECKS];
       if (decksChange) {
@@ -162,7 +167,7 @@ function SidebarApp() {
     let n = 0;
     for (const c of cards) {
       if (activeId && c.deckId !== activeId) continue;
-      if (c.due <= now) n++;
+      if (isCardDue(c, now)) n++;
     }
     return n;
   }, [cards, settings]);
@@ -187,6 +192,16 @@ function SidebarApp() {
     await chrome.runtime.sendMessage({ type: 'move_notebook_folder', fromPath, toPath });
   }
 
+  async function handleSyncNotebookCards(
+    notebookId: string,
+    cards: MarkdownCard[],
+    options?: NotebookSyncOptions,
+  ): Promise<NotebookSyncSummary | null> {
+    const response = await chrome.runtime.sendMessage({ type: 'sync_notebook_cards', notebookId, cards, ...options });
+    if (!response?.ok) throw new Error(response?.error || 'Failed to sync notebook cards');
+    return response.data as NotebookSyncSummary | null;
+  }
+
   function openDashboard() {
     chrome.tabs.create({ url: chrome.runtime.getURL('index.html') });
   }
@@ -284,6 +299,8 @@ function SidebarApp() {
                     onSaveNotebook={handleSaveNotebook}
                     onDeleteNotebook={handleDeleteNotebook}
                     onMoveFolder={handleMoveNotebookFolder}
+                    decks={decks}
+                    onSyncCards={handleSyncNotebookCards}
                     embedded
                   />
                 </Suspense>
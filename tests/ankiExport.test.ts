@@ -0,0 +1,132 @@
+// Tests for src/common/ankiExport.ts. Packages are read back with our own
+// Anki importer, so these double as round-trip tests.
+
+import { describe, expect, it } from 'vitest';
+import { buildAnkiPackage, buildAnkiText } from '../src/common/ankiExport';
+import { parseAnkiPackage } from '../src/common/ankiImport';
+import { readSqliteTable } from '../src/common/sqliteReader';
+import { readZipEntries } from '../src/common/zipReader';
+import type { Card, ReviewRecord } from '../src/common/types';
+import { createCard, createDeck } from '../src/common/types';
+
+const NOW = Date.UTC(2026, 5, 15, 12);
+const DAY = 86_400_000;
+
+const deck = createDeck({ name: 'Spanish::Verbs', description: 'Irregulars' });
+
+function card(data: Partial<Card> & Pick<Card, 'front' | 'back'>): Card {
+  return { ...createCard({ deckId: deck.id, kind: 'text', ...data }), ...data };
+}
+
+async function packageBytes(cards: Card[], options: Parameters<typeof buildAnkiPackage>[2] = {}): Promise<Uint8Array> {
+  return new Uint8Array(await (await buildAnkiPackage(deck, cards, { now: NOW, ...options })).arrayBuffer());
+}
+
+async function collectionTable(bytes: Uint8Array, table: string) {
+  const collection = await readZipEntries(bytes).find(e => e.path === 'collection.anki21')!.read();
+  return readSqliteTable(collection, table) ?? [];
+}
+
+describe('buildAnkiText', () => {
+  it('writes headers, one row per card and Anki cloze syntax', () => {
+    const text = buildAnkiText(deck, [
+      card({ front: 'ser', back: 'to be', tags: ['verb', 'very common'], externalId: 'v-1' }),
+      card({ kind: 'cloze', front: 'Yo {{soy}} de {{Madrid}}', back: 'soy, Madrid', backExtra: '**ser** in the present' }),
+    ]);
+    const lines = text.trimEnd().split('\n');
+    expect(lines.slice(0, 6)).toEqual([
+      '#separator:tab',
+      '#html:true',
+      '#notetype column:1',
+      '#deck column:2',
+      '#guid column:3',
+      '#tags column:6',
+    ]);
+    expect(lines[6]).toBe('Basic\tSpanish::Verbs\tv-1\tser\tto be\tverb very_common');
+    const cloze = lines[7].split('\t');
+    expect(cloze.slice(0, 1)).toEqual(['Cloze']);
+    expect(cloze[3]).toBe('Yo {{c1::soy}} de {{c1::Madrid}}');
+    expect(cloze[4]).toContain('<strong>ser</strong>');
+  });
+
+  it('escapes HTML, keeps line breaks and quotes cells holding quotes', () => {
+    const text = buildAnkiText(deck, [card({ front: 'a < b', back: 'say "hi"\nthen leave', backExtra: 'more' })]);
+    expect(text.split('\n')[6]).toMatch(/^Basic\tSpanish::Verbs\t[^\t]+\ta &lt; b\t"say ""hi""<br>then leave<hr>.*more.*"\t$/);
+  });
+});
+
+describe('buildAnkiPackage', () => {
+  it('round-trips text, multiple-choice, cloze and audio cards', async () => {
+    const cards = [
+      card({ front: 'hablar', back: 'to speak', backExtra: 'regular -ar', tags: ['verb'] }),
+      card({ kind: 'mcq-single', front: 'Pick "to eat"', back: 'comer', options: ['beber', 'comer'], correct: 1 }),
+      card({ kind: 'cloze', front: '{{Hablo}} español', back: 'Hablo' }),
+      card({ kind: 'audio', front: 'Listen', back: 'gato', mediaUrl: `data:audio/mpeg;base64,${btoa('mp3-bytes')}` }),
+    ];
+    const { cards: parsed, errors } = await parseAnkiPackage(await packageBytes(cards), NOW);
+    expect(errors).toEqual([]);
+    expect(parsed.map(c => [c.kind, c.front, c.back])).toEqual([
+      ['text', 'hablar', 'to speak\nregular -ar'],
+      ['text', 'Pick "to eat"\nbeber\ncomer', 'comer'],
+      ['cloze', '{{Hablo}} español', 'Hablo'],
+      ['audio', 'Listen', 'gato'],
+    ]);
+    expect(parsed[0]).toMatchObject({ deckName: 'Spanish::Verbs', tags: ['verb'] });
+    expect(parsed[3].mediaUrl).toBe(cards[3].mediaUrl);
+    expect(parsed.every(c => c.imported === undefined)).toBe(true);
+  });
+
+  it('exports every card as new unless scheduling is kept', async () => {
+    const reviewed = card({ front: 'ir', back: 'to go', queue: 'review', due: NOW + 3 * DAY, intervalDays: 9, ease: 2.2, repetitions: 3, lapses: 1 });
+    const rows = await collectionTable(await packageBytes([reviewed]), 'cards');
+    expect(rows[0]).toMatchObject({ type: 0, queue: 0, due: 1, ivl: 0, factor: 0 });
+  });
+
+  it('keeps due dates, intervals, suspension and the review log when asked', async () => {
+    const reviewed = card({
+      front: 'ir',
+      back: 'to go',
+      queue: 'review',
+      due: NOW + 3 * DAY,
+      intervalDays: 9,
+      ease: 2.2,
+      repetitions: 2,
+      lapses: 1,
+      suspended: true,
+      flag: 'purple',
+    });
+    const reviews: ReviewRecord[] = [
+      { cardId: reviewed.id, deckId: deck.id, timestamp: NOW - 20 * DAY, grade: 0, responseTimeMs: 9000 },
+      { cardId: reviewed.id, deckId: deck.id, timestamp: NOW - 10 * DAY, grade: 2, responseTimeMs: 4000 },
+      { cardId: reviewed.id, deckId: deck.id, timestamp: NOW - 6 * DAY, grade: 3, responseTimeMs: 2500 },
+      { cardId: 'another-card', deckId: deck.id, timestamp: NOW, grade: 2, responseTimeMs: 1000 },
+    ];
+    const bytes = await packageBytes([reviewed], { includeScheduling: true, reviews });
+
+    const [row] = await collectionTable(bytes, 'cards');
+    expect(row).toMatchObject({ type: 2, queue: -1, ivl: 9, factor: 2200, reps: 3, lapses: 1, flags: 7 });
+    expect(await collectionTable(bytes, 'revlog')).toHaveLength(3);
+
+    const [parsed] = (await parseAnkiPackage(bytes, NOW)).cards;
+    expect(parsed.imported).toMatchObject({
+      queue: 'review',
+      // Anki counts review due dates in whole days.
+      due: Math.floor((NOW + 3 * DAY) / DAY) * DAY,
+      intervalDays: 9,
+      ease: 2.2,
+      lapses: 1,
+      repetitions: 2,
+      suspended: true,
+      lastReviewedAt: NOW - 6 * DAY,
+    });
+    expect(parsed.imported?.reviews?.map(r => r.grade)).toEqual([0, 2, 3]);
+  });
+
+  it('spills large decks across interior and overflow pages', async () => {
+    const cards = Array.from({ length: 400 }, (_, i) => card({ front: `word ${i}`, back: i === 7 ? 'x'.repeat(10_000) : `palabra ${i}` }));
+    const { cards: parsed } = await parseAnkiPackage(await packageBytes(cards), NOW);
+    expect(parsed).toHaveLength(400);
+    expect(parsed[7].back).toHaveLength(10_000);
+    expect(parsed[399].front).toBe('word 399');
+  });
+});
@@ -0,0 +1,116 @@
+// Tests for src/common/ankiImport.ts, and through it the zip and SQLite
+// readers. tests/fixtures/sample.apkg is built by make-anki-sample.py in the
+// same folder; see that script for exactly what the collection holds.
+
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { ankiHtmlToText, parseAnkiPackage, renderAnkiTemplate } from '../src/common/ankiImport';
+import { writeZipBlob } from '../src/common/notebookExport';
+import { readSqliteTable } from '../src/common/sqliteReader';
+import { readZipEntries } from '../src/common/zipReader';
+
+const CRT = 1_700_000_000;
+const sample = new Uint8Array(readFileSync(new URL('./fixtures/sample.apkg', import.meta.url)));
+
+async function zipBytes(entries: { path: string; content: string | Uint8Array }[]): Promise<Uint8Array> {
+  return new Uint8Array(await writeZipBlob(entries).arrayBuffer());
+}
+
+describe('ankiHtmlToText', () => {
+  it('keeps line breaks, drops tags and decodes entities', () => {
+    expect(ankiHtmlToText('<div><b>Hola</b>&nbsp;mundo</div><div>a &lt; b<br>c&#39;est</div>')).toBe("Hola mundo\na < b\nc'est");
+    expect(ankiHtmlToText('<style>.card{}</style>x')).toBe('x');
+  });
+
+  it('keeps character references beyond Unicode as written', () => {
+    expect(ankiHtmlToText('a&#99999999;b &#x110000; &#x1F600;')).toBe('a&#99999999;b &#x110000; \u{1F600}');
+  });
+});
+
+describe('renderAnkiTemplate', () => {
+  it('fills fields, honours sections and leaves FrontSide and type-in prompts empty', () => {
+    const fields = { Front: 'uno', Back: 'one', Hint: '' };
+    expect(renderAnkiTemplate('{{Front}}{{#Hint}} ({{Hint}}){{/Hint}}{{^Hint}}!{{/Hint}}', fields)).toBe('uno!');
+    expect(renderAnkiTemplate('{{FrontSide}}<hr id=answer>{{text:Back}}{{type:Back}}', fields)).toBe('<hr id=answer>one');
+  });
+});
+
+describe('parseAnkiPackage', () => {
+  it('reads every card, through interior and overflow pages', async () => {
+    const { cards, errors } = await parseAnkiPackage(sample, 5_000);
+    expect(errors).toEqual([]);
+    expect(cards).toHaveLength(66);
+    expect(cards.find(c => c.front === 'Long')?.back.endsWith('palabra399')).toBe(true);
+    expect(cards.filter(c => c.front.startsWith('filler'))).toHaveLength(60);
+  });
+
+  it('maps basic notes to text cards, one per template, as siblings', async () => {
+    const { cards } = await parseAnkiPackage(sample, 5_000);
+    const [forward, reverse] = cards;
+    expect(forward).toMatchObject({
+      kind: 'text',
+      front: 'Hola',
+      back: 'Hello there',
+      canonicalAnswers: ['hello there'],
+      tags: ['greeting', 'spanish'],
+      deckName: 'Spanish::Basics',
+      siblingGroup: 'anki-10',
+      externalId: 'g-hola:0',
+    });
+    expect(reverse).toMatchObject({ front: 'Hello there', back: 'Hola', siblingGroup: 'anki-10', externalId: 'g-hola:1' });
+    expect(reverse.imported).toBeUndefined();
+  });
+
+  it('carries over scheduling and answered reviews', async () => {
+    const [reviewed] = (await parseAnkiPackage(sample, 5_000)).cards;
+    expect(reviewed.imported).toEqual({
+      due: (CRT + 400 * 86400) * 1000,
+      intervalDays: 12,
+      ease: 2.3,
+      repetitions: 2,
+      lapses: 1,
+      queue: 'review',
+      lastReviewedAt: 1_700_600_000_000,
+      suspended: undefined,
+      reviews: [
+        { timestamp: 1_700_000_100_000, grade: 0, responseTimeMs: 8000 },
+        { timestamp: 1_700_086_500_000, grade: 2, responseTimeMs: 4000 },
+        { timestamp: 1_700_600_000_000, grade: 2, responseTimeMs: 3000 },
+      ],
+    });
+  });
+
+  it('makes one cloze card per deletion', async () => {
+    const cloze = (await parseAnkiPackage(sample, 5_000)).cards.filter(c => c.kind === 'cloze');
+    expect(cloze.map(c => c.front)).toEqual(['{{Madrid::city}} is the capital of Spain.', 'Madrid is the capital of {{Spain}}.']);
+    expect(cloze[0]).toMatchObject({ back: 'Madrid', canonicalAnswers: ['madrid'], backExtra: 'Since 1561' });
+    expect(cloze[1].imported).toMatchObject({ suspended: true, queue: 'new', due: 5_000 });
+  });
+
+  it('turns a question that plays a sound into an audio card with inline media', async () => {
+    const audio = (await parseAnkiPackage(sample, 5_000)).cards.find(c => c.kind === 'audio');
+    expect(audio?.back).toBe('gato');
+    expect(audio?.mediaUrl).toMatch(/^data:audio\/mpeg;base64,/);
+    expect(atob(audio!.mediaUrl!.split(',')[1])).toContain('fake-mp3-bytes');
+  });
+
+  it('asks for a legacy export when only the new compressed collection is present', async () => {
+    const bytes = await zipBytes([
+      { path: 'collection.anki2', content: 'placeholder' },
+      { path: 'collection.anki21b', content: 'zstd' },
+    ]);
+    await expect(parseAnkiPackage(bytes)).rejects.toThrow(/Support older Anki versions/);
+  });
+
+  it('rejects files that are not zips', async () => {
+    await expect(parseAnkiPackage(new TextEncoder().encode('front,back'))).rejects.toThrow(/Not a zip/);
+  });
+});
+
+describe('readSqliteTable', () => {
+  it('returns null for a missing table', async () => {
+    const collection = await readZipEntries(sample).find(e => e.path === 'collection.anki2')!.read();
+    expect(readSqliteTable(collection, 'graves')).toBeNull();
+    expect(readSqliteTable(collection, 'col')?.[0].crt).toBe(CRT);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  BACKUP_VERSION,
+  collectBackup,
+  readBackupArchive,
+  restoreBackup,
+  writeBackupArchive,
+  type BackupData,
+} from '../src/common/backup';
+import {
+  getCards,
+  getDecks,
+  getNotes,
+  getSettings,
+  getStats,
+  saveCards,
+  saveDecks,
+  saveNotes,
+  saveSettings,
+} from '../src/common/storage';
+import { writeZipBlob } from '../src/common/notebookExport';
+import { createCard, createDeck, createNote, DEFAULT_SETTINGS } from '../src/common/types';
+import type { Card, ReviewRecord } from '../src/common/types';
+
+// Minimal in-memory chrome.storage.local mock. There is no IndexedDB under
+// node, so cards and the review log fall back to chrome.storage here.
+function installChromeMock() {
+  const store: Record<string, unknown> = {};
+  (globalThis as unknown as { chrome: unknown }).chrome = {
+    storage: {
+      local: {
+        get: async (key: string | string[]) => {
+          const keys = Array.isArray(key) ? key : [key];
+          const out: Record<string, unknown> = {};
+          for (const k of keys) {
+            if (k in store) out[k] = store[k];
+          }
+          return out;
+        },
+        set: async (entries: Record<string, unknown>) => {
+          Object.assign(store, entries);
+        },
+        remove: async (key: string | string[]) => {
+          const keys = Array.isArray(key) ? key : [key];
+          for (const k of keys) delete store[k];
+        },
+        clear: async () => {
+          for (const k of Object.keys(store)) delete store[k];
+        },
+      },
+    },
+  };
+  return store;
+}
+
+async function archiveBytes(data: BackupData): Promise<Uint8Array> {
+  return new Uint8Array(await (await writeBackupArchive(data, { now: 1_700_000_000_000 })).arrayBuffer());
+}
+
+function card(deckId: string, front: string, updatedAt = 1000): Card {
+  return { ...createCard({ deckId, kind: 'text', front, back: front.toUpperCase() }), updatedAt };
+}
+
+describe('backup archive', () => {
+  it('round-trips every section, including attachment and audio blobs', async () => {
+    const deck = createDeck({ name: 'Spanish', description: '' });
+    const review: ReviewRecord = { cardId: 'c1', deckId: deck.id, timestamp: 5, grade: 2, responseTimeMs: 900 };
+    const data: BackupData = {
+      decks: { decks: [deck], cards: [card(deck.id, 'hola')], reviews: [review] },
+      settings: { ...DEFAULT_SETTINGS, showAfterNPosts: 42 },
+      notes: [createNote({ text: 'captured', url: 'https://example.com', pageTitle: 'Example', domain: 'example.com' })],
+      notebooks: {
+        notebooks: [{ id: 'nb1', title: 'Grammar', folderPath: '', tags: [], properties: {}, createdAt: 1, updatedAt: 2 }],
+        bodies: [{ id: 'nb1', markdown: '# Ser vs estar', updatedAt: 2 }],
+        attachments: [{
+          id: 'att1',
+          notebookId: 'nb1',
+          mime: 'image/png',
+          filename: 'chart.png',
+          blob: new Blob([new Uint8Array([137, 80, 78, 71])], { type: 'image/png' }),
+          byteLength: 4,
+          createdAt: 3,
+        }],
+      },
+      ipa: { progress: { 'æ': { correct: 3, total: 4, lastSeen: 10 } }, stats: { practiceDates: ['2026-01-01'] } },
+      ttsCache: [{
+        key: 'k1',
+        blob: new Blob(['mp3'], { type: 'audio/mpeg' }),
+        mimeType: 'audio/mpeg',
+        byteLength: 3,
+        providerId: 'kokoro',
+        voice: 'af_heart',
+        text: 'hola',
+        createdAt: 1,
+        lastUsedAt: 2,
+      }],
+    };
+
+    const { manifest, data: restored } = await readBackupArchive(await archiveBytes(data));
+    expect(manifest).toMatchObject({ app: 'scrolllearn', version: BACKUP_VERSION, createdAt: 1_700_000_000_000 });
+    expect(manifest.sections).toEqual({ decks: 1, settings: 1, notes: 1, notebooks: 1, ipa: 1, ttsCache: 1 });
+
+    expect(restored.decks).toEqual(data.decks);
+    expect(restored.settings?.showAfterNPosts).toBe(42);
+    expect(restored.notebooks?.bodies).toEqual(data.notebooks!.bodies);
+    const attachment = restored.notebooks!.attachments[0];
+    expect(attachment).toMatchObject({ id: 'att1', filename: 'chart.png' });
+    expect([...new Uint8Array(await attachment.blob.arrayBuffer())]).toEqual([137, 80, 78, 71]);
+    expect(attachment.blob.type).toBe('image/png');
+    expect(await restored.ttsCache![0].blob.text()).toBe('mp3');
+  });
+
+  it('upgrades a plain JSON export from before backups had a manifest', async () => {
+    const deck = createDeck({ name: 'French', description: '' });
+    const legacy = {
+      decks: [deck],
+      cards: [card(deck.id, 'bonjour'), card('orphan-deck', 'merci')],
+      settings: DEFAULT_SETTINGS,
+    };
+    const { manifest, data } = await readBackupArchive(new TextEncoder().encode(JSON.stringify(legacy)));
+    expect(manifest.version).toBe(BACKUP_VERSION);
+    expect(manifest.sections).toEqual({ decks: 2, settings: 1 });
+    expect(data.decks!.decks.map(d => d.id)).toEqual([deck.id, 'orphan-deck']);
+  });
+
+  it('refuses archives from a newer format and files that are not backups', async () => {
+    const newer = writeZipBlob([{ path: 'manifest.json', content: JSON.stringify({ app: 'scrolllearn', version: BACKUP_VERSION + 1, createdAt: 0, sections: {} }) }]);
+    await expect(readBackupArchive(new Uint8Array(await newer.arrayBuffer()))).rejects.toThrow(/newer version/);
+    await expect(readBackupArchive(new TextEncoder().encode('not json'))).rejects.toThrow(/Not a ScrollLearn backup/);
+  });
+});
+
+describe('restoreBackup', () => {
+  beforeEach(() => {
+    installChromeMock();
+  });
+
+  it('merges by id, keeping whichever copy was updated later', async () => {
+    const deck = createDeck({ name: 'Spanish', description: '' });
+    const kept = card(deck.id, 'local newer', 2000);
+    const stale = { ...kept, front: 'backup older', updatedAt: 1000 };
+    const fresh = card(deck.id, 'only in backup');
+    await saveDecks([deck]);
+    await saveCards([kept]);
+    await saveSettings({ ...DEFAULT_SETTINGS, showAfterNPosts: 7 });
+
+    const restored = await restoreBackup(
+      {
+        decks: { decks: [deck], cards: [stale, fresh], reviews: [{ cardId: fresh.id, deckId: deck.id, timestamp: 9, grade: 3, responseTimeMs: 1 }] },
+        settings: { ...DEFAULT_SETTINGS, showAfterNPosts: 30 },
+        notes: [createNote({ text: 'from backup', url: 'u', pageTitle: 't', domain: 'd' })],
+      },
+      { decks: 'merge', settings: 'merge' },
+    );
+
+    expect(restored).toEqual(['settings', 'decks']);
+    expect((await getCards()).map(c => c.front).sort()).toEqual(['local newer', 'only in backup']);
+    expect((await getStats()).reviewHistory).toHaveLength(1);
+    expect((await getSettings()).showAfterNPosts).toBe(30);
+    expect(await getNotes()).toEqual([]);
+  });
+
+  it('replaces a section outright', async () => {
+    const deck = createDeck({ name: 'Spanish', description: '' });
+    await saveDecks([deck, createDeck({ name: 'Local only', description: '' })]);
+    await saveNotes([createNote({ text: 'local note', url: 'u', pageTitle: 't', domain: 'd' })]);
+
+    await restoreBackup({ decks: { decks: [deck], cards: [], reviews: [] }, notes: [] }, { decks: 'replace', notes: 'replace' });
+
+    expect((await getDecks()).map(d => d.name)).toEqual(['Spanish']);
+    expect(await getNotes()).toEqual([]);
+  });
+
+  it('round-trips the collected data of a profile into an empty one', async () => {
+    const deck = createDeck({ name: 'German', description: '' });
+    await saveDecks([deck]);
+    await saveCards([card(deck.id, 'danke')]);
+    const bytes = await archiveBytes(await collectBackup());
+
+    installChromeMock();
+    const { data } = await readBackupArchive(bytes);
+    await restoreBackup(data, { decks: 'merge', settings: 'replace' });
+
+    expect((await getDecks()).map(d => d.name)).toEqual(['German']);
+    expect((await getCards()).map(c => c.front)).toEqual(['danke']);
+  });
+});
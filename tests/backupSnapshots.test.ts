@@ -0,0 +1,139 @@
+// Tests for src/common/backupSnapshots.ts.
+//
+// Same approach as audioCache.test.ts: a minimal in-memory IndexedDB shim
+// covering get/getAll/put/delete on a single keyPath store. Snapshots are
+// saved directly rather than through takeSnapshot, which would also read
+// the card store and review log through this shim.
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../src/common/types';
+
+interface FakeRequest<T = unknown> {
+  result: T;
+  error: Error | null;
+  onsuccess: ((this: FakeRequest<T>, ev: Event) => unknown) | null;
+  onerror: ((this: FakeRequest<T>, ev: Event) => unknown) | null;
+  onupgradeneeded?: ((this: FakeRequest<T>, ev: Event) => unknown) | null;
+}
+
+let storeData: Map<number, Record<string, unknown>> = new Map();
+
+function makeRequest<T>(value: T): FakeRequest<T> {
+  const req: FakeRequest<T> = { result: value, error: null, onsuccess: null, onerror: null };
+  queueMicrotask(() => {
+    req.onsuccess?.call(req, new Event('success'));
+  });
+  return req;
+}
+
+function makeStore() {
+  return {
+    get: (key: number) => makeRequest(storeData.get(key)),
+    getAll: () => makeRequest(Array.from(storeData.values())),
+    put(value: Record<string, unknown> & { id: number }) {
+      storeData.set(value.id, value);
+      return makeRequest(value.id);
+    },
+    delete(key: number) {
+      storeData.delete(key);
+      return makeRequest(undefined);
+    },
+  };
+}
+
+function makeTransaction() {
+  const tx = {
+    objectStore: () => makeStore(),
+    oncomplete: null as ((ev: Event) => unknown) | null,
+    onerror: null,
+    onabort: null,
+    error: null,
+  };
+  // Fire after the request microtasks have drained.
+  setTimeout(() => tx.oncomplete?.(new Event('complete')), 0);
+  return tx;
+}
+
+function installFakeIndexedDB(): void {
+  const db = {
+    objectStoreNames: { contains: () => true },
+    createObjectStore: () => makeStore(),
+    transaction: () => makeTransaction(),
+  };
+  const fakeIndexedDB = {
+    open() {
+      const req: FakeRequest<typeof db> = { result: db, error: null, onsuccess: null, onerror: null, onupgradeneeded: null };
+      queueMicrotask(() => {
+        req.onupgradeneeded?.call(req, new Event('upgradeneeded'));
+        queueMicrotask(() => req.onsuccess?.call(req, new Event('success')));
+      });
+      return req;
+    },
+  };
+  // @ts-expect-error -- Node has no IDB type binding.
+  globalThis.indexedDB = fakeIndexedDB;
+}
+
+function uninstallFakeIndexedDB(): void {
+  // @ts-expect-error -- see installFakeIndexedDB.
+  delete globalThis.indexedDB;
+}
+
+async function loadSnapshots() {
+  const mod = await import('../src/common/backupSnapshots');
+  mod.resetDbHandle();
+  return mod;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function snapshot(createdAt: number) {
+  return { id: createdAt, createdAt, byteLength: 3, sections: { decks: 1 }, blob: new Blob(['zip']) };
+}
+
+describe('backupSnapshots', () => {
+  beforeEach(() => {
+    storeData = new Map();
+    installFakeIndexedDB();
+  });
+
+  afterEach(() => {
+    uninstallFakeIndexedDB();
+  });
+
+  it('lists snapshots newest first without their archives', async () => {
+    const snapshots = await loadSnapshots();
+    await snapshots.saveSnapshot(snapshot(1 * DAY));
+    await snapshots.saveSnapshot(snapshot(3 * DAY));
+    await snapshots.saveSnapshot(snapshot(2 * DAY));
+
+    const list = await snapshots.listSnapshots();
+    expect(list.map(s => s.createdAt)).toEqual([3 * DAY, 2 * DAY, 1 * DAY]);
+    expect(list[0]).not.toHaveProperty('blob');
+    expect(await (await snapshots.getSnapshot(2 * DAY))!.blob.text()).toBe('zip');
+    expect(await snapshots.getSnapshot(9 * DAY)).toBeNull();
+  });
+
+  it('prunes down to the newest snapshots', async () => {
+    const snapshots = await loadSnapshots();
+    for (let day = 1; day <= 10; day++) await snapshots.saveSnapshot(snapshot(day * DAY));
+
+    expect(await snapshots.pruneSnapshots(7)).toBe(3);
+    expect((await snapshots.listSnapshots()).map(s => s.createdAt / DAY)).toEqual([10, 9, 8, 7, 6, 5, 4]);
+    expect(await snapshots.pruneSnapshots(7)).toBe(0);
+  });
+
+  it('is due a day after the latest snapshot, give or take an hour', async () => {
+    const { snapshotDue } = await loadSnapshots();
+    const latest = [{ id: 0, createdAt: 10 * DAY, byteLength: 0, sections: {} }];
+    expect(snapshotDue([], 10 * DAY)).toBe(true);
+    expect(snapshotDue(latest, 10 * DAY + 12 * 60 * 60 * 1000)).toBe(false);
+    expect(snapshotDue(latest, 11 * DAY - 30 * 60 * 1000)).toBe(true);
+  });
+
+  it('takes no scheduled snapshot when automatic backups are off', async () => {
+    const snapshots = await loadSnapshots();
+    expect(await snapshots.runScheduledSnapshot({ ...DEFAULT_SETTINGS, autoBackupEnabled: false })).toBeNull();
+    expect(storeData.size).toBe(0);
+  });
+});
@@ -0,0 +1,359 @@
+// Tests for src/common/cardStore.ts and the card migration in storage.ts.
+//
+// Same approach as reviewLog.test.ts: a minimal in-memory IndexedDB shim
+// instead of fake-indexeddb. The card store is keyed by id and queries the
+// deckId and due indexes, so the shim keeps rows in a Map and evaluates
+// indexes by walking it.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Card } from '../src/common/types';
+import { STORAGE_KEYS } from '../src/common/types';
+
+interface FakeRange {
+  lower?: number;
+  upper?: number;
+  lowerOpen: boolean;
+  upperOpen: boolean;
+}
+
+interface FakeRequest<T = unknown> {
+  result: T;
+  error: Error | null;
+  onsuccess: ((this: FakeRequest<T>, ev: Event) => unknown) | null;
+  onerror: ((this: FakeRequest<T>, ev: Event) => unknown) | null;
+  onupgradeneeded?: ((this: FakeRequest<T>, ev: Event) => unknown) | null;
+}
+
+type Row = Record<string, unknown> & { id: string };
+
+let rows = new Map<string, Row>();
+
+function makeRequest<T>(value: T): FakeRequest<T> {
+  const req: FakeRequest<T> = { result: value, error: null, onsuccess: null, onerror: null };
+  queueMicrotask(() => {
+    req.onsuccess?.call(req, new Event('success'));
+  });
+  return req;
+}
+
+function matches(value: unknown, query: unknown): boolean {
+  if (query === undefined) return true;
+  if (typeof query !== 'object' || query === null) return value === query;
+  const r = query as FakeRange;
+  const v = value as number;
+  if (r.lower !== undefined && (r.lowerOpen ? v <= r.lower : v < r.lower)) return false;
+  if (r.upper !== undefined && (r.upperOpen ? v >= r.upper : v > r.upper)) return false;
+  return true;
+}
+
+function indexRows(keyPath: string, query?: unknown, count?: number): Row[] {
+  // Real IndexedDB declares count as [EnforceRange] unsigned long
+  if (count !== undefined && !Number.isFinite(count)) {
+    throw new TypeError(`Failed to execute 'getAll' on 'IDBIndex': Value is not of type 'unsigned long'.`);
+  }
+  const out = [...rows.values()]
+    .filter(r => matches(r[keyPath], query))
+    .sort((a, b) => (a[keyPath] as number) - (b[keyPath] as number));
+  return count === undefined ? out : out.slice(0, count);
+}
+
+function makeStore() {
+  return {
+    get(key: string) {
+      const row = rows.get(key);
+      return makeRequest(row ? { ...row } : undefined);
+    },
+    getAll() {
+      return makeRequest([...rows.values()].map(r => ({ ...r })));
+    },
+    getAllKeys() {
+      return makeRequest([...rows.keys()]);
+    },
+    put(value: Row) {
+      rows.set(value.id, { ...value });
+      return makeRequest(value.id);
+    },
+    delete(key: string) {
+      rows.delete(key);
+      return makeRequest(undefined);
+    },
+    clear() {
+      rows = new Map();
+      return makeRequest(undefined);
+    },
+    count() {
+      return makeRequest(rows.size);
+    },
+    createIndex() { /* indexes are evaluated on read */ },
+    index(name: string) {
+      return {
+        getAll: (query?: unknown, count?: number) =>
+          makeRequest(indexRows(name, query, count).map(r => ({ ...r }))),
+        getAllKeys: (query?: unknown) => makeRequest(indexRows(name, query).map(r => r.id)),
+        count: (query?: unknown) => makeRequest(indexRows(name, query).length),
+        openCursor: (query?: unknown) => {
+          const list = indexRows(name, query);
+          const req: FakeRequest<{ value: Row; continue: () => void } | null> = {
+            result: null, error: null, onsuccess: null, onerror: null,
+          };
+          let i = 0;
+          const step = () => queueMicrotask(() => {
+            req.result = i < list.length ? { value: { ...list[i] }, continue: () => { i++; step(); } } : null;
+            req.onsuccess?.call(req, new Event('success'));
+          });
+          step();
+          return req;
+        },
+      };
+    },
+  };
+}
+
+function makeTransaction() {
+  const tx = {
+    objectStore: () => makeStore(),
+    oncomplete: null as ((ev: Event) => unknown) | null,
+    onerror: null,
+    onabort: null,
+    error: null,
+  };
+  setTimeout(() => tx.oncomplete?.(new Event('complete')), 0);
+  return tx;
+}
+
+function installFakeIndexedDB(): void {
+  const db = {
+    objectStoreNames: { contains: () => false },
+    createObjectStore: () => makeStore(),
+    transaction: () => makeTransaction(),
+  };
+  const fakeIndexedDB = {
+    open() {
+      const req: FakeRequest<typeof db> = {
+        result: db,
+        error: null,
+        onsuccess: null,
+        onerror: null,
+        onupgradeneeded: null,
+      };
+      queueMicrotask(() => {
+        req.onupgradeneeded?.call(req, new Event('upgradeneeded'));
+        queueMicrotask(() => req.onsuccess?.call(req, new Event('success')));
+      });
+      return req;
+    },
+  };
+  const fakeKeyRange = {
+    upperBound: (upper: number, open = false): FakeRange => ({ upper, lowerOpen: false, upperOpen: open }),
+  };
+
+  // @ts-expect-error -- patching the Node global for the duration of tests.
+  globalThis.indexedDB = fakeIndexedDB;
+  // @ts-expect-error -- see above.
+  globalThis.IDBKeyRange = fakeKeyRange;
+}
+
+function uninstallFakeIndexedDB(): void {
+  // @ts-expect-error -- see installFakeIndexedDB.
+  delete globalThis.indexedDB;
+  // @ts-expect-error -- see installFakeIndexedDB.
+  delete globalThis.IDBKeyRange;
+}
+
+// Same shape as the chrome.storage.local mock in keywordGroups.test.ts.
+function installChromeMock(): Record<string, unknown> {
+  const store: Record<string, unknown> = {};
+  (globalThis as unknown as { chrome: unknown }).chrome = {
+    storage: {
+      local: {
+        get: async (key: string | string[]) => {
+          const keys = Array.isArray(key) ? key : [key];
+          const out: Record<string, unknown> = {};
+          for (const k of keys) {
+            if (k in store) out[k] = store[k];
+          }
+          return out;
+        },
+        set: async (entries: Record<string, unknown>) => {
+          Object.assign(store, entries);
+        },
+        remove: async (key: string | string[]) => {
+          const keys = Array.isArray(key) ? key : [key];
+          for (const k of keys) delete store[k];
+        },
+        clear: async () => {
+          for (const k of Object.keys(store)) delete store[k];
+        },
+      },
+    },
+  };
+  return store;
+}
+
+function card(id: string, deckId: string, due: number, extra: Partial<Card> = {}): Card {
+  return {
+    id,
+    deckId,
+    kind: 'text',
+    front: id,
+    back: id,
+    due,
+    intervalDays: 0,
+    ease: 2.5,
+    repetitions: 0,
+    lapses: 0,
+    createdAt: 0,
+    updatedAt: 0,
+    ...extra,
+  };
+}
+
+const ids = (cards: Card[]) => cards.map(c => c.id).sort();
+
+// Fresh modules per test: storage.ts memoises the migration per context.
+async function loadStore() {
+  vi.resetModules();
+  const mod = await import('../src/common/cardStore');
+  mod.resetDbHandle();
+  return mod;
+}
+
+async function loadStorage() {
+  vi.resetModules();
+  return import('../src/common/storage');
+}
+
+describe('cardStore', () => {
+  beforeEach(() => {
+    rows = new Map();
+    installFakeIndexedDB();
+  });
+  afterEach(() => {
+    uninstallFakeIndexedDB();
+  });
+
+  it('stores cards by id and replaces on put', async () => {
+    const store = await loadStore();
+    await store.putCards([card('a', 'd1', 1), card('b', 'd1', 2)]);
+    await store.putCards([card('a', 'd1', 1, { front: 'edited' })]);
+    expect(await store.countCards()).toBe(2);
+    expect((await store.getCard('a'))?.front).toBe('edited');
+    expect(await store.getCard('missing')).toBeUndefined();
+  });
+
+  it('lists a deck through the deckId index', async () => {
+    const store = await loadStore();
+    await store.putCards([card('a', 'd1', 1), card('b', 'd2', 2), card('c', 'd1', 3)]);
+    expect(ids(await store.getCardsForDeck('d1'))).toEqual(['a', 'c']);
+    await store.deleteCardsForDeck('d1');
+    expect(ids(await store.getAllCards())).toEqual(['b']);
+  });
+
+  it('returns due cards most overdue first, up to the limit', async () => {
+    const store = await loadStore();
+    await store.putCards([card('late', 'd1', 30), card('early', 'd1', 10), card('future', 'd1', 500), card('mid', 'd1', 20)]);
+    expect((await store.getDueCards(100)).map(c => c.id)).toEqual(['early', 'mid', 'late']);
+    expect((await store.getDueCards(100, 2)).map(c => c.id)).toEqual(['early', 'mid']);
+  });
+
+  it('counts due cards, optionally filtered', async () => {
+    const store = await loadStore();
+    await store.putCards([card('a', 'd1', 10), card('b', 'd2', 20), card('future', 'd1', 500)]);
+    expect(await store.countDueCards(100)).toBe(2);
+    expect(await store.countDueCards(100, c => c.deckId === 'd2')).toBe(1);
+  });
+
+  it('updates only the cards that exist', async () => {
+    const store = await loadStore();
+    await store.putCards([card('a', 'd1', 1), card('b', 'd1', 2)]);
+    const updated = await store.updateCards(['a', 'ghost'], c => ({ ...c, suspended: true }));
+    expect(updated.map(c => c.id)).toEqual(['a']);
+    expect((await store.getCard('a'))?.suspended).toBe(true);
+    expect((await store.getCard('b'))?.suspended).toBeUndefined();
+  });
+
+  it('addMissingCards leaves existing rows untouched', async () => {
+    const store = await loadStore();
+    await store.putCards([card('a', 'd1', 1, { front: 'kept' })]);
+    const added = await store.addMissingCards([card('a', 'd1', 1, { front: 'stale' }), card('b', 'd1', 2)]);
+    expect(added).toBe(1);
+    expect((await store.getCard('a'))?.front).toBe('kept');
+    expect(await store.countCards()).toBe(2);
+  });
+
+  it('replaceAllCards swaps the whole collection', async () => {
+    const store = await loadStore();
+    await store.putCards([card('a', 'd1', 1), card('b', 'd1', 2)]);
+    await store.replaceAllCards([card('c', 'd2', 3)]);
+    expect(ids(await store.getAllCards())).toEqual(['c']);
+  });
+});
+
+describe('card storage migration', () => {
+  let chromeStore: Record<string, unknown>;
+
+  beforeEach(() => {
+    rows = new Map();
+    installFakeIndexedDB();
+    chromeStore = installChromeMock();
+  });
+  afterEach(() => {
+    uninstallFakeIndexedDB();
+  });
+
+  it('moves the legacy array into the store before the first read', async () => {
+    chromeStore[STORAGE_KEYS.CARDS] = [card('a', 'd1', 1), card('b', 'd2', 2)];
+    const storage = await loadStorage();
+    expect(ids(await storage.getCards('d1'))).toEqual(['a']);
+    expect(rows.size).toBe(2);
+    expect(STORAGE_KEYS.CARDS in chromeStore).toBe(false);
+    expect(chromeStore[STORAGE_KEYS.CARDS_REVISION]).toEqual(expect.any(Number));
+  });
+
+  it('writes single cards without touching chrome.storage card data', async () => {
+    const storage = await loadStorage();
+    await storage.saveCard(card('a', 'd1', 1));
+    await storage.updateCards(['a'], c => ({ ...c, flag: 'red' }));
+    expect((await storage.getCard('a'))?.flag).toBe('red');
+    expect(STORAGE_KEYS.CARDS in chromeStore).toBe(false);
+    await storage.deleteCard('a');
+    expect(await storage.getCards()).toEqual([]);
+  });
+
+  it('reads every due card when asked for no limit', async () => {
+    const storage = await loadStorage();
+    await storage.batchImportCards([card('a', 'd1', 1), card('b', 'd1', 2), card('later', 'd1', 999_999_999_999_999)]);
+    expect((await storage.getDueCards(Number.POSITIVE_INFINITY)).map(c => c.id)).toEqual(['a', 'b']);
+  });
+
+  it('looks ahead past now when asked', async () => {
+    const storage = await loadStorage();
+    const soon = Date.now() + 60_000;
+    await storage.batchImportCards([card('a', 'd1', 1), card('soon', 'd1', soon), card('later', 'd1', soon + 3_600_000)]);
+    expect((await storage.getDueCards(100)).map(c => c.id)).toEqual(['a']);
+    expect((await storage.getDueCards(100, soon)).map(c => c.id)).toEqual(['a', 'soon']);
+  });
+
+  it('paces the adaptive quiz gap by the due cards in the store', async () => {
+    vi.resetModules();
+    const { nextQuizGap } = await import('../src/background/quizFrequency');
+    const storage = await import('../src/common/storage');
+    const due = Array.from({ length: 120 }, (_, i) => card(`c${i}`, 'd1', i + 1));
+    await storage.batchImportCards([...due, card('held', 'd1', 1, { suspended: true })]);
+
+    chromeStore[STORAGE_KEYS.SETTINGS] = { showAfterNPosts: 10, adaptiveFrequency: true, dailyQuizTarget: 30 };
+    expect(await nextQuizGap(c => !c.suspended)).toBe(5);
+
+    chromeStore[STORAGE_KEYS.SETTINGS] = { showAfterNPosts: 10, adaptiveFrequency: false };
+    expect(await nextQuizGap(c => !c.suspended)).toBe(10);
+  });
+
+  it('falls back to the chrome.storage array without IndexedDB', async () => {
+    uninstallFakeIndexedDB();
+    const storage = await loadStorage();
+    await storage.batchImportCards([card('a', 'd1', 1), card('b', 'd1', 999_999_999_999_999)]);
+    expect(await storage.migrateCards()).toBe(0);
+    expect((chromeStore[STORAGE_KEYS.CARDS] as Card[]).length).toBe(2);
+    expect((await storage.getDueCards()).map(c => c.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,85 @@
+// @vitest-environment jsdom
+
+import { describe, it, expect } from 'vitest';
+import {
+  customSiteMatchPatterns,
+  customSiteMatches,
+  findCustomSite,
+  normalizeSiteHost,
+  validateCustomSite,
+} from '../src/common/customSites';
+import { createCustomDetector, previewCustomSitePosts } from '../src/content/custom';
+import type { CustomSite } from '../src/common/types';
+
+function site(overrides: Partial<CustomSite> = {}): CustomSite {
+  return {
+    id: 's1',
+    name: 'Mastodon',
+    host: 'mastodon.social',
+    postSelector: 'article.status',
+    postIdAttribute: 'data-id',
+    insertion: 'post',
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe('custom sites', () => {
+  it('reads a host out of whatever was pasted', () => {
+    expect(normalizeSiteHost('https://www.Example.com/feed')).toBe('example.com');
+    expect(normalizeSiteHost('*.example.com')).toBe('example.com');
+  });
+
+  it('matches the host and its subdomains only', () => {
+    expect(customSiteMatches(site(), 'mastodon.social')).toBe(true);
+    expect(customSiteMatches(site(), 'www.mastodon.social')).toBe(true);
+    expect(customSiteMatches(site(), 'notmastodon.social')).toBe(false);
+  });
+
+  it('explains what is wrong with a site', () => {
+    expect(validateCustomSite(site())).toBeNull();
+    expect(validateCustomSite(site({ host: 'localhost' }))).toMatch(/host/);
+    expect(validateCustomSite(site({ postSelector: 'article[' }))).toMatch(/not valid CSS/);
+    expect(validateCustomSite(site({ postIdAttribute: 'data id' }))).toMatch(/attribute/);
+  });
+
+  it('skips disabled and broken sites', () => {
+    const sites = [site({ id: 'off', enabled: false }), site({ id: 'bad', postSelector: '' }), site({ id: 'ok' })];
+    expect(findCustomSite(sites, 'mastodon.social')?.id).toBe('ok');
+    expect(customSiteMatchPatterns(sites)).toEqual(['https://*.mastodon.social/*']);
+    expect(customSiteMatchPatterns([site({ enabled: false })])).toEqual([]);
+  });
+});
+
+describe('createCustomDetector', () => {
+  it('takes ids from the attribute, inside the post too, or from the first link', () => {
+    document.body.innerHTML = `
+      <article class="status" data-id="101"></article>
+      <article class="status"><div data-id="102"></div></article>
+      <article class="status"><a href="/@ana/103">post</a></article>`;
+    const [first, second, third] = document.querySelectorAll('article');
+
+    const detector = createCustomDetector(site());
+    expect(detector.domain.test('mastodon.social')).toBe(true);
+    expect([first, second].map(post => detector.getPostId(post))).toEqual(['custom-101', 'custom-102']);
+    expect(detector.getPostId(third)).toBeNull();
+    expect(createCustomDetector(site({ postIdAttribute: '' })).getPostId(third)).toBe('custom-/@ana/103');
+  });
+
+  it('anchors after the wrapper when asked', () => {
+    document.body.innerHTML = '<div class="row"><article class="status"></article></div>';
+    const post = document.querySelector('article')!;
+    expect(createCustomDetector(site({ insertion: 'parent' })).getInsertionPoint(post)).toBe(post.parentElement);
+  });
+});
+
+describe('previewCustomSitePosts', () => {
+  it('counts outermost matches and outlines them', () => {
+    document.body.innerHTML = `
+      <div class="post" data-id="1"><div class="post"></div></div>
+      <div class="post"></div>`;
+    const preview = previewCustomSitePosts('.post', 'data-id');
+    expect(preview).toEqual({ matched: 2, withId: 1, sampleIds: ['1'] });
+    expect((document.querySelector('.post') as HTMLElement).style.outline).toContain('solid');
+  });
+});
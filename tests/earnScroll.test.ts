@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { describeAllowance, isScrollGated, scrollAllowance } from '../src/common/earnScroll';
+
+const budget = { screens: 10, perCorrect: 2 };
+
+describe('scrollAllowance', () => {
+  it('starts the day with one allowance and adds one per few correct answers', () => {
+    const fresh = scrollAllowance(undefined, 'reddit.com', budget, 20);
+    expect(fresh).toMatchObject({ allowed: 10, spent: 0, left: 10, correctToNext: 2 });
+
+    const earned = scrollAllowance({ reviews: 6, correct: 5, scrollScreens: { 'reddit.com': 12.5 } }, 'reddit.com', budget, 20);
+    expect(earned).toMatchObject({ allowed: 30, spent: 12.5, left: 17.5, correctToNext: 1 });
+  });
+
+  it('counts each site separately', () => {
+    const today = { reviews: 0, correct: 0, scrollScreens: { 'x.com': 10 } };
+    expect(isScrollGated(scrollAllowance(today, 'x.com', budget, 20))).toBe(true);
+    expect(isScrollGated(scrollAllowance(today, 'reddit.com', budget, 20))).toBe(false);
+  });
+
+  it('stops gating once the daily goal is met', () => {
+    const allowance = scrollAllowance({ reviews: 20, correct: 2, scrollScreens: { 'x.com': 99 } }, 'x.com', undefined, 20);
+    expect(allowance.left).toBe(Infinity);
+    expect(isScrollGated(allowance)).toBe(false);
+    expect(describeAllowance(allowance)).toBe('Goal met · scroll freely');
+  });
+
+  it('says how to earn more when out', () => {
+    const out = scrollAllowance({ reviews: 3, correct: 1, scrollScreens: { 'x.com': 10 } }, 'x.com', budget, 20);
+    expect(describeAllowance(out)).toBe('Out of scroll · 1 correct to earn more');
+    const some = scrollAllowance({ reviews: 0, correct: 0, scrollScreens: { 'x.com': 6.2 } }, 'x.com', budget, 20);
+    expect(describeAllowance(some)).toBe('4 of 10 screens left');
+  });
+});
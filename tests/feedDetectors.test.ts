@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+//
+// Post ids and domain matching for the X, Reddit, LinkedIn and TikTok
+// detectors, on trimmed-down copies of each site's markup. Layout checks
+// (isValidPost) need real boxes and aren't covered here.
+
+import { describe, it, expect } from 'vitest';
+import { xDetector } from '../src/content/twitter';
+import { redditDetector } from '../src/content/reddit';
+import { linkedinDetector } from '../src/content/linkedin';
+import { tiktokDetector } from '../src/content/tiktok';
+
+function html(markup: string): Element {
+  const host = document.createElement('div');
+  host.innerHTML = markup.trim();
+  return host.firstElementChild!;
+}
+
+describe('feed detectors', () => {
+  it('match their own hosts only', () => {
+    expect(xDetector.domain.test('x.com')).toBe(true);
+    expect(xDetector.domain.test('mobile.twitter.com')).toBe(true);
+    expect(xDetector.domain.test('box.com')).toBe(false);
+    expect(redditDetector.domain.test('www.reddit.com')).toBe(true);
+    expect(linkedinDetector.domain.test('www.linkedin.com')).toBe(true);
+    expect(tiktokDetector.domain.test('www.tiktok.com')).toBe(true);
+    expect(tiktokDetector.domain.test('notiktok.com')).toBe(false);
+  });
+
+  it('takes the X post id from its timestamp, not a quoted post', () => {
+    const post = html(`
+      <article data-testid="tweet">
+        <a href="/someone/status/111"><time datetime="2025-01-01">Jan 1</time></a>
+        <div><a href="/other/status/222">quoted</a></div>
+      </article>`);
+    expect(xDetector.getPostId(post)).toBe('x-111');
+  });
+
+  it('reads the Reddit fullname from the post or its article wrapper', () => {
+    const article = html(`
+      <article><shreddit-post id="t3_abc123" permalink="/r/x/comments/abc123/title/"></shreddit-post></article>`);
+    expect(redditDetector.getPostId(article)).toBe('rd-t3_abc123');
+
+    const bare = html('<shreddit-post permalink="/r/x/comments/zz9/title/"></shreddit-post>');
+    expect(redditDetector.getPostId(bare)).toBe('rd-t3_zz9');
+  });
+
+  it('reads the LinkedIn activity urn from the feed row', () => {
+    const row = html(`
+      <div data-id="urn:li:activity:7123"><div class="feed-shared-update-v2"></div></div>`);
+    expect(linkedinDetector.getPostId(row.firstElementChild!)).toBe('li-7123');
+  });
+
+  it('takes the TikTok video id from the video link', () => {
+    const item = html(`
+      <div data-e2e="recommend-list-item-container"><a href="/@cook/video/7300000000000000001">clip</a></div>`);
+    expect(tiktokDetector.getPostId(item)).toBe('tt-7300000000000000001');
+    expect(tiktokDetector.getPostId(html('<div></div>'))).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+#!/usr/bin/env python3
+"""Build tests/fixtures/sample.apkg for tests/ankiImport.test.ts.
+
+A legacy-schema Anki collection with:
+  - a "Basic (and reversed card)" note type and a cloze note type
+  - one reviewed card with revlog rows, one suspended card, one audio card
+  - enough filler notes and a long field to force interior and overflow
+    b-tree pages (1 KiB pages)
+  - a DEFLATE-compressed zip with a media index
+
+Run from the repo root: python3 tests/fixtures/make-anki-sample.py
+"""
+
+import json
+import os
+import sqlite3
+import tempfile
+import zipfile
+
+HERE = os.path.dirname(os.path.abspath(__file__))
+CRT = 1_700_000_000  # collection creation, Unix seconds
+SEP = "\x1f"
+
+BASIC_ID = 1001
+CLOZE_ID = 1002
+DECK_ID = 1
+
+models = {
+    str(BASIC_ID): {
+        "id": BASIC_ID,
+        "name": "Basic (and reversed card)",
+        "type": 0,
+        "flds": [{"name": "Front", "ord": 0}, {"name": "Back", "ord": 1}],
+        "tmpls": [
+            {"name": "Card 1", "ord": 0, "qfmt": "{{Front}}", "afmt": "{{FrontSide}}<hr id=answer>{{Back}}"},
+            {"name": "Card 2", "ord": 1, "qfmt": "{{Back}}", "afmt": "{{FrontSide}}<hr id=answer>{{Front}}"},
+        ],
+    },
+    str(CLOZE_ID): {
+        "id": CLOZE_ID,
+        "name": "Cloze",
+        "type": 1,
+        "flds": [{"name": "Text", "ord": 0}, {"name": "Back Extra", "ord": 1}],
+        "tmpls": [{"name": "Cloze", "ord": 0, "qfmt": "{{cloze:Text}}", "afmt": "{{cloze:Text}}<br>{{Back Extra}}"}],
+    },
+}
+decks = {str(DECK_ID): {"id": DECK_ID, "name": "Spanish::Basics"}}
+
+
+def build_collection(path):
+    db = sqlite3.connect(path)
+    db.execute("PRAGMA page_size = 1024")
+    db.executescript(
+        """
+        CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null,
+          scm integer not null, ver integer not null, dty integer not null, usn integer not null,
+          ls integer not null, conf text not null, models text not null, decks text not null,
+          dconf text not null, tags text not null);
+        CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null,
+          mod integer not null, usn integer not null, tags text not null, flds text not null,
+          sfld integer not null, csum integer not null, flags integer not null, data text not null);
+        CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null,
+          ord integer not null, mod integer not null, usn integer not null, type integer not null,
+          queue integer not null, due integer not null, ivl integer not null, factor integer not null,
+          reps integer not null, lapses integer not null, left integer not null, odue integer not null,
+          odid integer not null, flags integer not null, data text not null);
+        CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null,
+          ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null,
+          time integer not null, type integer not null);
+        """
+    )
+    db.execute(
+        "INSERT INTO col VALUES (1, ?, 0, 0, 11, 0, 0, 0, '{}', ?, ?, '{}', '{}')",
+        (CRT, json.dumps(models), json.dumps(decks)),
+    )
+
+    def note(nid, guid, mid, fields, tags=""):
+        db.execute(
+            "INSERT INTO notes VALUES (?, ?, ?, 0, 0, ?, ?, '', 0, 0, '')",
+            (nid, guid, mid, tags, SEP.join(fields)),
+        )
+
+    def card(cid, nid, ord_, type_=0, queue=0, due=0, ivl=0, factor=0, reps=0, lapses=0):
+        db.execute(
+            "INSERT INTO cards VALUES (?, ?, ?, ?, 0, 0, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, '')",
+            (cid, nid, DECK_ID, ord_, type_, queue, due, ivl, factor, reps, lapses),
+        )
+
+    # 1. Reviewed basic note: card 1 in review (due day 400), card 2 new.
+    note(10, "g-hola", BASIC_ID, ["<b>Hola</b>", "Hello&nbsp;there"], " greeting spanish ")
+    card(100, 10, 0, type_=2, queue=2, due=400, ivl=12, factor=2300, reps=5, lapses=1)
+    card(101, 10, 1)
+    for rid, ease, t in [(1_700_000_100_000, 1, 8000), (1_700_086_500_000, 3, 4000), (1_700_600_000_000, 3, 3000), (1_700_700_000_000, 0, 0)]:
+        db.execute("INSERT INTO revlog VALUES (?, 100, 0, ?, 1, 0, 2500, ?, ?)", (rid, ease, t, 4 if ease == 0 else 1))
+
+    # 2. Cloze note with two deletions and a hint; c2 card suspended.
+    note(20, "g-cloze", CLOZE_ID, ["{{c1::Madrid::city}} is the capital of {{c2::Spain}}.", "Since 1561"])
+    card(200, 20, 0)
+    card(201, 20, 1, queue=-1)
+
+    # 3. Audio note.
+    note(30, "g-audio", BASIC_ID, ["[sound:gato.mp3]", "gato"])
+    card(300, 30, 0)
+
+    # 4. A note with a long field, spilling onto overflow pages.
+    long_back = " ".join(f"palabra{i}" for i in range(400))
+    note(40, "g-long", BASIC_ID, ["Long", long_back])
+    card(400, 40, 0)
+
+    # 5. Filler notes so the notes and cards tables need interior pages.
+    for i in range(60):
+        nid = 1000 + i
+        note(nid, f"g-filler-{i}", BASIC_ID, [f"filler {i}", f"relleno {i}"])
+        card(10_000 + i, nid, 0)
+
+    db.commit()
+    db.close()
+
+
+def main():
+    with tempfile.TemporaryDirectory() as tmp:
+        collection = os.path.join(tmp, "collection.anki2")
+        build_collection(collection)
+        out = os.path.join(HERE, "sample.apkg")
+        with zipfile.ZipFile(out, "w", compression=zipfile.ZIP_DEFLATED) as z:
+            z.write(collection, "collection.anki2")
+            z.writestr("media", json.dumps({"0": "gato.mp3"}))
+            z.writestr("0", b"ID3\x03\x00fake-mp3-bytes")
+    print(f"wrote {out}")
+
+
+if __name__ == "__main__":
+    main()
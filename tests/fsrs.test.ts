@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fsrsUpdate,
+  fsrsRetrievability,
+  nextIntervalDays,
+  normalizeDesiredRetention,
+  retrievability,
+  seedFsrsState,
+  clearFsrsState,
+  resolveFsrsWeights,
+  DEFAULT_DESIRED_RETENTION,
+  DEFAULT_FSRS_WEIGHTS,
+} from '../src/background/fsrs';
+import { scheduleCard, previewNextIntervals, getDeckScheduler } from '../src/background/scheduler';
+import type { Card } from '../src/common/types';
+
+const DAY = 86400 * 1000;
+
+function createTestCard(overrides: Partial<Card> = {}): Card {
+  return {
+    id: 'test-card-1',
+    deckId: 'test-deck-1',
+    kind: 'text',
+    front: 'Test question',
+    back: 'Test answer',
+    due: Date.now(),
+    intervalDays: 0,
+    ease: 2.5,
+    repetitions: 0,
+    lapses: 0,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('retrievability', () => {
+  it('is 1 right after a review', () => {
+    expect(retrievability(0, 5)).toBe(1);
+  });
+
+  it('is 90% after exactly one stability period', () => {
+    expect(retrievability(10, 10)).toBeCloseTo(0.9, 5);
+  });
+
+  it('decays monotonically', () => {
+    expect(retrievability(20, 10)).toBeLessThan(retrievability(10, 10));
+  });
+});
+
+describe('nextIntervalDays', () => {
+  it('equals stability at 90% desired retention', () => {
+    expect(nextIntervalDays(30, 0.9)).toBe(30);
+  });
+
+  it('shortens the interval when desired retention is higher', () => {
+    expect(nextIntervalDays(30, 0.95)).toBeLessThan(nextIntervalDays(30, 0.9));
+  });
+
+  it('never goes below one day', () => {
+    expect(nextIntervalDays(0.1, 0.97)).toBe(1);
+  });
+});
+
+describe('normalizeDesiredRetention', () => {
+  it('defaults when missing', () => {
+    expect(normalizeDesiredRetention(undefined)).toBe(DEFAULT_DESIRED_RETENTION);
+  });
+
+  it('clamps into the supported range', () => {
+    expect(normalizeDesiredRetention(0.2)).toBe(0.7);
+    expect(normalizeDesiredRetention(1)).toBe(0.97);
+  });
+});
+
+describe('fsrsUpdate', () => {
+  it('initializes stability and difficulty on the first review', () => {
+    const updated = fsrsUpdate(createTestCard(), 2);
+    expect(updated.stability).toBeGreaterThan(0);
+    expect(updated.difficulty).toBeGreaterThanOrEqual(1);
+    expect(updated.difficulty).toBeLessThanOrEqual(10);
+    expect(updated.lastReviewedAt).toBeDefined();
+    expect(updated.repetitions).toBe(1);
+  });
+
+  it('gives easy first reviews a longer interval than good ones', () => {
+    const good = fsrsUpdate(createTestCard(), 2);
+    const easy = fsrsUpdate(createTestCard(), 3);
+    expect(easy.intervalDays).toBeGreaterThan(good.intervalDays);
+    expect(easy.difficulty!).toBeLessThan(good.difficulty!);
+  });
+
+  it('sends failed cards back in 10 minutes and counts the lapse', () => {
+    const card = createTestCard({ repetitions: 4, intervalDays: 20, stability: 20, difficulty: 5, lastReviewedAt: Date.now() - 20 * DAY });
+    const before = Date.now();
+    const updated = fsrsUpdate(card, 0);
+    expect(updated.intervalDays).toBe(0);
+    expect(updated.repetitions).toBe(0);
+    expect(updated.lapses).toBe(1);
+    expect(updated.stability!).toBeLessThan(20);
+    expect(updated.due).toBeGreaterThanOrEqual(before + 10 * 60 * 1000);
+    expect(updated.due).toBeLessThan(before + DAY);
+  });
+
+  it('grows stability on a successful review', () => {
+    const card = createTestCard({ repetitions: 3, intervalDays: 10, stability: 10, difficulty: 5, lastReviewedAt: Date.now() - 10 * DAY });
+    const updated = fsrsUpdate(card, 2);
+    expect(updated.stability!).toBeGreaterThan(10);
+    expect(updated.intervalDays).toBeGreaterThan(10);
+  });
+
+  it('schedules sooner for a higher desired retention', () => {
+    const card = createTestCard({ repetitions: 3, intervalDays: 10, stability: 10, difficulty: 5, lastReviewedAt: Date.now() - 10 * DAY });
+    const relaxed = fsrsUpdate(card, 2, 0.8);
+    const strict = fsrsUpdate(card, 2, 0.95);
+    expect(strict.intervalDays).toBeLessThan(relaxed.intervalDays);
+  });
+
+  it('does not mutate the input card', () => {
+    const card = createTestCard();
+    fsrsUpdate(card, 2);
+    expect(card.stability).toBeUndefined();
+    expect(card.repetitions).toBe(0);
+  });
+});
+
+describe('seedFsrsState', () => {
+  it('leaves never-reviewed cards untouched', () => {
+    const card = createTestCard();
+    expect(seedFsrsState(card)).toBe(card);
+  });
+
+  it('seeds stability from the SM-2 interval', () => {
+    const due = Date.now() + 5 * DAY;
+    const seeded = seedFsrsState(createTestCard({ repetitions: 3, intervalDays: 15, due }));
+    expect(seeded.stability).toBe(15);
+    expect(seeded.lastReviewedAt).toBe(due - 15 * DAY);
+  });
+
+  it('maps low ease and lapses to higher difficulty', () => {
+    const easy = seedFsrsState(createTestCard({ repetitions: 3, intervalDays: 15, ease: 3.2 }));
+    const hard = seedFsrsState(createTestCard({ repetitions: 3, intervalDays: 15, ease: 1.4, lapses: 4 }));
+    expect(hard.difficulty!).toBeGreaterThan(easy.difficulty!);
+  });
+
+  it('keeps existing FSRS state', () => {
+    const card = createTestCard({ repetitions: 3, intervalDays: 15, stability: 7, difficulty: 3 });
+    expect(seedFsrsState(card)).toBe(card);
+  });
+
+  it('re-seeds from SM-2 progress after a round trip through SM-2', () => {
+    const fsrsCard = createTestCard({ repetitions: 3, intervalDays: 15, stability: 7, difficulty: 3, lastReviewedAt: 1 });
+    // Reviewed under SM-2 in between: the interval moved on
+    const due = Date.now() + 40 * DAY;
+    const afterSm2 = { ...clearFsrsState(fsrsCard), repetitions: 4, intervalDays: 40, due };
+    expect(afterSm2.stability).toBeUndefined();
+    const reseeded = seedFsrsState(afterSm2);
+    expect(reseeded.stability).toBe(40);
+    expect(reseeded.lastReviewedAt).toBe(due - 40 * DAY);
+  });
+
+  it('exposes current retrievability once seeded', () => {
+    const seeded = seedFsrsState(createTestCard({ repetitions: 3, intervalDays: 15, due: Date.now() }));
+    expect(fsrsRetrievability(seeded)).toBeCloseTo(0.9, 2);
+    expect(fsrsRetrievability(createTestCard())).toBeNull();
+  });
+});
+
+describe('scheduleCard', () => {
+  it('defaults to SM-2 when the deck has no scheduler', () => {
+    expect(getDeckScheduler(undefined)).toBe('sm2');
+    const updated = scheduleCard(createTestCard({ repetitions: 1, intervalDays: 1 }), 2, { scheduler: undefined });
+    expect(updated.intervalDays).toBe(6);
+    expect(updated.stability).toBeUndefined();
+  });
+
+  it('dispatches to FSRS for FSRS decks', () => {
+    const updated = scheduleCard(createTestCard(), 2, { scheduler: 'fsrs', desiredRetention: 0.9, learningSteps: [] });
+    expect(updated.stability).toBeDefined();
+  });
+
+  it('applies a deck\'s fitted weights', () => {
+    const card = createTestCard({ repetitions: 3, intervalDays: 10, stability: 10, difficulty: 5, lastReviewedAt: Date.now() - 10 * DAY });
+    const fitted = DEFAULT_FSRS_WEIGHTS.map((w, i) => (i === 8 ? w * 1.5 : w));
+    const withDefaults = scheduleCard(card, 2, { scheduler: 'fsrs' });
+    const withFitted = scheduleCard(card, 2, { scheduler: 'fsrs', fsrsWeights: fitted });
+    expect(withFitted.stability!).toBeGreaterThan(withDefaults.stability!);
+  });
+
+  it('ignores malformed fitted weights', () => {
+    expect(resolveFsrsWeights([1, 2, 3])).toBe(DEFAULT_FSRS_WEIGHTS);
+    expect(resolveFsrsWeights(undefined)).toBe(DEFAULT_FSRS_WEIGHTS);
+  });
+
+  it('previews intervals with the deck algorithm', () => {
+    const card = createTestCard({ repetitions: 3, intervalDays: 10, stability: 10, difficulty: 5, lastReviewedAt: Date.now() - 10 * DAY });
+    const previews = previewNextIntervals(card, { scheduler: 'fsrs' });
+    expect(previews[0]).toBe('Less than a day');
+    expect(previews[2]).not.toBe(previewNextIntervals(card)[2]);
+  });
+});
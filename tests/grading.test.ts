@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { canAcceptAnswer, checkAnswer, gradeAnswer, matchTypedAnswer, withAcceptedAnswer } from '../src/common/grading';
+import { withReverseCards } from '../src/common/parser';
+import type { Card } from '../src/common/types';
+
+function createTestCard(overrides: Partial<Card> = {}): Card {
+  return {
+    id: 'card-1',
+    deckId: 'deck-1',
+    kind: 'text',
+    front: 'A large body of salt water',
+    back: 'Ocean',
+    canonicalAnswers: ['ocean'],
+    due: 0,
+    intervalDays: 0,
+    ease: 2.5,
+    repetitions: 0,
+    lapses: 0,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe('withAcceptedAnswer', () => {
+  it('appends the normalized answer so future attempts grade as correct', () => {
+    const card = createTestCard();
+    expect(gradeAnswer(card, 'Sea!')).toBeLessThan(2);
+    const canonicalAnswers = withAcceptedAnswer(card, 'Sea!');
+    expect(canonicalAnswers).toEqual(['ocean', 'sea']);
+    expect(gradeAnswer({ ...card, canonicalAnswers: canonicalAnswers! }, 'sea')).toBe(3);
+  });
+
+  it('seeds cards without canonicalAnswers with their back', () => {
+    const card = createTestCard({ canonicalAnswers: undefined });
+    expect(withAcceptedAnswer(card, 'sea')).toEqual(['ocean', 'sea']);
+  });
+
+  it('returns null for answers that are empty or already accepted', () => {
+    const card = createTestCard();
+    expect(withAcceptedAnswer(card, '  ')).toBeNull();
+    expect(withAcceptedAnswer(card, 'OCEAN.')).toBeNull();
+  });
+
+  it('leaves cloze and multiple-choice cards alone', () => {
+    expect(canAcceptAnswer(createTestCard({ kind: 'cloze' }))).toBe(false);
+    expect(withAcceptedAnswer(createTestCard({ kind: 'mcq-single' }), 'sea')).toBeNull();
+    expect(canAcceptAnswer(createTestCard({ kind: 'audio' }))).toBe(true);
+  });
+});
+
+describe('reverse cards', () => {
+  it('grades the back-to-front card against the original front', () => {
+    const [, reverse] = withReverseCards([createTestCard({ front: 'hola', back: 'hello', canonicalAnswers: ['hello'] })]);
+    expect(gradeAnswer(reverse, 'hola')).toBe(3);
+    expect(gradeAnswer(reverse, 'hello')).toBeLessThan(2);
+  });
+});
+
+describe('answer matching profiles', () => {
+  it('grades exactly when the deck has no profile', () => {
+    expect(gradeAnswer(createTestCard({ back: 'The apple', canonicalAnswers: undefined }), 'apple')).toBe(0);
+    expect(matchTypedAnswer('cafe', 'café')).toBeNull();
+  });
+
+  it('ignores leading articles for the configured language', () => {
+    expect(matchTypedAnswer('apple', 'the apple', { ignoreArticles: 'en' })).toBe('exact');
+    expect(matchTypedAnswer('le chat', 'chat', { ignoreArticles: 'fr' })).toBe('exact');
+    expect(matchTypedAnswer("l’homme", 'homme', { ignoreArticles: 'fr' })).toBe('exact');
+    expect(matchTypedAnswer('le chat', 'chat', { ignoreArticles: 'en' })).toBeNull();
+    // Only a leading article goes, and an answer that is just one stays.
+    expect(matchTypedAnswer('chat', 'chat le', { ignoreArticles: 'fr' })).toBeNull();
+    expect(matchTypedAnswer('the', 'the', { ignoreArticles: 'en' })).toBe('exact');
+  });
+
+  it('grades an answer that only misses its accents as Hard, with a hint', () => {
+    const card = createTestCard({ back: 'Cà phê', canonicalAnswers: undefined, answerMatching: { ignoreAccents: true } });
+    expect(checkAnswer(card, 'ca phe')).toEqual({ grade: 1, accentsOff: true });
+    expect(checkAnswer(card, 'cà phê')).toEqual({ grade: 3, accentsOff: false });
+    expect(matchTypedAnswer('duong', 'đường', { ignoreAccents: true })).toBe('accents');
+    expect(gradeAnswer({ ...card, answerMatching: undefined }, 'ca phe')).toBe(0);
+  });
+
+  it('prefers an exact canonical answer over an accent-only one', () => {
+    const card = createTestCard({ canonicalAnswers: ['résumé', 'resume'], answerMatching: { ignoreAccents: true } });
+    expect(checkAnswer(card, 'resume')).toEqual({ grade: 3, accentsOff: false });
+  });
+
+  it('matches multi-word answers in any order', () => {
+    const card = createTestCard({ back: 'salt and pepper', canonicalAnswers: undefined, answerMatching: { anyWordOrder: true } });
+    expect(gradeAnswer(card, 'pepper and salt')).toBe(3);
+    expect(gradeAnswer(card, 'salt and vinegar')).toBe(0);
+  });
+
+  it('applies the profile to each cloze blank', () => {
+    const card = createTestCard({
+      kind: 'cloze',
+      front: '{{el gato}} bebe {{café}}',
+      canonicalAnswers: ['el gato', 'café'],
+      answerMatching: { ignoreArticles: 'es', ignoreAccents: true },
+    });
+    expect(checkAnswer(card, 'gato|café')).toEqual({ grade: 3, accentsOff: false });
+    expect(checkAnswer(card, 'gato|cafe')).toEqual({ grade: 2, accentsOff: true });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { parseNotebookCards, planNotebookSync } from '../src/common/notebookCards';
+import { createCard, type Card } from '../src/common/types';
+
+let nextId = 0;
+const makeId = () => `group-${++nextId}`;
+
+// Apply a plan the way the background does on autosave, without storage.
+function applyPlan(notebookId: string, markdown: string, deckCards: Card[]): Card[] {
+  const plan = planNotebookSync(notebookId, parseNotebookCards(markdown), deckCards, makeId);
+  const orphan = new Set(plan.orphan);
+  return [
+    ...deckCards.map(card => {
+      const incoming = plan.update.get(card.id);
+      if (incoming) return { ...card, ...incoming };
+      return orphan.has(card.id) ? { ...card, source: { ...card.source!, orphaned: true } } : card;
+    }),
+    ...plan.insert.map(card => createCard({ ...card, deckId: 'deck' })),
+  ];
+}
+
+describe('parseNotebookCards', () => {
+  it('reads inline and cloze cards but leaves highlights alone', () => {
+    const cards = parseNotebookCards([
+      '# Verbs',
+      '',
+      'Some ==important== prose.',
+      '',
+      'ser :: to be (permanent)',
+      '',
+      'The {{subjunctive}} follows "ojalá".',
+    ].join('\n'));
+    expect(cards.map(c => [c.kind, c.front, c.line])).toEqual([
+      ['text', 'ser', 5],
+      ['cloze', 'The {{subjunctive}} follows "ojalá".', 7],
+    ]);
+  });
+});
+
+describe('planNotebookSync', () => {
+  it('creates cards that remember their notebook and line', () => {
+    const plan = planNotebookSync('nb1', parseNotebookCards('hola :: hello\n\nadiós ::: goodbye'), [], makeId);
+    expect(plan.insert.map(c => [c.front, c.source])).toEqual([
+      ['hola', { notebookId: 'nb1', line: 1 }],
+      ['adiós', { notebookId: 'nb1', line: 3 }],
+      ['goodbye', { notebookId: 'nb1', line: 3 }],
+    ]);
+    expect(plan.insert[1].siblingGroup).toBeDefined();
+    expect(plan.insert[1].siblingGroup).toBe(plan.insert[2].siblingGroup);
+    expect(plan.update.size).toBe(0);
+  });
+
+  it('keeps scheduling when the definition or the term is edited', () => {
+    const [hola, gato] = applyPlan('nb1', 'hola :: hi\n\ngato :: cat', []);
+    const reviewed = [
+      { ...hola, intervalDays: 12, repetitions: 4 },
+      { ...gato, intervalDays: 3, repetitions: 2 },
+    ];
+
+    // Definition changed; term fixed on the same line; a line added on top.
+    const next = applyPlan('nb1', 'perro :: dog\n\nhola :: hello\n\ngatos :: cats', reviewed);
+    const byFront = new Map(next.map(c => [c.front, c]));
+    expect(byFront.get('hola')).toMatchObject({ id: hola.id, back: 'hello', intervalDays: 12, source: { line: 3 } });
+    expect(byFront.get('perro')).toMatchObject({ repetitions: 0, source: { line: 1 } });
+    // 'gato' moved from line 3 to 5 and was renamed, so it is a new card
+    // and the old one is set aside.
+    expect(byFront.get('gatos')?.id).not.toBe(gato.id);
+    expect(byFront.get('gato')).toMatchObject({ id: gato.id, intervalDays: 3, source: { orphaned: true } });
+    expect(next).toHaveLength(4);
+  });
+
+  it('matches a renamed term that stayed on its line', () => {
+    const [gato] = applyPlan('nb1', 'gato :: cat', []);
+    const next = applyPlan('nb1', 'gata :: cat (female)', [{ ...gato, intervalDays: 5 }]);
+    expect(next).toEqual([expect.objectContaining({ id: gato.id, front: 'gata', intervalDays: 5 })]);
+  });
+
+  it('orphans cards whose line is gone and leaves other cards in the deck alone', () => {
+    const synced = applyPlan('nb1', 'uno :: one\n\ndos :: two', []);
+    const other = createCard({ deckId: 'deck', kind: 'text', front: 'dos', back: 'two' });
+    const fromOtherNotebook = { ...createCard({ deckId: 'deck', kind: 'text', front: 'tres', back: 'three' }), source: { notebookId: 'nb2', line: 1 } };
+
+    const plan = planNotebookSync('nb1', parseNotebookCards('uno :: one'), [...synced, other, fromOtherNotebook], makeId);
+    expect(plan.orphan).toEqual([synced[1].id]);
+    expect(plan.unmatched).toEqual([synced[1].id]);
+    expect(plan.insert).toEqual([]);
+    expect(plan.update.size).toBe(0);
+  });
+
+  it('keeps scheduling when a line is half-edited across saves', () => {
+    const [ser] = applyPlan('nb1', 'ser :: to be', []);
+    const reviewed = [{ ...ser, intervalDays: 9, repetitions: 3 }];
+
+    // Back deleted mid-edit: the line no longer parses
+    const midEdit = applyPlan('nb1', 'ser ::', reviewed);
+    expect(midEdit).toEqual([expect.objectContaining({ id: ser.id, source: { notebookId: 'nb1', line: 1, orphaned: true } })]);
+    // Orphaned once; later saves leave it be
+    expect(planNotebookSync('nb1', [], midEdit, makeId).orphan).toEqual([]);
+
+    const retyped = applyPlan('nb1', 'ser :: to be (permanent)', midEdit);
+    expect(retyped).toEqual([expect.objectContaining({
+      id: ser.id,
+      back: 'to be (permanent)',
+      intervalDays: 9,
+      repetitions: 3,
+      source: { notebookId: 'nb1', line: 1 },
+    })]);
+  });
+
+  it('claims back an orphan whose line returns unchanged', () => {
+    const [uno] = applyPlan('nb1', 'uno :: one', []);
+    const orphaned = applyPlan('nb1', '', [{ ...uno, intervalDays: 4 }]);
+    const back = applyPlan('nb1', 'uno :: one', orphaned);
+    expect(back).toEqual([expect.objectContaining({ id: uno.id, intervalDays: 4, source: { notebookId: 'nb1', line: 1 } })]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MIN_REVIEWS_TO_OPTIMIZE,
+  countScorableReviews,
+  optimizeFsrsWeights,
+} from '../src/background/optimizer';
+import { DEFAULT_FSRS_WEIGHTS, retrievability } from '../src/background/fsrs';
+import type { Grade, ReviewRecord } from '../src/common/types';
+
+const DAY = 86400 * 1000;
+const START = Date.UTC(2025, 0, 1, 12);
+
+// Deterministic PRNG so the synthetic logs are identical on every run.
+function lcg(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Simulate a learner whose memory is `stabilityScale` times as stable as a
+ * fixed 3-day baseline, reviewed every `gapDays` days.
+ */
+function simulateHistory(cards: number, reviewsPerCard: number, gapDays: number, stabilityScale: number): ReviewRecord[] {
+  const random = lcg(42);
+  const out: ReviewRecord[] = [];
+  for (let c = 0; c < cards; c++) {
+    let stability = 3 * stabilityScale;
+    for (let i = 0; i < reviewsPerCard; i++) {
+      const recalled = i === 0 || random() < retrievability(gapDays, stability);
+      const grade: Grade = recalled ? 2 : 0;
+      out.push({
+        cardId: `c${c}`,
+        deckId: 'd1',
+        timestamp: START + c * 1000 + i * gapDays * DAY,
+        grade,
+        responseTimeMs: 1000,
+      });
+      stability = recalled ? stability * 2 : Math.max(1, stability / 2);
+    }
+  }
+  return out;
+}
+
+describe('countScorableReviews', () => {
+  it('skips each card\'s first review and same-day repeats', () => {
+    const history: ReviewRecord[] = [
+      { cardId: 'a', deckId: 'd', timestamp: START, grade: 0, responseTimeMs: 0 },
+      { cardId: 'a', deckId: 'd', timestamp: START + 60_000, grade: 2, responseTimeMs: 0 },
+      { cardId: 'a', deckId: 'd', timestamp: START + 2 * DAY, grade: 2, responseTimeMs: 0 },
+      { cardId: 'b', deckId: 'd', timestamp: START, grade: 2, responseTimeMs: 0 },
+    ];
+    expect(countScorableReviews(history)).toBe(1);
+  });
+});
+
+describe('optimizeFsrsWeights', () => {
+  it('refuses to fit a log that is too small', () => {
+    const history = simulateHistory(10, 3, 3, 1);
+    expect(countScorableReviews(history)).toBeLessThan(MIN_REVIEWS_TO_OPTIMIZE);
+    expect(optimizeFsrsWeights(history)).toBeNull();
+  });
+
+  it('improves the fit for a learner who forgets faster than the defaults assume', () => {
+    const history = simulateHistory(120, 4, 6, 0.3);
+    const result = optimizeFsrsWeights(history);
+    expect(result).not.toBeNull();
+    const { before, after, weights, reviewCount } = result!;
+
+    expect(reviewCount).toBe(120 * 3);
+    expect(after.logLoss).toBeLessThan(before.logLoss);
+    // Actual recall is a property of the log, not the weights.
+    expect(after.actual).toBe(before.actual);
+    expect(Math.abs(after.predicted - after.actual)).toBeLessThan(Math.abs(before.predicted - before.actual));
+    expect(weights).toHaveLength(DEFAULT_FSRS_WEIGHTS.length);
+  });
+
+  it('returns weights inside the FSRS bounds', () => {
+    const result = optimizeFsrsWeights(simulateHistory(120, 4, 6, 0.3))!;
+    for (const w of result.weights) {
+      expect(Number.isFinite(w)).toBe(true);
+      expect(w).toBeGreaterThanOrEqual(0);
+      expect(w).toBeLessThanOrEqual(100);
+    }
+  });
+});
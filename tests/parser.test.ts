@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { normalizeText, parseSimpleLine, parseSimpleFormat, parseCSV, parseJSON } from '../src/common/parser';
+import { normalizeText, parseSimpleLine, parseSimpleFormat, parseCSV, parseJSON, parseMarkdown, scopeSiblingGroups, toImportCards, withReverseCards, canReverse, matchImportedCards, mergeImportedContent, clozeBlank, clozeText } from '../src/common/parser';
+import { createCard } from '../src/common/types';
 
 describe('normalizeText', () => {
   it('should remove punctuation by default', () => {
@@ -359,3 +360,214 @@ describe('parseJSON', () => {
     expect(result.errors).toHaveLength(2);
   });
 });
+
+describe('parseMarkdown', () => {
+  it('reads inline pairs, list items and reversible pairs', () => {
+    const result = parseMarkdown('- hola::hello\n- adiós :: goodbye\ngato:::cat');
+    expect(result.errors).toEqual([]);
+    expect(result.cards.map(c => [c.front, c.back, c.reversed ?? false])).toEqual([
+      ['hola', 'hello', false],
+      ['adiós', 'goodbye', false],
+      ['gato', 'cat', false],
+      ['cat', 'gato', true],
+    ]);
+    expect(result.cards[2].siblingGroup).toBe(result.cards[3].siblingGroup);
+    expect(result.cards[0].canonicalAnswers).toEqual(['hello']);
+  });
+
+  it('reads multi-line cards split by ? and ??', () => {
+    const result = parseMarkdown('What are the\nforms of ser?\n?\nsoy, eres,\nes\n\nTwo-way\n??\nBoth ways');
+    expect(result.cards.map(c => [c.front, c.back])).toEqual([
+      ['What are the\nforms of ser?', 'soy, eres,\nes'],
+      ['Two-way', 'Both ways'],
+      ['Both ways', 'Two-way'],
+    ]);
+  });
+
+  it('turns highlights and curly blanks into cloze cards', () => {
+    const [card] = parseMarkdown('Yo ==soy== de {{Madrid}}.').cards;
+    expect(card).toMatchObject({ kind: 'cloze', front: 'Yo {{soy}} de {{Madrid}}.', back: 'soy, Madrid', canonicalAnswers: ['soy', 'madrid'] });
+  });
+
+  it('names decks after headings and collects tags', () => {
+    const md = [
+      '---',
+      'title: Spanish notes',
+      'tags: [lang, "es"]',
+      '---',
+      'uno::one',
+      '# Spanish',
+      '## Verbs',
+      '#verbs',
+      'ser::to be #irregular',
+      '## Nouns',
+      'casa::house',
+    ].join('\n');
+    const { cards } = parseMarkdown(md);
+    expect(cards.map(c => [c.front, c.deckName, c.tags])).toEqual([
+      ['uno', 'Spanish notes', ['lang', 'es']],
+      ['ser', 'Spanish::Verbs', ['lang', 'es', 'verbs', 'irregular']],
+      ['casa', 'Spanish::Nouns', ['lang', 'es']],
+    ]);
+  });
+
+  it('skips prose and code, and reports cards missing a side', () => {
+    const md = 'Just a note about C# and #1 priorities.\n\n```\nstd::vector\n```\n\nempty::\n\nNo answer\n?';
+    const result = parseMarkdown(md);
+    expect(result.cards).toEqual([]);
+    expect(result.errors.map(e => e.line)).toEqual([7, 9]);
+  });
+});
+
+describe('sibling groups', () => {
+  it('reads a sibling group column from CSV', () => {
+    const input = 'front,back,noteId\nhola,hello,n1\nhello,hola,n1\nadios,bye,';
+    const result = parseCSV(input);
+    expect(result.cards.map(c => c.siblingGroup)).toEqual(['n1', 'n1', undefined]);
+  });
+
+  it('reads siblingGroup or noteId from JSON', () => {
+    const input = JSON.stringify([
+      { front: 'Q1', back: 'A1', siblingGroup: 'g' },
+      { front: 'Q2', back: 'A2', noteId: 7 },
+      { front: 'Q3', back: 'A3' },
+    ]);
+    expect(parseJSON(input).cards.map(c => c.siblingGroup)).toEqual(['g', '7', undefined]);
+  });
+
+  it('gives each group a fresh id and drops single-card groups', () => {
+    let next = 0;
+    const scoped = scopeSiblingGroups(
+      [
+        { front: 'a', siblingGroup: 'x' },
+        { front: 'b', siblingGroup: 'y' },
+        { front: 'c', siblingGroup: 'x' },
+        { front: 'd' },
+      ],
+      () => `id${++next}`,
+    );
+    expect(scoped.map(c => c.siblingGroup)).toEqual(['id1', undefined, 'id1', undefined]);
+    expect('siblingGroup' in scoped[1]).toBe(false);
+  });
+});
+
+describe('numbered cloze groups', () => {
+  it('makes one card per group with the others filled in', () => {
+    const result = parseSimpleFormat('{{c1::Paris::capital}} is in {{c2::France}}, on the {{c1::Seine}} | Paris is the capital');
+    expect(result.cards.map(c => [c.front, c.back, c.canonicalAnswers])).toEqual([
+      ['{{Paris::capital}} is in France, on the {{Seine}}', 'Paris, Seine', ['paris', 'seine']],
+      ['Paris is in {{France}}, on the Seine', 'France', ['france']],
+    ]);
+    expect(result.cards[0].siblingGroup).toBeDefined();
+    expect(result.cards[0].siblingGroup).toBe(result.cards[1].siblingGroup);
+    expect(result.cards[1].backExtra).toBe('Paris is the capital');
+  });
+
+  it('leaves unnumbered blanks and single groups as one card', () => {
+    const [plain] = parseSimpleFormat('The {{mitochondria}} makes ATP | mitochondria').cards;
+    expect(plain.front).toBe('The {{mitochondria}} makes ATP');
+    expect(plain.siblingGroup).toBeUndefined();
+
+    const [single] = parseMarkdown('Water boils at {{c1::100::number}} °C.').cards;
+    expect(single).toMatchObject({ front: 'Water boils at {{100::number}} °C.', back: '100' });
+    expect(single.siblingGroup).toBeUndefined();
+  });
+
+  it('splits JSON cloze cards and suffixes their external ids', () => {
+    const input = JSON.stringify([{ kind: 'cloze', front: '{{c1::ser}} y {{c2::estar}}', back: 'ser, estar', externalId: 'n1' }]);
+    expect(parseJSON(input).cards.map(c => [c.front, c.externalId])).toEqual([
+      ['{{ser}} y estar', 'n1#c1'],
+      ['ser y {{estar}}', 'n1#c2'],
+    ]);
+  });
+
+  it('reads hints out of stored blanks', () => {
+    expect(clozeBlank('Paris::capital')).toEqual({ answer: 'Paris', hint: 'capital' });
+    expect(clozeBlank('c3::Paris')).toEqual({ answer: 'Paris', hint: undefined });
+    expect(clozeText('{{Paris::capital}} is in {{France}}')).toBe('Paris is in France');
+  });
+});
+
+describe('withReverseCards', () => {
+  it('follows each text card with a back-to-front sibling', () => {
+    const { cards } = parseSimpleFormat('hola|hello\nCapital of Spain?|Madrid|Barcelona|Lisbon');
+    const out = withReverseCards(cards);
+    expect(out).toHaveLength(3);
+    const [forward, reverse, mcq] = out;
+    expect(reverse).toMatchObject({ front: 'hello', back: 'hola', kind: 'text', reversed: true, canonicalAnswers: ['hola'] });
+    expect(forward.siblingGroup).toBeDefined();
+    expect(reverse.siblingGroup).toBe(forward.siblingGroup);
+    expect(mcq.kind).toBe('mcq-single');
+    expect(mcq.siblingGroup).toBeUndefined();
+  });
+
+  it('keeps an existing sibling group and never reverses twice', () => {
+    const [card] = parseJSON(JSON.stringify([{ front: 'uno', back: 'one', siblingGroup: 'n1' }])).cards;
+    const out = withReverseCards(withReverseCards([card]));
+    expect(out).toHaveLength(2);
+    expect(out.map(c => c.siblingGroup)).toEqual(['n1', 'n1']);
+    expect(canReverse(out[1])).toBe(false);
+  });
+
+  it('keeps a markdown pair at two cards through import with reverse on', () => {
+    const { cards } = parseMarkdown('gato:::cat');
+    const out = withReverseCards(toImportCards(cards, 'd1', false));
+    expect(out).toHaveLength(2);
+    expect(out.map(c => [c.front, c.reversed ?? false])).toEqual([['gato', false], ['cat', true]]);
+  });
+});
+
+describe('matchImportedCards', () => {
+  function stored(front: string, back: string, extra: Partial<ReturnType<typeof createCard>> = {}) {
+    const [parsed] = parseSimpleFormat(`${front}|${back}`).cards;
+    return { ...createCard({ ...parsed, deckId: 'd1' }), ...extra };
+  }
+
+  it('reads an external id column from CSV and JSON', () => {
+    expect(parseCSV('guid,front,back\nk1,hola,hello\n,adios,bye').cards.map(c => c.externalId)).toEqual(['k1', undefined]);
+    // Generic id and group columns are ordinary data, not identities or siblings
+    const [plain] = parseCSV('id,group,front,back\n1,food,hola,hello').cards;
+    expect(plain.externalId).toBeUndefined();
+    expect(plain.siblingGroup).toBeUndefined();
+    expect(parseJSON(JSON.stringify([{ id: 'c1', front: 'Q', back: 'A' }])).cards[0].externalId).toBe('c1');
+  });
+
+  it('classifies incoming cards as new, changed or duplicate by normalized front', () => {
+    const existing = [stored('Hola', 'hello'), stored('Adiós', 'bye')];
+    const { cards } = parseSimpleFormat('hola!|hello\nadiós|goodbye\ngracias|thanks');
+    const matches = matchImportedCards(cards, existing);
+    expect(matches.map(m => m.status)).toEqual(['changed', 'changed', 'new']);
+    expect(matches[1].existing).toBe(existing[1]);
+    expect(matchImportedCards(parseSimpleFormat('Hola|hello').cards, existing)[0].status).toBe('duplicate');
+  });
+
+  it('prefers the external id over the front', () => {
+    const existing = [stored('old front', 'answer', { externalId: 'k1' }), stored('new front', 'other')];
+    const [incoming] = parseCSV('external_id,front,back\nk1,new front,answer').cards;
+    const [match] = matchImportedCards([incoming], existing);
+    expect(match.existing).toBe(existing[0]);
+    expect(match.status).toBe('changed');
+  });
+
+  it('keeps forward and reversed cards apart', () => {
+    const existing = [stored('hello', 'hola')];
+    const reversed = withReverseCards(parseSimpleFormat('hola|hello').cards)[1];
+    expect(matchImportedCards([reversed], existing)[0].status).toBe('new');
+  });
+
+  it('updates content but keeps scheduling and hand-accepted answers', () => {
+    const existing = stored('Hola', 'hello', {
+      intervalDays: 12,
+      repetitions: 4,
+      flag: 'red',
+      canonicalAnswers: ['hello', 'hi'],
+    });
+    const [incoming] = parseSimpleFormat('Hola|hello').cards;
+    const merged = mergeImportedContent(existing, { ...incoming, tags: ['greeting'] });
+    expect(merged).toMatchObject({ id: existing.id, intervalDays: 12, repetitions: 4, flag: 'red', tags: ['greeting'] });
+    expect(merged.canonicalAnswers).toEqual(['hello', 'hi']);
+
+    const [rewritten] = parseSimpleFormat('Hola|hi there').cards;
+    expect(mergeImportedContent(existing, rewritten).canonicalAnswers).toEqual(['hi there']);
+  });
+});
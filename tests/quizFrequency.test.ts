@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { adaptiveQuizGap, type QuizGapInput } from '../src/background/quizFrequency';
+
+function gap(overrides: Partial<QuizGapInput>): number {
+  return adaptiveQuizGap({ baseGap: 10, dueCount: 30, reviewsToday: 0, correctToday: 0, dailyTarget: 30, ...overrides });
+}
+
+describe('adaptiveQuizGap', () => {
+  it('keeps the base gap when the backlog matches the target', () => {
+    expect(gap({})).toBe(10);
+  });
+
+  it('quizzes more often under a large backlog, within limits', () => {
+    expect(gap({ dueCount: 120 })).toBe(5);
+    expect(gap({ dueCount: 5000 })).toBe(3);
+  });
+
+  it('eases off when the queue is empty or the target is met', () => {
+    expect(gap({ dueCount: 0 })).toBe(30);
+    expect(gap({ reviewsToday: 30, correctToday: 15 })).toBe(30);
+  });
+
+  it('eases off when nearly every answer today is right', () => {
+    expect(gap({ dueCount: 20, reviewsToday: 10, correctToday: 10 })).toBe(15);
+    expect(gap({ dueCount: 20, reviewsToday: 10, correctToday: 6 })).toBe(10);
+    // Too few answers to judge
+    expect(gap({ dueCount: 30, reviewsToday: 5, correctToday: 5 })).toBe(9);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ACTIVE_WINDOW_MS,
+  VISIT_GAP_MS,
+  emptyTriggerState,
+  isTriggerDue,
+  loadTriggerState,
+  resetTrigger,
+  saveTriggerState,
+  tickTrigger,
+} from '../src/content/quizTrigger';
+
+const MINUTE = 60 * 1000;
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+  };
+}
+
+describe('tickTrigger', () => {
+  it('counts active time only while there is recent input', () => {
+    let state = emptyTriggerState(0);
+    state = tickTrigger(state, 1000, { visible: true, lastInputAt: 500 });
+    state = tickTrigger(state, ACTIVE_WINDOW_MS + 5000, { visible: true, lastInputAt: 500 });
+    expect(state.activeMs).toBe(1000);
+    expect(state.dwellMs).toBe(6000);
+  });
+
+  it('does not count hidden tabs or long sleeps', () => {
+    let state = emptyTriggerState(0);
+    state = tickTrigger(state, 1000, { visible: false, lastInputAt: 1000 });
+    expect(state).toEqual(emptyTriggerState(0));
+    state = tickTrigger(state, 60 * 1000, { visible: true, lastInputAt: 60 * 1000 });
+    expect(state.dwellMs).toBe(5000);
+  });
+
+  it('starts a new visit after a long gap', () => {
+    const state = { ...emptyTriggerState(0), dwellMs: 10 * MINUTE, activeMs: 2 * MINUTE };
+    const next = tickTrigger(state, VISIT_GAP_MS + 1, { visible: true, lastInputAt: 0 });
+    expect(next.dwellMs).toBe(0);
+    expect(next.activeMs).toBe(2 * MINUTE);
+  });
+});
+
+describe('isTriggerDue', () => {
+  const state = { ...emptyTriggerState(0), posts: 4, activeMs: 5 * MINUTE, dwellMs: 14 * MINUTE, scrolledPx: 2400 };
+
+  it('defaults to counting posts', () => {
+    expect(isTriggerDue(state, undefined, 5, 800)).toBe(false);
+    expect(isTriggerDue(state, { mode: 'posts' }, 4, 800)).toBe(true);
+  });
+
+  it('checks each mode against its own budget', () => {
+    expect(isTriggerDue(state, { mode: 'time' }, 5, 800)).toBe(true);
+    expect(isTriggerDue(state, { mode: 'dwell' }, 5, 800)).toBe(false);
+    expect(isTriggerDue(state, { mode: 'dwell', every: 10 }, 5, 800)).toBe(true);
+    expect(isTriggerDue(state, { mode: 'scroll', every: 3 }, 5, 800)).toBe(true);
+    expect(isTriggerDue(state, { mode: 'scroll', every: 3 }, 5, 1000)).toBe(false);
+  });
+
+  it('scales time and scroll budgets for adaptive frequency', () => {
+    expect(isTriggerDue(state, { mode: 'time' }, 5, 800, 2)).toBe(false);
+    expect(isTriggerDue(state, { mode: 'dwell' }, 5, 800, 0.5)).toBe(true);
+  });
+
+  it('keeps the visit going after a reset', () => {
+    expect(resetTrigger({ ...state, lastVisibleAt: 42 })).toEqual(emptyTriggerState(42));
+  });
+});
+
+describe('trigger persistence', () => {
+  it('round-trips through storage and survives junk', () => {
+    const storage = memoryStorage();
+    const state = { ...emptyTriggerState(100), posts: 3, scrolledPx: 900 };
+    saveTriggerState(storage, state);
+    expect(loadTriggerState(storage, 200)).toEqual(state);
+
+    storage.setItem('scrolllearn-quiz-trigger', '{"posts":"x"');
+    expect(loadTriggerState(storage, 200)).toEqual(emptyTriggerState(200));
+  });
+});
@@ -0,0 +1,258 @@
+// Tests for src/common/reviewLog.ts.
+//
+// Like notebookStore.test.ts, this installs a minimal in-memory IndexedDB
+// shim rather than pulling in fake-indexeddb. The review log leans on
+// autoincrement keys, index lookups, key ranges and an index cursor, so the
+// shim models just those: rows live in insertion order, indexes are
+// evaluated by walking the rows, and IDBKeyRange is a plain bounds object.
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { reviewStreaks } from '../src/common/sessionTime';
+import type { ReviewRecord } from '../src/common/types';
+
+interface FakeRange {
+  lower?: number;
+  upper?: number;
+  lowerOpen: boolean;
+  upperOpen: boolean;
+}
+
+interface FakeRequest<T = unknown> {
+  result: T;
+  error: Error | null;
+  onsuccess: ((this: FakeRequest<T>, ev: Event) => unknown) | null;
+  onerror: ((this: FakeRequest<T>, ev: Event) => unknown) | null;
+  onupgradeneeded?: ((this: FakeRequest<T>, ev: Event) => unknown) | null;
+}
+
+type Row = Record<string, unknown> & { id: number };
+
+let rows: Row[] = [];
+let nextId = 1;
+
+function makeRequest<T>(value: T): FakeRequest<T> {
+  const req: FakeRequest<T> = { result: value, error: null, onsuccess: null, onerror: null };
+  queueMicrotask(() => {
+    req.onsuccess?.call(req, new Event('success'));
+  });
+  return req;
+}
+
+function matches(value: unknown, query: unknown): boolean {
+  if (query === undefined) return true;
+  if (typeof query !== 'object' || query === null) return value === query;
+  const r = query as FakeRange;
+  const v = value as number;
+  if (r.lower !== undefined && (r.lowerOpen ? v <= r.lower : v < r.lower)) return false;
+  if (r.upper !== undefined && (r.upperOpen ? v >= r.upper : v > r.upper)) return false;
+  return true;
+}
+
+function sortedBy(keyPath: string): Row[] {
+  return [...rows].sort((a, b) => (a[keyPath] as number) - (b[keyPath] as number));
+}
+
+function makeIndex(keyPath: string) {
+  return {
+    getAll(query?: unknown) {
+      const out = keyPath === 'timestamp' ? sortedBy(keyPath) : rows;
+      return makeRequest(out.filter(r => matches(r[keyPath], query)).map(r => ({ ...r })));
+    },
+    openCursor(query?: unknown) {
+      const hits = sortedBy(keyPath).filter(r => matches(r[keyPath], query));
+      let i = 0;
+      const req: FakeRequest<{ key: unknown; value: Row; continue(): void } | null> = {
+        result: null,
+        error: null,
+        onsuccess: null,
+        onerror: null,
+      };
+      const step = () => {
+        req.result = i < hits.length
+          ? { key: hits[i][keyPath], value: { ...hits[i] }, continue: () => { i++; queueMicrotask(step); } }
+          : null;
+        req.onsuccess?.call(req, new Event('success'));
+      };
+      queueMicrotask(step);
+      return req;
+    },
+  };
+}
+
+function makeStore() {
+  return {
+    add(value: Record<string, unknown>) {
+      const id = nextId++;
+      rows.push({ ...value, id });
+      return makeRequest(id);
+    },
+    count() {
+      return makeRequest(rows.length);
+    },
+    clear() {
+      rows = [];
+      return makeRequest(undefined);
+    },
+    delete(key: number) {
+      rows = rows.filter(r => r.id !== key);
+      return makeRequest(undefined);
+    },
+    createIndex() { /* indexes are evaluated on read */ },
+    index(name: string) {
+      return makeIndex(name);
+    },
+  };
+}
+
+function makeTransaction() {
+  const tx = {
+    objectStore: () => makeStore(),
+    oncomplete: null as ((ev: Event) => unknown) | null,
+    onerror: null,
+    onabort: null,
+    error: null,
+  };
+  // Fire after the request microtasks (and any cursor walk) have drained.
+  setTimeout(() => tx.oncomplete?.(new Event('complete')), 0);
+  return tx;
+}
+
+function installFakeIndexedDB(): void {
+  const db = {
+    objectStoreNames: { contains: () => false },
+    createObjectStore: () => makeStore(),
+    transaction: () => makeTransaction(),
+  };
+  const fakeIndexedDB = {
+    open() {
+      const req: FakeRequest<typeof db> = {
+        result: db,
+        error: null,
+        onsuccess: null,
+        onerror: null,
+        onupgradeneeded: null,
+      };
+      queueMicrotask(() => {
+        req.onupgradeneeded?.call(req, new Event('upgradeneeded'));
+        queueMicrotask(() => req.onsuccess?.call(req, new Event('success')));
+      });
+      return req;
+    },
+  };
+  const fakeKeyRange = {
+    bound: (lower: number, upper: number, lowerOpen = false, upperOpen = false): FakeRange =>
+      ({ lower, upper, lowerOpen, upperOpen }),
+    lowerBound: (lower: number, open = false): FakeRange => ({ lower, lowerOpen: open, upperOpen: false }),
+    upperBound: (upper: number, open = false): FakeRange => ({ upper, lowerOpen: false, upperOpen: open }),
+  };
+
+  // @ts-expect-error -- patching the Node global for the duration of tests.
+  globalThis.indexedDB = fakeIndexedDB;
+  // @ts-expect-error -- see above.
+  globalThis.IDBKeyRange = fakeKeyRange;
+}
+
+function uninstallFakeIndexedDB(): void {
+  // @ts-expect-error -- see installFakeIndexedDB.
+  delete globalThis.indexedDB;
+  // @ts-expect-error -- see installFakeIndexedDB.
+  delete globalThis.IDBKeyRange;
+}
+
+async function loadLog() {
+  const mod = await import('../src/common/reviewLog');
+  mod.resetDbHandle();
+  return mod;
+}
+
+function rec(cardId: string, deckId: string, timestamp: number): ReviewRecord {
+  return { cardId, deckId, timestamp, grade: 2, responseTimeMs: 1000 };
+}
+
+describe('reviewLog', () => {
+  beforeEach(() => {
+    rows = [];
+    nextId = 1;
+    installFakeIndexedDB();
+  });
+  afterEach(() => {
+    uninstallFakeIndexedDB();
+  });
+
+  it('keeps every appended review, well past the old 1000 cap', async () => {
+    const log = await loadLog();
+    await log.appendReviews(Array.from({ length: 1500 }, (_, i) => rec(`c${i}`, 'd1', i)));
+    expect(await log.countReviews()).toBe(1500);
+  });
+
+  it('returns plain records without the store id', async () => {
+    const log = await loadLog();
+    await log.appendReview(rec('c1', 'd1', 100));
+    expect(await log.getReviews()).toEqual([rec('c1', 'd1', 100)]);
+  });
+
+  it('filters by time range, inclusive from and exclusive to', async () => {
+    const log = await loadLog();
+    await log.appendReviews([rec('a', 'd1', 300), rec('b', 'd1', 100), rec('c', 'd1', 200)]);
+    const ids = (r: ReviewRecord[]) => r.map(x => x.cardId);
+    expect(ids(await log.getReviews())).toEqual(['b', 'c', 'a']);
+    expect(ids(await log.getReviews({ from: 200 }))).toEqual(['c', 'a']);
+    expect(ids(await log.getReviews({ to: 300 }))).toEqual(['b', 'c']);
+    expect(ids(await log.getReviews({ from: 100, to: 200 }))).toEqual(['b']);
+  });
+
+  it('looks up history per card and per deck, oldest first', async () => {
+    const log = await loadLog();
+    await log.appendReviews([
+      rec('c1', 'd1', 30),
+      rec('c2', 'd2', 20),
+      rec('c1', 'd1', 10),
+    ]);
+    expect((await log.getReviewsForCard('c1')).map(r => r.timestamp)).toEqual([10, 30]);
+    expect((await log.getReviewsForDeck('d2')).map(r => r.cardId)).toEqual(['c2']);
+    expect(await log.getReviewsForDeck('d1', { from: 20 })).toEqual([rec('c1', 'd1', 30)]);
+  });
+
+  it('walks timestamps with a cursor', async () => {
+    const log = await loadLog();
+    await log.appendReviews([rec('a', 'd1', 5), rec('b', 'd1', 1), rec('c', 'd1', 3)]);
+    expect(await log.getReviewTimestamps()).toEqual([1, 3, 5]);
+    expect(await log.getReviewTimestamps({ from: 2 })).toEqual([3, 5]);
+  });
+
+  it('leaves history imported from another app out of the streak timestamps', async () => {
+    const log = await loadLog();
+    const now = Date.UTC(2026, 5, 10, 12);
+    const day = 86_400_000;
+    await log.appendReviews([
+      ...[3, 2, 1].map(n => ({ ...rec('anki', 'd1', now - n * day), source: 'anki' as const })),
+      rec('own', 'd1', now),
+    ]);
+    expect(await log.getReviewTimestamps()).toEqual([now]);
+    expect(reviewStreaks(await log.getReviewTimestamps(), now)).toEqual({ current: 1, longest: 1 });
+    expect(await log.countReviews()).toBe(4);
+  });
+
+  it('deletes a single review by the id appendReview returned', async () => {
+    const log = await loadLog();
+    await log.appendReview(rec('c1', 'd1', 1));
+    const id = await log.appendReview(rec('c2', 'd1', 2));
+    await log.deleteReview(id);
+    expect(await log.getReviews()).toEqual([rec('c1', 'd1', 1)]);
+  });
+
+  it('clearAll empties the log', async () => {
+    const log = await loadLog();
+    await log.appendReview(rec('c1', 'd1', 1));
+    await log.clearAll();
+    expect(await log.getReviews()).toEqual([]);
+  });
+
+  it('degrades to empty reads without IndexedDB', async () => {
+    uninstallFakeIndexedDB();
+    const log = await loadLog();
+    expect(log.reviewLogAvailable()).toBe(false);
+    expect(await log.getReviews()).toEqual([]);
+    expect(await log.countReviews()).toBe(0);
+  });
+});
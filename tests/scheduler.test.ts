@@ -1,5 +1,21 @@
 import { describe, it, expect } from 'vitest';
-import { sm2Update, getSchedulingInfo, previewNextIntervals, calculateRetentionRate } from '../src/background/scheduler';
+import {
+  sm2Update,
+  getSchedulingInfo,
+  previewNextIntervals,
+  calculateRetentionRate,
+  scheduleCard,
+  getCardQueue,
+  sortCardsForReview,
+  parseSteps,
+  formatSteps,
+  isWithinDailyLimits,
+  restoreSchedulingFields,
+  isCardActive,
+  isCardDue,
+  buryUntil,
+  siblingsToBury,
+} from '../src/background/scheduler';
 import type { Card } from '../src/common/types';
 
 // Helper to create a test card
@@ -255,3 +271,238 @@ describe('calculateRetentionRate', () => {
   });
 });
 
+
+
+describe('learning steps', () => {
+  const MINUTE = 60 * 1000;
+  const DAY = 86400 * 1000;
+
+  it('derives the queue for cards saved before queues existed', () => {
+    expect(getCardQueue(createTestCard())).toBe('new');
+    expect(getCardQueue(createTestCard({ repetitions: 2, intervalDays: 6 }))).toBe('review');
+    expect(getCardQueue(createTestCard({ repetitions: 0, lapses: 1 }))).toBe('review');
+  });
+
+  it('moves a new card through each learning step before graduating', () => {
+    const deck = { learningSteps: [1, 10, 60] };
+    const before = Date.now();
+    const first = scheduleCard(createTestCard(), 2, deck);
+    expect(first.queue).toBe('learning');
+    expect(first.learningStep).toBe(1);
+    expect(first.intervalDays).toBe(0);
+    expect(first.due).toBeGreaterThanOrEqual(before + 10 * MINUTE);
+    expect(first.repetitions).toBe(0);
+
+    const second = scheduleCard(first, 2, deck);
+    expect(second.learningStep).toBe(2);
+    expect(second.due).toBeGreaterThanOrEqual(before + 60 * MINUTE);
+
+    const graduated = scheduleCard(second, 2, deck);
+    expect(graduated.queue).toBe('review');
+    expect(graduated.learningStep).toBeUndefined();
+    expect(graduated.intervalDays).toBe(1);
+    expect(graduated.repetitions).toBe(1);
+  });
+
+  it('restarts steps on Again and repeats the step on Hard', () => {
+    const deck = { learningSteps: [1, 10] };
+    const learning = createTestCard({ queue: 'learning', learningStep: 1 });
+    const again = scheduleCard(learning, 0, deck);
+    expect(again.learningStep).toBe(0);
+    expect(again.lapses).toBe(0);
+    expect(again.ease).toBe(2.5);
+    const hard = scheduleCard(learning, 1, deck);
+    expect(hard.learningStep).toBe(1);
+  });
+
+  it('graduates immediately on Easy', () => {
+    const graduated = scheduleCard(createTestCard(), 3, { learningSteps: [1, 10] });
+    expect(graduated.queue).toBe('review');
+    expect(graduated.intervalDays).toBe(4);
+  });
+
+  it('graduates on the first answer when a deck has no learning steps', () => {
+    const graduated = scheduleCard(createTestCard(), 2, { learningSteps: [] });
+    expect(graduated.queue).toBe('review');
+    expect(graduated.intervalDays).toBe(1);
+  });
+
+  it('counts Again as a lapse when a deck has no learning steps', () => {
+    const card = createTestCard({ queue: 'learning', repetitions: 1, intervalDays: 1, ease: 2.5 });
+    const before = Date.now();
+    const failed = scheduleCard(card, 0, { learningSteps: [] });
+    expect(failed.queue).toBe('review');
+    expect(failed.learningStep).toBeUndefined();
+    expect(failed.repetitions).toBe(0);
+    expect(failed.lapses).toBe(1);
+    expect(failed.ease).toBe(2.3);
+    expect(failed.due).toBeGreaterThanOrEqual(before + 10 * MINUTE);
+    expect(failed.due).toBeLessThan(before + DAY);
+  });
+
+  it('sends a lapsed review card through relearning steps', () => {
+    const card = createTestCard({ queue: 'review', repetitions: 4, intervalDays: 30 });
+    const before = Date.now();
+    const lapsed = scheduleCard(card, 0, { relearningSteps: [5, 30] });
+    expect(lapsed.queue).toBe('relearning');
+    expect(lapsed.learningStep).toBe(0);
+    expect(lapsed.lapses).toBe(1);
+    expect(lapsed.ease).toBe(2.3);
+    expect(lapsed.due).toBeGreaterThanOrEqual(before + 5 * MINUTE);
+    expect(lapsed.due).toBeLessThan(before + 30 * MINUTE);
+
+    const step = scheduleCard(lapsed, 2, { relearningSteps: [5, 30] });
+    expect(step.queue).toBe('relearning');
+    expect(step.learningStep).toBe(1);
+
+    const regraduated = scheduleCard(step, 2, { relearningSteps: [5, 30] });
+    expect(regraduated.queue).toBe('review');
+    expect(regraduated.intervalDays).toBe(1);
+    expect(regraduated.lapses).toBe(1);
+  });
+
+  it('re-graduates a lapse straight to one day without relearning steps', () => {
+    const card = createTestCard({ queue: 'review', repetitions: 4, intervalDays: 30 });
+    const before = Date.now();
+    const lapsed = scheduleCard(card, 0, { relearningSteps: [] });
+    expect(lapsed.queue).toBe('review');
+    expect(lapsed.intervalDays).toBe(1);
+    expect(lapsed.due).toBeGreaterThanOrEqual(before + DAY);
+  });
+
+  it('leaves successful review answers to the algorithm', () => {
+    const card = createTestCard({ queue: 'review', repetitions: 2, intervalDays: 6, ease: 2.5 });
+    expect(scheduleCard(card, 2).intervalDays).toBe(15);
+  });
+
+  it('sorts intraday learning cards ahead of new and review cards', () => {
+    const now = Date.now();
+    const review = createTestCard({ id: 'review', queue: 'review', repetitions: 3, due: now - 5 * DAY });
+    const fresh = createTestCard({ id: 'new' });
+    const learningLater = createTestCard({ id: 'learning-later', queue: 'learning', learningStep: 1, due: now - MINUTE });
+    const relearningFirst = createTestCard({ id: 'relearning', queue: 'relearning', learningStep: 0, due: now - 2 * MINUTE });
+    const order = sortCardsForReview([review, fresh, learningLater, relearningFirst]).map(c => c.id);
+    expect(order).toEqual(['relearning', 'learning-later', 'new', 'review']);
+  });
+});
+
+describe('parseSteps / formatSteps', () => {
+  it('parses minute, hour and day tokens', () => {
+    expect(parseSteps('1m 10m 1h 1d')).toEqual([1, 10, 60, 1440]);
+  });
+
+  it('treats bare numbers as minutes and drops junk', () => {
+    expect(parseSteps('5, 15 soon')).toEqual([5, 15]);
+    expect(parseSteps('')).toEqual([]);
+  });
+
+  it('round-trips through formatSteps', () => {
+    expect(formatSteps(parseSteps('1m 10m 1h 2d'))).toBe('1m 10m 1h 2d');
+  });
+});
+
+describe('isWithinDailyLimits', () => {
+  const newCard = createTestCard({ queue: 'new' });
+  const reviewCard = createTestCard({ queue: 'review', repetitions: 3, intervalDays: 10 });
+  const learningCard = createTestCard({ queue: 'learning', learningStep: 0 });
+
+  it('allows everything when the deck sets no limits', () => {
+    expect(isWithinDailyLimits(newCard, {}, { newCards: 500, reviews: 500 })).toBe(true);
+    expect(isWithinDailyLimits(reviewCard, undefined, undefined)).toBe(true);
+  });
+
+  it('holds back new cards once the new-card limit is reached', () => {
+    const deck = { newCardsPerDay: 2 };
+    expect(isWithinDailyLimits(newCard, deck, { newCards: 1, reviews: 0 })).toBe(true);
+    expect(isWithinDailyLimits(newCard, deck, { newCards: 2, reviews: 0 })).toBe(false);
+    expect(isWithinDailyLimits(reviewCard, deck, { newCards: 2, reviews: 0 })).toBe(true);
+  });
+
+  it('holds back review cards once the review limit is reached', () => {
+    const deck = { reviewsPerDay: 0 };
+    expect(isWithinDailyLimits(reviewCard, deck, undefined)).toBe(false);
+    expect(isWithinDailyLimits(newCard, deck, undefined)).toBe(true);
+  });
+
+  it('never holds back cards in learning steps', () => {
+    const deck = { newCardsPerDay: 0, reviewsPerDay: 0 };
+    expect(isWithinDailyLimits(learningCard, deck, { newCards: 9, reviews: 9 })).toBe(true);
+  });
+});
+
+describe('restoreSchedulingFields', () => {
+  it('rolls scheduling state back but keeps content edits', () => {
+    const before = createTestCard({ due: 1000, intervalDays: 0, repetitions: 0, queue: 'new' });
+    const answered = createTestCard({
+      front: 'Edited question',
+      due: 5000,
+      intervalDays: 3,
+      repetitions: 1,
+      queue: 'review',
+      stability: 3.2,
+      difficulty: 5,
+      lastReviewedAt: 2000,
+    });
+    const restored = restoreSchedulingFields(answered, before);
+    expect(restored.front).toBe('Edited question');
+    expect(restored.due).toBe(1000);
+    expect(restored.repetitions).toBe(0);
+    expect(restored.queue).toBe('new');
+    expect(restored.stability).toBeUndefined();
+    expect(restored.lastReviewedAt).toBeUndefined();
+  });
+});
+
+describe('suspend and bury', () => {
+  const now = Date.UTC(2025, 5, 1, 15);
+
+  it('never treats a suspended card as due', () => {
+    const card = createTestCard({ due: now - 1000, suspended: true });
+    expect(isCardActive(card, now)).toBe(false);
+    expect(isCardDue(card, now)).toBe(false);
+  });
+
+  it('holds a buried card back until buriedUntil passes', () => {
+    const card = createTestCard({ due: now - 1000, buriedUntil: now + 1000 });
+    expect(isCardDue(card, now)).toBe(false);
+    expect(isCardDue(card, now + 1000)).toBe(true);
+  });
+
+  it('ignores flags', () => {
+    expect(isCardDue(createTestCard({ due: now, flag: 'red' }), now)).toBe(true);
+  });
+
+  it('buries until the next local midnight', () => {
+    const until = new Date(buryUntil(now));
+    expect(until.getTime()).toBeGreaterThan(now);
+    expect(until.getTime() - now).toBeLessThanOrEqual(24 * 3600 * 1000);
+    expect([until.getHours(), until.getMinutes(), until.getSeconds()]).toEqual([0, 0, 0]);
+  });
+});
+
+describe('siblingsToBury', () => {
+  const now = Date.UTC(2025, 5, 1, 15);
+
+  it('buries due siblings of the answered card only', () => {
+    const answered = createTestCard({ id: 'a', siblingGroup: 'g' });
+    const sibling = createTestCard({ id: 'b', siblingGroup: 'g', due: now });
+    const stranger = createTestCard({ id: 'c', siblingGroup: 'other', due: now });
+    const plain = createTestCard({ id: 'd', due: now });
+    expect(siblingsToBury(answered, [answered, sibling, stranger, plain], now).map(c => c.id)).toEqual(['b']);
+  });
+
+  it('leaves suspended, learning and far-off siblings alone', () => {
+    const answered = createTestCard({ id: 'a', siblingGroup: 'g' });
+    const cards = [
+      createTestCard({ id: 's', siblingGroup: 'g', due: now, suspended: true }),
+      createTestCard({ id: 'l', siblingGroup: 'g', due: now, queue: 'learning', learningStep: 0 }),
+      createTestCard({ id: 'f', siblingGroup: 'g', due: now + 5 * 86400 * 1000, queue: 'review', repetitions: 2, intervalDays: 6 }),
+    ];
+    expect(siblingsToBury(answered, cards, now)).toEqual([]);
+  });
+
+  it('does nothing for cards without a sibling group', () => {
+    const answered = createTestCard({ id: 'a' });
+    expect(siblingsToBury(answered, [createTestCard({ id: 'b', due: now })], now)).toEqual([]);
+  });
+});
@@ -4,6 +4,7 @@ import {
   monthWindow,
   reviewsByDow,
   reviewsByHour,
+  reviewStreaks,
   sessionMsInWindow,
   todayWindow,
   weekWindow,
@@ -161,3 +162,30 @@ describe('window presets', () => {
     expect(new Date(w.to).getFullYear()).toBe(2027);
   });
 });
+
+describe('reviewStreaks', () => {
+  const DAY = 24 * HOUR;
+  const now = Date.UTC(2025, 5, 15, 12);
+
+  it('returns zeros for an empty log', () => {
+    expect(reviewStreaks([], now)).toEqual({ current: 0, longest: 0 });
+  });
+
+  it('counts consecutive UTC days ending today', () => {
+    const ts = [now - 2 * DAY, now - DAY, now - DAY + MIN, now];
+    expect(reviewStreaks(ts, now)).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('keeps a streak that last extended yesterday', () => {
+    expect(reviewStreaks([now - 2 * DAY, now - DAY], now).current).toBe(2);
+  });
+
+  it('breaks the current streak after a missed day but keeps the longest', () => {
+    const ts = [now - 10 * DAY, now - 9 * DAY, now - 8 * DAY, now - 2 * DAY];
+    expect(reviewStreaks(ts, now)).toEqual({ current: 0, longest: 3 });
+  });
+
+  it('does not depend on input order', () => {
+    expect(reviewStreaks([now, now - 2 * DAY, now - DAY], now).current).toBe(3);
+  });
+});